@@ -0,0 +1,18 @@
+/*
+  Warnings:
+
+  - A unique constraint covering the columns `[productId,customerId,orderId]` on the table `CartProduct` will be added. If there are existing duplicate values, this will fail.
+
+*/
+-- DropIndex
+DROP INDEX "CartProduct_productId_customerId_key";
+
+-- AlterTable
+ALTER TABLE "CartProduct" ADD COLUMN     "unitPrice" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "totalAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ALTER COLUMN "transactionId" DROP NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CartProduct_productId_customerId_orderId_key" ON "CartProduct"("productId", "customerId", "orderId");
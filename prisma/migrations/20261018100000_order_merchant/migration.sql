@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "merchantId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Order_merchantId_idx" ON "Order"("merchantId");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "PaymentProvider" AS ENUM ('PAYSTACK', 'QUICKTELLER');
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "provider" "PaymentProvider" NOT NULL DEFAULT 'PAYSTACK';
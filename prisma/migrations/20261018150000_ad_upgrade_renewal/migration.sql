@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "AdPaymentAction" AS ENUM ('PURCHASE', 'UPGRADE', 'RENEWAL');
+
+-- DropIndex
+DROP INDEX "MarketerEarnings_AdId_key";
+
+-- AlterTable
+ALTER TABLE "MarketerEarnings" ADD COLUMN     "transactionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "adAction" "AdPaymentAction",
+ADD COLUMN     "adLevel" INTEGER;
+
+-- Every ad had a single successful transaction until now
+UPDATE "MarketerEarnings" e SET "transactionId" = t."id"
+FROM "Transaction" t
+WHERE t."reference" = e."AdId" AND t."for" = 'ADVERTISEMENT' AND t."status" = 'SUCCESS';
+
+UPDATE "Transaction" t SET "adAction" = 'PURCHASE', "adLevel" = a."level"
+FROM "Ad" a
+WHERE t."reference" = a."id" AND t."for" = 'ADVERTISEMENT';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MarketerEarnings_transactionId_key" ON "MarketerEarnings"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "MarketerEarnings_AdId_idx" ON "MarketerEarnings"("AdId");
+
+-- AddForeignKey
+ALTER TABLE "MarketerEarnings" ADD CONSTRAINT "MarketerEarnings_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Ad" ADD COLUMN     "planId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "adDuration" INTEGER,
+ADD COLUMN     "adPlanId" TEXT;
+
+-- CreateTable
+CREATE TABLE "AdPlan" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "level" INTEGER NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "durationDays" INTEGER NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "validFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "validTo" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "AdPlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AdPlan_level_active_idx" ON "AdPlan"("level", "active");
+
+-- AddForeignKey
+ALTER TABLE "Ad" ADD CONSTRAINT "Ad_planId_fkey" FOREIGN KEY ("planId") REFERENCES "AdPlan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the plans that were hard-coded in AdPrices and AdTimeLine
+INSERT INTO "AdPlan" ("id", "name", "level", "price", "durationDays", "updatedAt") VALUES
+    (gen_random_uuid()::text, 'Basic', 1, 3000, 7, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Standard', 2, 5000, 30, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Premium', 3, 10000, 30, CURRENT_TIMESTAMP);
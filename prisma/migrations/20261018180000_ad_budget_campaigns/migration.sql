@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "AdType" AS ENUM ('DURATION', 'BUDGET');
+
+-- CreateEnum
+CREATE TYPE "AdBilling" AS ENUM ('CPC', 'CPM');
+
+-- AlterEnum
+ALTER TYPE "AdPaymentAction" ADD VALUE 'TOP_UP';
+
+-- AlterTable
+ALTER TABLE "Ad" ADD COLUMN     "billing" "AdBilling",
+ADD COLUMN     "budget" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "rate" DOUBLE PRECISION,
+ADD COLUMN     "spent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "type" "AdType" NOT NULL DEFAULT 'DURATION';
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "AdEventType" AS ENUM ('VIEW', 'CLICK');
+
+-- CreateTable
+CREATE TABLE "AdEvent" (
+    "id" TEXT NOT NULL,
+    "type" "AdEventType" NOT NULL,
+    "viewerHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "adId" TEXT NOT NULL,
+    "customerId" TEXT,
+
+    CONSTRAINT "AdEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AdEvent_adId_type_viewerHash_createdAt_idx" ON "AdEvent"("adId", "type", "viewerHash", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AdEvent_adId_type_customerId_createdAt_idx" ON "AdEvent"("adId", "type", "customerId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AdEvent" ADD CONSTRAINT "AdEvent_adId_fkey" FOREIGN KEY ("adId") REFERENCES "Ad"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AdEvent" ADD CONSTRAINT "AdEvent_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "AdEvent" ADD COLUMN     "cost" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "AdEvent_createdAt_idx" ON "AdEvent"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "CartProduct_productId_createdAt_idx" ON "CartProduct"("productId", "createdAt");
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "AdPlacementKey" AS ENUM ('HOME_HERO', 'CATEGORY_PAGE', 'MARKET_PAGE', 'SEARCH_RESULTS');
+
+-- AlterTable
+ALTER TABLE "Ad" ADD COLUMN     "targetCategory" "ProductCategory",
+ADD COLUMN     "targetMarketId" TEXT,
+ADD COLUMN     "targetState" TEXT;
+
+-- AlterTable
+ALTER TABLE "AdEvent" ADD COLUMN     "placementId" TEXT;
+
+-- CreateTable
+CREATE TABLE "AdPlacement" (
+    "id" TEXT NOT NULL,
+    "key" "AdPlacementKey" NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "capacity" INTEGER NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AdPlacement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AdPlacement_key_key" ON "AdPlacement"("key");
+
+-- CreateIndex
+CREATE INDEX "AdEvent_placementId_createdAt_idx" ON "AdEvent"("placementId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Ad" ADD CONSTRAINT "Ad_targetMarketId_fkey" FOREIGN KEY ("targetMarketId") REFERENCES "Market"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AdEvent" ADD CONSTRAINT "AdEvent_placementId_fkey" FOREIGN KEY ("placementId") REFERENCES "AdPlacement"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the placements the storefront renders
+INSERT INTO "AdPlacement" ("id", "key", "name", "capacity", "updatedAt") VALUES
+    (gen_random_uuid()::text, 'HOME_HERO', 'Home Hero', 5, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'CATEGORY_PAGE', 'Category Page', 4, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'MARKET_PAGE', 'Market Page', 4, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'SEARCH_RESULTS', 'Search Results', 3, CURRENT_TIMESTAMP);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Ad" ADD COLUMN     "startsAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing ads started when they were created
+UPDATE "Ad" SET "startsAt" = "createdAt";
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "AdNotificationType" AS ENUM ('EXPIRING', 'EXPIRED', 'AUTO_RENEW_FAILED');
+
+-- AlterTable
+ALTER TABLE "Ad" ADD COLUMN     "authorizationId" TEXT,
+ADD COLUMN     "autoRenew" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "autoRenewAttemptAt" TIMESTAMP(3),
+ADD COLUMN     "autoRenewAttempts" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "AdNotification" (
+    "id" TEXT NOT NULL,
+    "adId" TEXT NOT NULL,
+    "type" "AdNotificationType" NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AdNotification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PaymentAuthorization" (
+    "id" TEXT NOT NULL,
+    "merchantId" TEXT NOT NULL,
+    "provider" "PaymentProvider" NOT NULL,
+    "authorizationCode" TEXT NOT NULL,
+    "signature" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "last4" TEXT NOT NULL,
+    "cardType" TEXT,
+    "bank" TEXT,
+    "expMonth" TEXT NOT NULL,
+    "expYear" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentAuthorization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AdNotification_adId_type_expiresAt_key" ON "AdNotification"("adId", "type", "expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentAuthorization_merchantId_signature_key" ON "PaymentAuthorization"("merchantId", "signature");
+
+-- AddForeignKey
+ALTER TABLE "Ad" ADD CONSTRAINT "Ad_authorizationId_fkey" FOREIGN KEY ("authorizationId") REFERENCES "PaymentAuthorization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AdNotification" ADD CONSTRAINT "AdNotification_adId_fkey" FOREIGN KEY ("adId") REFERENCES "Ad"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentAuthorization" ADD CONSTRAINT "PaymentAuthorization_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
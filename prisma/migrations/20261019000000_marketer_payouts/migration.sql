@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "PayoutStatus" AS ENUM ('PENDING', 'SENT', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "MarketerEarnings" ADD COLUMN     "payoutId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Payout" (
+    "id" TEXT NOT NULL,
+    "marketerId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "status" "PayoutStatus" NOT NULL DEFAULT 'PENDING',
+    "approvedById" TEXT NOT NULL,
+    "bankReference" TEXT,
+    "accountName" TEXT NOT NULL,
+    "accountBank" TEXT NOT NULL,
+    "accountNumber" TEXT NOT NULL,
+    "failureReason" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "failedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Payout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MarketerEarnings_payoutId_idx" ON "MarketerEarnings"("payoutId");
+
+-- CreateIndex
+CREATE INDEX "Payout_marketerId_idx" ON "Payout"("marketerId");
+
+-- CreateIndex
+CREATE INDEX "Payout_status_idx" ON "Payout"("status");
+
+-- AddForeignKey
+ALTER TABLE "MarketerEarnings" ADD CONSTRAINT "MarketerEarnings_payoutId_fkey" FOREIGN KEY ("payoutId") REFERENCES "Payout"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payout" ADD CONSTRAINT "Payout_marketerId_fkey" FOREIGN KEY ("marketerId") REFERENCES "Marketer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payout" ADD CONSTRAINT "Payout_approvedById_fkey" FOREIGN KEY ("approvedById") REFERENCES "Customer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Payout" ADD COLUMN     "provider" "PaymentProvider",
+ADD COLUMN     "recipientCode" TEXT,
+ADD COLUMN     "transferCode" TEXT,
+ADD COLUMN     "transferInitiatedAt" TIMESTAMP(3),
+ADD COLUMN     "transferReference" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payout_transferReference_key" ON "Payout"("transferReference");
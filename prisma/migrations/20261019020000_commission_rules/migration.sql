@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "MarketerEarningType" AS ENUM ('AD_COMMISSION', 'SIGNUP_BONUS');
+
+-- DropForeignKey
+ALTER TABLE "MarketerEarnings" DROP CONSTRAINT "MarketerEarnings_AdId_fkey";
+
+-- AlterTable
+ALTER TABLE "MarketerEarnings" ADD COLUMN     "commissionRuleId" TEXT,
+ADD COLUMN     "percentage" DOUBLE PRECISION,
+ADD COLUMN     "type" "MarketerEarningType" NOT NULL DEFAULT 'AD_COMMISSION',
+ALTER COLUMN "AdId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "CommissionRule" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "tiers" JSONB NOT NULL,
+    "signupBonus" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "eligibilityMonths" INTEGER NOT NULL DEFAULT 6,
+    "activeWindowDays" INTEGER NOT NULL DEFAULT 30,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CommissionRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CommissionRule_version_key" ON "CommissionRule"("version");
+
+-- AddForeignKey
+ALTER TABLE "MarketerEarnings" ADD CONSTRAINT "MarketerEarnings_AdId_fkey" FOREIGN KEY ("AdId") REFERENCES "Ad"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketerEarnings" ADD CONSTRAINT "MarketerEarnings_commissionRuleId_fkey" FOREIGN KEY ("commissionRuleId") REFERENCES "CommissionRule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommissionRule" ADD CONSTRAINT "CommissionRule_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Version 1 is the flat 10% commission used so far, with no signup bonus and a six month window
+INSERT INTO "CommissionRule" ("id", "version", "tiers", "signupBonus", "eligibilityMonths", "activeWindowDays") VALUES
+    (gen_random_uuid()::text, 1, '[{"minActiveMerchants": 0, "percentage": 10}]', 0, 6, 30);
+
+UPDATE "MarketerEarnings"
+SET "commissionRuleId" = (SELECT "id" FROM "CommissionRule" WHERE "version" = 1),
+    "percentage" = 10;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Marketer" ADD COLUMN     "customerId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Marketer_customerId_key" ON "Marketer"("customerId");
+
+-- AddForeignKey
+ALTER TABLE "Marketer" ADD CONSTRAINT "Marketer_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Link marketers to the verified customer accounts that share their email
+UPDATE "Marketer" m SET "customerId" = c."id"
+FROM "Customer" c
+WHERE c."email" = m."email" AND c."emailVerifiedAt" IS NOT NULL;
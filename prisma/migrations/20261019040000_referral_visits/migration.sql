@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "ReferralVisit" (
+    "id" TEXT NOT NULL,
+    "marketerId" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "referer" TEXT,
+    "merchantId" TEXT,
+    "convertedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReferralVisit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReferralVisit_merchantId_key" ON "ReferralVisit"("merchantId");
+
+-- CreateIndex
+CREATE INDEX "ReferralVisit_marketerId_createdAt_idx" ON "ReferralVisit"("marketerId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReferralVisit_fingerprint_createdAt_idx" ON "ReferralVisit"("fingerprint", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ReferralVisit" ADD CONSTRAINT "ReferralVisit_marketerId_fkey" FOREIGN KEY ("marketerId") REFERENCES "Marketer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReferralVisit" ADD CONSTRAINT "ReferralVisit_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
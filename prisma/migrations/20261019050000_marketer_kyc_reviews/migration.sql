@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "MarketerKycStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'RESUBMISSION_REQUESTED');
+
+-- AlterTable
+ALTER TABLE "Marketer" ADD COLUMN     "kycStatus" "MarketerKycStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN     "kycSubmittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateTable
+CREATE TABLE "MarketerKycReview" (
+    "id" TEXT NOT NULL,
+    "marketerId" TEXT NOT NULL,
+    "status" "MarketerKycStatus" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "reviewedById" TEXT NOT NULL,
+    "identityCredentialType" TEXT NOT NULL,
+    "identityCredentialImage" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MarketerKycReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MarketerKycReview_marketerId_idx" ON "MarketerKycReview"("marketerId");
+
+-- AddForeignKey
+ALTER TABLE "MarketerKycReview" ADD CONSTRAINT "MarketerKycReview_marketerId_fkey" FOREIGN KEY ("marketerId") REFERENCES "Marketer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketerKycReview" ADD CONSTRAINT "MarketerKycReview_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "Customer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Marketers verified before reviews existed count as approved, the rest wait in the queue
+UPDATE "Marketer" SET "kycStatus" = 'APPROVED' WHERE "verified" = true;
+UPDATE "Marketer" SET "kycSubmittedAt" = "createdAt";
+
+-- Referrer codes are only handed out on approval
+UPDATE "Marketer" SET "referrerCode" = NULL WHERE "verified" = false;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Merchant" ADD COLUMN     "verified" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "MerchantVerification" ADD COLUMN     "reason" TEXT,
+ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedById" TEXT,
+ALTER COLUMN "status" SET DEFAULT 'PENDING';
+
+-- CreateIndex
+CREATE INDEX "MerchantVerification_merchantId_idx" ON "MerchantVerification"("merchantId");
+
+-- CreateIndex
+CREATE INDEX "MerchantVerification_status_createdAt_idx" ON "MerchantVerification"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "MerchantVerification" ADD CONSTRAINT "MerchantVerification_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Merchants with approved identity and business documents get the badge
+UPDATE "Merchant" m SET "verified" = true
+WHERE EXISTS (
+  SELECT 1 FROM "MerchantVerification" v
+  WHERE v."merchantId" = m."id" AND v."status" = 'APPROVED' AND v."deletedAt" IS NULL
+    AND v."type" = 'IDENTITY_VERIFICATION'
+) AND EXISTS (
+  SELECT 1 FROM "MerchantVerification" v
+  WHERE v."merchantId" = m."id" AND v."status" = 'APPROVED' AND v."deletedAt" IS NULL
+    AND v."type" = 'BUSINESS_REGISTRATION'
+);
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "MerchantVerification" ADD COLUMN     "checkedAt" TIMESTAMP(3),
+ADD COLUMN     "idNumber" TEXT,
+ADD COLUMN     "matchScore" DOUBLE PRECISION,
+ADD COLUMN     "verifier" TEXT,
+ADD COLUMN     "verifierResponse" JSONB;
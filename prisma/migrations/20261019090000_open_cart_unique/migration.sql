@@ -0,0 +1,17 @@
+-- NULLs are distinct in unique indexes, so the index over "orderId" and "variantId" never
+-- stopped duplicate open cart rows. Open rows are made unique with a partial index instead.
+
+-- DropIndex
+DROP INDEX "CartProduct_productId_variantId_customerId_orderId_key";
+
+-- Keep only the latest open row of each cart item
+DELETE FROM "CartProduct" a
+USING "CartProduct" b
+WHERE a."orderId" IS NULL AND b."orderId" IS NULL
+  AND a."customerId" = b."customerId"
+  AND a."productId" = b."productId"
+  AND a."variantId" IS NOT DISTINCT FROM b."variantId"
+  AND (a."createdAt", a."id") < (b."createdAt", b."id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CartProduct_open_cart_key" ON "CartProduct"("customerId", "productId", COALESCE("variantId", '')) WHERE "orderId" IS NULL;
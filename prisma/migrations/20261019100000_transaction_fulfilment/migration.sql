@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "appliedAdId" TEXT,
+ADD COLUMN     "fulfilledAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Transaction_status_fulfilledAt_idx" ON "Transaction"("status", "fulfilledAt");
+
+-- Payments completed before fulfilment was tracked were applied to the ad they reference
+UPDATE "Transaction" SET "fulfilledAt" = "updatedAt",
+  "appliedAdId" = CASE WHEN "for" = 'ADVERTISEMENT' THEN "reference" END
+WHERE "status" IN ('SUCCESS', 'REFUNDED');
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "RefundRequestStatus" ADD VALUE 'PROCESSING' BEFORE 'APPROVED';
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "refundedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Refunds approved so far each refunded the one payment they were requested for
+UPDATE "Transaction" t SET "refundedAmount" = r."amount"
+FROM "RefundRequest" r
+WHERE r."transactionId" = t."id" AND r."status" = 'APPROVED';
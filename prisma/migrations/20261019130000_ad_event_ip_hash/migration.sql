@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "AdEvent" ADD COLUMN     "ipHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "AdEvent_adId_type_ipHash_createdAt_idx" ON "AdEvent"("adId", "type", "ipHash", "createdAt");
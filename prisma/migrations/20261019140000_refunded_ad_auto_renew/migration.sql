@@ -0,0 +1,10 @@
+-- Ads refunded so far kept auto-renew on and their saved card, unless they were paid for again since
+UPDATE "Ad" a SET "autoRenew" = false, "authorizationId" = NULL
+WHERE EXISTS (
+  SELECT 1 FROM "Transaction" r
+  WHERE r."appliedAdId" = a."id" AND r."status" = 'REFUNDED'
+    AND NOT EXISTS (
+      SELECT 1 FROM "Transaction" t
+      WHERE t."appliedAdId" = a."id" AND t."status" = 'SUCCESS' AND t."date" > r."date"
+    )
+);
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "PaymentStatus" ADD VALUE 'PARTIALLY_REFUNDED';
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "refundPendingAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "RefundRequest" ADD COLUMN "awaitingRefund" BOOLEAN NOT NULL DEFAULT false;
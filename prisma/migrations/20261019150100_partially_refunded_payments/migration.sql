@@ -0,0 +1,5 @@
+-- Payments refunded in part were marked REFUNDED with the rest of the refunds. A new enum
+-- value cannot be used in the migration that adds it, so they are moved here.
+UPDATE "Transaction"
+SET "status" = 'PARTIALLY_REFUNDED'
+WHERE "status" = 'REFUNDED' AND "refundedAmount" < "amount";
@@ -1,10 +1,10 @@
 import { NextFunction, Request, RequestHandler, Response } from "express";
+import { AdEventType } from "@prisma/client";
 import { AdService } from "./ad.service";
 import { ResponseDto } from "../dtos/response.dto";
 import { ResponseStatus } from "../dtos/interfaces/response.interface";
 import { HttpStatus } from "../constants/http-status.enum";
 import { SuccessMessages } from "../constants/success-messages.enum";
-import { AdPrices } from "../constants/ad-constants.enum";
 
 export class AdController {
   constructor(private readonly adService: AdService) {}
@@ -51,9 +51,12 @@ export class AdController {
   ) => {
     try {
       const result = await this.adService.initializeAdPayment(
-        parseInt(request.params.level) as unknown as keyof typeof AdPrices,
+        parseInt(request.params.level),
         request.params.productId,
-        request.body.merchant
+        request.body.merchant,
+        request.body.provider,
+        request.body.couponCode,
+        request.body.startsAt
       );
       const resObj = new ResponseDto(
         ResponseStatus.SUCCESS,
@@ -66,6 +69,243 @@ export class AdController {
     }
   };
 
+  /**
+   * Initialize Ad Upgrade Payment
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+
+  initializeAdUpgrade: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adService.initializeAdUpgrade(
+        request.params.adId,
+        parseInt(request.params.level),
+        request.body.merchant,
+        request.body.provider,
+        request.body.couponCode
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.AD_UPGRADE_INITIALIZATION_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Initialize Ad Renewal Payment
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+
+  initializeAdRenewal: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adService.initializeAdRenewal(
+        request.params.adId,
+        request.body.merchant,
+        request.body.provider,
+        request.body.couponCode
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.AD_RENEWAL_INITIALIZATION_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Initialize Budget Ad Payment
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+
+  initializeBudgetAd: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adService.initializeBudgetAd(
+        request.params.productId,
+        request.body.billing,
+        request.body.budget,
+        request.body.merchant,
+        request.body.provider,
+        request.body.couponCode,
+        request.body.startsAt
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.BUDGET_AD_INITIALIZATION_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Initialize Budget Ad Top Up Payment
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+
+  initializeBudgetTopUp: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adService.initializeBudgetTopUp(
+        request.params.adId,
+        request.body.amount,
+        request.body.merchant,
+        request.body.provider,
+        request.body.couponCode
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.AD_TOP_UP_INITIALIZATION_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get Budget Ad Spend
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+
+  getAdSpend: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adService.getAdSpend(
+        request.params.adId,
+        request.body.merchant
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_AD_SPEND_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get Merchant Budget Ads Spend
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+
+  getMerchantAdSpend: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adService.getMerchantAdSpend(
+        request.body.merchant
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_AD_SPEND_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get Merchant Saved Cards
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+
+  getPaymentAuthorizations: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adService.getPaymentAuthorizations(
+        request.body.merchant
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_PAYMENT_AUTHORIZATIONS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Turn Ad Auto-Renew On or Off
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+
+  setAutoRenew: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adService.setAutoRenew(
+        request.params.adId,
+        request.body.merchant,
+        request.body.enabled,
+        request.body.authorizationId
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.AUTO_RENEW_UPDATE_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
   /**
    * Verify Ad Payment
    * @param request {Request}
@@ -195,7 +435,15 @@ export class AdController {
     next: NextFunction
   ) => {
     try {
-      await this.adService.incrementAdClicks(request.params.adId);
+      await this.adService.trackAdEvent(
+        request.params.adId,
+        AdEventType.CLICK,
+        {
+          ip: request.ip,
+          userAgent: request.get("user-agent"),
+          customerId: request.body.customer?.id,
+        }
+      );
       return response.status(HttpStatus.NO_CONTENT).send();
     } catch (e) {
       next(e);
@@ -214,7 +462,11 @@ export class AdController {
     next: NextFunction
   ) => {
     try {
-      await this.adService.incrementAdViews(request.params.adId);
+      await this.adService.trackAdEvent(request.params.adId, AdEventType.VIEW, {
+        ip: request.ip,
+        userAgent: request.get("user-agent"),
+        customerId: request.body.customer?.id,
+      });
       return response.status(HttpStatus.NO_CONTENT).send();
     } catch (e) {
       next(e);
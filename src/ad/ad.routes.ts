@@ -1,7 +1,8 @@
 import { Router } from "express";
 import { AdService } from "./ad.service";
 import { AdRepository } from "../repositories/ad.repository";
-import { PaystackPaymentRepository } from "../repositories/payment.repository";
+import { AdPlanRepository } from "../repositories/ad-plan.repository";
+import { AdEventRepository } from "../repositories/ad-event.repository";
 import { ProductRepository } from "../repositories/product.repository";
 import { TransactionRepository } from "../repositories/transaction.repository";
 import { WinstonLogger } from "../utils/logger/winston.logger";
@@ -11,30 +12,76 @@ import { MerchantAuthGaurd } from "../utils/middlewares/guards/merchant.auth.gua
 import { MerchantRepository } from "../repositories/merchant.repository";
 import { JWTService } from "../utils/jwt/jwt.service";
 import { InitializeAdPaymentDto } from "./dtos/initialize-ad-payment.dto";
+import { InitializeAdPaymentBodyDto } from "./dtos/initialize-ad-payment-body.dto";
+import { PurchaseAdBodyDto } from "./dtos/purchase-ad-body.dto";
 import { IdDto } from "./dtos/Id.dto";
+import { UpgradeAdDto } from "./dtos/upgrade-ad.dto";
+import { BudgetAdDto } from "./dtos/budget-ad.dto";
+import { TopUpAdDto } from "./dtos/top-up-ad.dto";
 import { ProductIdDto } from "./dtos/productId.dto";
 import { CustomerAuthGaurd } from "../utils/middlewares/guards/customer.auth.guard";
 import { CustomerRepository } from "../repositories/customer.repository";
 import { marketerService } from "../marketer/marketer.routes";
+import { paymentGateway } from "../utils/payment";
+import AdRefundRouter from "./refund/refund.routes";
+import AdPlanRouter from "./plan/plan.routes";
+import AdCouponRouter, { adCouponService } from "./coupon/coupon.routes";
+import AdAnalyticsRouter from "./analytics/analytics.routes";
+import { AdPlacementService } from "./placement/placement.service";
+import { AdPlacementController } from "./placement/placement.controller";
+import { AdPlacementRepository } from "../repositories/ad-placement.repository";
+import { MarketRepository } from "../repositories/market.repository";
+import { PlacementKeyDto } from "./dtos/placement-key.dto";
+import { PlacementQueryDto } from "./dtos/placement-query.dto";
+import { PlacementUpdateDto } from "./dtos/placement-update.dto";
+import { AdTargetingDto } from "./dtos/ad-targeting.dto";
+import { AutoRenewDto } from "./dtos/auto-renew.dto";
+import { PaymentAuthorizationRepository } from "../repositories/payment-authorization.repository";
+import { AdNotificationRepository } from "../repositories/ad-notification.repository";
+import { AdLifecycleService } from "./lifecycle/lifecycle.service";
+import { EmailService } from "../utils/email/email.service";
+import { Role } from "@prisma/client";
 const router = Router();
 
 const merchantRepository = new MerchantRepository();
 const customerRepository = new CustomerRepository();
 const jwtService = new JWTService();
 const adRepository = new AdRepository();
-const paymentService = new PaystackPaymentRepository();
+const adEventRepository = new AdEventRepository();
+const adPlanRepository = new AdPlanRepository();
 const productRepository = new ProductRepository();
 const transactionRepository = new TransactionRepository();
 const logger = new WinstonLogger("AdService");
-const adService = new AdService(
+export const adService = new AdService(
   adRepository,
-  paymentService,
+  adEventRepository,
+  adPlanRepository,
+  adCouponService,
+  paymentGateway,
   productRepository,
   transactionRepository,
+  new PaymentAuthorizationRepository(),
   marketerService,
   logger
 );
 const adController = new AdController(adService);
+// Placements serve ads through AdService so impressions are tracked like any other view
+const adPlacementService = new AdPlacementService(
+  new AdPlacementRepository(),
+  adRepository,
+  new MarketRepository(),
+  adService,
+  new WinstonLogger("AdPlacementService")
+);
+const adPlacementController = new AdPlacementController(adPlacementService);
+// Started with the server, emails merchants about expiring ads and runs auto-renewals
+export const adLifecycleService = new AdLifecycleService(
+  adRepository,
+  new AdNotificationRepository(),
+  adService,
+  new EmailService(),
+  new WinstonLogger("AdLifecycleService")
+);
 
 const validator = new Validator();
 const customerAuthGuard = new CustomerAuthGaurd(
@@ -58,11 +105,91 @@ router.post(
 // Initialize Ad Payment
 router.post(
   "/initialize/:level/:productId",
-  validator.single(InitializeAdPaymentDto, "params"),
+  validator.multiple([
+    { schema: InitializeAdPaymentDto, source: "params" },
+    { schema: PurchaseAdBodyDto, source: "body" },
+  ]),
   merchantAuthGaurd.authorise({ strict: true }),
   adController.initializeAdPayment
 );
 
+// Upgrade a running paid Ad to a higher level
+router.post(
+  "/:adId/upgrade/:level",
+  validator.multiple([
+    { schema: UpgradeAdDto, source: "params" },
+    { schema: InitializeAdPaymentBodyDto, source: "body" },
+  ]),
+  merchantAuthGaurd.authorise({ strict: true }),
+  adController.initializeAdUpgrade
+);
+
+// Renew a paid Ad for another period of its level
+router.post(
+  "/:adId/renew",
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: InitializeAdPaymentBodyDto, source: "body" },
+  ]),
+  merchantAuthGaurd.authorise({ strict: true }),
+  adController.initializeAdRenewal
+);
+
+// Initialize Budget Ad Payment (CPC or CPM)
+router.post(
+  "/budget/:productId",
+  validator.multiple([
+    { schema: ProductIdDto, source: "params" },
+    { schema: BudgetAdDto, source: "body" },
+  ]),
+  merchantAuthGaurd.authorise({ strict: true }),
+  adController.initializeBudgetAd
+);
+
+// Top up a Budget Ad
+router.post(
+  "/:adId/top-up",
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: TopUpAdDto, source: "body" },
+  ]),
+  merchantAuthGaurd.authorise({ strict: true }),
+  adController.initializeBudgetTopUp
+);
+
+// Get Spend and Remaining Budget of the Merchant's Budget Ads
+router.get(
+  "/spend",
+  merchantAuthGaurd.authorise({ strict: true }),
+  adController.getMerchantAdSpend
+);
+
+// Get Spend and Remaining Budget of a Budget Ad
+router.get(
+  "/:adId/spend",
+  validator.single(IdDto, "params"),
+  merchantAuthGaurd.authorise({ strict: true }),
+  adController.getAdSpend
+);
+
+// Get the Merchant's Saved Cards for Auto-Renew
+router.get(
+  "/payment-authorizations",
+  merchantAuthGaurd.authorise({ strict: true }),
+  adController.getPaymentAuthorizations
+);
+
+// Turn Auto-Renew On or Off for a Paid Ad
+router.put(
+  "/:adId/auto-renew",
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: AutoRenewDto, source: "body" },
+  ]),
+  merchantAuthGaurd.authorise({ strict: true }),
+  adController.setAutoRenew
+);
+
 // Verify Ad Payment
 router.get(
   "/verify/:reference",
@@ -70,6 +197,54 @@ router.get(
   adController.verifyAdPayment
 );
 
+// Ad Refunds
+router.use("/refunds", AdRefundRouter);
+
+// Ad Plans
+router.use("/plans", AdPlanRouter);
+
+// Ad Coupons
+router.use("/coupons", AdCouponRouter);
+
+// Ad Analytics
+router.use(AdAnalyticsRouter);
+
+// Get Ad Placements and their capacity
+router.get("/placements", adPlacementController.getPlacements);
+
+// Update Ad Placement (Admin)
+router.put(
+  "/placements/:placement",
+  validator.multiple([
+    { schema: PlacementKeyDto, source: "params" },
+    { schema: PlacementUpdateDto, source: "body" },
+  ]),
+  customerAuthGuard.authorise({ strict: true, role: Role.ADMIN }),
+  adPlacementController.updatePlacement
+);
+
+// Get Ads ranked for a placement and its context, each served ad counts as a view
+router.get(
+  "/placements/:placement/ads",
+  validator.multiple([
+    { schema: PlacementKeyDto, source: "params" },
+    { schema: PlacementQueryDto, source: "query" },
+  ]),
+  customerAuthGuard.authorise({ strict: false, allowUnauthenticated: true }),
+  adPlacementController.getPlacementAds
+);
+
+// Set the category, market and state an Ad targets
+router.put(
+  "/:adId/targeting",
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: AdTargetingDto, source: "body" },
+  ]),
+  merchantAuthGaurd.authorise({ strict: true }),
+  adPlacementController.updateAdTargeting
+);
+
 // Get Ads (with optional filters)
 router.get("/all", adController.getAllFilteredAds);
 
@@ -81,16 +256,18 @@ router.get(
   validator.single(ProductIdDto, "params"),
   adController.getAdByProduct
 );
-// Track Ad Click
+// Track Ad Click (signed in customers are identified, everyone else by IP and user agent)
 router.put(
   "/:adId/click",
   validator.single(IdDto, "params"),
+  customerAuthGuard.authorise({ strict: false, allowUnauthenticated: true }),
   adController.trackAdClick
 );
 // Track Ad View
 router.put(
   "/:adId/view",
   validator.single(IdDto, "params"),
+  customerAuthGuard.authorise({ strict: false, allowUnauthenticated: true }),
   adController.trackAdView
 );
 
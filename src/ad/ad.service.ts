@@ -1,8 +1,21 @@
-import { Merchant, PaymentFor, PaymentStatus } from "@prisma/client";
-import { AdPrices, AdTimeLine } from "../constants/ad-constants.enum";
+import {
+  Ad,
+  AdBilling,
+  AdEventType,
+  AdPaymentAction,
+  AdPlan,
+  AdType,
+  Merchant,
+  PaymentFor,
+  PaymentProvider,
+  PaymentStatus,
+  Prisma,
+  Transaction,
+} from "@prisma/client";
+import { AdTimeLine, BudgetAdLevel } from "../constants/ad-constants.enum";
+import { AdPlanRepository } from "../repositories/ad-plan.repository";
 import { ErrorMessages } from "../constants/error-messages.enum";
 import { AdRepository } from "../repositories/ad.repository";
-import { PaystackPaymentRepository } from "../repositories/payment.repository";
 import { ProductRepository } from "../repositories/product.repository";
 import { TransactionRepository } from "../repositories/transaction.repository";
 import { BadRequestException } from "../utils/exceptions/bad-request.exception";
@@ -12,17 +25,69 @@ import { ILogger } from "../utils/logger/logger.interface";
 import { UnauthorizedException } from "../utils/exceptions/unauthorized.exception";
 import moment from "moment-timezone";
 import { MarketerService } from "../marketer/marketer.service";
+import { PaymentGatewayService } from "../utils/payment/payment-gateway.service";
+import {
+  IPaymentProvider,
+  PaymentVerification,
+  ReusableAuthorization,
+} from "../utils/payment/payment-provider.interface";
+import { NotFoundException } from "../utils/exceptions/not-found.exception";
+import { AdCouponService, CouponDiscount } from "./coupon/coupon.service";
+import { configService } from "../utils/config/config.service";
+import { cryptoService } from "../utils/crytpo/crypto.service";
+import { isBot } from "../utils/helpers/bot-detector";
+import { AdEventRepository } from "../repositories/ad-event.repository";
+import { AdViewer } from "../interfaces/ad-viewer.interface";
+import { PaymentAuthorizationRepository } from "../repositories/payment-authorization.repository";
 
 export class AdService {
   constructor(
     private readonly adRepository: AdRepository,
-    private readonly paymentService: PaystackPaymentRepository,
+    private readonly adEventRepository: AdEventRepository,
+    private readonly adPlanRepository: AdPlanRepository,
+    private readonly adCouponService: AdCouponService,
+    private readonly paymentGateway: PaymentGatewayService,
     private readonly productRepository: ProductRepository,
     private readonly transactionRepository: TransactionRepository,
+    private readonly paymentAuthorizationRepository: PaymentAuthorizationRepository,
     private readonly marketerService: MarketerService,
     private readonly logger: ILogger
   ) {}
 
+  /** Naira charged per click on a CPC budget ad */
+  private get cpcRate(): number {
+    return Number(configService.get<string>("AD_CPC_RATE", "50"));
+  }
+
+  /** Naira charged per 1000 views on a CPM budget ad */
+  private get cpmRate(): number {
+    return Number(configService.get<string>("AD_CPM_RATE", "500"));
+  }
+
+  private get minimumBudget(): number {
+    return Number(configService.get<string>("AD_MIN_BUDGET", "1000"));
+  }
+
+  /** Repeated views or clicks of an ad by the same viewer within this window are ignored */
+  private get eventThrottleMinutes(): number {
+    return Number(configService.get<string>("AD_EVENT_THROTTLE_MINUTES", "30"));
+  }
+
+  /** Events of a type one IP address can add to an ad per throttle window */
+  private get eventIpLimit(): number {
+    return Number(configService.get<string>("AD_EVENT_IP_LIMIT", "5"));
+  }
+
+  /** Budget ads stop after this many days even if budget is left */
+  private get budgetAdDays(): number {
+    return Number(configService.get<string>("BUDGET_AD_MAX_DAYS", "90"));
+  }
+
+  /** How far ahead a paid ad can be scheduled to start */
+  private get maxScheduleDays(): number {
+    return Number(configService.get<string>("AD_MAX_SCHEDULE_DAYS", "90"));
+  }
+
   async activateFreeAd(productId: string, merchant: Merchant) {
     try {
       // Check if the product exists
@@ -56,51 +121,102 @@ export class AdService {
   }
 
   async initializeAdPayment(
-    level: keyof typeof AdPrices,
+    level: number,
     productId: string,
-    merchant: Merchant
+    merchant: Merchant,
+    providerName?: PaymentProvider,
+    couponCode?: string,
+    startsAt?: string
   ) {
     try {
+      const provider = this.paymentGateway.getProvider(providerName);
+      const startDate = this.getStartDate(startsAt);
+
       // Check if the product exists
       const product = await this.productRepository.getById(productId);
       if (!product)
         throw new BadRequestException(ErrorMessages.PRODUCT_NOT_FOUND);
 
+      // A product can only have one paid ad running, it should be upgraded or renewed instead
+      const activeAd = await this.adRepository.getActivePaidAd(productId);
+      if (activeAd)
+        throw new BadRequestException(ErrorMessages.ACTIVE_AD_EXISTS);
+
+      // Charge the plan in effect now, later price changes do not apply to this purchase
+      const plan = await this.getCurrentPlan(level);
+      const discount = await this.applyCoupon(
+        couponCode,
+        plan.price,
+        merchant,
+        productId
+      );
+
       // Create a new Ad
       const ad = await this.adRepository.create({
         level,
+        startsAt: startDate,
         product: { connect: { id: productId } },
       });
-      // Create Transaction
-      const transaction = await this.transactionRepository.create(
-        {
-          amount: AdPrices[level],
-          for: PaymentFor.ADVERTISEMENT,
-          status: PaymentStatus.INITIALIZED,
-          reference: ad.id,
-        },
-        merchant.id
+      return await this.startAdPayment(
+        ad,
+        plan.price,
+        AdPaymentAction.PURCHASE,
+        plan,
+        merchant,
+        provider,
+        discount
+      );
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.AD_PAYMENT_INITIALIZATION_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.AD_PAYMENT_INITIALIZATION_FAILED
       );
+    }
+  }
 
-      const paystackReference = `txn-${transaction.id}`;
-      // ! Already intializing payment from frontend
-      // const paymentInit = await this.paymentService.initializePayment(
-      //   merchant.email,
-      //   transaction.amount,
-      //   `txn-${transaction.id}`
-      // );
+  /**
+   * Moves a running paid ad to a higher level, charging only the price difference
+   */
+  async initializeAdUpgrade(
+    adId: string,
+    level: number,
+    merchant: Merchant,
+    providerName?: PaymentProvider,
+    couponCode?: string
+  ) {
+    try {
+      const provider = this.paymentGateway.getProvider(providerName);
+      const ad = await this.getMerchantAd(adId, merchant);
 
-      // if (!paymentInit)
-      //   throw new InternalServerException(
-      //     ErrorMessages.AD_PAYMENT_INITIALIZATION_FAILED
-      //   );
+      if (ad.type === AdType.BUDGET)
+        throw new BadRequestException(ErrorMessages.BUDGET_AD_NOT_UPGRADABLE);
+      if (!this.isActivePaidAd(ad))
+        throw new BadRequestException(ErrorMessages.AD_NOT_ACTIVE);
+      if (level <= ad.level)
+        throw new BadRequestException(ErrorMessages.INVALID_AD_UPGRADE);
 
-      return {
-        // authorization_url: paymentInit.data.authorization_url,
-        // access_code: paymentInit.data.access_code,
-        reference: paystackReference,
-        transactionId: transaction.id,
-      };
+      const plan = await this.getCurrentPlan(level);
+      const currentPlan = await this.adPlanRepository.getCurrentPlan(ad.level);
+      const amount = plan.price - (currentPlan?.price ?? 0);
+      if (amount <= 0)
+        throw new BadRequestException(ErrorMessages.INVALID_AD_UPGRADE);
+      const discount = await this.applyCoupon(
+        couponCode,
+        amount,
+        merchant,
+        ad.productId
+      );
+
+      return await this.startAdPayment(
+        ad,
+        amount,
+        AdPaymentAction.UPGRADE,
+        plan,
+        merchant,
+        provider,
+        discount
+      );
     } catch (error) {
       if (error instanceof BaseException) throw error;
       this.logger.error(ErrorMessages.AD_PAYMENT_INITIALIZATION_FAILED, error);
@@ -110,6 +226,339 @@ export class AdService {
     }
   }
 
+  /**
+   * Extends a paid ad by another period of its level, from its current expiry
+   * or from now if it has already expired
+   */
+  async initializeAdRenewal(
+    adId: string,
+    merchant: Merchant,
+    providerName?: PaymentProvider,
+    couponCode?: string
+  ) {
+    try {
+      const provider = this.paymentGateway.getProvider(providerName);
+      const ad = await this.getMerchantAd(adId, merchant);
+
+      if (ad.type === AdType.BUDGET)
+        throw new BadRequestException(ErrorMessages.BUDGET_AD_NOT_UPGRADABLE);
+      if (!ad.paidFor || ad.level === 0)
+        throw new BadRequestException(ErrorMessages.AD_NOT_RENEWABLE);
+
+      // An expired ad can only come back if no other paid ad took its place
+      const otherAd = await this.adRepository.getActivePaidAd(
+        ad.productId,
+        ad.id
+      );
+      if (otherAd)
+        throw new BadRequestException(ErrorMessages.ACTIVE_AD_EXISTS);
+
+      const plan = await this.getCurrentPlan(ad.level);
+      const discount = await this.applyCoupon(
+        couponCode,
+        plan.price,
+        merchant,
+        ad.productId
+      );
+      return await this.startAdPayment(
+        ad,
+        plan.price,
+        AdPaymentAction.RENEWAL,
+        plan,
+        merchant,
+        provider,
+        discount
+      );
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.AD_PAYMENT_INITIALIZATION_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.AD_PAYMENT_INITIALIZATION_FAILED
+      );
+    }
+  }
+
+  /**
+   * Starts a budget ad, billed per click (CPC) or per 1000 views (CPM) from a prepaid
+   * budget instead of running for a fixed period. The rate in effect now is kept on the ad.
+   */
+  async initializeBudgetAd(
+    productId: string,
+    billing: AdBilling,
+    budget: number,
+    merchant: Merchant,
+    providerName?: PaymentProvider,
+    couponCode?: string,
+    startsAt?: string
+  ) {
+    try {
+      const provider = this.paymentGateway.getProvider(providerName);
+      const startDate = this.getStartDate(startsAt);
+      if (budget < this.minimumBudget)
+        throw new BadRequestException(ErrorMessages.BUDGET_TOO_LOW);
+
+      // Check if the product exists
+      const product = await this.productRepository.getById(productId);
+      if (!product)
+        throw new BadRequestException(ErrorMessages.PRODUCT_NOT_FOUND);
+
+      // Ensure Merchant Owns Product
+      if (product.merchantId !== merchant.id)
+        throw new UnauthorizedException(ErrorMessages.NOT_YOUR_PRODUCT);
+
+      const activeAd = await this.adRepository.getActivePaidAd(productId);
+      if (activeAd)
+        throw new BadRequestException(ErrorMessages.ACTIVE_AD_EXISTS);
+
+      const discount = await this.applyCoupon(
+        couponCode,
+        budget,
+        merchant,
+        productId
+      );
+
+      const ad = await this.adRepository.create({
+        level: BudgetAdLevel,
+        type: AdType.BUDGET,
+        billing,
+        rate: billing === AdBilling.CPC ? this.cpcRate : this.cpmRate,
+        startsAt: startDate,
+        product: { connect: { id: productId } },
+      });
+      return await this.startAdPayment(
+        ad,
+        budget,
+        AdPaymentAction.PURCHASE,
+        null,
+        merchant,
+        provider,
+        discount
+      );
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.AD_PAYMENT_INITIALIZATION_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.AD_PAYMENT_INITIALIZATION_FAILED
+      );
+    }
+  }
+
+  /**
+   * Adds to the budget of a budget ad, bringing it back if its budget had run out
+   */
+  async initializeBudgetTopUp(
+    adId: string,
+    amount: number,
+    merchant: Merchant,
+    providerName?: PaymentProvider,
+    couponCode?: string
+  ) {
+    try {
+      const provider = this.paymentGateway.getProvider(providerName);
+      const ad = await this.getMerchantAd(adId, merchant);
+
+      if (ad.type !== AdType.BUDGET || !ad.paidFor)
+        throw new BadRequestException(ErrorMessages.NOT_BUDGET_AD);
+
+      // A stopped ad can only come back if no other paid ad took its place
+      const otherAd = await this.adRepository.getActivePaidAd(
+        ad.productId,
+        ad.id
+      );
+      if (otherAd)
+        throw new BadRequestException(ErrorMessages.ACTIVE_AD_EXISTS);
+
+      const discount = await this.applyCoupon(
+        couponCode,
+        amount,
+        merchant,
+        ad.productId
+      );
+      return await this.startAdPayment(
+        ad,
+        amount,
+        AdPaymentAction.TOP_UP,
+        null,
+        merchant,
+        provider,
+        discount
+      );
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.AD_PAYMENT_INITIALIZATION_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.AD_PAYMENT_INITIALIZATION_FAILED
+      );
+    }
+  }
+
+  private async startAdPayment(
+    ad: Ad,
+    amount: number,
+    action: AdPaymentAction,
+    plan: AdPlan | null,
+    merchant: Merchant,
+    provider: IPaymentProvider,
+    discount: CouponDiscount | null
+  ) {
+    const transaction = await this.createAdTransaction(
+      ad,
+      amount,
+      action,
+      plan,
+      merchant.id,
+      provider,
+      discount
+    );
+    const summary = {
+      transactionId: transaction.id,
+      adId: ad.id,
+      action,
+      plan: plan && { id: plan.id, name: plan.name, level: plan.level },
+      originalAmount: amount,
+      discount: discount?.discount ?? 0,
+      couponCode: discount?.coupon.code ?? null,
+      amount: transaction.amount,
+      durationDays: plan?.durationDays ?? null,
+    };
+
+    // Fully discounted, there is nothing to charge so the ad is activated right away
+    if (transaction.amount === 0) {
+      const completed = await this.completeAdPayment(transaction);
+      return {
+        ...summary,
+        reference: transaction.id,
+        status: completed.status,
+        provider: null,
+        checkout: null,
+      };
+    }
+
+    // Payment is completed from the frontend with the provider's inline checkout
+    const payment = await provider.initializePayment(
+      transaction.id,
+      transaction.amount,
+      merchant.email
+    );
+
+    return {
+      ...summary,
+      reference: payment.reference,
+      status: transaction.status,
+      provider: payment.provider,
+      checkout: payment.checkout,
+    };
+  }
+
+  private createAdTransaction(
+    ad: Ad,
+    amount: number,
+    action: AdPaymentAction,
+    plan: AdPlan | null,
+    merchantId: string,
+    provider: IPaymentProvider,
+    discount: CouponDiscount | null = null
+  ): Promise<Transaction> {
+    // `amount` is what is charged after the coupon discount
+    const data = {
+      amount: discount ? discount.amount : amount,
+      originalAmount: amount,
+      for: PaymentFor.ADVERTISEMENT,
+      status: PaymentStatus.INITIALIZED,
+      reference: ad.id,
+      provider: provider.name,
+      adAction: action,
+      adLevel: plan?.level,
+      adPlanId: plan?.id,
+      adDuration: plan?.durationDays,
+    };
+    // The coupon's usage limits are enforced again as the transaction is created
+    return discount
+      ? this.transactionRepository.createWithCoupon(
+          data,
+          merchantId,
+          discount.coupon
+        )
+      : this.transactionRepository.create(data, merchantId);
+  }
+
+  private async applyCoupon(
+    couponCode: string | undefined,
+    amount: number,
+    merchant: Merchant,
+    productId: string
+  ): Promise<CouponDiscount | null> {
+    if (!couponCode) return null;
+    const product = await this.productRepository.getById(productId);
+    if (!product)
+      throw new BadRequestException(ErrorMessages.PRODUCT_NOT_FOUND);
+    return this.adCouponService.applyCoupon(
+      couponCode,
+      amount,
+      merchant,
+      product
+    );
+  }
+
+  private async getMerchantAd(adId: string, merchant: Merchant): Promise<Ad> {
+    const ad = await this.adRepository.getAd(adId);
+    if (!ad) throw new NotFoundException(ErrorMessages.AD_NOT_FOUND);
+    const product = await this.adRepository.getProductForAd(adId);
+    if (!product || product.merchantId !== merchant.id)
+      throw new UnauthorizedException(ErrorMessages.NOT_YOUR_PRODUCT);
+    return ad;
+  }
+
+  private async getCurrentPlan(level: number): Promise<AdPlan> {
+    const plan = await this.adPlanRepository.getCurrentPlan(level);
+    if (!plan)
+      throw new BadRequestException(ErrorMessages.AD_PLAN_NOT_AVAILABLE);
+    return plan;
+  }
+
+  /**
+   * Days in one period of the ad's plan. Ads bought before plans existed use AdTimeLine.
+   */
+  private async getAdDuration(ad: Ad): Promise<number> {
+    if (ad.planId) {
+      const plan = await this.adPlanRepository.getById(ad.planId, true);
+      if (plan) return plan.durationDays;
+    }
+    return AdTimeLine[ad.level as keyof typeof AdTimeLine] ?? 0;
+  }
+
+  /**
+   * Paid and not expired. A scheduled ad that has not started yet is active but not live.
+   */
+  private isActivePaidAd(ad: Ad): boolean {
+    return (
+      ad.paidFor &&
+      ad.level > 0 &&
+      !!ad.expiresAt &&
+      ad.expiresAt.getTime() > Date.now()
+    );
+  }
+
+  private isLiveAd(ad: Ad): boolean {
+    return this.isActivePaidAd(ad) && ad.startsAt.getTime() <= Date.now();
+  }
+
+  /**
+   * The requested start of a new ad, now when none was requested
+   */
+  private getStartDate(startsAt?: string): Date {
+    const now = moment.tz("Africa/Lagos");
+    if (!startsAt) return now.toDate();
+
+    const startDate = moment(startsAt).tz("Africa/Lagos");
+    if (
+      startDate.isBefore(now) ||
+      startDate.isAfter(now.clone().add(this.maxScheduleDays, "day"))
+    )
+      throw new BadRequestException(ErrorMessages.INVALID_AD_START_DATE);
+    return startDate.toDate();
+  }
+
   async verifyAdPayment(reference: string) {
     try {
       // Verify payment
@@ -118,61 +567,296 @@ export class AdService {
         await this.transactionRepository.getTransaction(transactionId);
       if (!transaction)
         throw new BadRequestException(ErrorMessages.TRANSACTION_NOT_FOUND);
+      // Fully discounted payments never reach a provider
+      if (transaction.amount === 0) return transaction;
 
-      const verification = await this.paymentService.verifyPayment(reference);
-      if (!verification || !verification.data)
+      const verification = await this.paymentGateway
+        .getProvider(transaction.provider)
+        .verifyPayment(reference, transaction.amount);
+      if (!verification)
         throw new BadRequestException(
           ErrorMessages.PAYMENT_VERIFICATION_FAILED
         );
 
-      if (verification.data.status === "success") {
-        const updatedTransaction = await this.transactionRepository.update(
-          transactionId,
-          {
-            status: PaymentStatus.SUCCESS,
-          }
-        );
+      return this.settleAdPayment(transaction, verification);
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.AD_PAYMENT_VERIFICATION_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.AD_PAYMENT_VERIFICATION_FAILED
+      );
+    }
+  }
 
-        if (transaction.for === PaymentFor.ADVERTISEMENT) {
-          const ad = await this.adRepository.getAd(transaction.reference);
-          if (!ad) throw new BadRequestException(ErrorMessages.AD_NOT_FOUND);
-
-          // specify nigeria timezone
-          const todayNigeria = moment.tz("Africa/Lagos");
-          const expiresAt = todayNigeria
-            .add(AdTimeLine[ad.level as keyof typeof AdTimeLine], "day")
-            .toDate();
-          await this.adRepository.update(transaction.reference, {
-            expiresAt,
-            paidFor: true,
-          });
-
-          // Get the product and merchant
-          const product = await this.adRepository.getProductForAd(ad.id);
-          if (product && product.merchant) {
-            const merchant = product.merchant;
-
-            // Check if merchant was registered less than 6 months ago
-            const merchantCreatedAt = moment(merchant.createdAt).tz(
-              "Africa/Lagos"
-            );
-            const sixMonthsAgo = todayNigeria.clone().subtract(6, "months");
-
-            if (merchantCreatedAt.isAfter(sixMonthsAgo)) {
-              // Only calculate earnings if merchant is less than 6 months old
-              await this.marketerService.calculateAndRecordEarnings(ad.id);
-              this.logger.info(`Calculated marketer earnings for ad: ${ad.id}`);
-            } else {
-              this.logger.info(
-                `Skipped marketer earnings for ad: ${ad.id} - merchant registered more than 6 months ago`
-              );
-            }
-          }
-        }
+  /**
+   * Applies a provider verification result to a transaction.
+   * Used by browser verification and the reconciliation job.
+   */
+  async settleAdPayment(
+    transaction: Transaction,
+    verification: PaymentVerification
+  ): Promise<Transaction> {
+    switch (verification.status) {
+      case PaymentStatus.SUCCESS:
+        if (verification.amount < transaction.amount)
+          return this.failAdPayment(transaction, PaymentStatus.INCOMPLETE);
+        await this.saveAuthorization(transaction, verification.authorization);
+        return this.completeAdPayment(transaction);
+      case PaymentStatus.FAILED:
+      case PaymentStatus.INCOMPLETE:
+        return this.failAdPayment(transaction, verification.status);
+      case PaymentStatus.PENDING:
+        if (transaction.status === PaymentStatus.INITIALIZED)
+          return this.failAdPayment(transaction, PaymentStatus.PENDING);
+        return transaction;
+      default:
+        return transaction;
+    }
+  }
+
+  /**
+   * Marks an ad transaction as paid and activates its ad.
+   * Safe to call more than once for the same transaction (browser verification
+   * and the Paystack webhook can both arrive): only the first call activates the ad.
+   */
+  async completeAdPayment(transaction: Transaction): Promise<Transaction> {
+    try {
+      const transitioned = await this.transactionRepository.transitionStatus(
+        transaction.id,
+        PaymentStatus.SUCCESS,
+        [
+          PaymentStatus.SUCCESS,
+          PaymentStatus.REFUNDED,
+          PaymentStatus.PARTIALLY_REFUNDED,
+        ]
+      );
+      const updatedTransaction =
+        (await this.transactionRepository.getTransaction(transaction.id))!;
+      if (!transitioned) {
+        this.logger.info(
+          `Transaction ${transaction.id} already completed, skipping ad activation`
+        );
         return updatedTransaction;
       }
+      return await this.fulfilAdPayment(updatedTransaction);
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.AD_PAYMENT_VERIFICATION_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.AD_PAYMENT_VERIFICATION_FAILED
+      );
+    }
+  }
+
+  /**
+   * Activates the ad and records marketer earnings for a successful payment, then marks
+   * the payment fulfilled. Both steps happen at most once per payment, so a payment left
+   * unfulfilled by a failure is safely retried by the reconciliation job.
+   */
+  async fulfilAdPayment(transaction: Transaction): Promise<Transaction> {
+    if (transaction.for === PaymentFor.ADVERTISEMENT) {
+      const ad = await this.activateAd(transaction);
+
+      // The commission rules decide whether and how much the referring marketer earns
+      await this.marketerService.calculateAndRecordEarnings(ad.id, transaction);
+    }
+    return this.transactionRepository.update(transaction.id, {
+      fulfilledAt: new Date(),
+    });
+  }
+
+  /**
+   * Applies the ad update for the transaction unless it was applied before, and returns
+   * the ad the transaction was applied to
+   */
+  private async applyToAd(
+    adId: string,
+    data: Prisma.AdUpdateInput,
+    transaction: Transaction
+  ): Promise<Ad> {
+    const applied = await this.adRepository.applyPayment(
+      adId,
+      data,
+      transaction.id
+    );
+    if (applied) return applied;
+    const current = await this.transactionRepository.getTransaction(
+      transaction.id
+    );
+    const ad =
+      current?.appliedAdId &&
+      (await this.adRepository.getAd(current.appliedAdId));
+    if (!ad) throw new BadRequestException(ErrorMessages.AD_NOT_FOUND);
+    return ad;
+  }
+
+  /**
+   * Applies a paid purchase, upgrade or renewal to its ad and returns the ad that was
+   * extended. Transactions from before upgrades existed have no action and are purchases.
+   */
+  private async activateAd(transaction: Transaction): Promise<Ad> {
+    if (transaction.appliedAdId) {
+      const appliedAd = await this.adRepository.getAd(transaction.appliedAdId);
+      if (appliedAd) return appliedAd;
+    }
+    const ad = await this.adRepository.getAd(transaction.reference);
+    if (!ad) throw new BadRequestException(ErrorMessages.AD_NOT_FOUND);
+    if (ad.type === AdType.BUDGET) return this.fundBudgetAd(ad, transaction);
 
-      return transaction;
+    const action = transaction.adAction ?? AdPaymentAction.PURCHASE;
+    const level = transaction.adLevel ?? ad.level;
+    // The plan is fixed when the payment starts, transactions from before plans use AdTimeLine
+    const duration =
+      transaction.adDuration ??
+      AdTimeLine[level as keyof typeof AdTimeLine] ??
+      0;
+    const planId = transaction.adPlanId ?? ad.planId;
+    // specify nigeria timezone
+    const todayNigeria = moment.tz("Africa/Lagos");
+
+    if (action === AdPaymentAction.UPGRADE) {
+      // The new plan's full period, counted from when the current period started
+      const currentExpiry = moment(ad.expiresAt ?? todayNigeria).tz(
+        "Africa/Lagos"
+      );
+      const startedAt = currentExpiry
+        .clone()
+        .subtract(await this.getAdDuration(ad), "day");
+      const upgradedExpiry = startedAt.add(duration, "day");
+      return this.applyToAd(
+        ad.id,
+        {
+          level,
+          ...(planId && { plan: { connect: { id: planId } } }),
+          paidFor: true,
+          expiresAt: moment
+            .max(upgradedExpiry, currentExpiry, todayNigeria)
+            .toDate(),
+        },
+        transaction
+      );
+    }
+
+    if (action === AdPaymentAction.RENEWAL) {
+      return this.applyToAd(
+        ad.id,
+        {
+          ...(planId && { plan: { connect: { id: planId } } }),
+          paidFor: true,
+          expiresAt: this.extendExpiry(ad.expiresAt, duration),
+          // The next expiry gets a fresh set of auto-renew attempts
+          autoRenewAttempts: 0,
+          autoRenewAttemptAt: null,
+        },
+        transaction
+      );
+    }
+
+    // Two purchases for the same product can race; the later one extends the running ad
+    const activeAd = await this.adRepository.getActivePaidAd(
+      ad.productId,
+      ad.id
+    );
+    if (activeAd) {
+      this.logger.warn(
+        `Product ${ad.productId} already has paid ad ${activeAd.id}, extending it instead of activating ${ad.id}`
+      );
+      return this.applyToAd(
+        activeAd.id,
+        {
+          level: Math.max(activeAd.level, level),
+          expiresAt: this.extendExpiry(activeAd.expiresAt, duration),
+        },
+        transaction
+      );
+    }
+
+    // A scheduled ad's period starts on its start date, payments made after it start now
+    const startsAt = moment.max(
+      moment(ad.startsAt).tz("Africa/Lagos"),
+      todayNigeria
+    );
+    return this.applyToAd(
+      ad.id,
+      {
+        ...(planId && { plan: { connect: { id: planId } } }),
+        startsAt: startsAt.toDate(),
+        expiresAt: startsAt.clone().add(duration, "day").toDate(),
+        paidFor: true,
+      },
+      transaction
+    );
+  }
+
+  /**
+   * Credits a paid budget purchase or top up to its ad. The full amount before any
+   * coupon is credited, a coupon only lowers what the merchant pays.
+   */
+  private async fundBudgetAd(ad: Ad, transaction: Transaction): Promise<Ad> {
+    const credit = transaction.originalAmount ?? transaction.amount;
+    let target = ad;
+
+    // Two purchases for the same product can race; the later one funds the running budget ad
+    if (transaction.adAction !== AdPaymentAction.TOP_UP) {
+      const activeAd = await this.adRepository.getActivePaidAd(
+        ad.productId,
+        ad.id
+      );
+      if (activeAd?.type === AdType.BUDGET) {
+        this.logger.warn(
+          `Product ${ad.productId} already has budget ad ${activeAd.id}, adding to its budget instead of activating ${ad.id}`
+        );
+        target = activeAd;
+      }
+    }
+
+    const startsAt = moment.max(
+      moment(target.startsAt).tz("Africa/Lagos"),
+      moment.tz("Africa/Lagos")
+    );
+    return this.applyToAd(
+      target.id,
+      {
+        budget: { increment: credit },
+        paidFor: true,
+        // Only a purchase moves the start, a top up keeps the date the ad went live
+        ...(target === ad &&
+          transaction.adAction !== AdPaymentAction.TOP_UP && {
+            startsAt: startsAt.toDate(),
+          }),
+        expiresAt: startsAt.add(this.budgetAdDays, "day").toDate(),
+      },
+      transaction
+    );
+  }
+
+  private extendExpiry(expiresAt: Date | null, days: number): Date {
+    const todayNigeria = moment.tz("Africa/Lagos");
+    const from =
+      expiresAt && moment(expiresAt).isAfter(todayNigeria)
+        ? moment(expiresAt).tz("Africa/Lagos")
+        : todayNigeria;
+    return from.add(days, "day").toDate();
+  }
+
+  /**
+   * Moves an ad transaction to a failed or waiting status unless it has already succeeded.
+   */
+  async failAdPayment(
+    transaction: Transaction,
+    status: PaymentStatus = PaymentStatus.FAILED
+  ): Promise<Transaction> {
+    try {
+      await this.transactionRepository.transitionStatus(
+        transaction.id,
+        status,
+        [
+          PaymentStatus.SUCCESS,
+          PaymentStatus.REFUNDED,
+          PaymentStatus.PARTIALLY_REFUNDED,
+        ]
+      );
+      return (await this.transactionRepository.getTransaction(transaction.id))!;
     } catch (error) {
       if (error instanceof BaseException) throw error;
       this.logger.error(ErrorMessages.AD_PAYMENT_VERIFICATION_FAILED, error);
@@ -245,23 +929,291 @@ export class AdService {
       throw new InternalServerException(ErrorMessages.AD_FETCH_FAILED);
     }
   }
-  async incrementAdViews(adId: string): Promise<void> {
+  /**
+   * Keeps the card a payment was made with so auto-renewals can charge it.
+   * Never fails the payment it came with.
+   */
+  async saveAuthorization(
+    transaction: Transaction,
+    authorization?: ReusableAuthorization
+  ): Promise<void> {
+    if (!authorization) return;
+    try {
+      // The card can only be charged again with the email it was first paid with
+      const product = await this.adRepository.getProductForAd(
+        transaction.reference
+      );
+      if (!product?.merchant) return;
+      await this.paymentAuthorizationRepository.save(
+        transaction.merchantId,
+        transaction.provider,
+        {
+          authorizationCode: cryptoService.encrypt(
+            authorization.authorizationCode
+          ),
+          signature: authorization.signature,
+          email: product.merchant.email,
+          last4: authorization.last4,
+          cardType: authorization.cardType,
+          bank: authorization.bank,
+          expMonth: authorization.expMonth,
+          expYear: authorization.expYear,
+        }
+      );
+    } catch (error) {
+      this.logger.error(ErrorMessages.SAVE_PAYMENT_AUTHORIZATION_FAILED, error);
+    }
+  }
+
+  /**
+   * The merchant's saved cards, without their authorization codes
+   */
+  async getPaymentAuthorizations(merchant: Merchant) {
+    try {
+      const authorizations =
+        await this.paymentAuthorizationRepository.getByMerchantId(merchant.id);
+      return authorizations.map(({ authorizationCode, ...card }) => card);
+    } catch (error) {
+      this.logger.error(ErrorMessages.GET_PAYMENT_AUTHORIZATIONS_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.GET_PAYMENT_AUTHORIZATIONS_FAILED
+      );
+    }
+  }
+
+  /**
+   * Turns auto-renew on or off for a running duration ad. Without `authorizationId`
+   * the card the merchant paid with most recently is used.
+   */
+  async setAutoRenew(
+    adId: string,
+    merchant: Merchant,
+    enabled: boolean,
+    authorizationId?: string
+  ) {
+    try {
+      const ad = await this.getMerchantAd(adId, merchant);
+      if (!enabled)
+        return await this.adRepository.update(ad.id, {
+          autoRenew: false,
+          autoRenewAttempts: 0,
+          autoRenewAttemptAt: null,
+        });
+
+      if (ad.type === AdType.BUDGET || !this.isActivePaidAd(ad))
+        throw new BadRequestException(ErrorMessages.AUTO_RENEW_NOT_AVAILABLE);
+
+      const authorization = authorizationId
+        ? await this.paymentAuthorizationRepository.getById(authorizationId)
+        : (
+            await this.paymentAuthorizationRepository.getByMerchantId(
+              merchant.id
+            )
+          )[0];
+      if (!authorization || authorization.merchantId !== merchant.id)
+        throw new NotFoundException(
+          ErrorMessages.PAYMENT_AUTHORIZATION_NOT_FOUND
+        );
+      if (
+        !this.paymentGateway.getProvider(authorization.provider)
+          .chargeAuthorization
+      )
+        throw new BadRequestException(
+          ErrorMessages.PAYMENT_PROVIDER_NOT_SUPPORTED
+        );
+
+      return await this.adRepository.update(ad.id, {
+        autoRenew: true,
+        authorization: { connect: { id: authorization.id } },
+        autoRenewAttempts: 0,
+        autoRenewAttemptAt: null,
+      });
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.AUTO_RENEW_UPDATE_FAILED, error);
+      throw new InternalServerException(ErrorMessages.AUTO_RENEW_UPDATE_FAILED);
+    }
+  }
+
+  /**
+   * Charges the ad's saved card for a renewal at the current plan price.
+   * When the provider does not answer the transaction is left for the
+   * reconciliation job, which verifies it by reference.
+   */
+  async chargeAutoRenewal(ad: Ad) {
+    if (!ad.authorizationId)
+      throw new BadRequestException(
+        ErrorMessages.PAYMENT_AUTHORIZATION_NOT_FOUND
+      );
+    const authorization = await this.paymentAuthorizationRepository.getById(
+      ad.authorizationId
+    );
+    if (!authorization)
+      throw new NotFoundException(
+        ErrorMessages.PAYMENT_AUTHORIZATION_NOT_FOUND
+      );
+    const provider = this.paymentGateway.getProvider(authorization.provider);
+    if (!provider.chargeAuthorization)
+      throw new BadRequestException(
+        ErrorMessages.PAYMENT_PROVIDER_NOT_SUPPORTED
+      );
+
+    const plan = await this.getCurrentPlan(ad.level);
+    const transaction = await this.createAdTransaction(
+      ad,
+      plan.price,
+      AdPaymentAction.RENEWAL,
+      plan,
+      authorization.merchantId,
+      provider
+    );
+    const verification = await provider.chargeAuthorization(
+      transaction.id,
+      transaction.amount,
+      authorization.email,
+      cryptoService.decrypt(authorization.authorizationCode)
+    );
+    if (!verification) return { transaction, message: undefined };
+
+    return {
+      transaction: await this.settleAdPayment(transaction, verification),
+      message: verification.message,
+    };
+  }
+
+  /**
+   * Records a view or click unless it comes from a bot, repeats an event of the same
+   * viewer within the throttle window or goes over the IP address's cap for the window. Only accepted events are counted and billed.
+   * Resolves to whether the event was accepted. `placementId` is set when the
+   * placement API served the impression.
+   */
+  async trackAdEvent(
+    adId: string,
+    type: AdEventType,
+    viewer: AdViewer,
+    placementId?: string
+  ): Promise<boolean> {
+    try {
+      if (isBot(viewer.userAgent)) return false;
+
+      const ad = await this.adRepository.getAd(adId);
+      if (!ad) throw new NotFoundException(ErrorMessages.AD_NOT_FOUND);
+
+      // The IP address identifies the viewer, the user agent only tells apart
+      // viewers sharing an address, so changing it does not make a new viewer
+      const ipHash = cryptoService.hash(viewer.ip ?? "");
+      const viewerHash = cryptoService.hash(
+        `${viewer.ip ?? ""}|${viewer.userAgent}`
+      );
+      const since = new Date(
+        Date.now() - this.eventThrottleMinutes * 60 * 1000
+      );
+      const ipEvents = await this.adEventRepository.countRecentIpEvents(
+        adId,
+        type,
+        ipHash,
+        since
+      );
+      if (ipEvents >= this.eventIpLimit) return false;
+
+      const repeated = await this.adEventRepository.hasRecentEvent(
+        adId,
+        type,
+        viewerHash,
+        viewer.customerId,
+        since
+      );
+      if (repeated) return false;
+
+      const cost = this.getEventCost(ad, type);
+      const updatedAd = await this.adEventRepository.record(
+        adId,
+        type,
+        viewerHash,
+        ipHash,
+        viewer.customerId,
+        cost,
+        placementId
+      );
+      if (cost > 0 && updatedAd.spent >= updatedAd.budget) {
+        const stopped = await this.adRepository.stopSpentBudgetAd(
+          ad.id,
+          updatedAd.budget
+        );
+        if (stopped)
+          this.logger.info(
+            `Budget ad ${ad.id} has used up its budget, stopped`
+          );
+      }
+      return true;
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.AD_EVENT_TRACKING_FAILED, error);
+      throw new InternalServerException(ErrorMessages.AD_EVENT_TRACKING_FAILED);
+    }
+  }
+
+  /**
+   * What a live budget ad is charged for an event it is billed on.
+   * Other ads and events are counted but never billed.
+   */
+  private getEventCost(ad: Ad, type: AdEventType): number {
+    const billing = type === AdEventType.CLICK ? AdBilling.CPC : AdBilling.CPM;
+    if (
+      ad.type !== AdType.BUDGET ||
+      ad.billing !== billing ||
+      !ad.rate ||
+      !this.isLiveAd(ad)
+    )
+      return 0;
+    return billing === AdBilling.CPM ? ad.rate / 1000 : ad.rate;
+  }
+
+  async getAdSpend(adId: string, merchant: Merchant) {
     try {
-      await this.adRepository.incrementViews(adId);
+      const ad = await this.getMerchantAd(adId, merchant);
+      if (ad.type !== AdType.BUDGET)
+        throw new BadRequestException(ErrorMessages.NOT_BUDGET_AD);
+      return this.toAdSpend(ad);
     } catch (error) {
       if (error instanceof BaseException) throw error;
-      this.logger.error("Failed to increment ad views", error);
-      throw new InternalServerException("Failed to increment ad views");
+      this.logger.error(ErrorMessages.GET_AD_SPEND_FAILED, error);
+      throw new InternalServerException(ErrorMessages.GET_AD_SPEND_FAILED);
     }
   }
 
-  async incrementAdClicks(adId: string): Promise<void> {
+  async getMerchantAdSpend(merchant: Merchant) {
     try {
-      await this.adRepository.incrementClicks(adId);
+      const ads = await this.adRepository.getBudgetAdsByMerchantId(merchant.id);
+      const spends = ads.map((ad) => this.toAdSpend(ad));
+      return {
+        budget: spends.reduce((sum, ad) => sum + ad.budget, 0),
+        spent: spends.reduce((sum, ad) => sum + ad.spent, 0),
+        remaining: spends.reduce((sum, ad) => sum + ad.remaining, 0),
+        ads: spends,
+      };
     } catch (error) {
       if (error instanceof BaseException) throw error;
-      this.logger.error("Failed to increment ad clicks", error);
-      throw new InternalServerException("Failed to increment ad clicks");
+      this.logger.error(ErrorMessages.GET_AD_SPEND_FAILED, error);
+      throw new InternalServerException(ErrorMessages.GET_AD_SPEND_FAILED);
     }
   }
+
+  private toAdSpend(ad: Ad) {
+    const spent = Math.round(ad.spent * 100) / 100;
+    return {
+      adId: ad.id,
+      productId: ad.productId,
+      billing: ad.billing,
+      rate: ad.rate,
+      budget: ad.budget,
+      spent,
+      remaining: Math.max(Math.round((ad.budget - ad.spent) * 100) / 100, 0),
+      clicks: ad.adClicks,
+      views: ad.adViews,
+      active: this.isLiveAd(ad),
+      startsAt: ad.startsAt,
+      expiresAt: ad.expiresAt,
+    };
+  }
 }
@@ -0,0 +1,65 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { AdAnalyticsService } from "./analytics.service";
+import { ResponseDto } from "../../dtos/response.dto";
+import { ResponseStatus } from "../../dtos/interfaces/response.interface";
+import { HttpStatus } from "../../constants/http-status.enum";
+import { SuccessMessages } from "../../constants/success-messages.enum";
+
+export class AdAnalyticsController {
+  constructor(private readonly adAnalyticsService: AdAnalyticsService) {}
+
+  /**
+   * Get Ad Analytics
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getAdAnalytics: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adAnalyticsService.getAdAnalytics(
+        request.params.adId,
+        request.body.merchant,
+        request.query as { from?: string; to?: string }
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_AD_ANALYTICS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get Merchant Ads Analytics
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getMerchantAdsAnalytics: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adAnalyticsService.getMerchantAdsAnalytics(
+        request.params.merchantId,
+        request.query as { from?: string; to?: string }
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_AD_ANALYTICS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+}
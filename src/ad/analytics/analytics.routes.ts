@@ -0,0 +1,61 @@
+import { Router } from "express";
+import { AdAnalyticsService } from "./analytics.service";
+import { AdAnalyticsController } from "./analytics.controller";
+import { AdRepository } from "../../repositories/ad.repository";
+import { AdEventRepository } from "../../repositories/ad-event.repository";
+import { TransactionRepository } from "../../repositories/transaction.repository";
+import { CartProductRepository } from "../../repositories/cart-product.repository";
+import { MerchantRepository } from "../../repositories/merchant.repository";
+import { WinstonLogger } from "../../utils/logger/winston.logger";
+import { JWTService } from "../../utils/jwt/jwt.service";
+import { Validator } from "../../utils/middlewares/validator.middleware";
+import { MerchantAuthGaurd } from "../../utils/middlewares/guards/merchant.auth.guard";
+import { IdDto } from "../../dtos/id.dto";
+import { IdDto as AdIdDto } from "../dtos/Id.dto";
+import { AnalyticsQueryDto } from "../dtos/analytics-query.dto";
+
+const logger = new WinstonLogger("AdAnalyticsService");
+const adAnalyticsService = new AdAnalyticsService(
+  new AdRepository(),
+  new AdEventRepository(),
+  new TransactionRepository(),
+  new CartProductRepository(),
+  logger
+);
+const adAnalyticsController = new AdAnalyticsController(adAnalyticsService);
+const validator = new Validator();
+const merchantAuthGaurd = new MerchantAuthGaurd(
+  new MerchantRepository(),
+  logger,
+  new JWTService()
+);
+
+// Mounted on the Ad router
+const router = Router();
+
+// Get Daily Performance of an Ad
+router.get(
+  "/:adId/analytics",
+  validator.multiple([
+    { schema: AdIdDto, source: "params" },
+    { schema: AnalyticsQueryDto, source: "query" },
+  ]),
+  merchantAuthGaurd.authorise({ strict: true }),
+  adAnalyticsController.getAdAnalytics
+);
+
+// Mounted on the Merchant router
+export const MerchantAdAnalyticsRouter = Router();
+
+// Get Daily Performance of all the Merchant's Ads
+MerchantAdAnalyticsRouter.get(
+  "/:merchantId/ads/analytics",
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: AnalyticsQueryDto, source: "query" },
+  ]),
+  merchantAuthGaurd.authorise({ strict: true, id: true }),
+  adAnalyticsController.getMerchantAdsAnalytics
+);
+
+export default router;
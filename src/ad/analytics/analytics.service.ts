@@ -0,0 +1,324 @@
+import { Ad, AdEventType, AdType, Merchant } from "@prisma/client";
+import moment from "moment-timezone";
+import { ErrorMessages } from "../../constants/error-messages.enum";
+import { AdEventRepository } from "../../repositories/ad-event.repository";
+import { AdRepository } from "../../repositories/ad.repository";
+import { CartProductRepository } from "../../repositories/cart-product.repository";
+import { TransactionRepository } from "../../repositories/transaction.repository";
+import { BadRequestException } from "../../utils/exceptions/bad-request.exception";
+import { BaseException } from "../../utils/exceptions/base.exception";
+import { InternalServerException } from "../../utils/exceptions/internal-server.exception";
+import { NotFoundException } from "../../utils/exceptions/not-found.exception";
+import { UnauthorizedException } from "../../utils/exceptions/unauthorized.exception";
+import { ILogger } from "../../utils/logger/logger.interface";
+
+const TIMEZONE = "Africa/Lagos";
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 90;
+
+type AnalyticsAd = Pick<
+  Ad,
+  "id" | "level" | "type" | "productId" | "createdAt" | "startsAt" | "expiresAt"
+>;
+
+interface Counts {
+  views: number;
+  clicks: number;
+  spend: number;
+  cartAdditions: number;
+}
+
+export interface AdPerformance extends Counts {
+  ctr: number;
+}
+
+export interface DailyPerformance extends AdPerformance {
+  date: string;
+}
+
+export interface LevelComparison extends AdPerformance {
+  type: AdType;
+  level: number;
+  ads: number;
+  viewsPerAd: number;
+  clicksPerAd: number;
+  cartAdditionsPerAd: number;
+  costPerClick: number | null;
+  costPerCartAddition: number | null;
+}
+
+export class AdAnalyticsService {
+  constructor(
+    private readonly adRepository: AdRepository,
+    private readonly adEventRepository: AdEventRepository,
+    private readonly transactionRepository: TransactionRepository,
+    private readonly cartProductRepository: CartProductRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async getAdAnalytics(
+    adId: string,
+    merchant: Merchant,
+    range: { from?: string; to?: string }
+  ) {
+    try {
+      const { from, to } = this.getRange(range);
+      const ad = await this.adRepository.getAd(adId);
+      if (!ad) throw new NotFoundException(ErrorMessages.AD_NOT_FOUND);
+      const product = await this.adRepository.getProductForAd(adId);
+      if (!product || product.merchantId !== merchant.id)
+        throw new UnauthorizedException(ErrorMessages.NOT_YOUR_PRODUCT);
+
+      const { perAd, daily } = await this.collect([ad], from, to);
+      return {
+        ad: {
+          id: ad.id,
+          productId: ad.productId,
+          productName: product.name,
+          type: ad.type,
+          level: ad.level,
+          createdAt: ad.createdAt,
+          startsAt: ad.startsAt,
+          expiresAt: ad.expiresAt,
+        },
+        from,
+        to,
+        totals: this.withCtr(perAd.get(ad.id)!),
+        daily,
+        levels: await this.getPlatformLevels(from, to),
+      };
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.GET_AD_ANALYTICS_FAILED, error);
+      throw new InternalServerException(ErrorMessages.GET_AD_ANALYTICS_FAILED);
+    }
+  }
+
+  async getMerchantAdsAnalytics(
+    merchantId: string,
+    range: { from?: string; to?: string }
+  ) {
+    try {
+      const { from, to } = this.getRange(range);
+      const ads = await this.adRepository.getAdsRunningBetween(
+        from,
+        to,
+        merchantId
+      );
+
+      const { perAd, daily } = await this.collect(ads, from, to);
+      const totals = this.sum([...perAd.values()]);
+      return {
+        merchantId,
+        from,
+        to,
+        totals: this.withCtr(totals),
+        daily,
+        ads: ads.map((ad) => ({
+          adId: ad.id,
+          productId: ad.productId,
+          productName: ad.product.name,
+          type: ad.type,
+          level: ad.level,
+          startsAt: ad.startsAt,
+          expiresAt: ad.expiresAt,
+          ...this.withCtr(perAd.get(ad.id)!),
+        })),
+        levels: this.compareLevels(ads, perAd),
+        platformLevels: await this.getPlatformLevels(from, to),
+      };
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.GET_AD_ANALYTICS_FAILED, error);
+      throw new InternalServerException(ErrorMessages.GET_AD_ANALYTICS_FAILED);
+    }
+  }
+
+  /**
+   * How every ad level performed across the platform over the range, so merchants can
+   * judge whether a higher level pays for itself. Only totals per level are returned.
+   */
+  private async getPlatformLevels(
+    from: Date,
+    to: Date
+  ): Promise<LevelComparison[]> {
+    const levels = await this.adRepository.getLevelTotals(from, to);
+    return levels
+      .map(({ type, level, ads, ...counts }) =>
+        this.toLevelComparison(type, level, ads, counts)
+      )
+      .sort((a, b) => a.type.localeCompare(b.type) || a.level - b.level);
+  }
+
+  /**
+   * Views, clicks, spend and cart additions per ad and per day.
+   * Budget ads spend what their accepted events cost, other ads what was paid for
+   * them in the range. Cart additions of the advertised product only count while
+   * the ad was running; a cart row is counted once even if two ads overlapped.
+   */
+  private async collect(
+    ads: AnalyticsAd[],
+    from: Date,
+    to: Date
+  ): Promise<{ perAd: Map<string, Counts>; daily: DailyPerformance[] }> {
+    const perAd = new Map<string, Counts>(
+      ads.map((ad) => [ad.id, this.emptyCounts()])
+    );
+    const days = new Map<string, Counts>();
+    const day = moment(from).tz(TIMEZONE).startOf("day");
+    while (day.isSameOrBefore(to)) {
+      days.set(day.format("YYYY-MM-DD"), this.emptyCounts());
+      day.add(1, "day");
+    }
+    const add = (adId: string, date: Date, counts: Partial<Counts>) => {
+      for (const bucket of [
+        perAd.get(adId),
+        days.get(moment(date).tz(TIMEZONE).format("YYYY-MM-DD")),
+      ]) {
+        if (!bucket) continue;
+        bucket.views += counts.views ?? 0;
+        bucket.clicks += counts.clicks ?? 0;
+        bucket.spend += counts.spend ?? 0;
+        bucket.cartAdditions += counts.cartAdditions ?? 0;
+      }
+    };
+
+    if (ads.length > 0) {
+      const adIds = ads.map((ad) => ad.id);
+      const budgetAdIds = new Set(
+        ads.filter((ad) => ad.type === AdType.BUDGET).map((ad) => ad.id)
+      );
+      const [events, payments, additions] = await Promise.all([
+        this.adEventRepository.getEvents(from, to, adIds),
+        this.transactionRepository.getAdPayments(from, to, adIds),
+        this.cartProductRepository.getAdditions(
+          [...new Set(ads.map((ad) => ad.productId))],
+          from,
+          to
+        ),
+      ]);
+
+      for (const event of events) {
+        add(event.adId, event.createdAt, {
+          views: event.type === AdEventType.VIEW ? 1 : 0,
+          clicks: event.type === AdEventType.CLICK ? 1 : 0,
+          spend: event.cost,
+        });
+      }
+      for (const payment of payments) {
+        if (budgetAdIds.has(payment.reference)) continue;
+        add(payment.reference, payment.date, { spend: payment.amount });
+      }
+      for (const addition of additions) {
+        const ad = ads.find(
+          (ad) =>
+            ad.productId === addition.productId &&
+            ad.startsAt <= addition.createdAt &&
+            (!ad.expiresAt || ad.expiresAt >= addition.createdAt)
+        );
+        if (ad) add(ad.id, addition.createdAt, { cartAdditions: 1 });
+      }
+    }
+
+    const daily = [...days.entries()].map(([date, counts]) => ({
+      date,
+      ...this.withCtr(counts),
+    }));
+    return { perAd, daily };
+  }
+
+  private compareLevels(
+    ads: AnalyticsAd[],
+    perAd: Map<string, Counts>
+  ): LevelComparison[] {
+    const groups = new Map<string, { ad: AnalyticsAd; counts: Counts[] }>();
+    for (const ad of ads) {
+      const key = `${ad.type}-${ad.level}`;
+      const group = groups.get(key) ?? { ad, counts: [] };
+      group.counts.push(perAd.get(ad.id)!);
+      groups.set(key, group);
+    }
+
+    return [...groups.values()]
+      .map(({ ad, counts }) =>
+        this.toLevelComparison(
+          ad.type,
+          ad.level,
+          counts.length,
+          this.sum(counts)
+        )
+      )
+      .sort((a, b) => a.type.localeCompare(b.type) || a.level - b.level);
+  }
+
+  private toLevelComparison(
+    type: AdType,
+    level: number,
+    ads: number,
+    counts: Counts
+  ): LevelComparison {
+    const totals = this.withCtr(counts);
+    return {
+      type,
+      level,
+      ads,
+      ...totals,
+      viewsPerAd: this.round(totals.views / ads),
+      clicksPerAd: this.round(totals.clicks / ads),
+      cartAdditionsPerAd: this.round(totals.cartAdditions / ads),
+      costPerClick: totals.clicks
+        ? this.round(totals.spend / totals.clicks)
+        : null,
+      costPerCartAddition: totals.cartAdditions
+        ? this.round(totals.spend / totals.cartAdditions)
+        : null,
+    };
+  }
+
+  /**
+   * Defaults to the last 30 days, in Africa/Lagos days
+   */
+  private getRange(range: { from?: string; to?: string }) {
+    const to = range.to ? moment(range.to).tz(TIMEZONE) : moment.tz(TIMEZONE);
+    const from = range.from
+      ? moment(range.from).tz(TIMEZONE)
+      : to
+          .clone()
+          .subtract(DEFAULT_RANGE_DAYS - 1, "days")
+          .startOf("day");
+    if (!from.isBefore(to) || to.diff(from, "days", true) > MAX_RANGE_DAYS)
+      throw new BadRequestException(ErrorMessages.INVALID_ANALYTICS_RANGE);
+    return { from: from.toDate(), to: to.toDate() };
+  }
+
+  private emptyCounts(): Counts {
+    return { views: 0, clicks: 0, spend: 0, cartAdditions: 0 };
+  }
+
+  private sum(counts: Counts[]): Counts {
+    return counts.reduce(
+      (total, item) => ({
+        views: total.views + item.views,
+        clicks: total.clicks + item.clicks,
+        spend: total.spend + item.spend,
+        cartAdditions: total.cartAdditions + item.cartAdditions,
+      }),
+      this.emptyCounts()
+    );
+  }
+
+  /**
+   * CTR is clicks per 100 views
+   */
+  private withCtr(counts: Counts): AdPerformance {
+    return {
+      ...counts,
+      spend: this.round(counts.spend),
+      ctr: counts.views ? this.round((counts.clicks / counts.views) * 100) : 0,
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,137 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { AdCouponService } from "./coupon.service";
+import { ResponseDto } from "../../dtos/response.dto";
+import { ResponseStatus } from "../../dtos/interfaces/response.interface";
+import { HttpStatus } from "../../constants/http-status.enum";
+import { SuccessMessages } from "../../constants/success-messages.enum";
+
+export class AdCouponController {
+  constructor(private readonly adCouponService: AdCouponService) {}
+
+  /**
+   * Get All Coupons (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getCoupons: RequestHandler = async (
+    _request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adCouponService.getCoupons();
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_COUPONS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get Coupon (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getCoupon: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adCouponService.getCoupon(
+        request.params.couponId
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_COUPON_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Create Coupon (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  createCoupon: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adCouponService.createCoupon(request.body);
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.COUPON_CREATE_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.CREATED).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Update Coupon (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  updateCoupon: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adCouponService.updateCoupon(
+        request.params.couponId,
+        request.body
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.COUPON_UPDATE_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Delete Coupon (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  deleteCoupon: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adCouponService.deleteCoupon(
+        request.params.couponId
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.COUPON_DELETE_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+}
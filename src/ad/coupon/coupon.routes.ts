@@ -0,0 +1,79 @@
+import { Router } from "express";
+import { Role } from "@prisma/client";
+import { AdCouponService } from "./coupon.service";
+import { AdCouponController } from "./coupon.controller";
+import { CouponRepository } from "../../repositories/coupon.repository";
+import { TransactionRepository } from "../../repositories/transaction.repository";
+import { MarketRepository } from "../../repositories/market.repository";
+import { MerchantRepository } from "../../repositories/merchant.repository";
+import { CustomerRepository } from "../../repositories/customer.repository";
+import { WinstonLogger } from "../../utils/logger/winston.logger";
+import { JWTService } from "../../utils/jwt/jwt.service";
+import { Validator } from "../../utils/middlewares/validator.middleware";
+import { CustomerAuthGaurd } from "../../utils/middlewares/guards/customer.auth.guard";
+import { IdDto } from "../../dtos/id.dto";
+import { CouponCreateDto } from "../dtos/coupon-create.dto";
+import { CouponUpdateDto } from "../dtos/coupon-update.dto";
+
+const router = Router();
+const logger = new WinstonLogger("AdCouponService");
+const jwtService = new JWTService();
+const customerRepository = new CustomerRepository();
+export const adCouponService = new AdCouponService(
+  new CouponRepository(),
+  new TransactionRepository(),
+  new MarketRepository(),
+  new MerchantRepository(),
+  logger
+);
+const adCouponController = new AdCouponController(adCouponService);
+const validator = new Validator();
+const customerAuthGaurd = new CustomerAuthGaurd(
+  customerRepository,
+  logger,
+  jwtService
+);
+
+// Get All Coupons (Admin)
+router.get(
+  "/",
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  adCouponController.getCoupons
+);
+
+// Get Coupon (Admin)
+router.get(
+  "/:couponId",
+  validator.single(IdDto, "params"),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  adCouponController.getCoupon
+);
+
+// Create Coupon (Admin)
+router.post(
+  "/",
+  validator.single(CouponCreateDto, "body"),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  adCouponController.createCoupon
+);
+
+// Update Coupon (Admin)
+router.put(
+  "/:couponId",
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: CouponUpdateDto, source: "body" },
+  ]),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  adCouponController.updateCoupon
+);
+
+// Delete Coupon (Admin)
+router.delete(
+  "/:couponId",
+  validator.single(IdDto, "params"),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  adCouponController.deleteCoupon
+);
+
+export default router;
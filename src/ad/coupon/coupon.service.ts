@@ -0,0 +1,274 @@
+import {
+  Coupon,
+  CouponType,
+  Merchant,
+  PaymentStatus,
+  Prisma,
+  Product,
+} from "@prisma/client";
+import { ErrorMessages } from "../../constants/error-messages.enum";
+import {
+  CouponRepository,
+  CouponWithUsage,
+} from "../../repositories/coupon.repository";
+import { MarketRepository } from "../../repositories/market.repository";
+import { MerchantRepository } from "../../repositories/merchant.repository";
+import {
+  COUPON_USE_STATUSES,
+  TransactionRepository,
+} from "../../repositories/transaction.repository";
+import { BadRequestException } from "../../utils/exceptions/bad-request.exception";
+import { BaseException } from "../../utils/exceptions/base.exception";
+import { InternalServerException } from "../../utils/exceptions/internal-server.exception";
+import { NotFoundException } from "../../utils/exceptions/not-found.exception";
+import { ILogger } from "../../utils/logger/logger.interface";
+import { CouponCreateDto } from "../dtos/coupon-create.dto";
+import { CouponUpdateDto } from "../dtos/coupon-update.dto";
+
+export interface CouponDiscount {
+  coupon: Coupon;
+  originalAmount: number;
+  discount: number;
+  amount: number;
+}
+
+export class AdCouponService {
+  constructor(
+    private readonly couponRepository: CouponRepository,
+    private readonly transactionRepository: TransactionRepository,
+    private readonly marketRepository: MarketRepository,
+    private readonly merchantRepository: MerchantRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  /**
+   * Checks a coupon against the merchant and product being advertised and works out
+   * the discounted price. Usage limits count successful payments and payments still in
+   * progress, so failed and abandoned checkouts do not use up a coupon. The limits are
+   * checked again when the payment's transaction is created.
+   */
+  async applyCoupon(
+    code: string,
+    amount: number,
+    merchant: Merchant,
+    product: Product
+  ): Promise<CouponDiscount> {
+    const coupon = await this.couponRepository.getByCode(code);
+    if (!coupon || coupon.deletedAt)
+      throw new BadRequestException(ErrorMessages.INVALID_COUPON);
+
+    const now = new Date();
+    if (
+      !coupon.active ||
+      coupon.startsAt > now ||
+      (coupon.expiresAt && coupon.expiresAt <= now)
+    )
+      throw new BadRequestException(ErrorMessages.COUPON_EXPIRED);
+
+    if (
+      (coupon.merchantId && coupon.merchantId !== merchant.id) ||
+      (coupon.marketId && coupon.marketId !== merchant.marketId) ||
+      (coupon.category && coupon.category !== product.category)
+    )
+      throw new BadRequestException(ErrorMessages.COUPON_NOT_APPLICABLE);
+
+    if (coupon.maxUses) {
+      const uses = await this.transactionRepository.countPaidAdPayments(
+        { couponId: coupon.id },
+        COUPON_USE_STATUSES
+      );
+      if (uses >= coupon.maxUses)
+        throw new BadRequestException(ErrorMessages.COUPON_USAGE_LIMIT_REACHED);
+    }
+
+    if (coupon.maxUsesPerMerchant) {
+      const uses = await this.transactionRepository.countPaidAdPayments(
+        { couponId: coupon.id, merchantId: merchant.id },
+        COUPON_USE_STATUSES
+      );
+      if (uses >= coupon.maxUsesPerMerchant)
+        throw new BadRequestException(ErrorMessages.COUPON_USAGE_LIMIT_REACHED);
+    }
+
+    if (coupon.firstAdOnly) {
+      // A refunded ad still counts as the merchant's first
+      const paidAds = await this.transactionRepository.countPaidAdPayments(
+        { merchantId: merchant.id },
+        [
+          PaymentStatus.SUCCESS,
+          PaymentStatus.REFUNDED,
+          PaymentStatus.PARTIALLY_REFUNDED,
+        ]
+      );
+      if (paidAds > 0)
+        throw new BadRequestException(ErrorMessages.COUPON_FIRST_AD_ONLY);
+    }
+
+    const discount =
+      coupon.type === CouponType.PERCENTAGE
+        ? Math.round(amount * coupon.value) / 100
+        : Math.min(coupon.value, amount);
+
+    return {
+      coupon,
+      originalAmount: amount,
+      discount,
+      amount: Math.round((amount - discount) * 100) / 100,
+    };
+  }
+
+  async createCoupon(data: CouponCreateDto): Promise<Coupon> {
+    try {
+      const existing = await this.couponRepository.getByCode(data.code);
+      if (existing)
+        throw new BadRequestException(ErrorMessages.COUPON_CODE_EXISTS);
+
+      const startsAt = data.startsAt ? new Date(data.startsAt) : new Date();
+      const expiresAt = data.expiresAt ? new Date(data.expiresAt) : null;
+      this.checkCoupon(data.type, data.value, startsAt, expiresAt);
+      await this.checkScope(data.marketId, data.merchantId);
+
+      return await this.couponRepository.create({
+        code: data.code.toUpperCase(),
+        description: data.description,
+        type: data.type,
+        value: data.value,
+        maxUses: data.maxUses,
+        maxUsesPerMerchant: data.maxUsesPerMerchant,
+        firstAdOnly: data.firstAdOnly ?? false,
+        active: data.active ?? true,
+        startsAt,
+        expiresAt,
+        category: data.category,
+        ...(data.marketId && { market: { connect: { id: data.marketId } } }),
+        ...(data.merchantId && {
+          merchant: { connect: { id: data.merchantId } },
+        }),
+      });
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.COUPON_CREATE_FAILED, error);
+      throw new InternalServerException(ErrorMessages.COUPON_CREATE_FAILED);
+    }
+  }
+
+  /**
+   * Changes only apply to payments started afterwards, payments in progress keep
+   * the discount they were started with.
+   */
+  async updateCoupon(id: string, data: CouponUpdateDto): Promise<Coupon> {
+    try {
+      const coupon = await this.getCoupon(id);
+      const startsAt = data.startsAt
+        ? new Date(data.startsAt)
+        : coupon.startsAt;
+      const expiresAt =
+        data.expiresAt === undefined
+          ? coupon.expiresAt
+          : data.expiresAt
+            ? new Date(data.expiresAt)
+            : null;
+      this.checkCoupon(
+        data.type ?? coupon.type,
+        data.value ?? coupon.value,
+        startsAt,
+        expiresAt
+      );
+      await this.checkScope(data.marketId, data.merchantId);
+
+      const update: Prisma.CouponUpdateInput = {
+        ...(data.description !== undefined && {
+          description: data.description,
+        }),
+        ...(data.type !== undefined && { type: data.type }),
+        ...(data.value !== undefined && { value: data.value }),
+        ...(data.maxUses !== undefined && { maxUses: data.maxUses }),
+        ...(data.maxUsesPerMerchant !== undefined && {
+          maxUsesPerMerchant: data.maxUsesPerMerchant,
+        }),
+        ...(data.firstAdOnly !== undefined && {
+          firstAdOnly: data.firstAdOnly,
+        }),
+        ...(data.active !== undefined && { active: data.active }),
+        ...(data.category !== undefined && { category: data.category }),
+        startsAt,
+        expiresAt,
+      };
+      if (data.marketId !== undefined)
+        update.market = data.marketId
+          ? { connect: { id: data.marketId } }
+          : { disconnect: true };
+      if (data.merchantId !== undefined)
+        update.merchant = data.merchantId
+          ? { connect: { id: data.merchantId } }
+          : { disconnect: true };
+
+      return await this.couponRepository.update(id, update);
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.COUPON_UPDATE_FAILED, error);
+      throw new InternalServerException(ErrorMessages.COUPON_UPDATE_FAILED);
+    }
+  }
+
+  async deleteCoupon(id: string): Promise<Coupon> {
+    try {
+      await this.getCoupon(id);
+      // Soft delete, transactions keep pointing at the coupon they used
+      return await this.couponRepository.update(id, {
+        active: false,
+        deletedAt: new Date(),
+      });
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.COUPON_DELETE_FAILED, error);
+      throw new InternalServerException(ErrorMessages.COUPON_DELETE_FAILED);
+    }
+  }
+
+  async getCoupon(id: string): Promise<CouponWithUsage> {
+    try {
+      const coupon = await this.couponRepository.getById(id);
+      if (!coupon) throw new NotFoundException(ErrorMessages.COUPON_NOT_FOUND);
+      return coupon;
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.GET_COUPONS_FAILED, error);
+      throw new InternalServerException(ErrorMessages.GET_COUPONS_FAILED);
+    }
+  }
+
+  async getCoupons(): Promise<CouponWithUsage[]> {
+    try {
+      return await this.couponRepository.getAll();
+    } catch (error) {
+      this.logger.error(ErrorMessages.GET_COUPONS_FAILED, error);
+      throw new InternalServerException(ErrorMessages.GET_COUPONS_FAILED);
+    }
+  }
+
+  private checkCoupon(
+    type: CouponType,
+    value: number,
+    startsAt: Date,
+    expiresAt: Date | null
+  ) {
+    if (type === CouponType.PERCENTAGE && value > 100)
+      throw new BadRequestException(ErrorMessages.INVALID_COUPON_VALUE);
+    if (expiresAt && expiresAt <= startsAt)
+      throw new BadRequestException(ErrorMessages.INVALID_COUPON_VALIDITY);
+  }
+
+  private async checkScope(
+    marketId?: string | null,
+    merchantId?: string | null
+  ) {
+    if (marketId && !(await this.marketRepository.findById(marketId)))
+      throw new NotFoundException(ErrorMessages.MARKET_NOT_FOUND);
+    if (
+      merchantId &&
+      !(await this.merchantRepository.getMerchantById(merchantId))
+    )
+      throw new NotFoundException(ErrorMessages.MERCHANT_NOT_FOUND);
+  }
+}
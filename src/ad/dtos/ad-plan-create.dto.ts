@@ -0,0 +1,43 @@
+import {
+  IsBoolean,
+  IsDateString,
+  IsDefined,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Min,
+} from "class-validator";
+
+export class AdPlanCreateDto {
+  @IsDefined()
+  @IsString()
+  declare name: string;
+
+  // Level 0 is reserved for free ads
+  @IsDefined()
+  @IsInt()
+  @Min(1)
+  declare level: number;
+
+  @IsDefined()
+  @IsPositive()
+  declare price: number;
+
+  @IsDefined()
+  @IsInt()
+  @Min(1)
+  declare durationDays: number;
+
+  @IsOptional()
+  @IsBoolean()
+  declare active?: boolean;
+
+  @IsOptional()
+  @IsDateString()
+  declare validFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  declare validTo?: string;
+}
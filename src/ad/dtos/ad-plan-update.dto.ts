@@ -0,0 +1,36 @@
+import {
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Min,
+} from "class-validator";
+
+export class AdPlanUpdateDto {
+  @IsOptional()
+  @IsString()
+  declare name?: string;
+
+  @IsOptional()
+  @IsPositive()
+  declare price?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  declare durationDays?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  declare active?: boolean;
+
+  @IsOptional()
+  @IsDateString()
+  declare validFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  declare validTo?: string | null;
+}
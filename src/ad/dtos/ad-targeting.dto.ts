@@ -0,0 +1,17 @@
+import { $Enums } from "@prisma/client";
+import { IsIn, IsOptional, IsString, IsUUID } from "class-validator";
+
+// Pass null to stop targeting on that dimension
+export class AdTargetingDto {
+  @IsOptional()
+  @IsIn(Object.values($Enums.ProductCategory))
+  declare targetCategory?: $Enums.ProductCategory | null;
+
+  @IsOptional()
+  @IsUUID()
+  declare targetMarketId?: string | null;
+
+  @IsOptional()
+  @IsString()
+  declare targetState?: string | null;
+}
@@ -0,0 +1,11 @@
+import { IsDateString, IsOptional } from "class-validator";
+
+export class AnalyticsQueryDto {
+  @IsOptional()
+  @IsDateString()
+  declare from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  declare to?: string;
+}
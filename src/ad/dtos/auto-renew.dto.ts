@@ -0,0 +1,12 @@
+import { IsBoolean, IsDefined, IsOptional, IsUUID } from "class-validator";
+
+export class AutoRenewDto {
+  @IsDefined()
+  @IsBoolean()
+  declare enabled: boolean;
+
+  // Saved card to charge, defaults to the card used most recently
+  @IsOptional()
+  @IsUUID()
+  declare authorizationId?: string;
+}
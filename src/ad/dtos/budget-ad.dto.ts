@@ -0,0 +1,14 @@
+import { AdBilling } from "@prisma/client";
+import { IsDefined, IsEnum, IsPositive } from "class-validator";
+import { PurchaseAdBodyDto } from "./purchase-ad-body.dto";
+
+export class BudgetAdDto extends PurchaseAdBodyDto {
+  @IsDefined()
+  @IsEnum(AdBilling)
+  declare billing: AdBilling;
+
+  // Naira credited to the ad's budget
+  @IsDefined()
+  @IsPositive()
+  declare budget: number;
+}
@@ -0,0 +1,75 @@
+import { $Enums, CouponType } from "@prisma/client";
+import {
+  IsBoolean,
+  IsDateString,
+  IsDefined,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUUID,
+  Matches,
+  Min,
+} from "class-validator";
+
+export class CouponCreateDto {
+  @IsDefined()
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]{3,32}$/, {
+    message: "code must be 3 to 32 letters, numbers, hyphens or underscores",
+  })
+  declare code: string;
+
+  @IsOptional()
+  @IsString()
+  declare description?: string;
+
+  @IsDefined()
+  @IsEnum(CouponType)
+  declare type: CouponType;
+
+  // Percentage off (1 - 100) or naira off, depending on type
+  @IsDefined()
+  @IsPositive()
+  declare value: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  declare maxUses?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  declare maxUsesPerMerchant?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  declare firstAdOnly?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  declare active?: boolean;
+
+  @IsOptional()
+  @IsDateString()
+  declare startsAt?: string;
+
+  @IsOptional()
+  @IsDateString()
+  declare expiresAt?: string;
+
+  @IsOptional()
+  @IsUUID()
+  declare marketId?: string;
+
+  @IsOptional()
+  @IsIn(Object.values($Enums.ProductCategory))
+  declare category?: $Enums.ProductCategory;
+
+  @IsOptional()
+  @IsUUID()
+  declare merchantId?: string;
+}
@@ -0,0 +1,66 @@
+import { $Enums, CouponType } from "@prisma/client";
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUUID,
+  Min,
+} from "class-validator";
+
+// The code cannot be changed once merchants may have been given it. Pass null to clear a limit or scope.
+export class CouponUpdateDto {
+  @IsOptional()
+  @IsString()
+  declare description?: string;
+
+  @IsOptional()
+  @IsEnum(CouponType)
+  declare type?: CouponType;
+
+  @IsOptional()
+  @IsPositive()
+  declare value?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  declare maxUses?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  declare maxUsesPerMerchant?: number | null;
+
+  @IsOptional()
+  @IsBoolean()
+  declare firstAdOnly?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  declare active?: boolean;
+
+  @IsOptional()
+  @IsDateString()
+  declare startsAt?: string;
+
+  @IsOptional()
+  @IsDateString()
+  declare expiresAt?: string | null;
+
+  @IsOptional()
+  @IsUUID()
+  declare marketId?: string | null;
+
+  @IsOptional()
+  @IsIn(Object.values($Enums.ProductCategory))
+  declare category?: $Enums.ProductCategory | null;
+
+  @IsOptional()
+  @IsUUID()
+  declare merchantId?: string | null;
+}
@@ -0,0 +1,12 @@
+import { PaymentProvider } from "@prisma/client";
+import { IsEnum, IsOptional, IsString } from "class-validator";
+
+export class InitializeAdPaymentBodyDto {
+  @IsOptional()
+  @IsEnum(PaymentProvider)
+  declare provider?: PaymentProvider;
+
+  @IsOptional()
+  @IsString()
+  declare couponCode?: string;
+}
@@ -3,7 +3,7 @@ import { IsDefined, IsNumberString, IsUUID, Matches } from "class-validator";
 export class InitializeAdPaymentDto{
     @IsDefined()
     @IsNumberString()
-    @Matches(/^[1-3]$/, { message: 'Level must be a number between 1 and 3' })
+    @Matches(/^[1-9]\d*$/, { message: 'Level must be a positive number' })
     declare level : string;
 
     @IsDefined()
@@ -0,0 +1,7 @@
+import { AdPlacementKey } from "@prisma/client";
+import { IsEnum } from "class-validator";
+
+export class PlacementKeyDto {
+  @IsEnum(AdPlacementKey)
+  declare placement: AdPlacementKey;
+}
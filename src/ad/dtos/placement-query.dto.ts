@@ -0,0 +1,21 @@
+import { $Enums } from "@prisma/client";
+import { IsIn, IsOptional, IsString, IsUUID } from "class-validator";
+
+// The context the placement is rendered in, e.g. the category page being browsed
+export class PlacementQueryDto {
+  @IsOptional()
+  @IsIn(Object.values($Enums.ProductCategory))
+  declare category?: $Enums.ProductCategory;
+
+  @IsOptional()
+  @IsUUID()
+  declare marketId?: string;
+
+  @IsOptional()
+  @IsString()
+  declare state?: string;
+
+  @IsOptional()
+  @IsString()
+  declare search?: string;
+}
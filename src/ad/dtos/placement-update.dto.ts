@@ -0,0 +1,28 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from "class-validator";
+
+export class PlacementUpdateDto {
+  @IsOptional()
+  @IsString()
+  declare name?: string;
+
+  @IsOptional()
+  @IsString()
+  declare description?: string | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  declare capacity?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  declare active?: boolean;
+}
@@ -0,0 +1,9 @@
+import { IsDateString, IsOptional } from "class-validator";
+import { InitializeAdPaymentBodyDto } from "./initialize-ad-payment-body.dto";
+
+export class PurchaseAdBodyDto extends InitializeAdPaymentBodyDto {
+  // When the ad goes live, defaults to as soon as it is paid for
+  @IsOptional()
+  @IsDateString()
+  declare startsAt?: string;
+}
@@ -17,7 +17,7 @@ export class QuickTellerRequest {
         this.txn_ref = `txn-${id}`;
         this.mode = configService.get<string>("QUICKTELLER_MODE")!;
         this.site_redirect_url = `${configService.get<string>("QUICKTELLER_SITE_REDIRECT_URL")!}?txn_ref=${this.txn_ref}`;
-        this.amount = amount;
+        this.amount = Math.round(amount * 100); // Convert to kobo
         this.currency = 566;
         this.onComplete = (response: any) => {
             console.log(response);
@@ -0,0 +1,8 @@
+import { RefundRequestStatus } from "@prisma/client";
+import { IsEnum, IsOptional } from "class-validator";
+
+export class RefundFilterDto {
+  @IsOptional()
+  @IsEnum(RefundRequestStatus)
+  declare status?: RefundRequestStatus;
+}
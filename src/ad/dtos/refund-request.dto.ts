@@ -0,0 +1,9 @@
+import { IsDefined, IsString, MaxLength, MinLength } from "class-validator";
+
+export class RefundRequestDto {
+  @IsDefined()
+  @IsString()
+  @MinLength(10, { message: "Please tell us why you want a refund" })
+  @MaxLength(1000)
+  declare reason: string;
+}
@@ -0,0 +1,8 @@
+import { IsOptional, IsString, MaxLength } from "class-validator";
+
+export class RefundReviewDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  declare note?: string;
+}
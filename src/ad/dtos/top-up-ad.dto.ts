@@ -0,0 +1,8 @@
+import { IsDefined, IsPositive } from "class-validator";
+import { InitializeAdPaymentBodyDto } from "./initialize-ad-payment-body.dto";
+
+export class TopUpAdDto extends InitializeAdPaymentBodyDto {
+  @IsDefined()
+  @IsPositive()
+  declare amount: number;
+}
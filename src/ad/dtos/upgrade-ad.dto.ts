@@ -0,0 +1,12 @@
+import { IsDefined, IsNumberString, IsUUID, Matches } from "class-validator";
+
+export class UpgradeAdDto {
+  @IsDefined()
+  @IsUUID()
+  declare adId: string;
+
+  @IsDefined()
+  @IsNumberString()
+  @Matches(/^[1-9]\d*$/, { message: "Level must be a positive number" })
+  declare level: string;
+}
@@ -0,0 +1,279 @@
+import { AdNotificationType, AdType, PaymentStatus } from "@prisma/client";
+import moment from "moment-timezone";
+import { AdService } from "../ad.service";
+import { ErrorMessages } from "../../constants/error-messages.enum";
+import { EmailPaths, EmailSubjects } from "../../constants/email.enum";
+import { AdNotificationRepository } from "../../repositories/ad-notification.repository";
+import { AdRepository, LifecycleAd } from "../../repositories/ad.repository";
+import { configService } from "../../utils/config/config.service";
+import { IEmailService } from "../../utils/email/email.service.interface";
+import { ILogger } from "../../utils/logger/logger.interface";
+
+export interface AdLifecycleSummary {
+  renewed: number;
+  renewalsPending: number;
+  renewalsFailed: number;
+  reminders: number;
+  expiryNotices: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+// Expired ads are still notified when a run was missed, but not ads from long ago
+const EXPIRY_NOTICE_LOOKBACK_HOURS = 72;
+
+/**
+ * Emails merchants before and when their paid ads expire, and renews ads that have
+ * auto-renew on by charging the saved card, retrying declined charges.
+ */
+export class AdLifecycleService {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly adRepository: AdRepository,
+    private readonly adNotificationRepository: AdNotificationRepository,
+    private readonly adService: AdService,
+    private readonly emailService: IEmailService,
+    private readonly logger: ILogger
+  ) {}
+
+  private get intervalMs(): number {
+    return (
+      Number(configService.get<string>("AD_LIFECYCLE_INTERVAL_MINUTES", "60")) *
+      60 *
+      1000
+    );
+  }
+
+  private get reminderHours(): number {
+    return Number(configService.get<string>("AD_EXPIRY_REMINDER_HOURS", "48"));
+  }
+
+  // How long before expiry the first auto-renew charge is made
+  private get autoRenewLeadHours(): number {
+    return Number(configService.get<string>("AD_AUTO_RENEW_LEAD_HOURS", "24"));
+  }
+
+  private get retryHours(): number {
+    return Number(configService.get<string>("AD_AUTO_RENEW_RETRY_HOURS", "6"));
+  }
+
+  private get maxAttempts(): number {
+    return Number(configService.get<string>("AD_AUTO_RENEW_MAX_ATTEMPTS", "3"));
+  }
+
+  /**
+   * Starts the periodic job. Disabled with `AD_LIFECYCLE_ENABLED=false`.
+   */
+  start() {
+    if (this.timer) return;
+    if (configService.get<string>("AD_LIFECYCLE_ENABLED") === "false") {
+      this.logger.info("Ad expiry emails and auto-renew disabled");
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.run().catch((error) =>
+        this.logger.error(ErrorMessages.AD_LIFECYCLE_FAILED, error)
+      );
+    }, this.intervalMs);
+    this.timer.unref();
+    this.logger.info(
+      `Ad expiry emails and auto-renew scheduled every ${this.intervalMs / (60 * 1000)} minutes`
+    );
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Runs one pass. Renewals go first so renewed ads are not reminded of an expiry
+   * that no longer applies. Resolves to null when a pass is already running.
+   */
+  async run(): Promise<AdLifecycleSummary | null> {
+    if (this.running) {
+      this.logger.warn("Ad lifecycle already running, skipping this run");
+      return null;
+    }
+    this.running = true;
+    try {
+      const now = new Date();
+      const summary: AdLifecycleSummary = {
+        renewed: 0,
+        renewalsPending: 0,
+        renewalsFailed: 0,
+        reminders: 0,
+        expiryNotices: 0,
+      };
+
+      const dueAds = await this.adRepository.getAdsDueForAutoRenewal(
+        new Date(now.getTime() + this.autoRenewLeadHours * HOUR),
+        new Date(now.getTime() - this.retryHours * HOUR),
+        this.maxAttempts
+      );
+      for (const ad of dueAds) {
+        const status = await this.autoRenew(ad, now);
+        if (status === PaymentStatus.SUCCESS) summary.renewed++;
+        else if (
+          status === PaymentStatus.PENDING ||
+          status === PaymentStatus.INITIALIZED
+        )
+          summary.renewalsPending++;
+        else summary.renewalsFailed++;
+      }
+
+      const expiringAds = await this.adRepository.getPaidAdsExpiringBetween(
+        now,
+        new Date(now.getTime() + this.reminderHours * HOUR),
+        AdType.DURATION
+      );
+      for (const ad of expiringAds) {
+        const sent = await this.notify(
+          ad,
+          AdNotificationType.EXPIRING,
+          EmailSubjects.AD_EXPIRING,
+          EmailPaths.AD_EXPIRY
+        );
+        if (sent) summary.reminders++;
+      }
+
+      const expiredAds = await this.adRepository.getPaidAdsExpiringBetween(
+        new Date(now.getTime() - EXPIRY_NOTICE_LOOKBACK_HOURS * HOUR),
+        now
+      );
+      for (const ad of expiredAds) {
+        const sent = await this.notify(
+          ad,
+          AdNotificationType.EXPIRED,
+          EmailSubjects.AD_EXPIRED,
+          EmailPaths.AD_EXPIRY
+        );
+        if (sent) summary.expiryNotices++;
+      }
+
+      this.logger.info(
+        `Ad lifecycle: ${summary.renewed} renewed, ${summary.renewalsPending} renewals pending, ${summary.renewalsFailed} renewals failed, ${summary.reminders} reminders, ${summary.expiryNotices} expiry notices`
+      );
+      return summary;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Makes one renewal attempt. Once the last attempt is declined auto-renew is
+   * turned off and the merchant is emailed, the ad then expires as usual.
+   */
+  private async autoRenew(
+    ad: LifecycleAd,
+    now: Date
+  ): Promise<PaymentStatus | null> {
+    const attempts = ad.autoRenewAttempts + 1;
+    let status: PaymentStatus | null = null;
+    let reason: string | undefined;
+    try {
+      await this.adRepository.update(ad.id, {
+        autoRenewAttempts: attempts,
+        autoRenewAttemptAt: now,
+      });
+      const { transaction, message } =
+        await this.adService.chargeAutoRenewal(ad);
+      status = transaction.status;
+      reason = message;
+    } catch (error) {
+      this.logger.error(`${ErrorMessages.AUTO_RENEW_FAILED} ${ad.id}`, error);
+      reason = error instanceof Error ? error.message : undefined;
+    }
+
+    if (
+      status === PaymentStatus.SUCCESS ||
+      status === PaymentStatus.PENDING ||
+      status === PaymentStatus.INITIALIZED
+    ) {
+      this.logger.info(`Auto-renew of ad ${ad.id}: ${status}`);
+      return status;
+    }
+
+    this.logger.warn(
+      `Auto-renew of ad ${ad.id} declined, attempt ${attempts} of ${this.maxAttempts}`
+    );
+    if (attempts >= this.maxAttempts) {
+      await this.adRepository.update(ad.id, { autoRenew: false });
+      await this.notify(
+        ad,
+        AdNotificationType.AUTO_RENEW_FAILED,
+        EmailSubjects.AD_AUTO_RENEW_FAILED,
+        EmailPaths.AD_AUTO_RENEW_FAILED,
+        { attempts, reason }
+      );
+    }
+    return status;
+  }
+
+  /**
+   * Sends a notification once per ad, type and expiry. A claim that could not be
+   * emailed is released so the next run tries again.
+   */
+  private async notify(
+    ad: LifecycleAd,
+    type: AdNotificationType,
+    subject: EmailSubjects,
+    template: EmailPaths,
+    extra: { [key: string]: any } = {}
+  ): Promise<boolean> {
+    const merchant = ad.product.merchant;
+    if (!ad.expiresAt || !merchant) return false;
+    try {
+      const claimed = await this.adNotificationRepository.claim(
+        ad.id,
+        type,
+        ad.expiresAt
+      );
+      if (!claimed) return false;
+
+      const sent = await this.emailService.sendMail({
+        to: merchant.email,
+        subject,
+        options: {
+          template,
+          data: { ...this.getSummary(ad, type), ...extra },
+        },
+      });
+      if (!sent)
+        await this.adNotificationRepository.release(ad.id, type, ad.expiresAt);
+      return sent;
+    } catch (error) {
+      this.logger.error(`Unable to send ${type} email for ad ${ad.id}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * What the ad did over its life, for the emails
+   */
+  private getSummary(ad: LifecycleAd, type: AdNotificationType) {
+    const ctr = ad.adViews
+      ? Math.round((ad.adClicks / ad.adViews) * 10000) / 100
+      : 0;
+    return {
+      brandName: ad.product.merchant?.brandName,
+      productName: ad.product.name,
+      expired: type === AdNotificationType.EXPIRED,
+      isBudget: ad.type === AdType.BUDGET,
+      budgetUsedUp: ad.type === AdType.BUDGET && ad.spent >= ad.budget,
+      level: ad.level,
+      startsAt: moment(ad.startsAt).tz("Africa/Lagos").format("D MMM YYYY"),
+      expiresAt: moment(ad.expiresAt)
+        .tz("Africa/Lagos")
+        .format("D MMM YYYY, h:mm A"),
+      views: ad.adViews,
+      clicks: ad.adClicks,
+      ctr,
+      budget: ad.budget,
+      spent: ad.spent,
+      autoRenew: ad.autoRenew,
+      cardLast4: ad.authorization?.last4,
+    };
+  }
+}
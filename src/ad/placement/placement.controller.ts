@@ -0,0 +1,122 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { AdPlacementKey } from "@prisma/client";
+import { AdPlacementService } from "./placement.service";
+import { ResponseDto } from "../../dtos/response.dto";
+import { ResponseStatus } from "../../dtos/interfaces/response.interface";
+import { HttpStatus } from "../../constants/http-status.enum";
+import { SuccessMessages } from "../../constants/success-messages.enum";
+
+export class AdPlacementController {
+  constructor(private readonly adPlacementService: AdPlacementService) {}
+
+  /**
+   * Get Ad Placements
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getPlacements: RequestHandler = async (
+    _request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adPlacementService.getPlacements();
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_AD_PLACEMENTS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Update Ad Placement (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  updatePlacement: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adPlacementService.updatePlacement(
+        request.params.placement as AdPlacementKey,
+        request.body
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.AD_PLACEMENT_UPDATE_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get Ads for a Placement
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getPlacementAds: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adPlacementService.getPlacementAds(
+        request.params.placement as AdPlacementKey,
+        request.query,
+        {
+          ip: request.ip,
+          userAgent: request.get("user-agent"),
+          customerId: request.body.customer?.id,
+        }
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_PLACEMENT_ADS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Update Ad Targeting
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  updateAdTargeting: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adPlacementService.updateAdTargeting(
+        request.params.adId,
+        request.body.merchant,
+        request.body
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.AD_TARGETING_UPDATE_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+}
@@ -0,0 +1,199 @@
+import {
+  AdEventType,
+  AdPlacement,
+  AdPlacementKey,
+  Merchant,
+} from "@prisma/client";
+import { ErrorMessages } from "../../constants/error-messages.enum";
+import { AdRepository } from "../../repositories/ad.repository";
+import { AdPlacementRepository } from "../../repositories/ad-placement.repository";
+import { MarketRepository } from "../../repositories/market.repository";
+import { AdViewer } from "../../interfaces/ad-viewer.interface";
+import { BaseException } from "../../utils/exceptions/base.exception";
+import { InternalServerException } from "../../utils/exceptions/internal-server.exception";
+import { NotFoundException } from "../../utils/exceptions/not-found.exception";
+import { UnauthorizedException } from "../../utils/exceptions/unauthorized.exception";
+import { ILogger } from "../../utils/logger/logger.interface";
+import { AdService } from "../ad.service";
+import { AdTargetingDto } from "../dtos/ad-targeting.dto";
+import { PlacementQueryDto } from "../dtos/placement-query.dto";
+import { PlacementUpdateDto } from "../dtos/placement-update.dto";
+
+// How many candidates per slot are ranked, to keep a wide rotation without loading every ad
+const CANDIDATES_PER_SLOT = 10;
+
+type PlacementCandidate = Awaited<
+  ReturnType<AdRepository["getPlacementCandidates"]>
+>[number];
+
+export class AdPlacementService {
+  constructor(
+    private readonly adPlacementRepository: AdPlacementRepository,
+    private readonly adRepository: AdRepository,
+    private readonly marketRepository: MarketRepository,
+    private readonly adService: AdService,
+    private readonly logger: ILogger
+  ) {}
+
+  async getPlacements(): Promise<AdPlacement[]> {
+    try {
+      return await this.adPlacementRepository.getAll();
+    } catch (error) {
+      this.logger.error(ErrorMessages.GET_AD_PLACEMENTS_FAILED, error);
+      throw new InternalServerException(ErrorMessages.GET_AD_PLACEMENTS_FAILED);
+    }
+  }
+
+  async updatePlacement(
+    key: AdPlacementKey,
+    data: PlacementUpdateDto
+  ): Promise<AdPlacement> {
+    try {
+      await this.getPlacement(key);
+      return await this.adPlacementRepository.update(key, {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.description !== undefined && {
+          description: data.description,
+        }),
+        ...(data.capacity !== undefined && { capacity: data.capacity }),
+        ...(data.active !== undefined && { active: data.active }),
+      });
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.AD_PLACEMENT_UPDATE_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.AD_PLACEMENT_UPDATE_FAILED
+      );
+    }
+  }
+
+  /**
+   * Ads to show in a placement, at most its capacity, best match for the context first.
+   * Every ad served is recorded as a view of that placement, subject to the same bot
+   * and repeat filtering as views tracked by the client.
+   */
+  async getPlacementAds(
+    key: AdPlacementKey,
+    context: PlacementQueryDto,
+    viewer: AdViewer
+  ) {
+    try {
+      const placement = await this.getPlacement(key);
+      if (!placement.active) return { placement, ads: [] };
+
+      const candidates = await this.adRepository.getPlacementCandidates(
+        context,
+        placement.capacity * CANDIDATES_PER_SLOT
+      );
+      const ranked = this.rankAds(candidates, context).slice(
+        0,
+        placement.capacity
+      );
+
+      for (const { ad } of ranked) {
+        try {
+          await this.adService.trackAdEvent(
+            ad.id,
+            AdEventType.VIEW,
+            viewer,
+            placement.id
+          );
+        } catch (error) {
+          // A missed impression must not keep the ads from being shown
+          this.logger.warn(ErrorMessages.AD_EVENT_TRACKING_FAILED, error);
+        }
+      }
+
+      return {
+        placement,
+        ads: ranked.map(({ ad, relevance }, index) => ({
+          adId: ad.id,
+          rank: index + 1,
+          level: ad.level,
+          type: ad.type,
+          relevance,
+          product: ad.product,
+        })),
+      };
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.GET_PLACEMENT_ADS_FAILED, error);
+      throw new InternalServerException(ErrorMessages.GET_PLACEMENT_ADS_FAILED);
+    }
+  }
+
+  async updateAdTargeting(
+    adId: string,
+    merchant: Merchant,
+    data: AdTargetingDto
+  ) {
+    try {
+      const ad = await this.adRepository.getAd(adId);
+      if (!ad) throw new NotFoundException(ErrorMessages.AD_NOT_FOUND);
+      const product = await this.adRepository.getProductForAd(adId);
+      if (!product || product.merchantId !== merchant.id)
+        throw new UnauthorizedException(ErrorMessages.NOT_YOUR_PRODUCT);
+      if (
+        data.targetMarketId &&
+        !(await this.marketRepository.findById(data.targetMarketId))
+      )
+        throw new NotFoundException(ErrorMessages.MARKET_NOT_FOUND);
+
+      return await this.adRepository.update(adId, {
+        ...(data.targetCategory !== undefined && {
+          targetCategory: data.targetCategory,
+        }),
+        ...(data.targetMarketId !== undefined && {
+          targetMarket: data.targetMarketId
+            ? { connect: { id: data.targetMarketId } }
+            : { disconnect: true },
+        }),
+        ...(data.targetState !== undefined && {
+          targetState: data.targetState?.trim() || null,
+        }),
+      });
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.AD_TARGETING_UPDATE_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.AD_TARGETING_UPDATE_FAILED
+      );
+    }
+  }
+
+  private async getPlacement(key: AdPlacementKey): Promise<AdPlacement> {
+    const placement = await this.adPlacementRepository.getByKey(key);
+    if (!placement)
+      throw new NotFoundException(ErrorMessages.AD_PLACEMENT_NOT_FOUND);
+    return placement;
+  }
+
+  /**
+   * Orders ads by how many parts of the context (category, market, state) they match,
+   * through their targeting or their product and merchant. Ads with the same relevance
+   * are shuffled with a weighted random pick on their level, so higher levels show up
+   * first more often while every ad still gets rotated in.
+   */
+  private rankAds(ads: PlacementCandidate[], context: PlacementQueryDto) {
+    const state = context.state?.toLowerCase();
+
+    return ads
+      .map((ad) => {
+        const merchant = ad.product.merchant;
+        const relevance = [
+          context.category &&
+            (ad.targetCategory === context.category ||
+              ad.product.category === context.category),
+          context.marketId &&
+            (ad.targetMarketId === context.marketId ||
+              merchant?.marketId === context.marketId),
+          state &&
+            (ad.targetState?.toLowerCase() === state ||
+              merchant?.market?.state?.toLowerCase() === state),
+        ].filter(Boolean).length;
+        const weight = Math.max(ad.level, 1);
+        return { ad, relevance, key: Math.random() ** (1 / weight) };
+      })
+      .sort((a, b) => b.relevance - a.relevance || b.key - a.key);
+  }
+}
@@ -0,0 +1,157 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { AdPlanService } from "./plan.service";
+import { ResponseDto } from "../../dtos/response.dto";
+import { ResponseStatus } from "../../dtos/interfaces/response.interface";
+import { HttpStatus } from "../../constants/http-status.enum";
+import { SuccessMessages } from "../../constants/success-messages.enum";
+
+export class AdPlanController {
+  constructor(private readonly adPlanService: AdPlanService) {}
+
+  /**
+   * Get Current Ad Plans
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getCurrentPlans: RequestHandler = async (
+    _request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adPlanService.getCurrentPlans();
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_AD_PLANS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get All Ad Plans (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getPlans: RequestHandler = async (
+    _request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adPlanService.getPlans();
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_AD_PLANS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get Ad Plan (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getPlan: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adPlanService.getPlan(request.params.planId);
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_AD_PLAN_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Create Ad Plan (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  createPlan: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adPlanService.createPlan(request.body);
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.AD_PLAN_CREATE_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.CREATED).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Update Ad Plan (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  updatePlan: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adPlanService.updatePlan(
+        request.params.planId,
+        request.body
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.AD_PLAN_UPDATE_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Delete Ad Plan (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  deletePlan: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adPlanService.deletePlan(request.params.planId);
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.AD_PLAN_DELETE_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+}
@@ -0,0 +1,73 @@
+import { Router } from "express";
+import { Role } from "@prisma/client";
+import { AdPlanService } from "./plan.service";
+import { AdPlanController } from "./plan.controller";
+import { AdPlanRepository } from "../../repositories/ad-plan.repository";
+import { CustomerRepository } from "../../repositories/customer.repository";
+import { WinstonLogger } from "../../utils/logger/winston.logger";
+import { JWTService } from "../../utils/jwt/jwt.service";
+import { Validator } from "../../utils/middlewares/validator.middleware";
+import { CustomerAuthGaurd } from "../../utils/middlewares/guards/customer.auth.guard";
+import { IdDto } from "../../dtos/id.dto";
+import { AdPlanCreateDto } from "../dtos/ad-plan-create.dto";
+import { AdPlanUpdateDto } from "../dtos/ad-plan-update.dto";
+
+const router = Router();
+const logger = new WinstonLogger("AdPlanService");
+const jwtService = new JWTService();
+const customerRepository = new CustomerRepository();
+const adPlanService = new AdPlanService(new AdPlanRepository(), logger);
+const adPlanController = new AdPlanController(adPlanService);
+const validator = new Validator();
+const customerAuthGaurd = new CustomerAuthGaurd(
+  customerRepository,
+  logger,
+  jwtService
+);
+
+// Get the Plans on sale now, one per level
+router.get("/", adPlanController.getCurrentPlans);
+
+// Get All Plans (Admin)
+router.get(
+  "/all",
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  adPlanController.getPlans
+);
+
+// Get Plan (Admin)
+router.get(
+  "/:planId",
+  validator.single(IdDto, "params"),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  adPlanController.getPlan
+);
+
+// Create Plan (Admin)
+router.post(
+  "/",
+  validator.single(AdPlanCreateDto, "body"),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  adPlanController.createPlan
+);
+
+// Update Plan (Admin)
+router.put(
+  "/:planId",
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: AdPlanUpdateDto, source: "body" },
+  ]),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  adPlanController.updatePlan
+);
+
+// Delete Plan (Admin)
+router.delete(
+  "/:planId",
+  validator.single(IdDto, "params"),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  adPlanController.deletePlan
+);
+
+export default router;
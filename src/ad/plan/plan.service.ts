@@ -0,0 +1,124 @@
+import { AdPlan } from "@prisma/client";
+import { ErrorMessages } from "../../constants/error-messages.enum";
+import { AdPlanRepository } from "../../repositories/ad-plan.repository";
+import { BadRequestException } from "../../utils/exceptions/bad-request.exception";
+import { BaseException } from "../../utils/exceptions/base.exception";
+import { InternalServerException } from "../../utils/exceptions/internal-server.exception";
+import { NotFoundException } from "../../utils/exceptions/not-found.exception";
+import { ILogger } from "../../utils/logger/logger.interface";
+import { AdPlanCreateDto } from "../dtos/ad-plan-create.dto";
+import { AdPlanUpdateDto } from "../dtos/ad-plan-update.dto";
+
+export class AdPlanService {
+  constructor(
+    private readonly adPlanRepository: AdPlanRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async createPlan(data: AdPlanCreateDto): Promise<AdPlan> {
+    try {
+      const validFrom = data.validFrom ? new Date(data.validFrom) : new Date();
+      const validTo = data.validTo ? new Date(data.validTo) : null;
+      this.checkValidity(validFrom, validTo);
+
+      return await this.adPlanRepository.create({
+        name: data.name,
+        level: data.level,
+        price: data.price,
+        durationDays: data.durationDays,
+        active: data.active ?? true,
+        validFrom,
+        validTo,
+      });
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.AD_PLAN_CREATE_FAILED, error);
+      throw new InternalServerException(ErrorMessages.AD_PLAN_CREATE_FAILED);
+    }
+  }
+
+  /**
+   * Changes to price or duration only apply to payments started afterwards,
+   * payments in progress keep the plan values they were started with.
+   */
+  async updatePlan(id: string, data: AdPlanUpdateDto): Promise<AdPlan> {
+    try {
+      const plan = await this.getPlan(id);
+      const validFrom = data.validFrom
+        ? new Date(data.validFrom)
+        : plan.validFrom;
+      const validTo =
+        data.validTo === undefined
+          ? plan.validTo
+          : data.validTo
+            ? new Date(data.validTo)
+            : null;
+      this.checkValidity(validFrom, validTo);
+
+      return await this.adPlanRepository.update(id, {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.price !== undefined && { price: data.price }),
+        ...(data.durationDays !== undefined && {
+          durationDays: data.durationDays,
+        }),
+        ...(data.active !== undefined && { active: data.active }),
+        validFrom,
+        validTo,
+      });
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.AD_PLAN_UPDATE_FAILED, error);
+      throw new InternalServerException(ErrorMessages.AD_PLAN_UPDATE_FAILED);
+    }
+  }
+
+  async deletePlan(id: string): Promise<AdPlan> {
+    try {
+      await this.getPlan(id);
+      // Soft delete, ads and transactions keep pointing at the plan they were bought with
+      return await this.adPlanRepository.update(id, {
+        active: false,
+        deletedAt: new Date(),
+      });
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.AD_PLAN_DELETE_FAILED, error);
+      throw new InternalServerException(ErrorMessages.AD_PLAN_DELETE_FAILED);
+    }
+  }
+
+  async getPlan(id: string): Promise<AdPlan> {
+    try {
+      const plan = await this.adPlanRepository.getById(id);
+      if (!plan) throw new NotFoundException(ErrorMessages.AD_PLAN_NOT_FOUND);
+      return plan;
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.GET_AD_PLANS_FAILED, error);
+      throw new InternalServerException(ErrorMessages.GET_AD_PLANS_FAILED);
+    }
+  }
+
+  async getPlans(): Promise<AdPlan[]> {
+    try {
+      return await this.adPlanRepository.getAll();
+    } catch (error) {
+      this.logger.error(ErrorMessages.GET_AD_PLANS_FAILED, error);
+      throw new InternalServerException(ErrorMessages.GET_AD_PLANS_FAILED);
+    }
+  }
+
+  async getCurrentPlans(): Promise<AdPlan[]> {
+    try {
+      return await this.adPlanRepository.getCurrentPlans();
+    } catch (error) {
+      this.logger.error(ErrorMessages.GET_AD_PLANS_FAILED, error);
+      throw new InternalServerException(ErrorMessages.GET_AD_PLANS_FAILED);
+    }
+  }
+
+  private checkValidity(validFrom: Date, validTo: Date | null) {
+    if (validTo && validTo <= validFrom)
+      throw new BadRequestException(ErrorMessages.INVALID_AD_PLAN_VALIDITY);
+  }
+}
@@ -0,0 +1,175 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { RefundRequestStatus } from "@prisma/client";
+import { AdRefundService } from "./refund.service";
+import { ResponseDto } from "../../dtos/response.dto";
+import { ResponseStatus } from "../../dtos/interfaces/response.interface";
+import { HttpStatus } from "../../constants/http-status.enum";
+import { SuccessMessages } from "../../constants/success-messages.enum";
+
+export class AdRefundController {
+  constructor(private readonly adRefundService: AdRefundService) {}
+
+  /**
+   * Request Ad Refund
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  requestRefund: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adRefundService.requestRefund(
+        request.params.adId,
+        request.body.merchant,
+        request.body.reason
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.REFUND_REQUEST_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.CREATED).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get Refund Requests (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getRefundRequests: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adRefundService.getRefundRequests(
+        request.query.status as RefundRequestStatus | undefined
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_REFUND_REQUESTS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get Merchant's Refund Requests
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getMerchantRefundRequests: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adRefundService.getMerchantRefundRequests(
+        request.body.merchant.id
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_REFUND_REQUESTS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Approve Refund Request (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  approveRefund: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adRefundService.approveRefund(
+        request.params.refundId,
+        request.body.customer,
+        request.body.note
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.REFUND_APPROVED_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Confirm a Refund Waiting on the Provider (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  confirmRefund: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adRefundService.confirmRefund(
+        request.params.refundId,
+        request.body.customer,
+        request.body.note
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.REFUND_CONFIRMED_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Reject Refund Request (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  rejectRefund: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.adRefundService.rejectRefund(
+        request.params.refundId,
+        request.body.customer,
+        request.body.note
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.REFUND_REJECTED_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+}
@@ -0,0 +1,106 @@
+import { Router } from "express";
+import { Role } from "@prisma/client";
+import { AdRefundService } from "./refund.service";
+import { AdRefundController } from "./refund.controller";
+import { AdRepository } from "../../repositories/ad.repository";
+import { CustomerRepository } from "../../repositories/customer.repository";
+import { MerchantRepository } from "../../repositories/merchant.repository";
+import { RefundRequestRepository } from "../../repositories/refund-request.repository";
+import { TransactionRepository } from "../../repositories/transaction.repository";
+import { WinstonLogger } from "../../utils/logger/winston.logger";
+import { JWTService } from "../../utils/jwt/jwt.service";
+import { Validator } from "../../utils/middlewares/validator.middleware";
+import { CustomerAuthGaurd } from "../../utils/middlewares/guards/customer.auth.guard";
+import { MerchantAuthGaurd } from "../../utils/middlewares/guards/merchant.auth.guard";
+import { paymentGateway } from "../../utils/payment";
+import { IdDto } from "../../dtos/id.dto";
+import { IdDto as AdIdDto } from "../dtos/Id.dto";
+import { RefundRequestDto } from "../dtos/refund-request.dto";
+import { RefundReviewDto } from "../dtos/refund-review.dto";
+import { RefundFilterDto } from "../dtos/refund-filter.dto";
+
+const router = Router();
+const logger = new WinstonLogger("AdRefundService");
+const jwtService = new JWTService();
+const customerRepository = new CustomerRepository();
+const merchantRepository = new MerchantRepository();
+const adRefundService = new AdRefundService(
+  new RefundRequestRepository(),
+  new AdRepository(),
+  new TransactionRepository(),
+  paymentGateway,
+  logger
+);
+const adRefundController = new AdRefundController(adRefundService);
+const validator = new Validator();
+const customerAuthGaurd = new CustomerAuthGaurd(
+  customerRepository,
+  logger,
+  jwtService
+);
+const merchantAuthGaurd = new MerchantAuthGaurd(
+  merchantRepository,
+  logger,
+  jwtService
+);
+
+// Get Refund Requests (Admin)
+router.get(
+  "/",
+  validator.single(RefundFilterDto, "query"),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  adRefundController.getRefundRequests
+);
+
+// Get Merchant's Refund Requests
+router.get(
+  "/merchant",
+  merchantAuthGaurd.authorise({ strict: true }),
+  adRefundController.getMerchantRefundRequests
+);
+
+// Request a Refund for a Paid Ad
+router.post(
+  "/:adId",
+  validator.multiple([
+    { schema: AdIdDto, source: "params" },
+    { schema: RefundRequestDto, source: "body" },
+  ]),
+  merchantAuthGaurd.authorise({ strict: true }),
+  adRefundController.requestRefund
+);
+
+// Approve Refund Request (Admin)
+router.put(
+  "/:refundId/approve",
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: RefundReviewDto, source: "body" },
+  ]),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  adRefundController.approveRefund
+);
+
+// Confirm a Refund Waiting on the Provider (Admin)
+router.put(
+  "/:refundId/confirm",
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: RefundReviewDto, source: "body" },
+  ]),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  adRefundController.confirmRefund
+);
+
+// Reject Refund Request (Admin)
+router.put(
+  "/:refundId/reject",
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: RefundReviewDto, source: "body" },
+  ]),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  adRefundController.rejectRefund
+);
+
+export default router;
@@ -0,0 +1,344 @@
+import {
+  Ad,
+  AdPaymentAction,
+  AdType,
+  Customer,
+  Merchant,
+  RefundRequestStatus,
+  Transaction,
+} from "@prisma/client";
+import moment from "moment-timezone";
+import { AdTimeLine } from "../../constants/ad-constants.enum";
+import { ErrorMessages } from "../../constants/error-messages.enum";
+import { AdRepository } from "../../repositories/ad.repository";
+import { RefundRequestRepository } from "../../repositories/refund-request.repository";
+import { TransactionRepository } from "../../repositories/transaction.repository";
+import { BadRequestException } from "../../utils/exceptions/bad-request.exception";
+import { BaseException } from "../../utils/exceptions/base.exception";
+import { InternalServerException } from "../../utils/exceptions/internal-server.exception";
+import { NotFoundException } from "../../utils/exceptions/not-found.exception";
+import { UnauthorizedException } from "../../utils/exceptions/unauthorized.exception";
+import { ILogger } from "../../utils/logger/logger.interface";
+import { PaymentGatewayService } from "../../utils/payment/payment-gateway.service";
+import { PaymentRefund } from "../../utils/payment/payment-provider.interface";
+
+export interface RefundPortion {
+  transaction: Transaction;
+  // Naira refunded for this payment
+  amount: number;
+  // Budget ads: the part of the unspent budget this payment credited
+  budget: number;
+}
+
+export class AdRefundService {
+  constructor(
+    private readonly refundRequestRepository: RefundRequestRepository,
+    private readonly adRepository: AdRepository,
+    private readonly transactionRepository: TransactionRepository,
+    private readonly paymentGateway: PaymentGatewayService,
+    private readonly logger: ILogger
+  ) {}
+
+  /**
+   * Splits the refund over the payments that fund the ad's current period, newest first.
+   * Purchases and renewals each pay for their own days, so the whole days left before the
+   * ad expires are taken from the latest payment first. An upgrade pays for the rest of the
+   * period it upgraded and is pro-rated by the days left. Budget ads refund their unspent
+   * budget, taken from the latest top up first.
+   */
+  calculateRefund(ad: Ad, transactions: Transaction[]): RefundPortion[] {
+    if (ad.type === AdType.BUDGET) {
+      let unspent = Math.max(ad.budget - ad.spent, 0);
+      return transactions
+        .map((transaction) => {
+          // The budget credited may be more than was paid when a coupon was used
+          const credited = transaction.originalAmount ?? transaction.amount;
+          const budget = Math.min(unspent, credited);
+          unspent -= budget;
+          const amount = credited
+            ? (budget * transaction.amount) / credited
+            : 0;
+          return {
+            transaction,
+            amount: Math.round(amount * 100) / 100,
+            budget,
+          };
+        })
+        .filter((portion) => portion.budget > 0);
+    }
+
+    const remainingDays = this.getRemainingDays(ad);
+    let unrefundedDays = remainingDays;
+    return transactions
+      .map((transaction) => {
+        const totalDays =
+          transaction.adDuration ??
+          AdTimeLine[ad.level as keyof typeof AdTimeLine];
+        if (!totalDays) return { transaction, amount: 0, budget: 0 };
+        let days = Math.min(remainingDays, totalDays);
+        if (transaction.adAction !== AdPaymentAction.UPGRADE) {
+          days = Math.min(unrefundedDays, totalDays);
+          unrefundedDays -= days;
+        }
+        const amount = (transaction.amount * days) / totalDays;
+        return {
+          transaction,
+          amount: Math.round(amount * 100) / 100,
+          budget: 0,
+        };
+      })
+      .filter((portion) => portion.amount > 0);
+  }
+
+  // Whole days left before the ad expires, a partly used day is not refunded
+  private getRemainingDays(ad: Ad): number {
+    if (!ad.expiresAt) return 0;
+    const now = moment.tz("Africa/Lagos");
+    const remainingDays = Math.floor(
+      moment(ad.expiresAt).tz("Africa/Lagos").diff(now, "days", true)
+    );
+    return Math.max(remainingDays, 0);
+  }
+
+  private getRefundTotal(portions: RefundPortion[]): number {
+    const total = portions.reduce((sum, portion) => sum + portion.amount, 0);
+    return Math.round(total * 100) / 100;
+  }
+
+  async requestRefund(adId: string, merchant: Merchant, reason: string) {
+    try {
+      const ad = await this.adRepository.getAd(adId);
+      if (!ad) throw new NotFoundException(ErrorMessages.AD_NOT_FOUND);
+      const product = await this.adRepository.getProductForAd(adId);
+      if (!product || product.merchantId !== merchant.id)
+        throw new UnauthorizedException(ErrorMessages.NOT_YOUR_PRODUCT);
+
+      const transactions =
+        await this.transactionRepository.getAdFundingPayments(adId);
+      if (!ad.paidFor || !transactions.length)
+        throw new BadRequestException(ErrorMessages.AD_NOT_REFUNDABLE);
+
+      const amount = this.getRefundTotal(
+        this.calculateRefund(ad, transactions)
+      );
+      if (amount <= 0)
+        throw new BadRequestException(ErrorMessages.AD_NOT_REFUNDABLE);
+
+      const pending =
+        await this.refundRequestRepository.getPendingForTransactions(
+          transactions.map((transaction) => transaction.id)
+        );
+      if (pending)
+        throw new BadRequestException(ErrorMessages.REFUND_REQUEST_EXISTS);
+
+      // The request is filed against the latest payment for the ad
+      return await this.refundRequestRepository.create({
+        transactionId: transactions[0].id,
+        merchantId: merchant.id,
+        reason,
+        amount,
+      });
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.REFUND_REQUEST_FAILED, error);
+      throw new InternalServerException(ErrorMessages.REFUND_REQUEST_FAILED);
+    }
+  }
+
+  async getRefundRequests(status?: RefundRequestStatus) {
+    try {
+      return await this.refundRequestRepository.getRefundRequests({ status });
+    } catch (error) {
+      this.logger.error(ErrorMessages.GET_REFUND_REQUESTS_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.GET_REFUND_REQUESTS_FAILED
+      );
+    }
+  }
+
+  async getMerchantRefundRequests(merchantId: string) {
+    try {
+      return await this.refundRequestRepository.getRefundRequests({
+        merchantId,
+      });
+    } catch (error) {
+      this.logger.error(ErrorMessages.GET_REFUND_REQUESTS_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.GET_REFUND_REQUESTS_FAILED
+      );
+    }
+  }
+
+  /**
+   * Refunds the remaining days of the ad through the provider that took each payment,
+   * then ends the ad and reverses marketer earnings that have not been paid out.
+   * The request is PROCESSING while the provider refunds it and goes back to PENDING
+   * when the provider fails. A refund the provider only accepted, such as a QuickTeller
+   * refund raised from its dashboard, keeps the request PROCESSING until an admin
+   * confirms it.
+   */
+  async approveRefund(refundId: string, admin: Customer, note?: string) {
+    try {
+      const refundRequest = await this.getPendingRefundRequest(refundId);
+      const { transaction } = refundRequest;
+
+      const ad = await this.adRepository.getAd(
+        transaction.appliedAdId ?? transaction.reference
+      );
+      if (!ad) throw new NotFoundException(ErrorMessages.AD_NOT_FOUND);
+
+      // Re-quote, days may have passed and payments may have been made since the merchant asked
+      const transactions =
+        await this.transactionRepository.getAdFundingPayments(ad.id);
+      const portions = this.calculateRefund(ad, transactions);
+      const amount = this.getRefundTotal(portions);
+      if (amount <= 0)
+        throw new BadRequestException(ErrorMessages.AD_NOT_REFUNDABLE);
+
+      // Claim the request first so a second approval cannot refund the payments again
+      await this.refundRequestRepository.claim(refundId, admin.id);
+      let awaitingRefund = false;
+      try {
+        for (const portion of portions) {
+          const status = await this.refundPortion(portion);
+          if (status === "pending") awaitingRefund = true;
+        }
+      } catch (error) {
+        // The request can be approved again, payments already refunded are skipped
+        await this.refundRequestRepository.release(refundId);
+        throw error;
+      }
+
+      const { refundRequest: approved, reversedEarnings } =
+        await this.refundRequestRepository.approve(refundId, {
+          reviewedById: admin.id,
+          amount,
+          reviewNote: note,
+          transactionIds: portions.map((portion) => portion.transaction.id),
+          adId: ad.id,
+          ...(ad.type === AdType.BUDGET && {
+            refundedBudget: portions.reduce(
+              (sum, portion) => sum + portion.budget,
+              0
+            ),
+          }),
+          awaitingRefund,
+        });
+      this.logger.info(
+        awaitingRefund
+          ? `Refund of ${amount} over ${portions.length} payments for ad ${ad.id} is waiting on the provider, reversed ${reversedEarnings} marketer earnings`
+          : `Refunded ${amount} over ${portions.length} payments for ad ${ad.id}, reversed ${reversedEarnings} marketer earnings`
+      );
+      return approved;
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.REFUND_REVIEW_FAILED, error);
+      throw new InternalServerException(ErrorMessages.REFUND_REVIEW_FAILED);
+    }
+  }
+
+  /**
+   * Approves a refund that was waiting on the provider once an admin has checked the
+   * money reached the merchant, for example after raising it from the QuickTeller dashboard
+   */
+  async confirmRefund(refundId: string, admin: Customer, note?: string) {
+    try {
+      const refundRequest =
+        await this.refundRequestRepository.getRefundRequest(refundId);
+      if (!refundRequest)
+        throw new NotFoundException(ErrorMessages.REFUND_REQUEST_NOT_FOUND);
+      if (
+        refundRequest.status !== RefundRequestStatus.PROCESSING ||
+        !refundRequest.awaitingRefund
+      )
+        throw new BadRequestException(
+          ErrorMessages.REFUND_NOT_AWAITING_PROVIDER
+        );
+
+      const { transaction } = refundRequest;
+      const transactions =
+        await this.transactionRepository.getAdFundingPayments(
+          transaction.appliedAdId ?? transaction.reference
+        );
+      const confirmed = await this.refundRequestRepository.confirm(refundId, {
+        reviewedById: admin.id,
+        reviewNote: note,
+        transactionIds: transactions
+          .filter(
+            (payment) =>
+              payment.refundPendingAmount > 0 || payment.refundedAmount > 0
+          )
+          .map((payment) => payment.id),
+      });
+      this.logger.info(`Admin ${admin.id} confirmed refund ${refundId}`);
+      return confirmed;
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.REFUND_REVIEW_FAILED, error);
+      throw new InternalServerException(ErrorMessages.REFUND_REVIEW_FAILED);
+    }
+  }
+
+  /**
+   * Refunds one payment's share through its provider and records it on the payment,
+   * as refunded or as pending when the provider has not paid it out yet.
+   * What an earlier, failed approval already sent is not refunded again.
+   */
+  private async refundPortion(
+    portion: RefundPortion
+  ): Promise<PaymentRefund["status"]> {
+    const { transaction } = portion;
+    const due =
+      Math.round(
+        (portion.amount -
+          transaction.refundedAmount -
+          transaction.refundPendingAmount) *
+          100
+      ) / 100;
+    if (due <= 0)
+      return transaction.refundPendingAmount > 0 ? "pending" : "processed";
+
+    const refund = await this.paymentGateway
+      .getProvider(transaction.provider)
+      .refundPayment(`txn-${transaction.id}`, due);
+    if (!refund || refund.status === "failed") {
+      this.logger.error(
+        `${ErrorMessages.REFUND_FAILED} for transaction ${transaction.id}`
+      );
+      throw new InternalServerException(ErrorMessages.REFUND_FAILED);
+    }
+    await this.transactionRepository.update(
+      transaction.id,
+      refund.status === "pending"
+        ? { refundPendingAmount: { increment: due } }
+        : { refundedAmount: { increment: due } }
+    );
+    return refund.status;
+  }
+
+  async rejectRefund(refundId: string, admin: Customer, note?: string) {
+    try {
+      await this.getPendingRefundRequest(refundId);
+      return await this.refundRequestRepository.reject(refundId, {
+        reviewedById: admin.id,
+        reviewNote: note,
+      });
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.REFUND_REVIEW_FAILED, error);
+      throw new InternalServerException(ErrorMessages.REFUND_REVIEW_FAILED);
+    }
+  }
+
+  private async getPendingRefundRequest(refundId: string) {
+    const refundRequest =
+      await this.refundRequestRepository.getRefundRequest(refundId);
+    if (!refundRequest)
+      throw new NotFoundException(ErrorMessages.REFUND_REQUEST_NOT_FOUND);
+    if (refundRequest.status !== RefundRequestStatus.PENDING)
+      throw new BadRequestException(
+        ErrorMessages.REFUND_REQUEST_ALREADY_REVIEWED
+      );
+    return refundRequest;
+  }
+}
@@ -15,6 +15,7 @@ import IndexRouter from "./routes";
 import passport from "passport";
 import { EmailService } from "./utils/email/email.service";
 import { EmailSubjects, EmailPaths } from "./constants/email.enum";
+import { RawBodyRequest } from "./interfaces/raw-body-request.interface";
 // Create App
 const app: express.Express = express();
 
@@ -37,7 +38,16 @@ databaseService.connect();
 // Configure App
 app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(specs));
 app.set("port", process.env.PORT || AppEnum.PORT);
-app.use(express.json());
+// Requests come through the hosting proxy, trust it so request.ip is the client address
+app.set("trust proxy", 1);
+app.use(
+  express.json({
+    // Keep the raw body around for webhook signature verification
+    verify: (request, _response, buffer) => {
+      (request as RawBodyRequest).rawBody = buffer;
+    },
+  })
+);
 app.use(express.urlencoded({ extended: true }));
 app.use(
   cors({
@@ -282,9 +282,15 @@ export class CustomerAuthService implements IAuthService {
         this.logger.error(ErrorMessages.INVALID_VERIFICATION_TOKEN);
         throw new BadRequestException(ErrorMessages.INVALID_VERIFICATION_TOKEN);
       }
+      // A marketer with the same email signs in with this account from now on
+      const marketer = await this.marketerRepository.getMarketerByEmail(email);
       await this.customerRepository.update(customer.id, {
         emailVerifiedAt: new Date(),
         emailVerificationCode: null,
+        ...(marketer &&
+          !marketer.customerId && {
+            marketer: { connect: { id: marketer.id } },
+          }),
       });
       return true;
     } catch (e) {
@@ -11,6 +11,7 @@ import {
   IsOptional,
   IsString,
   IsStrongPassword,
+  IsUUID,
   MinLength,
   ValidateNested,
 } from "class-validator";
@@ -75,4 +76,9 @@ export class MerchantRegisterRequestDto implements MerchantCreateInput {
   @IsNotEmpty()
   @IsString()
   declare referrerUsername?: string;
+
+  // The `visit` the referral link redirect added to the signup page
+  @IsOptional()
+  @IsUUID()
+  declare referralVisitId?: string;
 }
@@ -6,6 +6,7 @@ import { SuccessMessages } from "../../constants/success-messages.enum";
 import { HttpStatus } from "../../constants/http-status.enum";
 import { RequestParserHelper } from "../../helpers/request-parser.helper";
 import { AppEnum } from "../../constants/app.enum";
+import { ReferralCookies } from "../../constants/referral.enum";
 
 export class MerchantAuthController {
     constructor(private readonly merchantAuthService: MerchantAuthService) { }
@@ -35,8 +36,13 @@ export class MerchantAuthController {
      */
     register: RequestHandler = async (request: Request, response: Response, next: NextFunction) => {
         try {
-            const url = new RequestParserHelper(request).getUrl('/auth/merchant/verify-email-token');
-            await this.merchantAuthService.register(request.body, url);
+            const requestParser = new RequestParserHelper(request);
+            const url = requestParser.getUrl('/auth/merchant/verify-email-token');
+            await this.merchantAuthService.register(request.body, url, {
+                visitId: request.body.referralVisitId ?? requestParser.getCookie(ReferralCookies.VISIT),
+                ip: request.ip,
+                userAgent: request.get('user-agent'),
+            });
             const resObj = new ResponseDto(ResponseStatus.SUCCESS, SuccessMessages.REGISTRATION_SUCCESSFUL);
             return response.status(HttpStatus.CREATED).send(resObj);
         } catch (e) {
@@ -14,6 +14,7 @@ import { ForgotPasswordRequestDto } from "../dtos/forgot-password-request.dto";
 import { ResetPasswordRequestDto } from "../dtos/reset-password-request.dto";
 import passport from "passport";
 import { MarketRepository } from "../../repositories/market.repository";
+import { referralService } from "../../marketer/referral/referral.routes";
 
 const router = Router();
 const validator = new Validator();
@@ -27,7 +28,7 @@ const marketRepository = new MarketRepository();
 
 
 // Merchant Auth Service
-const merchantAuthService = new MerchantAuthService(logger, bcryptService, jwtService, merchantRepository, marketRepository);
+const merchantAuthService = new MerchantAuthService(logger, bcryptService, jwtService, merchantRepository, marketRepository, referralService);
 
 // Merchant Auth Controller
 const merchantAuthController = new MerchantAuthController(merchantAuthService);
@@ -29,6 +29,8 @@ import { Prisma } from "@prisma/client";
 import { MarketRepository } from "../../repositories/market.repository";
 import { BaseException } from "../../utils/exceptions/base.exception";
 import { MarketerRepository } from "../../repositories/marketer.repository";
+import { ReferralService } from "../../marketer/referral/referral.service";
+import { ReferralVisitor } from "../../interfaces/referral-visitor.interface";
 
 export class MerchantAuthService implements IAuthService {
   private readonly logger: ILogger;
@@ -39,13 +41,15 @@ export class MerchantAuthService implements IAuthService {
   private readonly merchantRepository: MerchantRepository;
   private readonly marketRepository: MarketRepository;
   private marketerRepository: MarketerRepository;
+  private readonly referralService: ReferralService;
 
   constructor(
     logger: ILogger,
     bcryptService: BcryptService,
     jwtService: JWTService,
     merchantRepository: MerchantRepository,
-    marketRepository: MarketRepository
+    marketRepository: MarketRepository,
+    referralService: ReferralService
   ) {
     this.logger = logger;
     this.bcryptService = bcryptService;
@@ -55,6 +59,7 @@ export class MerchantAuthService implements IAuthService {
     this.merchantRepository = merchantRepository;
     this.marketRepository = marketRepository;
     this.marketerRepository = new MarketerRepository();
+    this.referralService = referralService;
     this.initializeEventHandlers();
   }
 
@@ -190,7 +195,8 @@ export class MerchantAuthService implements IAuthService {
 
   async register(
     registerData: MerchantRegisterRequestDto,
-    url: string
+    url: string,
+    visitor: ReferralVisitor = {}
   ): Promise<boolean> {
     const { marketName, ...data } = registerData;
     const { email, brandName, password, referrerCode, referrerUsername } = data;
@@ -253,12 +259,28 @@ export class MerchantAuthService implements IAuthService {
         }
       }
 
+      // Credit the signup to the last referral link visit in the cookie window, which also
+      // refers the merchant when they did not enter a referrer themselves
+      const visit = await this.referralService.findVisitToAttribute(
+        visitor,
+        referredById
+      );
+      if (visit && !referredById && !referrerCode && !referrerUsername) {
+        const marketer = await this.marketerRepository.getMarketerById(
+          visit.marketerId
+        );
+        if (marketer && marketer.verified) {
+          referredById = marketer.id;
+        }
+      }
+
       // Create new merchant
       const {
         addresses,
         phoneNumbers,
         referrerCode: code,
         referrerUsername: user,
+        referralVisitId,
         ...newMerchantData
       } = data;
       // Ensure addresses have different names
@@ -282,6 +304,10 @@ export class MerchantAuthService implements IAuthService {
         marketName
       );
 
+      if (visit && visit.marketerId === referredById) {
+        await this.referralService.markConverted(visit.id, newMerchant.id);
+      }
+
       // Send welcome email
       this.eventEmiter.emit("sendMerchantWelcomeEmail", {
         email,
@@ -355,6 +381,11 @@ export class MerchantAuthService implements IAuthService {
         emailVerifiedAt: new Date(),
         emailVerificationCode: null,
       });
+      this.eventEmiter.emit("merchantVerified", {
+        merchantId: merchant.id,
+        referredById: merchant.referredById,
+        createdAt: merchant.createdAt,
+      });
       return true;
     } catch (e) {
       if (e instanceof BaseException) {
@@ -1,3 +1,5 @@
+// Ad pricing now lives in the AdPlan table. These are the values it was seeded
+// with and are only used for ads bought before plans existed.
 export const AdPrices = {
   1: 3000,
   2: 5000,
@@ -9,3 +11,6 @@ export const AdTimeLine = {
   2: 30,
   3: 30,
 };
+
+// Budget ads rank alongside level 1 ads and count as the product's paid ad
+export const BudgetAdLevel = 1;
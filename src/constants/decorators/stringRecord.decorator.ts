@@ -0,0 +1,22 @@
+import { registerDecorator, ValidationOptions, ValidationArguments } from 'class-validator';
+
+export function IsStringRecord(validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        registerDecorator({
+            name: 'isStringRecord',
+            target: object.constructor,
+            propertyName: propertyName,
+            options: validationOptions,
+            validator: {
+                validate(value: any, args: ValidationArguments) {
+                    if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+                    const values = Object.values(value);
+                    return values.length > 0 && values.every((item) => typeof item === 'string' && item.length > 0);
+                },
+                defaultMessage(args: ValidationArguments) {
+                    return `${args.property} must be an object of non-empty strings`;
+                }
+            }
+        });
+    };
+}
@@ -8,6 +8,10 @@ export enum EmailPaths {
   INVITE_USER = "invite-user",
   MARKETER_REGISTRATION = "marketer-registration.ejs",
   MARKETER_VERIFICATION_SUCCESS = "marketer-verification-success.ejs",
+  MARKETER_KYC_REVIEW = "marketer-kyc-review.ejs",
+  ORDER_STATUS_UPDATE = "order-status-update.ejs",
+  AD_EXPIRY = "ad-expiry.ejs",
+  AD_AUTO_RENEW_FAILED = "ad-auto-renew-failed.ejs",
 }
 
 export enum EmailSubjects {
@@ -21,4 +25,10 @@ export enum EmailSubjects {
   CONTACT_US = "Contact Us",
   MARKETER_REGISTRATION = "Your 9ja Market Marketer Application Received",
   MARKETER_VERIFICATION_SUCCESS = "Congratulations! Your 9ja Market Marketer Account is Verified",
+  MARKETER_KYC_REJECTED = "Your 9ja Market Marketer Application Was Not Approved",
+  MARKETER_KYC_RESUBMISSION_REQUESTED = "Please Resubmit Your 9ja Market Marketer Document",
+  ORDER_STATUS_UPDATE = "Update on Your 9ja Market Order",
+  AD_EXPIRING = "Your 9ja Market Ad Expires Soon",
+  AD_EXPIRED = "Your 9ja Market Ad Has Ended",
+  AD_AUTO_RENEW_FAILED = "We Could Not Renew Your 9ja Market Ad",
 }
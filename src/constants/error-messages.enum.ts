@@ -71,6 +71,7 @@ export enum ErrorMessages {
   AD_PAYMENT_VERIFICATION_FAILED = "Unable to Verify Ad Payment",
   TRANSACTION_NOT_FOUND = "Transaction Not Found",
   PAYMENT_VERIFICATION_FAILED = "Payment Verification Failed",
+  PAYMENT_PROVIDER_NOT_SUPPORTED = "Payment Provider Not Supported",
   GET_MARKET_PRODUCTS_FAILED = "Unable to Fetch Market Products",
   GET_MARKETS_FAILED = "Unable to Fetch Markets",
   GET_MALLS_FAILED = "Unable to Fetch Malls",
@@ -86,4 +87,116 @@ export enum ErrorMessages {
   STATS_FETCH_FAILED = "Unable to Fetch Stats",
   AD_FETCH_FAILED = "Unable to Fetch Ads",
   ADMIN_REGISTRATION_FAILED = "Unable to Register Admin",
+  CART_EMPTY = "Cart is Empty",
+  CART_CHANGED = "Cart Was Checked Out by Another Request, Reload the Cart",
+  CHECKOUT_FAILED = "Unable to Checkout Cart",
+  ORDER_NOT_FOUND = "Order Not Found",
+  ORDER_GET_FAILED = "Unable to Fetch Orders",
+  ORDER_UPDATE_FAILED = "Unable to Update Order",
+  INVALID_ORDER_STATUS_TRANSITION = "Invalid Order Status Transition",
+  ORDER_STATUS_CHANGED = "Order Status Was Changed by Another Request, Reload the Order",
+  NOT_YOUR_ORDER = "Order is not yours",
+  INVALID_WEBHOOK_SIGNATURE = "Invalid Webhook Signature",
+  WEBHOOK_PROCESSING_FAILED = "Unable to Process Webhook",
+  RECONCILIATION_FAILED = "Transaction Reconciliation Failed",
+  RECONCILIATION_REPORT_NOT_FOUND = "Reconciliation Report Not Found",
+  GET_RECONCILIATION_REPORTS_FAILED = "Unable to Fetch Reconciliation Reports",
+  RECONCILIATION_ALREADY_RUNNING = "Reconciliation Is Already Running",
+  AD_NOT_REFUNDABLE = "Ad Is Not Eligible for a Refund",
+  REFUND_REQUEST_EXISTS = "A Refund Request Is Already Pending for This Ad",
+  REFUND_REQUEST_NOT_FOUND = "Refund Request Not Found",
+  REFUND_REQUEST_ALREADY_REVIEWED = "Refund Request Has Already Been Reviewed",
+  REFUND_REQUEST_FAILED = "Unable to Request Refund",
+  REFUND_REVIEW_FAILED = "Unable to Review Refund Request",
+  REFUND_FAILED = "Payment Provider Could Not Process the Refund",
+  REFUND_NOT_AWAITING_PROVIDER = "Refund Request Is Not Waiting on a Provider Refund",
+  GET_REFUND_REQUESTS_FAILED = "Unable to Fetch Refund Requests",
+  ACTIVE_AD_EXISTS = "This Product Already Has an Active Paid Ad, Upgrade or Renew It Instead",
+  AD_NOT_ACTIVE = "Ad Is Not Active",
+  INVALID_AD_UPGRADE = "Ads Can Only Be Upgraded to a Higher Level",
+  AD_NOT_RENEWABLE = "Only Paid Ads Can Be Renewed",
+  AD_PLAN_NOT_AVAILABLE = "No Ad Plan Is Available for This Level",
+  AD_PLAN_NOT_FOUND = "Ad Plan Not Found",
+  INVALID_AD_PLAN_VALIDITY = "Ad Plan Must Start Before It Ends",
+  AD_PLAN_CREATE_FAILED = "Unable to Create Ad Plan",
+  AD_PLAN_UPDATE_FAILED = "Unable to Update Ad Plan",
+  AD_PLAN_DELETE_FAILED = "Unable to Delete Ad Plan",
+  GET_AD_PLANS_FAILED = "Unable to Fetch Ad Plans",
+  INVALID_COUPON = "Invalid Coupon Code",
+  COUPON_NOT_FOUND = "Coupon Not Found",
+  COUPON_EXPIRED = "Coupon Has Expired or Is Not Active Yet",
+  COUPON_USAGE_LIMIT_REACHED = "Coupon Usage Limit Reached",
+  COUPON_NOT_APPLICABLE = "Coupon Does Not Apply to This Ad",
+  COUPON_FIRST_AD_ONLY = "Coupon Is Only Valid on Your First Paid Ad",
+  COUPON_CODE_EXISTS = "Coupon Code Already Exists",
+  INVALID_COUPON_VALUE = "Percentage Coupons Must Be Between 1 and 100",
+  INVALID_COUPON_VALIDITY = "Coupon Must Start Before It Expires",
+  COUPON_CREATE_FAILED = "Unable to Create Coupon",
+  COUPON_UPDATE_FAILED = "Unable to Update Coupon",
+  COUPON_DELETE_FAILED = "Unable to Delete Coupon",
+  GET_COUPONS_FAILED = "Unable to Fetch Coupons",
+  BUDGET_TOO_LOW = "Ad Budget Is Below the Minimum",
+  NOT_BUDGET_AD = "Only Budget Ads Can Be Topped Up",
+  BUDGET_AD_NOT_UPGRADABLE = "Budget Ads Are Topped Up Instead of Upgraded or Renewed",
+  GET_AD_SPEND_FAILED = "Unable to Fetch Ad Spend",
+  AD_EVENT_TRACKING_FAILED = "Unable to Track Ad Event",
+  INVALID_ANALYTICS_RANGE = "Analytics Range Must Start Before It Ends and Cover at Most 90 Days",
+  GET_AD_ANALYTICS_FAILED = "Unable to Fetch Ad Analytics",
+  AD_PLACEMENT_NOT_FOUND = "Ad Placement Not Found",
+  AD_PLACEMENT_UPDATE_FAILED = "Unable to Update Ad Placement",
+  GET_AD_PLACEMENTS_FAILED = "Unable to Fetch Ad Placements",
+  GET_PLACEMENT_ADS_FAILED = "Unable to Fetch Ads for Placement",
+  AD_TARGETING_UPDATE_FAILED = "Unable to Update Ad Targeting",
+  SAVE_PAYMENT_AUTHORIZATION_FAILED = "Unable to Save Card for Auto-Renew",
+  GET_PAYMENT_AUTHORIZATIONS_FAILED = "Unable to Fetch Saved Cards",
+  PAYMENT_AUTHORIZATION_NOT_FOUND = "No Saved Card Found, Pay for an Ad by Card First",
+  AUTO_RENEW_NOT_AVAILABLE = "Auto-Renew Is Only Available for Running Paid Duration Ads",
+  AUTO_RENEW_UPDATE_FAILED = "Unable to Update Auto-Renew",
+  AUTO_RENEW_FAILED = "Unable to Auto-Renew Ad",
+  AD_LIFECYCLE_FAILED = "Ad Expiry and Auto-Renew Run Failed",
+  INVALID_AD_START_DATE = "Ad Start Date Must Not Be in the Past or More Than 90 Days Ahead",
+  PAYOUT_NOT_FOUND = "Payout Not Found",
+  NO_UNPAID_EARNINGS = "Marketer Has No Unpaid Earnings to Pay Out",
+  PAYOUT_IN_PROGRESS = "Some of These Earnings Are Already Being Paid Out",
+  PAYOUT_ALREADY_SETTLED = "Payout Has Already Been Sent or Failed",
+  CREATE_PAYOUT_FAILED = "Unable to Create Payout",
+  UPDATE_PAYOUT_FAILED = "Unable to Update Payout",
+  GET_PAYOUTS_FAILED = "Unable to Fetch Payouts",
+  PAYOUT_STATEMENT_FAILED = "Unable to Generate Payout Statement",
+  PAYOUT_TRANSFER_IN_PROGRESS = "Payout Is Being Sent as a Bank Transfer",
+  PAYOUT_TRANSFER_NOT_SUPPORTED = "Payment Provider Does Not Support Bank Transfers",
+  BANK_ACCOUNT_NOT_RESOLVED = "Marketer Bank Account Could Not Be Resolved",
+  BANK_ACCOUNT_NAME_MISMATCH = "Marketer Account Name Does Not Match the Bank's Record",
+  TRANSFER_RECIPIENT_FAILED = "Unable to Create Transfer Recipient",
+  PAYOUT_TRANSFER_FAILED = "Unable to Send Payout Transfer",
+  PAYOUT_TRANSFER_RUN_FAILED = "Payout Transfer Run Failed",
+  COMMISSION_RULE_NOT_FOUND = "No Commission Rule Has Been Set",
+  DUPLICATE_COMMISSION_TIER = "Commission Tiers Must Have Different Minimum Active Merchants",
+  BASE_COMMISSION_TIER_REQUIRED = "One Commission Tier Must Start at 0 Active Merchants",
+  CREATE_COMMISSION_RULE_FAILED = "Unable to Create Commission Rule",
+  GET_COMMISSION_RULES_FAILED = "Unable to Fetch Commission Rules",
+  RECORD_SIGNUP_BONUS_FAILED = "Unable to Record Marketer Signup Bonus",
+  MARKETER_ACCOUNT_NOT_LINKED = "No Marketer Profile Is Linked to This Account",
+  GET_MARKETER_DASHBOARD_FAILED = "Unable to Fetch Marketer Dashboard",
+  RECORD_REFERRAL_VISIT_FAILED = "Unable to Record Referral Visit",
+  ATTRIBUTE_REFERRAL_VISIT_FAILED = "Unable to Attribute Signup to Referral Visit",
+  GET_REFERRAL_FUNNEL_FAILED = "Unable to Fetch Referral Funnel",
+  MARKETER_KYC_NOT_PENDING = "Marketer Is Not Awaiting KYC Review",
+  REVIEW_MARKETER_KYC_FAILED = "Unable to Review Marketer KYC",
+  GET_MARKETER_KYC_REVIEWS_FAILED = "Unable to Fetch Marketer KYC Reviews",
+  MERCHANT_VERIFICATION_NOT_FOUND = "Verification Document Not Found",
+  MERCHANT_VERIFICATION_DOCUMENT_REQUIRED = "Verification Document Is Required",
+  MERCHANT_VERIFICATION_EXISTS = "A Document for This Scope Is Already Under Review or Approved",
+  MERCHANT_VERIFICATION_ALREADY_REVIEWED = "Verification Document Has Already Been Reviewed",
+  MERCHANT_VERIFICATION_REASON_REQUIRED = "A Reason Is Required to Reject a Document",
+  UPLOAD_MERCHANT_VERIFICATION_FAILED = "Unable to Upload Verification Document",
+  GET_MERCHANT_VERIFICATIONS_FAILED = "Unable to Fetch Verification Documents",
+  REVIEW_MERCHANT_VERIFICATION_FAILED = "Unable to Review Verification Document",
+  IDENTITY_CHECK_FAILED = "Unable to Check Identity Number with the Registry",
+  PRODUCT_VARIANT_NOT_FOUND = "Product Variant Not Found",
+  PRODUCT_VARIANT_REQUIRED = "Choose a Variant of This Product",
+  PRODUCT_VARIANT_SKU_EXISTS = "Variant SKUs Must Be Unique Within a Product",
+  GET_PRODUCT_VARIANTS_FAILED = "Unable to Fetch Product Variants",
+  UPDATE_PRODUCT_VARIANT_FAILED = "Unable to Update Product Variant",
+  DELETE_PRODUCT_VARIANT_FAILED = "Unable to Delete Product Variant",
 }
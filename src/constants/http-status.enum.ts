@@ -2,6 +2,7 @@ export enum HttpStatus {
     OK = 200,
     CREATED = 201,
     NO_CONTENT = 204,
+    FOUND = 302,
     BAD_REQUEST = 400,
     UNAUTHORIZED = 401,
     FORBIDDEN = 403,
@@ -0,0 +1,4 @@
+export enum IdentityVerifiers {
+  // In-process stub for development and tests
+  LOCAL = "LOCAL",
+}
@@ -1,4 +0,0 @@
-export enum MarketerEnum {
-  AdPercentagePerReferral = 0.1,
-  bonusPerReferral = 0,
-}
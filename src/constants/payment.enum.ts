@@ -0,0 +1,18 @@
+export enum PaystackEvents {
+  CHARGE_SUCCESS = "charge.success",
+  CHARGE_FAILED = "charge.failed",
+  TRANSFER_SUCCESS = "transfer.success",
+  TRANSFER_FAILED = "transfer.failed",
+  TRANSFER_REVERSED = "transfer.reversed",
+}
+
+export const PAYSTACK_SIGNATURE_HEADER = "x-paystack-signature";
+
+export enum FakePaymentOutcomes {
+  SUCCESS = "success",
+  FAILED = "failed",
+  ABANDONED = "abandoned",
+  DELAYED = "delayed",
+  // Transfers only: the transfer goes through and is then reversed by the bank
+  REVERSED = "reversed",
+}
@@ -0,0 +1,4 @@
+export enum ReferralCookies {
+  // Id of the last referral link visit, read back when the visitor signs up as a merchant
+  VISIT = "ref_visit",
+}
@@ -48,14 +48,68 @@ export enum SuccessMessages {
   GET_MARKETERS_SUCCESS = "Get Marketers Successful",
   CREATE_MARKETER_SUCCESS = "Create Marketer Successful",
   UPDATE_MARKETER_SUCCESS = "Update Marketer Successful",
-  VERIFY_MARKETER_SUCCESS = "Marketer Verified Successfully",
   DELETE_MARKETER_SUCCESS = "Marketer Deleted Successfully",
   GET_MARKETER_EARNINGS_SUCCESS = "Get Marketer Earnings Successful",
   MARKETER_EARNINGS_RETRIEVED = "Marketer Earnings Retrieved Successfully",
-  MARKETER_EARNINGS_PAID = "Marketer Earnings Marked as Paid Successfully",
   ADMIN_REGISTRATION_SUCCESSFUL = "Admin Registration Successful",
   CONNECT_MERCHANT_TO_MARKETER_SUCCESS = "Merchant Connected to Marketer Successfully",
   STATS_FETCH_SUCCESS = "Statistics Fetched Successfully",
   REVENUE_FETCH_SUCCESS = "Revenue Data Fetched Successfully",
   AD_FETCH_SUCCESS = "Advertisements Fetched Successfully",
+  CHECKOUT_SUCCESS = "Order Placed Successfully",
+  GET_ORDERS_SUCCESS = "Fetch Orders Successful",
+  GET_ORDER_SUCCESS = "Fetch Order Successful",
+  UPDATE_ORDER_STATUS_SUCCESS = "Order Status Updated Successfully",
+  FAKE_PAYMENT_SCRIPTED = "Fake Payment Outcome Set Successfully",
+  FAKE_WEBHOOK_FIRED = "Fake Payment Webhook Processed",
+  RECONCILIATION_REPORTS_FETCH_SUCCESS = "Reconciliation Reports Fetched Successfully",
+  RECONCILIATION_RUN_SUCCESS = "Reconciliation Completed Successfully",
+  REFUND_REQUEST_SUCCESS = "Refund Requested Successfully",
+  GET_REFUND_REQUESTS_SUCCESS = "Refund Requests Fetched Successfully",
+  REFUND_APPROVED_SUCCESS = "Refund Approved Successfully",
+  REFUND_CONFIRMED_SUCCESS = "Refund Confirmed Successfully",
+  REFUND_REJECTED_SUCCESS = "Refund Rejected Successfully",
+  AD_UPGRADE_INITIALIZATION_SUCCESS = "Ad Upgrade Payment Initialized Successfully",
+  AD_RENEWAL_INITIALIZATION_SUCCESS = "Ad Renewal Payment Initialized Successfully",
+  AD_PLAN_CREATE_SUCCESS = "Ad Plan Created Successfully",
+  AD_PLAN_UPDATE_SUCCESS = "Ad Plan Updated Successfully",
+  AD_PLAN_DELETE_SUCCESS = "Ad Plan Deleted Successfully",
+  GET_AD_PLANS_SUCCESS = "Ad Plans Fetched Successfully",
+  GET_AD_PLAN_SUCCESS = "Ad Plan Fetched Successfully",
+  COUPON_CREATE_SUCCESS = "Coupon Created Successfully",
+  COUPON_UPDATE_SUCCESS = "Coupon Updated Successfully",
+  COUPON_DELETE_SUCCESS = "Coupon Deleted Successfully",
+  GET_COUPONS_SUCCESS = "Coupons Fetched Successfully",
+  GET_COUPON_SUCCESS = "Coupon Fetched Successfully",
+  BUDGET_AD_INITIALIZATION_SUCCESS = "Budget Ad Payment Initialized Successfully",
+  AD_TOP_UP_INITIALIZATION_SUCCESS = "Ad Top Up Payment Initialized Successfully",
+  GET_AD_SPEND_SUCCESS = "Ad Spend Fetched Successfully",
+  GET_AD_ANALYTICS_SUCCESS = "Ad Analytics Fetched Successfully",
+  GET_AD_PLACEMENTS_SUCCESS = "Ad Placements Fetched Successfully",
+  AD_PLACEMENT_UPDATE_SUCCESS = "Ad Placement Updated Successfully",
+  GET_PLACEMENT_ADS_SUCCESS = "Placement Ads Fetched Successfully",
+  AD_TARGETING_UPDATE_SUCCESS = "Ad Targeting Updated Successfully",
+  GET_PAYMENT_AUTHORIZATIONS_SUCCESS = "Saved Cards Fetched Successfully",
+  AUTO_RENEW_UPDATE_SUCCESS = "Auto-Renew Updated Successfully",
+  CREATE_PAYOUT_SUCCESS = "Payout Created Successfully",
+  UPDATE_PAYOUT_SUCCESS = "Payout Updated Successfully",
+  GET_PAYOUTS_SUCCESS = "Payouts Fetched Successfully",
+  GET_PAYOUT_SUCCESS = "Payout Fetched Successfully",
+  PAYOUT_TRANSFER_SUCCESS = "Payout Transfer Started Successfully",
+  CREATE_COMMISSION_RULE_SUCCESS = "Commission Rule Created Successfully",
+  GET_COMMISSION_RULES_SUCCESS = "Commission Rules Fetched Successfully",
+  GET_COMMISSION_RULE_SUCCESS = "Commission Rule Fetched Successfully",
+  GET_MARKETER_DASHBOARD_SUCCESS = "Marketer Dashboard Fetched Successfully",
+  GET_REFERRAL_FUNNEL_SUCCESS = "Referral Funnel Fetched Successfully",
+  REVIEW_MARKETER_KYC_SUCCESS = "Marketer KYC Reviewed Successfully",
+  GET_MARKETER_KYC_REVIEWS_SUCCESS = "Marketer KYC Reviews Fetched Successfully",
+  GET_MARKETER_KYC_QUEUE_SUCCESS = "Marketer KYC Queue Fetched Successfully",
+  UPLOAD_MERCHANT_VERIFICATION_SUCCESS = "Verification Document Uploaded Successfully",
+  GET_MERCHANT_VERIFICATIONS_SUCCESS = "Verification Documents Fetched Successfully",
+  REVIEW_MERCHANT_VERIFICATION_SUCCESS = "Verification Document Reviewed Successfully",
+  GET_PRODUCT_VARIANTS_SUCCESS = "Product Variants Fetched Successfully",
+  UPDATE_PRODUCT_VARIANT_SUCCESS = "Product Variant Updated Successfully",
+  DELETE_PRODUCT_VARIANT_SUCCESS = "Product Variant Deleted Successfully",
+  ADD_PRODUCT_VARIANT_IMAGES_SUCCESS = "Product Variant Images Added Successfully",
+  REMOVE_PRODUCT_VARIANT_IMAGE_SUCCESS = "Product Variant Image Removed Successfully",
 }
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { CartService } from "./cart.service";
 import { ProductRepository } from "../../repositories/product.repository";
+import { ProductVariantRepository } from "../../repositories/product-variant.repository";
 import { CartProductRepository } from "../../repositories/cart-product.repository";
 import { WinstonLogger } from "../../utils/logger/winston.logger";
 import { CartController } from "./cart.controller";
@@ -17,7 +18,8 @@ const jwtService = new JWTService();
 const cartProductRepository = new CartProductRepository();
 const productRepository = new ProductRepository();
 const customerRepository = new CustomerRepository();
-const cartService = new CartService(cartProductRepository, productRepository, logger);
+const productVariantRepository = new ProductVariantRepository();
+const cartService = new CartService(cartProductRepository, productRepository, productVariantRepository, logger);
 const cartController = new CartController(cartService)
 const validator = new Validator();
 const customerAuthGaurd = new CustomerAuthGaurd(customerRepository, logger, jwtService)
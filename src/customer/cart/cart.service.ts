@@ -1,6 +1,7 @@
 import { ErrorMessages } from "../../constants/error-messages.enum";
 import { CartProductRepository } from "../../repositories/cart-product.repository";
 import { ProductRepository } from "../../repositories/product.repository";
+import { ProductVariantRepository } from "../../repositories/product-variant.repository";
 import { BadRequestException } from "../../utils/exceptions/bad-request.exception";
 import { BaseException } from "../../utils/exceptions/base.exception";
 import { InternalServerException } from "../../utils/exceptions/internal-server.exception";
@@ -13,6 +14,7 @@ export class CartService {
     constructor(
         private readonly cartProductRepository: CartProductRepository,
         private readonly productRepository: ProductRepository,
+        private readonly productVariantRepository: ProductVariantRepository,
         private readonly logger: WinstonLogger
     ) { }
 
@@ -26,11 +28,11 @@ export class CartService {
         }
     }
 
-    async updateCart(customerId: string, productId: string, { quantity }: AddToCartDto) {
+    async updateCart(customerId: string, productId: string, { quantity, variantId }: AddToCartDto) {
         try {
             // Remove Product from Cart if Quantity is 0
             if (quantity === 0) {
-                await this.removeFromCart(customerId, productId);
+                await this.removeFromCart(customerId, productId, variantId);
                 return this.getCart(customerId);
             };
 
@@ -44,20 +46,32 @@ export class CartService {
                 throw new NotFoundException(ErrorMessages.PRODUCT_NOT_FOUND);
             }
 
-            if (product.stock < quantity) {
+            // Products sold in variants are bought by variant, with the variant's stock and price
+            const variants = await this.productVariantRepository.getProductVariants(productId);
+            const variant = variants.find((productVariant) => productVariant.id === variantId);
+            if (variantId && !variant) {
+                this.logger.error(ErrorMessages.PRODUCT_VARIANT_NOT_FOUND);
+                throw new NotFoundException(ErrorMessages.PRODUCT_VARIANT_NOT_FOUND);
+            }
+            if (!variant && variants.length > 0) {
+                throw new BadRequestException(ErrorMessages.PRODUCT_VARIANT_REQUIRED);
+            }
+
+            const stock = variant ? variant.stock : product.stock;
+            if (stock < quantity) {
                 this.logger.error(ErrorMessages.QUANTITY_NOT_AVAILABLE);
                 throw new BadRequestException(ErrorMessages.QUANTITY_NOT_AVAILABLE);
             }
 
-            const totalPrice = quantity * product.price;
+            const totalPrice = quantity * (variant?.price ?? product.price);
             const cartProductData = { quantity, totalPrice };
 
             // Check if Product is already in Cart
-            const existingProduct = cart.find((cartProduct) => cartProduct.productId === productId);
+            const existingProduct = cart.find((cartProduct) => cartProduct.productId === productId && cartProduct.variantId === (variantId ?? null));
 
             // If Product is already in Cart, Update Quantity
-            if (existingProduct) await this.cartProductRepository.update(customerId, productId, cartProductData);
-            else await this.cartProductRepository.create(customerId, productId, cartProductData);
+            if (existingProduct) await this.cartProductRepository.update(customerId, productId, cartProductData, variantId);
+            else await this.cartProductRepository.create(customerId, productId, cartProductData, variantId);
 
             return this.getCart(customerId);
         } catch (e) {
@@ -71,9 +85,9 @@ export class CartService {
     }
 
     
-    async removeFromCart(customerId: string, productId: string) {
+    async removeFromCart(customerId: string, productId: string, variantId?: string) {
         try {
-            await this.cartProductRepository.removefromCart(productId, customerId);
+            await this.cartProductRepository.removefromCart(productId, customerId, variantId);
             return true;
         } catch (e) {
             this.logger.error(`${ErrorMessages.CART_REMOVE_FAILED}: ${e}`);
@@ -110,9 +110,9 @@ export class CustomerController {
     next: NextFunction
   ) => {
     try {
-      const { email } = req.body.customer;
+      const { id } = req.body.customer;
       const marketerProfile =
-        await this.customerService.getMarketerByCustomerEmail(email);
+        await this.customerService.getMarketerByCustomer(id);
       res.status(200).json({
         status: "success",
         message: "Marketer profile retrieved successfully",
@@ -129,11 +129,11 @@ export class CustomerController {
     next: NextFunction
   ) => {
     try {
-      const { email } = req.body.customer;
+      const { id } = req.body.customer;
 
       // First, get the marketer profile to ensure they are a marketer
       const marketerProfile =
-        await this.customerService.getMarketerByCustomerEmail(email);
+        await this.customerService.getMarketerByCustomer(id);
 
       // Then get their referrals with profit information
       const referrals = await this.customerService.getMarketerReferrals(
@@ -17,6 +17,7 @@ import {
   marketerEarningsRepository,
 } from "../marketer/marketer.routes";
 import RatingRouter from "./rating/rating.routes";
+import OrderRouter from "./order/order.routes";
 
 // Customer Service Dependents
 const customerRepository = new CustomerRepository();
@@ -51,6 +52,9 @@ router.use("/cart", CartRouter);
 // Add the RatingRouter to the customer router
 router.use("/rating", RatingRouter);
 
+// Add the OrderRouter to the customer router
+router.use("/orders", OrderRouter);
+
 // Customer Routes
 router.get(
   "/profile/:customerId",
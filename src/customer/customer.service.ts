@@ -146,9 +146,10 @@ export class CustomerService {
     }
   }
 
-  async getMarketerByCustomerEmail(email: string) {
+  async getMarketerByCustomer(customerId: string) {
     try {
-      const marketer = await this.marketerRepository.getMarketerByEmail(email);
+      const marketer =
+        await this.marketerRepository.getMarketerByCustomerId(customerId);
       if (!marketer) {
         throw new NotFoundException(
           "No marketer profile found for this customer"
@@ -156,7 +157,7 @@ export class CustomerService {
       }
       return marketer;
     } catch (error) {
-      this.logger.error(`Failed to get marketer by customer email: ${error}`);
+      this.logger.error(`Failed to get marketer by customer: ${error}`);
       if (error instanceof NotFoundException) {
         throw error;
       }
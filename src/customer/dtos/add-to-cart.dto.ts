@@ -1,6 +1,11 @@
-import { IsNumber } from "class-validator";
+import { IsNumber, IsOptional, IsUUID } from "class-validator";
 
 export class AddToCartDto {
     @IsNumber()
     declare quantity: number;
+
+    // Required when the product is sold in variants
+    @IsOptional()
+    @IsUUID()
+    declare variantId?: string;
 }
\ No newline at end of file
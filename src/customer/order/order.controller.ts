@@ -0,0 +1,87 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { OrderService } from "./order.service";
+import { ResponseDto } from "../../dtos/response.dto";
+import { ResponseStatus } from "../../dtos/interfaces/response.interface";
+import { SuccessMessages } from "../../constants/success-messages.enum";
+import { HttpStatus } from "../../constants/http-status.enum";
+
+export class OrderController {
+  constructor(private readonly orderService: OrderService) {}
+
+  /**
+   * Checkout Customer Cart
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  checkout: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.orderService.checkout(request.body.customer.id);
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.CHECKOUT_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.CREATED).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get Customer Orders
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getOrders: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.orderService.getOrders(
+        request.body.customer.id
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_ORDERS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get Order by Id
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getOrder: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.orderService.getOrder(
+        request.body.customer.id,
+        request.params.orderId
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_ORDER_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+}
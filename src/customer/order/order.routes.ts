@@ -0,0 +1,56 @@
+import { Router } from "express";
+import { OrderService } from "./order.service";
+import { OrderController } from "./order.controller";
+import { OrderRepository } from "../../repositories/order.repository";
+import { CartProductRepository } from "../../repositories/cart-product.repository";
+import { ProductRepository } from "../../repositories/product.repository";
+import { ProductVariantRepository } from "../../repositories/product-variant.repository";
+import { CustomerRepository } from "../../repositories/customer.repository";
+import { WinstonLogger } from "../../utils/logger/winston.logger";
+import { JWTService } from "../../utils/jwt/jwt.service";
+import { Validator } from "../../utils/middlewares/validator.middleware";
+import { CustomerAuthGaurd } from "../../utils/middlewares/guards/customer.auth.guard";
+import { IdDto } from "../../dtos/id.dto";
+
+const router = Router();
+const logger = new WinstonLogger("OrderService");
+const jwtService = new JWTService();
+const orderRepository = new OrderRepository();
+const cartProductRepository = new CartProductRepository();
+const productRepository = new ProductRepository();
+const productVariantRepository = new ProductVariantRepository();
+const customerRepository = new CustomerRepository();
+const orderService = new OrderService(
+  orderRepository,
+  cartProductRepository,
+  productRepository,
+  productVariantRepository,
+  logger
+);
+const orderController = new OrderController(orderService);
+const validator = new Validator();
+const customerAuthGaurd = new CustomerAuthGaurd(
+  customerRepository,
+  logger,
+  jwtService
+);
+
+// Checkout Cart
+router.post(
+  "/checkout",
+  customerAuthGaurd.authorise(),
+  orderController.checkout
+);
+
+// Get Customer Orders
+router.get("/", customerAuthGaurd.authorise(), orderController.getOrders);
+
+// Get Order by Id
+router.get(
+  "/:orderId",
+  validator.single(IdDto, "params"),
+  customerAuthGaurd.authorise(),
+  orderController.getOrder
+);
+
+export default router;
@@ -0,0 +1,103 @@
+import { Order } from "@prisma/client";
+import { ErrorMessages } from "../../constants/error-messages.enum";
+import { CartProductRepository } from "../../repositories/cart-product.repository";
+import {
+  CheckoutItem,
+  OrderRepository,
+} from "../../repositories/order.repository";
+import { ProductRepository } from "../../repositories/product.repository";
+import { ProductVariantRepository } from "../../repositories/product-variant.repository";
+import { BadRequestException } from "../../utils/exceptions/bad-request.exception";
+import { BaseException } from "../../utils/exceptions/base.exception";
+import { InternalServerException } from "../../utils/exceptions/internal-server.exception";
+import { NotFoundException } from "../../utils/exceptions/not-found.exception";
+import { ILogger } from "../../utils/logger/logger.interface";
+
+export class OrderService {
+  constructor(
+    private readonly orderRepository: OrderRepository,
+    private readonly cartProductRepository: CartProductRepository,
+    private readonly productRepository: ProductRepository,
+    private readonly productVariantRepository: ProductVariantRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async checkout(customerId: string): Promise<Order[]> {
+    try {
+      const cart = await this.cartProductRepository.getCart(customerId);
+      if (cart.length === 0) {
+        throw new BadRequestException(ErrorMessages.CART_EMPTY);
+      }
+
+      // Re-check stock and lock in the current price of every cart item
+      const items: CheckoutItem[] = [];
+      for (const cartProduct of cart) {
+        const product = await this.productRepository.getById(
+          cartProduct.productId
+        );
+        if (!product) {
+          throw new NotFoundException(ErrorMessages.PRODUCT_NOT_FOUND);
+        }
+        const variant = cartProduct.variantId
+          ? await this.productVariantRepository.getById(cartProduct.variantId)
+          : null;
+        if (cartProduct.variantId && !variant) {
+          throw new NotFoundException(
+            `${ErrorMessages.PRODUCT_VARIANT_NOT_FOUND}: ${product.name}`
+          );
+        }
+        const stock = variant ? variant.stock : product.stock;
+        if (stock < cartProduct.quantity) {
+          throw new BadRequestException(
+            `${ErrorMessages.QUANTITY_NOT_AVAILABLE}: ${product.name}`
+          );
+        }
+        items.push({
+          cartProductId: cartProduct.id,
+          productId: product.id,
+          variantId: variant?.id,
+          merchantId: product.merchantId,
+          quantity: cartProduct.quantity,
+          unitPrice: variant?.price ?? product.price,
+        });
+      }
+
+      const orders = await this.orderRepository.createFromCart(
+        customerId,
+        items
+      );
+      this.logger.info(
+        `${orders.length} order(s) placed by customer ${customerId}`
+      );
+      return orders;
+    } catch (e) {
+      if (e instanceof BaseException) throw e;
+      this.logger.error(`${ErrorMessages.CHECKOUT_FAILED}: ${e}`);
+      throw new InternalServerException(ErrorMessages.CHECKOUT_FAILED);
+    }
+  }
+
+  async getOrders(customerId: string): Promise<Order[]> {
+    try {
+      const orders = await this.orderRepository.getCustomerOrders(customerId);
+      return orders;
+    } catch (e) {
+      this.logger.error(`${ErrorMessages.ORDER_GET_FAILED}: ${e}`);
+      throw new InternalServerException(ErrorMessages.ORDER_GET_FAILED);
+    }
+  }
+
+  async getOrder(customerId: string, orderId: string): Promise<Order> {
+    try {
+      const order = await this.orderRepository.getOrderById(orderId);
+      if (!order || order.customerId !== customerId) {
+        throw new NotFoundException(ErrorMessages.ORDER_NOT_FOUND);
+      }
+      return order;
+    } catch (e) {
+      if (e instanceof BaseException) throw e;
+      this.logger.error(`${ErrorMessages.ORDER_GET_FAILED}: ${e}`);
+      throw new InternalServerException(ErrorMessages.ORDER_GET_FAILED);
+    }
+  }
+}
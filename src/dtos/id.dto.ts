@@ -32,4 +32,32 @@ export class IdDto {
   @IsString({ message: "The Id you provided is not a valid string" })
   @IsUUID(undefined, { message: "The Id you provided is invalid" })
   declare imageId: string;
+
+  @IsString({ message: "The Id you provided is not a valid string" })
+  @IsUUID(undefined, { message: "The Id you provided is invalid" })
+  declare orderId: string;
+
+  @IsString({ message: "The Id you provided is not a valid string" })
+  @IsUUID(undefined, { message: "The Id you provided is invalid" })
+  declare refundId: string;
+
+  @IsString({ message: "The Id you provided is not a valid string" })
+  @IsUUID(undefined, { message: "The Id you provided is invalid" })
+  declare planId: string;
+
+  @IsString({ message: "The Id you provided is not a valid string" })
+  @IsUUID(undefined, { message: "The Id you provided is invalid" })
+  declare couponId: string;
+
+  @IsString({ message: "The Id you provided is not a valid string" })
+  @IsUUID(undefined, { message: "The Id you provided is invalid" })
+  declare payoutId: string;
+
+  @IsString({ message: "The Id you provided is not a valid string" })
+  @IsUUID(undefined, { message: "The Id you provided is invalid" })
+  declare verificationId: string;
+
+  @IsString({ message: "The Id you provided is not a valid string" })
+  @IsUUID(undefined, { message: "The Id you provided is invalid" })
+  declare variantId: string;
 }
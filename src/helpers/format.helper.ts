@@ -55,5 +55,9 @@ export class DataFormatterHelper {
         product.price = Number(product.price);
         product.prevPrice = Number(product.prevPrice);
         product.stock = Number(product.stock);
+        // Multipart requests send variants as a JSON string
+        if (typeof product.variants === "string") {
+            product.variants = JSON.parse(product.variants);
+        }
     }
 }
\ No newline at end of file
@@ -16,4 +16,22 @@ export class RequestParserHelper {
         }
         return url;
     }
+
+    /**
+     * Get a Cookie sent with the Request
+     * @returns {string | undefined}
+     */
+    getCookie(name: string): string | undefined {
+        const cookies = this.request.get('cookie')?.split(';') ?? [];
+        for (const cookie of cookies) {
+            const [key, ...value] = cookie.trim().split('=');
+            if (key !== name) continue;
+            try {
+                return decodeURIComponent(value.join('='));
+            } catch {
+                return undefined;
+            }
+        }
+        return undefined;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,5 @@
+export interface AdViewer {
+  ip?: string;
+  userAgent?: string;
+  customerId?: string;
+}
@@ -0,0 +1,5 @@
+import { Request } from "express";
+
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
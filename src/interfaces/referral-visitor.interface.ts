@@ -0,0 +1,7 @@
+export interface ReferralVisitor {
+  // Visit id from the referral cookie or the signup form
+  visitId?: string;
+  ip?: string;
+  userAgent?: string;
+  referer?: string;
+}
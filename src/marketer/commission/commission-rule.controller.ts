@@ -0,0 +1,86 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { CommissionRuleService } from "./commission-rule.service";
+import { ResponseDto } from "../../dtos/response.dto";
+import { ResponseStatus } from "../../dtos/interfaces/response.interface";
+import { SuccessMessages } from "../../constants/success-messages.enum";
+import { HttpStatus } from "../../constants/http-status.enum";
+
+export class CommissionRuleController {
+  constructor(private readonly commissionRuleService: CommissionRuleService) {}
+
+  /**
+   * Get every Commission Rule Version (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getRules: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.commissionRuleService.getRules();
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_COMMISSION_RULES_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get the Commission Rule in Force
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getCurrentRule: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.commissionRuleService.getCurrentRule();
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_COMMISSION_RULE_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Create a new Commission Rule Version (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  createRule: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { customer, ...data } = request.body;
+      const result = await this.commissionRuleService.createRule(
+        data,
+        customer
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.CREATE_COMMISSION_RULE_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.CREATED).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+}
@@ -0,0 +1,52 @@
+import { Router } from "express";
+import { Role } from "@prisma/client";
+import { CommissionRuleService } from "./commission-rule.service";
+import { CommissionRuleController } from "./commission-rule.controller";
+import { CommissionRuleRepository } from "../../repositories/commission-rule.repository";
+import { CustomerRepository } from "../../repositories/customer.repository";
+import { WinstonLogger } from "../../utils/logger/winston.logger";
+import { JWTService } from "../../utils/jwt/jwt.service";
+import { Validator } from "../../utils/middlewares/validator.middleware";
+import { CustomerAuthGaurd } from "../../utils/middlewares/guards/customer.auth.guard";
+import { CommissionRuleCreateDto } from "../dtos/commission-rule-create.dto";
+
+const router = Router();
+const logger = new WinstonLogger("CommissionRuleService");
+export const commissionRuleRepository = new CommissionRuleRepository();
+const commissionRuleService = new CommissionRuleService(
+  commissionRuleRepository,
+  logger
+);
+const commissionRuleController = new CommissionRuleController(
+  commissionRuleService
+);
+const validator = new Validator();
+const customerAuthGaurd = new CustomerAuthGaurd(
+  new CustomerRepository(),
+  logger,
+  new JWTService()
+);
+
+// Get every Commission Rule Version (Admin)
+router.get(
+  "/",
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  commissionRuleController.getRules
+);
+
+// Get the Commission Rule in Force
+router.get(
+  "/current",
+  customerAuthGaurd.authorise({ strict: true }),
+  commissionRuleController.getCurrentRule
+);
+
+// Create a new Commission Rule Version (Admin)
+router.post(
+  "/",
+  validator.single(CommissionRuleCreateDto, "body"),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  commissionRuleController.createRule
+);
+
+export default router;
@@ -0,0 +1,89 @@
+import { Customer } from "@prisma/client";
+import { ErrorMessages } from "../../constants/error-messages.enum";
+import { CommissionRuleRepository } from "../../repositories/commission-rule.repository";
+import { BadRequestException } from "../../utils/exceptions/bad-request.exception";
+import { BaseException } from "../../utils/exceptions/base.exception";
+import { InternalServerException } from "../../utils/exceptions/internal-server.exception";
+import { NotFoundException } from "../../utils/exceptions/not-found.exception";
+import { ILogger } from "../../utils/logger/logger.interface";
+import { CommissionRuleCreateDto } from "../dtos/commission-rule-create.dto";
+
+export class CommissionRuleService {
+  constructor(
+    private readonly commissionRuleRepository: CommissionRuleRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async getRules() {
+    try {
+      return await this.commissionRuleRepository.getAll();
+    } catch (error) {
+      this.logger.error(ErrorMessages.GET_COMMISSION_RULES_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.GET_COMMISSION_RULES_FAILED
+      );
+    }
+  }
+
+  async getCurrentRule() {
+    try {
+      const rule = await this.commissionRuleRepository.getCurrent();
+      if (!rule) {
+        throw new NotFoundException(ErrorMessages.COMMISSION_RULE_NOT_FOUND);
+      }
+      return rule;
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.GET_COMMISSION_RULES_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.GET_COMMISSION_RULES_FAILED
+      );
+    }
+  }
+
+  /**
+   * Publishes a new version of the commission rules. Earlier versions are kept so every
+   * earning can be traced to the rule that produced it. Settings left out are carried
+   * over from the current version.
+   */
+  async createRule(data: CommissionRuleCreateDto, admin: Customer) {
+    try {
+      const minimums = data.tiers.map((tier) => tier.minActiveMerchants);
+      if (new Set(minimums).size !== minimums.length) {
+        throw new BadRequestException(ErrorMessages.DUPLICATE_COMMISSION_TIER);
+      }
+      if (!minimums.includes(0)) {
+        throw new BadRequestException(
+          ErrorMessages.BASE_COMMISSION_TIER_REQUIRED
+        );
+      }
+
+      const current = await this.commissionRuleRepository.getCurrent();
+      const rule = await this.commissionRuleRepository.create({
+        tiers: data.tiers
+          .map(({ minActiveMerchants, percentage }) => ({
+            minActiveMerchants,
+            percentage,
+          }))
+          .sort((a, b) => a.minActiveMerchants - b.minActiveMerchants),
+        signupBonus: data.signupBonus ?? current?.signupBonus ?? 0,
+        eligibilityMonths:
+          data.eligibilityMonths ?? current?.eligibilityMonths ?? 6,
+        activeWindowDays:
+          data.activeWindowDays ?? current?.activeWindowDays ?? 30,
+        createdById: admin.id,
+      });
+
+      this.logger.info(
+        `Admin ${admin.id} created commission rule version ${rule.version}`
+      );
+      return rule;
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.CREATE_COMMISSION_RULE_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.CREATE_COMMISSION_RULE_FAILED
+      );
+    }
+  }
+}
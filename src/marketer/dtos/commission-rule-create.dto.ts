@@ -0,0 +1,55 @@
+import { Type } from "class-transformer";
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDefined,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+  ValidateNested,
+} from "class-validator";
+
+export class CommissionTierDto {
+  // Active referred merchants needed to reach the tier, the base tier uses 0
+  @IsDefined()
+  @IsInt()
+  @Min(0)
+  declare minActiveMerchants: number;
+
+  @IsDefined()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  declare percentage: number;
+}
+
+export class CommissionRuleCreateDto {
+  @IsDefined()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => CommissionTierDto)
+  declare tiers: CommissionTierDto[];
+
+  // Paid once per referred merchant when the merchant verifies their email
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  declare signupBonus?: number;
+
+  // Months after the merchant registers during which the marketer earns from them
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  declare eligibilityMonths?: number;
+
+  // A referred merchant is active when they paid for an ad within this many days
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  declare activeWindowDays?: number;
+}
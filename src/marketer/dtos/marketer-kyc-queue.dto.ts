@@ -0,0 +1,9 @@
+import { MarketerKycStatus } from "@prisma/client";
+import { IsEnum, IsOptional } from "class-validator";
+
+export class MarketerKycQueueDto {
+  // Defaults to PENDING
+  @IsOptional()
+  @IsEnum(MarketerKycStatus)
+  declare status?: MarketerKycStatus;
+}
@@ -0,0 +1,28 @@
+import { MarketerKycStatus } from "@prisma/client";
+import {
+  IsDefined,
+  IsIn,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+} from "class-validator";
+
+export class MarketerKycReviewDto {
+  @IsDefined()
+  @IsIn(
+    [
+      MarketerKycStatus.APPROVED,
+      MarketerKycStatus.REJECTED,
+      MarketerKycStatus.RESUBMISSION_REQUESTED,
+    ],
+    { message: "status must be APPROVED, REJECTED or RESUBMISSION_REQUESTED" }
+  )
+  declare status: Exclude<MarketerKycStatus, "PENDING">;
+
+  // Sent to the marketer with the decision
+  @IsDefined()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  declare reason: string;
+}
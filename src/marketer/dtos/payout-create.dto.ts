@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from "class-validator";
+
+export class PayoutCreateDto {
+  // Set when the money has already been sent, recording the payout as SENT
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  declare bankReference?: string;
+}
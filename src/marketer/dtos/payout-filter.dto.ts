@@ -0,0 +1,12 @@
+import { PayoutStatus } from "@prisma/client";
+import { IsEnum, IsOptional, IsUUID } from "class-validator";
+
+export class PayoutFilterDto {
+  @IsOptional()
+  @IsEnum(PayoutStatus)
+  declare status?: PayoutStatus;
+
+  @IsOptional()
+  @IsUUID()
+  declare marketerId?: string;
+}
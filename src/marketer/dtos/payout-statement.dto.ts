@@ -0,0 +1,7 @@
+import { IsIn, IsOptional } from "class-validator";
+
+export class PayoutStatementDto {
+  @IsOptional()
+  @IsIn(["pdf", "csv"], { message: "format must be pdf or csv" })
+  declare format?: "pdf" | "csv";
+}
@@ -0,0 +1,26 @@
+import { PayoutStatus } from "@prisma/client";
+import {
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from "class-validator";
+
+export class PayoutUpdateDto {
+  @IsIn([PayoutStatus.SENT, PayoutStatus.FAILED], {
+    message: "status must be SENT or FAILED",
+  })
+  declare status: typeof PayoutStatus.SENT | typeof PayoutStatus.FAILED;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  declare bankReference?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  declare failureReason?: string;
+}
@@ -0,0 +1,91 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { MarketerKycStatus } from "@prisma/client";
+import { MarketerKycService } from "./marketer-kyc.service";
+import { ResponseDto } from "../../dtos/response.dto";
+import { ResponseStatus } from "../../dtos/interfaces/response.interface";
+import { SuccessMessages } from "../../constants/success-messages.enum";
+import { HttpStatus } from "../../constants/http-status.enum";
+
+export class MarketerKycController {
+  constructor(private readonly marketerKycService: MarketerKycService) {}
+
+  /**
+   * Get Marketers Awaiting KYC Review (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getQueue: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.marketerKycService.getQueue(
+        request.query.status as MarketerKycStatus | undefined
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_MARKETER_KYC_QUEUE_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get a Marketer's KYC Reviews
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getReviews: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.marketerKycService.getReviews(
+        request.params.marketerId
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_MARKETER_KYC_REVIEWS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Approve, Reject or Ask for a new Document (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  reviewMarketer: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.marketerKycService.reviewMarketer(
+        request.params.marketerId,
+        request.body,
+        request.body.customer
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.REVIEW_MARKETER_KYC_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.CREATED).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+}
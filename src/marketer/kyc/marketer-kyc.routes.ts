@@ -0,0 +1,39 @@
+import { Router } from "express";
+import { Role } from "@prisma/client";
+import { MarketerKycService } from "./marketer-kyc.service";
+import { MarketerKycController } from "./marketer-kyc.controller";
+import { MarketerKycReviewRepository } from "../../repositories/marketer-kyc-review.repository";
+import { MarketerRepository } from "../../repositories/marketer.repository";
+import { CustomerRepository } from "../../repositories/customer.repository";
+import { WinstonLogger } from "../../utils/logger/winston.logger";
+import { JWTService } from "../../utils/jwt/jwt.service";
+import { Validator } from "../../utils/middlewares/validator.middleware";
+import { CustomerAuthGaurd } from "../../utils/middlewares/guards/customer.auth.guard";
+import { MarketerKycQueueDto } from "../dtos/marketer-kyc-queue.dto";
+
+const router = Router();
+const logger = new WinstonLogger("MarketerKycService");
+const marketerKycService = new MarketerKycService(
+  new MarketerKycReviewRepository(),
+  new MarketerRepository(),
+  logger
+);
+export const marketerKycController = new MarketerKycController(
+  marketerKycService
+);
+const validator = new Validator();
+const customerAuthGaurd = new CustomerAuthGaurd(
+  new CustomerRepository(),
+  logger,
+  new JWTService()
+);
+
+// Get Marketers by KYC Status, Pending by default (Admin)
+router.get(
+  "/",
+  validator.single(MarketerKycQueueDto, "query"),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  marketerKycController.getQueue
+);
+
+export default router;
@@ -0,0 +1,155 @@
+import { Customer, Marketer, MarketerKycStatus } from "@prisma/client";
+import { EmailPaths, EmailSubjects } from "../../constants/email.enum";
+import { ErrorMessages } from "../../constants/error-messages.enum";
+import { MarketerRepository } from "../../repositories/marketer.repository";
+import { MarketerKycReviewRepository } from "../../repositories/marketer-kyc-review.repository";
+import { EmailService } from "../../utils/email/email.service";
+import { BadRequestException } from "../../utils/exceptions/bad-request.exception";
+import { BaseException } from "../../utils/exceptions/base.exception";
+import { InternalServerException } from "../../utils/exceptions/internal-server.exception";
+import { NotFoundException } from "../../utils/exceptions/not-found.exception";
+import { ILogger } from "../../utils/logger/logger.interface";
+import { MarketerKycReviewDto } from "../dtos/marketer-kyc-review.dto";
+
+/**
+ * Admin review of the identity document marketers upload. A marketer waits as PENDING
+ * until an admin approves, rejects or asks for a new document, and is emailed the
+ * decision with its reason. Only approved marketers get a referrer code.
+ */
+export class MarketerKycService {
+  private emailService: EmailService;
+
+  constructor(
+    private readonly marketerKycReviewRepository: MarketerKycReviewRepository,
+    private readonly marketerRepository: MarketerRepository,
+    private readonly logger: ILogger
+  ) {
+    this.emailService = new EmailService();
+  }
+
+  /**
+   * Marketers in the given KYC state, longest waiting first (Admin)
+   */
+  async getQueue(status: MarketerKycStatus = MarketerKycStatus.PENDING) {
+    try {
+      return await this.marketerKycReviewRepository.getQueue(status);
+    } catch (error) {
+      this.logger.error(ErrorMessages.GET_MARKETER_KYC_REVIEWS_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.GET_MARKETER_KYC_REVIEWS_FAILED
+      );
+    }
+  }
+
+  async getReviews(marketerId: string) {
+    try {
+      const marketer =
+        await this.marketerRepository.getMarketerById(marketerId);
+      if (!marketer) {
+        throw new NotFoundException("Marketer not found");
+      }
+      return await this.marketerKycReviewRepository.getReviews(marketerId);
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.GET_MARKETER_KYC_REVIEWS_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.GET_MARKETER_KYC_REVIEWS_FAILED
+      );
+    }
+  }
+
+  /**
+   * Records the admin's decision on the marketer's pending document
+   */
+  async reviewMarketer(
+    marketerId: string,
+    data: MarketerKycReviewDto,
+    admin: Customer
+  ) {
+    try {
+      const marketer =
+        await this.marketerRepository.getMarketerById(marketerId);
+      if (!marketer) {
+        throw new NotFoundException("Marketer not found");
+      }
+      if (marketer.kycStatus !== MarketerKycStatus.PENDING) {
+        throw new BadRequestException(ErrorMessages.MARKETER_KYC_NOT_PENDING);
+      }
+
+      // Marketers approved before keep the code they already share
+      const referrerCode =
+        data.status === MarketerKycStatus.APPROVED && !marketer.referrerCode
+          ? await this.marketerRepository.generateUniqueReferrerCode()
+          : undefined;
+
+      const result = await this.marketerKycReviewRepository.review({
+        marketerId,
+        status: data.status,
+        reason: data.reason,
+        reviewedById: admin.id,
+        referrerCode,
+      });
+      this.logger.info(
+        `Admin ${admin.id} marked marketer ${marketerId} KYC as ${data.status}`
+      );
+
+      await this.sendReviewEmail(result.marketer, data.reason);
+      return result;
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.REVIEW_MARKETER_KYC_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.REVIEW_MARKETER_KYC_FAILED
+      );
+    }
+  }
+
+  private async sendReviewEmail(
+    marketer: Marketer,
+    reason: string
+  ): Promise<void> {
+    try {
+      if (marketer.kycStatus === MarketerKycStatus.APPROVED) {
+        await this.emailService.sendMail({
+          to: marketer.email,
+          subject: EmailSubjects.MARKETER_VERIFICATION_SUCCESS,
+          options: {
+            template: EmailPaths.MARKETER_VERIFICATION_SUCCESS,
+            data: {
+              firstName: marketer.firstName,
+              lastName: marketer.lastName,
+              username: marketer.username,
+              referrerCode: marketer.referrerCode,
+            },
+          },
+        });
+      } else {
+        const resubmit =
+          marketer.kycStatus === MarketerKycStatus.RESUBMISSION_REQUESTED;
+        await this.emailService.sendMail({
+          to: marketer.email,
+          subject: resubmit
+            ? EmailSubjects.MARKETER_KYC_RESUBMISSION_REQUESTED
+            : EmailSubjects.MARKETER_KYC_REJECTED,
+          options: {
+            template: EmailPaths.MARKETER_KYC_REVIEW,
+            data: {
+              firstName: marketer.firstName,
+              lastName: marketer.lastName,
+              identityCredentialType: marketer.IdentityCredentialType,
+              reason,
+              resubmit,
+            },
+          },
+        });
+      }
+      this.logger.info(`KYC review email sent to marketer: ${marketer.email}`);
+    } catch (error) {
+      // Just log the error, the decision is already recorded
+      this.logger.error(
+        `Failed to send KYC review email to ${marketer.email}`,
+        error
+      );
+    }
+  }
+}
@@ -157,34 +157,25 @@ export class MarketerController {
   };
 
   /**
-   * Update marketer
+   * Get the signed in Marketer's Dashboard
    * @param request {Request}
    * @param response {Response}
    * @param next {NextFunction}
    */
-  updateMarketer: RequestHandler = async (
+  getDashboard: RequestHandler = async (
     request: Request,
     response: Response,
     next: NextFunction
   ) => {
     try {
-      let identityCredentialImage;
-      if (request.file) {
-        identityCredentialImage = request.file.path;
-      }
-
-      const result = await this.marketerService.updateMarketer(
-        request.params.marketerId,
-        request.body,
-        identityCredentialImage
+      const result = await this.marketerService.getDashboard(
+        request.body.marketer
       );
-
       const resObj = new ResponseDto(
         ResponseStatus.SUCCESS,
-        SuccessMessages.UPDATE_MARKETER_SUCCESS,
+        SuccessMessages.GET_MARKETER_DASHBOARD_SUCCESS,
         result
       );
-
       return response.status(HttpStatus.OK).send(resObj);
     } catch (e) {
       next(e);
@@ -192,24 +183,32 @@ export class MarketerController {
   };
 
   /**
-   * Verify marketer
+   * Update marketer
    * @param request {Request}
    * @param response {Response}
    * @param next {NextFunction}
    */
-  verifyMarketer: RequestHandler = async (
+  updateMarketer: RequestHandler = async (
     request: Request,
     response: Response,
     next: NextFunction
   ) => {
     try {
-      const result = await this.marketerService.verifyMarketer(
-        request.params.marketerId
+      let identityCredentialImage;
+      if (request.file) {
+        identityCredentialImage = request.file.path;
+      }
+
+      const { customer, marketer, ...marketerData } = request.body;
+      const result = await this.marketerService.updateMarketer(
+        request.params.marketerId,
+        marketerData,
+        identityCredentialImage
       );
 
       const resObj = new ResponseDto(
         ResponseStatus.SUCCESS,
-        SuccessMessages.VERIFY_MARKETER_SUCCESS,
+        SuccessMessages.UPDATE_MARKETER_SUCCESS,
         result
       );
 
@@ -324,30 +323,4 @@ export class MarketerController {
       next(e);
     }
   };
-
-  /**
-   * Mark all unpaid earnings as paid for a marketer
-   * @param request {Request}
-   * @param response {Response}
-   * @param next {NextFunction}
-   */
-  markEarningsAsPaid: RequestHandler = async (
-    request: Request,
-    response: Response,
-    next: NextFunction
-  ) => {
-    try {
-      const result = await this.marketerService.markEarningsAsPaid(
-        request.params.marketerId
-      );
-      const resObj = new ResponseDto(
-        ResponseStatus.SUCCESS,
-        SuccessMessages.MARKETER_EARNINGS_PAID,
-        result
-      );
-      return response.status(HttpStatus.OK).send(resObj);
-    } catch (e) {
-      next(e);
-    }
-  };
 }
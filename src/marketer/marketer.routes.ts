@@ -11,9 +11,25 @@ import { MarketerCreateDto } from "./dtos/marketer-create.dto";
 import { MarketerUpdateDto } from "./dtos/marketer-update.dto";
 import { MulterMiddleware } from "../utils/middlewares/file-parser.middleware";
 import { CustomerAuthGaurd } from "../utils/middlewares/guards/customer.auth.guard";
+import { MarketerAuthGaurd } from "../utils/middlewares/guards/marketer.auth.guard";
 import { Role } from "@prisma/client";
 import { CustomerRepository } from "../repositories/customer.repository";
 import { JWTService } from "../utils/jwt/jwt.service";
+import { PayoutCreateDto } from "./dtos/payout-create.dto";
+import MarketerPayoutRouter, {
+  marketerPayoutController,
+} from "./payout/payout.routes";
+import CommissionRuleRouter, {
+  commissionRuleRepository,
+} from "./commission/commission-rule.routes";
+import MarketerKycRouter, {
+  marketerKycController,
+} from "./kyc/marketer-kyc.routes";
+import { MarketerKycReviewDto } from "./dtos/marketer-kyc-review.dto";
+import {
+  referralController,
+  referralService,
+} from "./referral/referral.routes";
 
 const router = Router();
 export const marketerRepository = new MarketerRepository();
@@ -26,6 +42,8 @@ export const marketerService = new MarketerService(
   customerRepository,
   marketerEarningsRepository,
   adRepository,
+  commissionRuleRepository,
+  referralService,
   logger
 );
 const marketerController = new MarketerController(marketerService);
@@ -37,6 +55,11 @@ const customerAuthGuard = new CustomerAuthGaurd(
   logger,
   jwtService
 );
+const marketerAuthGuard = new MarketerAuthGaurd(
+  marketerRepository,
+  customerAuthGuard,
+  logger
+);
 
 // Public routes
 router.get(
@@ -44,6 +67,15 @@ router.get(
   marketerController.getMarketerByReferrerCode
 );
 
+// Marketer Payouts
+router.use("/payouts", MarketerPayoutRouter);
+
+// Marketer Commission Rules
+router.use("/commission-rules", CommissionRuleRouter);
+
+// Marketer KYC Review Queue
+router.use("/kyc-reviews", MarketerKycRouter);
+
 // Admin only routes
 router.get(
   "/",
@@ -58,40 +90,84 @@ router.get(
   marketerController.getAllMarketersWithEarnings
 );
 
+// Signed in marketer routes
+router.get(
+  "/me/dashboard",
+  marketerAuthGuard.authorise(),
+  marketerController.getDashboard
+);
+
+// Marketer (own profile) or Admin routes
 router.get(
   "/:marketerId",
-  customerAuthGuard.authorise({ strict: true }),
   validator.single(IdDto, "params"),
+  marketerAuthGuard.authorise({ id: true }),
   marketerController.getMarketerById
 );
 
 router.get(
   "/:marketerId/earnings",
-  customerAuthGuard.authorise({ strict: true }),
   validator.single(IdDto, "params"),
+  marketerAuthGuard.authorise({ id: true }),
   marketerController.getMarketerEarnings
 );
 
 // New routes for marketer earnings
 router.get(
   "/:marketerId/earnings-paid",
-  customerAuthGuard.authorise({ strict: true }),
   validator.single(IdDto, "params"),
+  marketerAuthGuard.authorise({ id: true }),
   marketerController.getMarketerPaidEarnings
 );
 
 router.get(
   "/:marketerId/earnings-unpaid",
-  customerAuthGuard.authorise({ strict: true }),
   validator.single(IdDto, "params"),
+  marketerAuthGuard.authorise({ id: true }),
   marketerController.getMarketerUnpaidEarnings
 );
 
+router.get(
+  "/:marketerId/referral-funnel",
+  validator.single(IdDto, "params"),
+  marketerAuthGuard.authorise({ id: true }),
+  referralController.getFunnel
+);
+
+router.get(
+  "/:marketerId/payouts",
+  validator.single(IdDto, "params"),
+  marketerAuthGuard.authorise({ id: true }),
+  marketerPayoutController.getMarketerPayouts
+);
+
+// Pay out all unpaid earnings, recorded as a payout approved by the admin
 router.post(
-  "/:marketerId/payment-made",
+  "/:marketerId/payouts",
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: PayoutCreateDto, source: "body" },
+  ]),
   customerAuthGuard.authorise({ strict: true, role: Role.ADMIN }),
+  marketerPayoutController.createPayout
+);
+
+router.get(
+  "/:marketerId/kyc-reviews",
   validator.single(IdDto, "params"),
-  marketerController.markEarningsAsPaid
+  marketerAuthGuard.authorise({ id: true }),
+  marketerKycController.getReviews
+);
+
+// Approve, reject or ask for a new identity document, with the reason sent to the marketer
+router.post(
+  "/:marketerId/kyc-reviews",
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: MarketerKycReviewDto, source: "body" },
+  ]),
+  customerAuthGuard.authorise({ strict: true, role: Role.ADMIN }),
+  marketerKycController.reviewMarketer
 );
 
 router.post(
@@ -103,22 +179,15 @@ router.post(
 
 router.put(
   "/:marketerId",
-  customerAuthGuard.authorise({ strict: true }),
   fileParser.single("IdentityCredentialImage"),
   validator.multiple([
     { schema: IdDto, source: "params" },
     { schema: MarketerUpdateDto, source: "body" },
   ]),
+  marketerAuthGuard.authorise({ id: true }),
   marketerController.updateMarketer
 );
 
-router.put(
-  "/:marketerId/verify",
-  customerAuthGuard.authorise({ strict: true, role: Role.ADMIN }),
-  validator.single(IdDto, "params"),
-  marketerController.verifyMarketer
-);
-
 router.delete(
   "/:marketerId",
   customerAuthGuard.authorise({ strict: true, role: Role.ADMIN }),
@@ -1,5 +1,12 @@
-import { Marketer, Prisma, Role } from "@prisma/client";
-import { MarketerEnum } from "../constants/marketer.enum";
+import {
+  Marketer,
+  MarketerEarningType,
+  MarketerKycStatus,
+  Prisma,
+  Role,
+  Transaction,
+} from "@prisma/client";
+import moment from "moment-timezone";
 import { MarketerCreateDto } from "./dtos/marketer-create.dto";
 import { MarketerUpdateDto } from "./dtos/marketer-update.dto";
 import { MarketerRepository } from "../repositories/marketer.repository";
@@ -13,6 +20,33 @@ import { AdRepository } from "../repositories/ad.repository";
 import { EmailService } from "../utils/email/email.service";
 import { EmailSubjects, EmailPaths } from "../constants/email.enum";
 import { CustomerRepository } from "../repositories/customer.repository";
+import {
+  CommissionRuleRepository,
+  CommissionRuleWithTiers,
+  CommissionTier,
+} from "../repositories/commission-rule.repository";
+import { ErrorMessages } from "../constants/error-messages.enum";
+import { eventEmmiter } from "../utils/events";
+import { ReferralService } from "./referral/referral.service";
+
+// Fields a marketer may change on their profile
+const PROFILE_FIELDS = [
+  "email",
+  "firstName",
+  "lastName",
+  "username",
+  "phoneNumber",
+  "BusinessType",
+  "marketingExperience",
+] as const;
+
+// Fields an admin checks in KYC review, changing one sends the marketer back to review
+const KYC_FIELDS = [
+  "accountName",
+  "accountBank",
+  "accountNumber",
+  "IdentityCredentialType",
+] as const;
 
 export class MarketerService {
   private emailService: EmailService;
@@ -22,9 +56,30 @@ export class MarketerService {
     private readonly customerRepository: CustomerRepository,
     private readonly marketerEarningsRepository: MarketerEarningsRepository,
     private readonly adRepository: AdRepository,
+    private readonly commissionRuleRepository: CommissionRuleRepository,
+    private readonly referralService: ReferralService,
     private readonly logger: ILogger
   ) {
     this.emailService = new EmailService();
+    this.initializeEventHandlers();
+  }
+
+  initializeEventHandlers() {
+    // Emitted once a referred merchant has verified their email
+    eventEmmiter.on(
+      "merchantVerified",
+      async (data: {
+        merchantId: string;
+        referredById: string | null;
+        createdAt: Date;
+      }) => {
+        try {
+          await this.recordSignupBonus(data);
+        } catch (error) {
+          // Already logged, the merchant's verification must not fail because of it
+        }
+      }
+    );
   }
 
   async createMarketer(
@@ -65,6 +120,11 @@ export class MarketerService {
       const marketerInput: Prisma.MarketerCreateInput = {
         ...marketerData,
         IdentityCredentialImage: identityCredentialImage || "",
+        // A verified customer account with the same email becomes the marketer's login,
+        // otherwise it is linked when the customer account verifies the email
+        ...(customerWithSameEmail?.emailVerifiedAt && {
+          customer: { connect: { id: customerWithSameEmail.id } },
+        }),
       };
 
       const marketer =
@@ -211,14 +271,31 @@ export class MarketerService {
         }
       }
 
-      const updateData: Prisma.MarketerUpdateInput = {
-        ...marketerData,
-      };
-
+      // Only profile fields are copied, the KYC state is left to the review queue
+      const updateData: Prisma.MarketerUpdateInput = {};
+      for (const field of [...PROFILE_FIELDS, ...KYC_FIELDS]) {
+        if (marketerData[field] !== undefined) {
+          updateData[field] = marketerData[field];
+        }
+      }
       if (identityCredentialImage) {
         updateData.IdentityCredentialImage = identityCredentialImage;
       }
 
+      // A new document or bank account has to be reviewed again before it is trusted
+      const kycChanged =
+        !!identityCredentialImage ||
+        KYC_FIELDS.some(
+          (field) =>
+            marketerData[field] !== undefined &&
+            marketerData[field] !== marketer[field]
+        );
+      if (kycChanged && marketer.kycStatus !== MarketerKycStatus.REJECTED) {
+        updateData.kycStatus = MarketerKycStatus.PENDING;
+        updateData.kycSubmittedAt = new Date();
+        updateData.verified = false;
+      }
+
       const updatedMarketer = await this.marketerRepository.updateMarketer(
         id,
         updateData
@@ -231,27 +308,6 @@ export class MarketerService {
     }
   }
 
-  async verifyMarketer(id: string): Promise<Marketer> {
-    try {
-      // Check if marketer exists
-      const marketer = await this.marketerRepository.getMarketerById(id);
-      if (!marketer) {
-        throw new NotFoundException("Marketer not found");
-      }
-
-      const verifiedMarketer = await this.marketerRepository.verifyMarketer(id);
-
-      // Send verification success email with referral code
-      await this.sendVerificationSuccessEmail(verifiedMarketer);
-
-      return verifiedMarketer;
-    } catch (error) {
-      if (error instanceof BaseException) throw error;
-      this.logger.error(`Failed to verify marketer: ${id}`, error);
-      throw new InternalServerException("Failed to verify marketer");
-    }
-  }
-
   async deleteMarketer(id: string): Promise<void> {
     try {
       // Check if marketer exists
@@ -346,60 +402,76 @@ export class MarketerService {
     }
   }
 
-  async markEarningsAsPaid(id: string) {
+  /**
+   * Referred merchants with their ad spend, the marketer's pending and paid earnings and
+   * how many merchants who signed up through the referral link went on to pay for an ad
+   */
+  async getDashboard(marketer: Marketer) {
     try {
-      // Check if marketer exists
-      const marketer = await this.marketerRepository.getMarketerById(id);
-      if (!marketer) {
-        throw new NotFoundException("Marketer not found");
-      }
-
-      // Get unpaid earnings
-      const unpaidEarnings =
-        await this.marketerEarningsRepository.getUnpaidEarningsByMarketer(id);
-
-      if (unpaidEarnings.length === 0) {
-        return {
-          message: "No unpaid earnings found for this marketer",
-          markedAsPaid: 0,
-          totalPaid: 0,
-        };
-      }
-
-      // Mark all unpaid earnings as paid
-      const markEarningsPromises = unpaidEarnings.map((earning) =>
-        this.marketerEarningsRepository.updateEarning(earning.id, {
-          paid: true,
-        })
-      );
-
-      await Promise.all(markEarningsPromises);
-
-      const totalPaid = unpaidEarnings.reduce(
-        (sum, earning) => sum + earning.amount,
-        0
-      );
-
-      this.logger.info(
-        `Marked ${unpaidEarnings.length} earnings as paid for marketer: ${id}`
-      );
+      const [referredMerchants, pendingEarnings, paidEarnings, funnel] =
+        await Promise.all([
+          this.marketerRepository.getReferredMerchantsWithAdSpend(marketer.id),
+          this.marketerEarningsRepository.getTotalUnpaidEarningsByMarketer(
+            marketer.id
+          ),
+          this.marketerEarningsRepository.getTotalPaidEarningsByMarketer(
+            marketer.id
+          ),
+          this.referralService.getFunnel(marketer),
+        ]);
+
+      const signups = referredMerchants.length;
+      const converted = referredMerchants.filter(
+        (merchant) => merchant.adPayments > 0
+      ).length;
 
       return {
-        message: "Successfully marked all unpaid earnings as paid",
-        markedAsPaid: unpaidEarnings.length,
-        totalPaid,
+        marketer: {
+          id: marketer.id,
+          firstName: marketer.firstName,
+          lastName: marketer.lastName,
+          username: marketer.username,
+          referrerCode: marketer.referrerCode,
+          verified: marketer.verified,
+          kycStatus: marketer.kycStatus,
+        },
+        referrals: {
+          signups,
+          verified: referredMerchants.filter(
+            (merchant) => merchant.emailVerifiedAt
+          ).length,
+          converted,
+          // Percentage of referred signups that paid for at least one ad
+          conversionRate: signups
+            ? Math.round((converted / signups) * 10000) / 100
+            : 0,
+          adSpend: referredMerchants.reduce(
+            (sum, merchant) => sum + merchant.adSpend,
+            0
+          ),
+        },
+        earnings: {
+          pending: pendingEarnings,
+          paid: paidEarnings,
+          total: pendingEarnings + paidEarnings,
+        },
+        // Visits to the short referral link and the signups credited to them
+        funnel,
+        referredMerchants,
       };
     } catch (error) {
       if (error instanceof BaseException) throw error;
-      this.logger.error(
-        `Failed to mark earnings as paid for marketer: ${id}`,
-        error
+      this.logger.error(ErrorMessages.GET_MARKETER_DASHBOARD_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.GET_MARKETER_DASHBOARD_FAILED
       );
-      throw new InternalServerException("Failed to mark earnings as paid");
     }
   }
 
-  async calculateAndRecordEarnings(adId: string): Promise<void> {
+  async calculateAndRecordEarnings(
+    adId: string,
+    transaction: Transaction
+  ): Promise<void> {
     try {
       // Get the ad
       const ad = await this.adRepository.getAd(adId);
@@ -407,47 +479,85 @@ export class MarketerService {
         throw new BadRequestException("Ad not found or not paid for");
       }
 
-      // Check if earnings were already calculated for this ad
+      // Check if earnings were already calculated for this payment
       const existingEarning =
-        await this.marketerEarningsRepository.getEarningByAd(adId);
+        await this.marketerEarningsRepository.getEarningByTransaction(
+          transaction.id
+        );
       if (existingEarning) {
         // Earnings already calculated
         return;
       }
 
-      // Get the product, merchant, and transaction details
+      // Get the product and merchant details
       const product = await this.adRepository.getProductForAd(adId);
       if (!product || !product.merchant) {
         throw new BadRequestException("Product or merchant not found for ad");
       }
 
       // Check if merchant was referred by a marketer
-      if (!product.merchant.referredById) {
+      const { merchant } = product;
+      if (!merchant.referredById) {
         // Merchant was not referred by any marketer
         return;
       }
 
-      // Get the transaction amount for the ad
-      const transactionAmount =
-        await this.adRepository.getAdTransactionAmount(adId);
-      if (!transactionAmount) {
-        throw new BadRequestException("Transaction not found for ad");
+      // Upgrades and renewals earn on the amount paid for them, after any coupon discount
+      const transactionAmount = transaction.amount;
+      if (transactionAmount <= 0) return;
+
+      const rule = await this.commissionRuleRepository.getCurrent();
+      if (!rule) {
+        throw new InternalServerException(
+          ErrorMessages.COMMISSION_RULE_NOT_FOUND
+        );
       }
+      if (!this.isWithinEligibility(merchant.createdAt, rule)) {
+        this.logger.info(
+          `Skipped marketer earnings for ad: ${adId} - merchant registered more than ${rule.eligibilityMonths} months ago`
+        );
+        return;
+      }
+
+      // The tier is picked from the marketer's active referrals at the time of payment
+      const activeMerchants =
+        await this.marketerRepository.countActiveReferredMerchants(
+          merchant.referredById,
+          moment
+            .tz("Africa/Lagos")
+            .subtract(rule.activeWindowDays, "days")
+            .toDate()
+        );
+      const percentage = this.getTierPercentage(rule, activeMerchants);
+      if (percentage <= 0) return;
 
-      // Calculate the earnings (percentage of the ad cost)
-      const earningsAmount =
-        transactionAmount * MarketerEnum.AdPercentagePerReferral;
+      // Calculate the earnings (percentage of the ad cost), rounded to kobo
+      const earningsAmount = Math.round(transactionAmount * percentage) / 100;
 
       // Record the earnings
-      await this.marketerEarningsRepository.createEarning({
-        marketerId: product.merchant.referredById,
-        merchantId: product.merchant.id,
-        AdId: adId,
-        amount: earningsAmount,
-      });
+      try {
+        await this.marketerEarningsRepository.createEarning({
+          marketerId: merchant.referredById,
+          merchantId: merchant.id,
+          AdId: adId,
+          transactionId: transaction.id,
+          amount: earningsAmount,
+          type: MarketerEarningType.AD_COMMISSION,
+          commissionRuleId: rule.id,
+          percentage,
+        });
+      } catch (error) {
+        // A concurrent fulfilment of the same payment recorded the earnings first
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2002"
+        )
+          return;
+        throw error;
+      }
 
       this.logger.info(
-        `Recorded marketer earnings of ${earningsAmount} for ad ${adId}`
+        `Recorded marketer earnings of ${earningsAmount} (${percentage}%, rule v${rule.version}) for ad ${adId}`
       );
     } catch (error) {
       if (error instanceof BaseException) throw error;
@@ -461,56 +571,96 @@ export class MarketerService {
     }
   }
 
-  private async sendRegistrationEmail(marketer: Marketer): Promise<void> {
+  /**
+   * Pays the marketer the current rule's signup bonus for a merchant they referred,
+   * once per merchant and only while the merchant is within the eligibility window
+   */
+  async recordSignupBonus(merchant: {
+    merchantId: string;
+    referredById: string | null;
+    createdAt: Date;
+  }): Promise<void> {
     try {
-      await this.emailService.sendMail({
-        to: marketer.email,
-        subject: EmailSubjects.MARKETER_REGISTRATION,
-        options: {
-          template: EmailPaths.MARKETER_REGISTRATION,
-          data: {
-            firstName: marketer.firstName,
-            lastName: marketer.lastName,
-            username: marketer.username,
-          },
-        },
+      if (!merchant.referredById) return;
+
+      const rule = await this.commissionRuleRepository.getCurrent();
+      if (!rule || rule.signupBonus <= 0) return;
+      if (!this.isWithinEligibility(merchant.createdAt, rule)) return;
+
+      const bonus = await this.marketerEarningsRepository.createSignupBonus({
+        marketerId: merchant.referredById,
+        merchantId: merchant.merchantId,
+        amount: rule.signupBonus,
+        commissionRuleId: rule.id,
       });
+      if (!bonus) return;
+
       this.logger.info(
-        `Registration email sent to marketer: ${marketer.email}`
+        `Recorded marketer signup bonus of ${rule.signupBonus} (rule v${rule.version}) for merchant ${merchant.merchantId}`
       );
     } catch (error) {
-      // Just log the error, don't fail the whole operation
-      this.logger.error(
-        `Failed to send registration email to ${marketer.email}`,
-        error
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.RECORD_SIGNUP_BONUS_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.RECORD_SIGNUP_BONUS_FAILED
       );
     }
   }
 
-  private async sendVerificationSuccessEmail(
-    marketer: Marketer
-  ): Promise<void> {
+  /**
+   * Marketers earn from a merchant for the rule's number of months after the merchant registers
+   */
+  private isWithinEligibility(
+    merchantCreatedAt: Date,
+    rule: CommissionRuleWithTiers
+  ): boolean {
+    const eligibleFrom = moment
+      .tz("Africa/Lagos")
+      .subtract(rule.eligibilityMonths, "months");
+    return moment(merchantCreatedAt).tz("Africa/Lagos").isAfter(eligibleFrom);
+  }
+
+  /**
+   * The percentage of the highest tier the marketer's active referrals reach
+   */
+  private getTierPercentage(
+    rule: CommissionRuleWithTiers,
+    activeMerchants: number
+  ): number {
+    return (
+      rule.tiers
+        .filter((tier) => tier.minActiveMerchants <= activeMerchants)
+        .reduce<CommissionTier | null>(
+          (highest, tier) =>
+            !highest || tier.minActiveMerchants > highest.minActiveMerchants
+              ? tier
+              : highest,
+          null
+        )?.percentage ?? 0
+    );
+  }
+
+  private async sendRegistrationEmail(marketer: Marketer): Promise<void> {
     try {
       await this.emailService.sendMail({
         to: marketer.email,
-        subject: EmailSubjects.MARKETER_VERIFICATION_SUCCESS,
+        subject: EmailSubjects.MARKETER_REGISTRATION,
         options: {
-          template: EmailPaths.MARKETER_VERIFICATION_SUCCESS,
+          template: EmailPaths.MARKETER_REGISTRATION,
           data: {
             firstName: marketer.firstName,
             lastName: marketer.lastName,
             username: marketer.username,
-            referrerCode: marketer.referrerCode,
           },
         },
       });
       this.logger.info(
-        `Verification success email sent to marketer: ${marketer.email}`
+        `Registration email sent to marketer: ${marketer.email}`
       );
     } catch (error) {
       // Just log the error, don't fail the whole operation
       this.logger.error(
-        `Failed to send verification success email to ${marketer.email}`,
+        `Failed to send registration email to ${marketer.email}`,
         error
       );
     }
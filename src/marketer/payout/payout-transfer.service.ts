@@ -0,0 +1,392 @@
+import { PaymentProvider, Payout, PayoutStatus } from "@prisma/client";
+import { ErrorMessages } from "../../constants/error-messages.enum";
+import { PaystackEvents } from "../../constants/payment.enum";
+import { PaystackWebhookEvent } from "../../payment/dtos/paystack-webhook.dto";
+import { PayoutRepository } from "../../repositories/payout.repository";
+import { configService } from "../../utils/config/config.service";
+import { BadRequestException } from "../../utils/exceptions/bad-request.exception";
+import { BaseException } from "../../utils/exceptions/base.exception";
+import { InternalServerException } from "../../utils/exceptions/internal-server.exception";
+import { NotFoundException } from "../../utils/exceptions/not-found.exception";
+import { ILogger } from "../../utils/logger/logger.interface";
+import { PaymentGatewayService } from "../../utils/payment/payment-gateway.service";
+import { TransferResult } from "../../utils/payment/payment-provider.interface";
+
+export interface PayoutTransferRun {
+  started: number;
+  verified: number;
+  errored: number;
+}
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Sends pending marketer payouts as bank transfers from the payment provider balance.
+ * A payout is only marked SENT, and its earnings paid, once the transfer settles,
+ * usually through the provider's transfer webhook.
+ */
+export class PayoutTransferService {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly payoutRepository: PayoutRepository,
+    private readonly paymentGateway: PaymentGatewayService,
+    private readonly logger: ILogger
+  ) {}
+
+  private get intervalMs(): number {
+    return (
+      Number(
+        configService.get<string>("PAYOUT_TRANSFER_INTERVAL_MINUTES", "60")
+      ) * MINUTE
+    );
+  }
+
+  private get batchSize(): number {
+    return Number(
+      configService.get<string>("PAYOUT_TRANSFER_BATCH_SIZE", "20")
+    );
+  }
+
+  // Transfers without a webhook after this long are checked with the provider
+  private get verifyAfterMs(): number {
+    return (
+      Number(
+        configService.get<string>("PAYOUT_TRANSFER_VERIFY_AFTER_MINUTES", "30")
+      ) * MINUTE
+    );
+  }
+
+  /**
+   * Starts the periodic job. Sending money is opt in: `PAYOUT_TRANSFERS_ENABLED=true`.
+   */
+  start() {
+    if (this.timer) return;
+    if (configService.get<string>("PAYOUT_TRANSFERS_ENABLED") !== "true") {
+      this.logger.info("Payout transfers disabled");
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.run().catch((error) =>
+        this.logger.error(ErrorMessages.PAYOUT_TRANSFER_RUN_FAILED, error)
+      );
+    }, this.intervalMs);
+    this.timer.unref();
+    this.logger.info(
+      `Payout transfers scheduled every ${this.intervalMs / MINUTE} minutes`
+    );
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Sends pending payouts that have no transfer yet and re-checks transfers that never
+   * got a webhook. Resolves to null when a run is already in progress.
+   */
+  async run(): Promise<PayoutTransferRun | null> {
+    if (this.running) {
+      this.logger.warn("Payout transfers already running, skipping this run");
+      return null;
+    }
+    this.running = true;
+    try {
+      const summary: PayoutTransferRun = {
+        started: 0,
+        verified: 0,
+        errored: 0,
+      };
+
+      const payouts = await this.payoutRepository.getPayoutsToTransfer(
+        this.batchSize
+      );
+      for (const payout of payouts) {
+        try {
+          await this.sendPayout(payout);
+          summary.started++;
+        } catch (error) {
+          summary.errored++;
+          this.logger.error(
+            `${ErrorMessages.PAYOUT_TRANSFER_FAILED} for payout ${payout.id}`,
+            error
+          );
+        }
+      }
+
+      const staleTransfers = await this.payoutRepository.getStaleTransfers(
+        new Date(Date.now() - this.verifyAfterMs),
+        this.batchSize
+      );
+      for (const payout of staleTransfers) {
+        try {
+          await this.verifyTransfer(payout);
+          summary.verified++;
+        } catch (error) {
+          summary.errored++;
+          this.logger.error(
+            `${ErrorMessages.PAYOUT_TRANSFER_FAILED} for payout ${payout.id}`,
+            error
+          );
+        }
+      }
+
+      this.logger.info(
+        `Payout transfers: ${summary.started} started, ${summary.verified} verified, ${summary.errored} errored`
+      );
+      return summary;
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.PAYOUT_TRANSFER_RUN_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.PAYOUT_TRANSFER_RUN_FAILED
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Sends one pending payout straight away (Admin)
+   */
+  async transferPayout(payoutId: string) {
+    try {
+      const payout = await this.payoutRepository.getPayout(payoutId);
+      if (!payout) {
+        throw new NotFoundException(ErrorMessages.PAYOUT_NOT_FOUND);
+      }
+      if (payout.status !== PayoutStatus.PENDING) {
+        throw new BadRequestException(ErrorMessages.PAYOUT_ALREADY_SETTLED);
+      }
+      if (payout.transferReference) {
+        throw new BadRequestException(
+          ErrorMessages.PAYOUT_TRANSFER_IN_PROGRESS
+        );
+      }
+
+      await this.sendPayout(payout);
+      return await this.payoutRepository.getPayout(payoutId);
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.PAYOUT_TRANSFER_FAILED, error);
+      throw new InternalServerException(ErrorMessages.PAYOUT_TRANSFER_FAILED);
+    }
+  }
+
+  /**
+   * Applies a `transfer.*` webhook event to the payout it was sent for
+   */
+  async handleTransferEvent(
+    payload: PaystackWebhookEvent,
+    provider: PaymentProvider
+  ): Promise<void> {
+    const { event, data } = payload;
+    const payout = await this.payoutRepository.getPayoutByTransferReference(
+      data.reference
+    );
+    if (!payout) {
+      // Acknowledge unknown references so Paystack stops retrying them
+      this.logger.warn(
+        `${ErrorMessages.PAYOUT_NOT_FOUND} for ${provider} transfer reference: ${data.reference}`
+      );
+      return;
+    }
+    if (payout.provider !== provider) {
+      this.logger.warn(
+        `Ignoring ${provider} event for ${payout.provider} payout ${payout.id}`
+      );
+      return;
+    }
+
+    switch (event) {
+      case PaystackEvents.TRANSFER_SUCCESS:
+        await this.settleTransfer(payout.id, {
+          status: PayoutStatus.SENT,
+          bankReference:
+            data.session?.id || data.transfer_code || data.reference,
+        });
+        break;
+      case PaystackEvents.TRANSFER_FAILED:
+        await this.settleTransfer(payout.id, {
+          status: PayoutStatus.FAILED,
+          failureReason: data.reason || "Transfer failed",
+        });
+        break;
+      case PaystackEvents.TRANSFER_REVERSED:
+        // A reversal can arrive after the transfer was reported successful
+        await this.settleTransfer(
+          payout.id,
+          { status: PayoutStatus.FAILED, failureReason: "Transfer reversed" },
+          [PayoutStatus.PENDING, PayoutStatus.SENT]
+        );
+        break;
+    }
+  }
+
+  /**
+   * Resolves the marketer's account, creates a transfer recipient and starts the transfer.
+   * Payouts to accounts that do not resolve, or resolve to another name, are marked FAILED.
+   */
+  private async sendPayout(payout: Payout) {
+    const provider = this.paymentGateway.getTransferProvider();
+    if (
+      !provider.resolveBankAccount ||
+      !provider.createTransferRecipient ||
+      !provider.initiateTransfer
+    ) {
+      throw new BadRequestException(
+        ErrorMessages.PAYOUT_TRANSFER_NOT_SUPPORTED
+      );
+    }
+
+    const account = await provider.resolveBankAccount({
+      accountName: payout.accountName,
+      accountNumber: payout.accountNumber,
+      bank: payout.accountBank,
+    });
+    if (!account) {
+      await this.settleTransfer(payout.id, {
+        status: PayoutStatus.FAILED,
+        failureReason: ErrorMessages.BANK_ACCOUNT_NOT_RESOLVED,
+      });
+      return;
+    }
+    if (!this.namesMatch(payout.accountName, account.accountName)) {
+      await this.settleTransfer(payout.id, {
+        status: PayoutStatus.FAILED,
+        failureReason: `${ErrorMessages.BANK_ACCOUNT_NAME_MISMATCH}: ${account.accountName}`,
+      });
+      return;
+    }
+
+    const recipientCode = await provider.createTransferRecipient(account);
+    if (!recipientCode) {
+      throw new InternalServerException(
+        ErrorMessages.TRANSFER_RECIPIENT_FAILED
+      );
+    }
+
+    // The reference is fixed per payout so a retried transfer is rejected as a duplicate
+    const transferReference = `payout-${payout.id}`;
+    const claimed = await this.payoutRepository.startTransfer(payout.id, {
+      provider: provider.name,
+      transferReference,
+      recipientCode,
+    });
+    if (!claimed) {
+      throw new BadRequestException(ErrorMessages.PAYOUT_TRANSFER_IN_PROGRESS);
+    }
+
+    const result = await provider.initiateTransfer(
+      transferReference,
+      payout.amount,
+      recipientCode,
+      this.transferReason(payout)
+    );
+    await this.applyTransferResult(payout, result);
+  }
+
+  /**
+   * Checks a transfer that never got a webhook. When the provider has no record of it
+   * the transfer is sent again with the same reference.
+   */
+  private async verifyTransfer(payout: Payout) {
+    const provider = this.paymentGateway.getProvider(payout.provider!);
+    const reference = payout.transferReference!;
+    let result = provider.verifyTransfer
+      ? await provider.verifyTransfer(reference)
+      : null;
+    if (!result && provider.initiateTransfer) {
+      result = await provider.initiateTransfer(
+        reference,
+        payout.amount,
+        payout.recipientCode!,
+        this.transferReason(payout)
+      );
+    }
+    // Wait another full period before checking again
+    await this.payoutRepository.updateTransfer(payout.id, {
+      transferInitiatedAt: new Date(),
+    });
+    await this.applyTransferResult(payout, result);
+  }
+
+  private async applyTransferResult(
+    payout: Payout,
+    result: TransferResult | null
+  ) {
+    if (!result) {
+      this.logger.warn(
+        `No transfer result for payout ${payout.id}, it will be verified later`
+      );
+      return;
+    }
+    switch (result.status) {
+      case "success":
+        await this.settleTransfer(payout.id, {
+          status: PayoutStatus.SENT,
+          bankReference:
+            result.bankReference || result.transferCode || result.reference,
+        });
+        break;
+      case "failed":
+        await this.settleTransfer(payout.id, {
+          status: PayoutStatus.FAILED,
+          failureReason: result.message || "Transfer failed",
+        });
+        break;
+      default:
+        if (result.transferCode) {
+          await this.payoutRepository.updateTransfer(payout.id, {
+            transferCode: result.transferCode,
+          });
+        }
+    }
+  }
+
+  /**
+   * Settles the payout unless a webhook or another run got there first
+   */
+  private async settleTransfer(
+    payoutId: string,
+    data: Parameters<PayoutRepository["settle"]>[1],
+    from?: PayoutStatus[]
+  ) {
+    try {
+      const payout = await this.payoutRepository.settle(payoutId, data, from);
+      this.logger.info(`Payout ${payoutId} marked as ${payout.status}`);
+    } catch (error) {
+      if (!(error instanceof BadRequestException)) throw error;
+      this.logger.info(`Payout ${payoutId} already settled`);
+    }
+  }
+
+  /**
+   * Accepts the bank's name for the account when it shares at least two words with the
+   * name on the marketer's profile, in any order, or every word of a shorter name
+   */
+  private namesMatch(expected: string, resolved: string): boolean {
+    const words = (name: string) =>
+      new Set(
+        name
+          .toUpperCase()
+          .split(/[^A-Z0-9]+/)
+          .filter(Boolean)
+      );
+    const expectedWords = words(expected);
+    const resolvedWords = words(resolved);
+    const shared = [...expectedWords].filter((word) =>
+      resolvedWords.has(word)
+    ).length;
+    return (
+      shared > 0 &&
+      shared >= Math.min(2, expectedWords.size, resolvedWords.size)
+    );
+  }
+
+  private transferReason(payout: Payout): string {
+    return `9ja Market marketer payout ${payout.id.slice(0, 8)}`;
+  }
+}
@@ -0,0 +1,201 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { MarketerPayoutService } from "./payout.service";
+import { PayoutTransferService } from "./payout-transfer.service";
+import { ResponseDto } from "../../dtos/response.dto";
+import { ResponseStatus } from "../../dtos/interfaces/response.interface";
+import { SuccessMessages } from "../../constants/success-messages.enum";
+import { HttpStatus } from "../../constants/http-status.enum";
+
+export class MarketerPayoutController {
+  constructor(
+    private readonly marketerPayoutService: MarketerPayoutService,
+    private readonly payoutTransferService: PayoutTransferService
+  ) {}
+
+  /**
+   * Create Payout from a Marketer's Unpaid Earnings (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  createPayout: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.marketerPayoutService.createPayout(
+        request.params.marketerId,
+        request.body.customer,
+        request.body.bankReference
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.CREATE_PAYOUT_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.CREATED).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get Payouts (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getPayouts: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.marketerPayoutService.getPayouts(request.query);
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_PAYOUTS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get a Marketer's Payouts
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getMarketerPayouts: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.marketerPayoutService.getMarketerPayouts(
+        request.params.marketerId,
+        request.body.customer
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_PAYOUTS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get Payout with its Earnings
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getPayout: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.marketerPayoutService.getPayout(
+        request.params.payoutId,
+        request.body.customer
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_PAYOUT_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Mark Payout as Sent or Failed (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  updatePayout: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.marketerPayoutService.updatePayout(
+        request.params.payoutId,
+        request.body
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.UPDATE_PAYOUT_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Send Payout as a Bank Transfer (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  transferPayout: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.payoutTransferService.transferPayout(
+        request.params.payoutId
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.PAYOUT_TRANSFER_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Download Payout Statement as PDF or CSV
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  downloadStatement: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const statement = await this.marketerPayoutService.getStatement(
+        request.params.payoutId,
+        request.body.customer,
+        request.query.format as "pdf" | "csv" | undefined
+      );
+      response.setHeader("Content-Type", statement.contentType);
+      response.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${statement.fileName}"`
+      );
+      return response.status(HttpStatus.OK).send(statement.content);
+    } catch (e) {
+      next(e);
+    }
+  };
+}
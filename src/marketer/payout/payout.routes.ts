@@ -0,0 +1,89 @@
+import { Router } from "express";
+import { Role } from "@prisma/client";
+import { MarketerPayoutService } from "./payout.service";
+import { MarketerPayoutController } from "./payout.controller";
+import { PayoutTransferService } from "./payout-transfer.service";
+import { PayoutRepository } from "../../repositories/payout.repository";
+import { MarketerRepository } from "../../repositories/marketer.repository";
+import { CustomerRepository } from "../../repositories/customer.repository";
+import { WinstonLogger } from "../../utils/logger/winston.logger";
+import { JWTService } from "../../utils/jwt/jwt.service";
+import { Validator } from "../../utils/middlewares/validator.middleware";
+import { CustomerAuthGaurd } from "../../utils/middlewares/guards/customer.auth.guard";
+import { paymentGateway } from "../../utils/payment";
+import { IdDto } from "../../dtos/id.dto";
+import { PayoutFilterDto } from "../dtos/payout-filter.dto";
+import { PayoutUpdateDto } from "../dtos/payout-update.dto";
+import { PayoutStatementDto } from "../dtos/payout-statement.dto";
+
+const router = Router();
+const logger = new WinstonLogger("MarketerPayoutService");
+const payoutRepository = new PayoutRepository();
+export const marketerPayoutService = new MarketerPayoutService(
+  payoutRepository,
+  new MarketerRepository(),
+  logger
+);
+export const payoutTransferService = new PayoutTransferService(
+  payoutRepository,
+  paymentGateway,
+  new WinstonLogger("PayoutTransferService")
+);
+export const marketerPayoutController = new MarketerPayoutController(
+  marketerPayoutService,
+  payoutTransferService
+);
+const validator = new Validator();
+const customerAuthGaurd = new CustomerAuthGaurd(
+  new CustomerRepository(),
+  logger,
+  new JWTService()
+);
+
+// Get Payouts (Admin)
+router.get(
+  "/",
+  validator.single(PayoutFilterDto, "query"),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  marketerPayoutController.getPayouts
+);
+
+// Get Payout with its Earnings
+router.get(
+  "/:payoutId",
+  validator.single(IdDto, "params"),
+  customerAuthGaurd.authorise({ strict: true }),
+  marketerPayoutController.getPayout
+);
+
+// Download Payout Statement
+router.get(
+  "/:payoutId/statement",
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: PayoutStatementDto, source: "query" },
+  ]),
+  customerAuthGaurd.authorise({ strict: true }),
+  marketerPayoutController.downloadStatement
+);
+
+// Mark Payout as Sent or Failed (Admin)
+router.put(
+  "/:payoutId",
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: PayoutUpdateDto, source: "body" },
+  ]),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  marketerPayoutController.updatePayout
+);
+
+// Send Payout as a Bank Transfer (Admin)
+router.post(
+  "/:payoutId/transfer",
+  validator.single(IdDto, "params"),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  marketerPayoutController.transferPayout
+);
+
+export default router;
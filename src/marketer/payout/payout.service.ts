@@ -0,0 +1,304 @@
+import { Customer, PayoutStatus, Role } from "@prisma/client";
+import moment from "moment-timezone";
+import { ErrorMessages } from "../../constants/error-messages.enum";
+import { MarketerRepository } from "../../repositories/marketer.repository";
+import {
+  PayoutRepository,
+  PayoutWithEarnings,
+} from "../../repositories/payout.repository";
+import { BadRequestException } from "../../utils/exceptions/bad-request.exception";
+import { BaseException } from "../../utils/exceptions/base.exception";
+import { InternalServerException } from "../../utils/exceptions/internal-server.exception";
+import { NotFoundException } from "../../utils/exceptions/not-found.exception";
+import { UnauthorizedException } from "../../utils/exceptions/unauthorized.exception";
+import { PdfDocument } from "../../utils/helpers/pdf-document";
+import { ILogger } from "../../utils/logger/logger.interface";
+import { PayoutUpdateDto } from "../dtos/payout-update.dto";
+
+const TIMEZONE = "Africa/Lagos";
+
+export type PayoutStatementFormat = "pdf" | "csv";
+
+export interface PayoutStatement {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export class MarketerPayoutService {
+  constructor(
+    private readonly payoutRepository: PayoutRepository,
+    private readonly marketerRepository: MarketerRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  /**
+   * Groups the marketer's unpaid earnings into a payout approved by the admin.
+   * With a bank reference the money is taken as already sent and the earnings are paid,
+   * otherwise the payout waits as PENDING until it is marked SENT or FAILED.
+   */
+  async createPayout(
+    marketerId: string,
+    admin: Customer,
+    bankReference?: string
+  ) {
+    try {
+      const marketer =
+        await this.marketerRepository.getMarketerById(marketerId);
+      if (!marketer) {
+        throw new NotFoundException("Marketer not found");
+      }
+
+      const payout = await this.payoutRepository.createForMarketer({
+        marketerId,
+        approvedById: admin.id,
+        accountName: marketer.accountName,
+        accountBank: marketer.accountBank,
+        accountNumber: marketer.accountNumber,
+        status: bankReference ? PayoutStatus.SENT : PayoutStatus.PENDING,
+        bankReference,
+      });
+      if (!payout) {
+        throw new BadRequestException(ErrorMessages.NO_UNPAID_EARNINGS);
+      }
+
+      this.logger.info(
+        `Admin ${admin.id} created ${payout.status} payout ${payout.id} of ${payout.amount} for marketer: ${marketerId}`
+      );
+      return payout;
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.CREATE_PAYOUT_FAILED, error);
+      throw new InternalServerException(ErrorMessages.CREATE_PAYOUT_FAILED);
+    }
+  }
+
+  async getPayouts(filters: { status?: PayoutStatus; marketerId?: string }) {
+    try {
+      return await this.payoutRepository.getPayouts(filters);
+    } catch (error) {
+      this.logger.error(ErrorMessages.GET_PAYOUTS_FAILED, error);
+      throw new InternalServerException(ErrorMessages.GET_PAYOUTS_FAILED);
+    }
+  }
+
+  async getMarketerPayouts(marketerId: string, customer: Customer) {
+    try {
+      const marketer =
+        await this.marketerRepository.getMarketerById(marketerId);
+      if (!marketer) {
+        throw new NotFoundException("Marketer not found");
+      }
+      this.assertCanView(customer, marketer.customerId);
+
+      return await this.payoutRepository.getPayouts({ marketerId });
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.GET_PAYOUTS_FAILED, error);
+      throw new InternalServerException(ErrorMessages.GET_PAYOUTS_FAILED);
+    }
+  }
+
+  async getPayout(payoutId: string, customer: Customer) {
+    try {
+      return await this.getViewablePayout(payoutId, customer);
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.GET_PAYOUTS_FAILED, error);
+      throw new InternalServerException(ErrorMessages.GET_PAYOUTS_FAILED);
+    }
+  }
+
+  async updatePayout(payoutId: string, data: PayoutUpdateDto) {
+    try {
+      const payout = await this.payoutRepository.getPayout(payoutId);
+      if (!payout) {
+        throw new NotFoundException(ErrorMessages.PAYOUT_NOT_FOUND);
+      }
+      if (payout.status !== PayoutStatus.PENDING) {
+        throw new BadRequestException(ErrorMessages.PAYOUT_ALREADY_SETTLED);
+      }
+      // Transfers settle through the provider's webhook
+      if (payout.transferReference) {
+        throw new BadRequestException(
+          ErrorMessages.PAYOUT_TRANSFER_IN_PROGRESS
+        );
+      }
+
+      const updatedPayout =
+        data.status === PayoutStatus.SENT
+          ? await this.payoutRepository.settle(payoutId, {
+              status: PayoutStatus.SENT,
+              bankReference: data.bankReference,
+            })
+          : await this.payoutRepository.settle(payoutId, {
+              status: PayoutStatus.FAILED,
+              failureReason: data.failureReason,
+            });
+
+      this.logger.info(`Payout ${payoutId} marked as ${updatedPayout.status}`);
+      return updatedPayout;
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.UPDATE_PAYOUT_FAILED, error);
+      throw new InternalServerException(ErrorMessages.UPDATE_PAYOUT_FAILED);
+    }
+  }
+
+  async getStatement(
+    payoutId: string,
+    customer: Customer,
+    format: PayoutStatementFormat = "pdf"
+  ): Promise<PayoutStatement> {
+    try {
+      const payout = await this.getViewablePayout(payoutId, customer);
+      const fileName = `payout-${moment(payout.createdAt).tz(TIMEZONE).format("YYYY-MM-DD")}-${payout.id.slice(0, 8)}.${format}`;
+
+      if (format === "csv") {
+        return {
+          fileName,
+          contentType: "text/csv; charset=utf-8",
+          content: Buffer.from(this.buildCsvStatement(payout), "utf-8"),
+        };
+      }
+      return {
+        fileName,
+        contentType: "application/pdf",
+        content: this.buildPdfStatement(payout),
+      };
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.PAYOUT_STATEMENT_FAILED, error);
+      throw new InternalServerException(ErrorMessages.PAYOUT_STATEMENT_FAILED);
+    }
+  }
+
+  private async getViewablePayout(
+    payoutId: string,
+    customer: Customer
+  ): Promise<PayoutWithEarnings> {
+    const payout = await this.payoutRepository.getPayout(payoutId);
+    if (!payout) {
+      throw new NotFoundException(ErrorMessages.PAYOUT_NOT_FOUND);
+    }
+    this.assertCanView(customer, payout.marketer.customerId);
+    return payout;
+  }
+
+  /**
+   * Payouts are visible to admins and to the customer account linked to the marketer
+   */
+  private assertCanView(customer: Customer, marketerCustomerId: string | null) {
+    if (customer.role === Role.ADMIN) return;
+    if (customer.id !== marketerCustomerId) {
+      throw new UnauthorizedException(ErrorMessages.USER_UNAUTHORIZED);
+    }
+  }
+
+  private buildCsvStatement(payout: PayoutWithEarnings): string {
+    const rows: (string | number)[][] = [
+      [
+        "Date",
+        "Earning ID",
+        "Type",
+        "Merchant",
+        "Ad ID",
+        "Ad Level",
+        "Transaction ID",
+        "Amount (NGN)",
+      ],
+      ...payout.earnings.map((earning) => [
+        this.formatDate(earning.createdAt),
+        earning.id,
+        earning.type,
+        earning.merchant.brandName,
+        earning.Ad?.id || "",
+        earning.Ad?.level ?? "",
+        earning.transactionId || "",
+        this.formatAmount(earning.amount),
+      ]),
+      ["Total", "", "", "", "", "", "", this.formatAmount(payout.amount)],
+    ];
+    return rows
+      .map((row) => row.map((cell) => this.toCsvCell(cell)).join(","))
+      .join("\r\n");
+  }
+
+  private buildPdfStatement(payout: PayoutWithEarnings): Buffer {
+    const { marketer } = payout;
+    const document = new PdfDocument()
+      .writeLine("9ja Market", { size: 18, bold: true })
+      .writeLine("Marketer Payout Statement", { size: 14 })
+      .moveDown()
+      .writeLine(
+        `Marketer: ${marketer.firstName} ${marketer.lastName} (${marketer.username})`
+      )
+      .writeLine(`Payout ID: ${payout.id}`)
+      .writeLine(`Status: ${payout.status}`)
+      .writeLine(`Created: ${this.formatDate(payout.createdAt)}`);
+    if (payout.sentAt) {
+      document.writeLine(`Sent: ${this.formatDate(payout.sentAt)}`);
+    }
+    if (payout.bankReference) {
+      document.writeLine(`Bank reference: ${payout.bankReference}`);
+    }
+    if (payout.failureReason) {
+      document.writeLine(`Failure reason: ${payout.failureReason}`);
+    }
+    document
+      .writeLine(
+        `Paid to: ${payout.accountName}, ${payout.accountBank}, ${payout.accountNumber}`
+      )
+      .writeLine(
+        `Approved by: ${payout.approvedBy.firstName} ${payout.approvedBy.lastName}`
+      )
+      .moveDown();
+
+    const columns = [0, 80, 250, 340, 420];
+    document.writeRow(
+      ["Date", "Merchant", "Ad Level", "Ad ID", "Amount (NGN)"],
+      columns,
+      { bold: true }
+    );
+    for (const earning of payout.earnings) {
+      document.writeRow(
+        [
+          this.formatDate(earning.createdAt),
+          earning.merchant.brandName.slice(0, 32),
+          earning.Ad ? String(earning.Ad.level) : "Signup bonus",
+          earning.Ad?.id.slice(0, 8) || "",
+          this.formatAmount(earning.amount),
+        ],
+        columns
+      );
+    }
+    if (payout.earnings.length === 0) {
+      // Earnings of a failed payout are released to the marketer's next payout
+      document.writeLine("No earnings are attached to this payout.");
+    }
+    return document
+      .moveDown()
+      .writeRow(["Total", this.formatAmount(payout.amount)], [0, 420], {
+        bold: true,
+      })
+      .toBuffer();
+  }
+
+  private formatDate(date: Date): string {
+    return moment(date).tz(TIMEZONE).format("YYYY-MM-DD");
+  }
+
+  private formatAmount(amount: number): string {
+    return amount.toFixed(2);
+  }
+
+  /**
+   * Quotes a CSV cell when needed and neutralises values a spreadsheet would run as a formula
+   */
+  private toCsvCell(value: string | number): string {
+    let cell = String(value);
+    if (/^[=+\-@]/.test(cell)) cell = `'${cell}`;
+    if (/[",\r\n]/.test(cell)) cell = `"${cell.replace(/"/g, '""')}"`;
+    return cell;
+  }
+}
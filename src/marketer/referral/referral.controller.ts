@@ -0,0 +1,71 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { ReferralService } from "./referral.service";
+import { ResponseDto } from "../../dtos/response.dto";
+import { ResponseStatus } from "../../dtos/interfaces/response.interface";
+import { SuccessMessages } from "../../constants/success-messages.enum";
+import { HttpStatus } from "../../constants/http-status.enum";
+import { ReferralCookies } from "../../constants/referral.enum";
+
+export class ReferralController {
+  constructor(private readonly referralService: ReferralService) {}
+
+  /**
+   * Record a Referral Link Visit and Redirect to Signup
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  visit: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const redirect = await this.referralService.recordVisit(
+        request.params.referrerCode,
+        {
+          ip: request.ip,
+          userAgent: request.get("user-agent"),
+          referer: request.get("referer"),
+        }
+      );
+      if (redirect.visitId) {
+        response.cookie(ReferralCookies.VISIT, redirect.visitId, {
+          maxAge: this.referralService.cookieWindowMs,
+          httpOnly: true,
+          sameSite: "lax",
+          secure: request.secure,
+        });
+      }
+      return response.redirect(HttpStatus.FOUND, redirect.url);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get a Marketer's Referral Funnel
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getFunnel: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.referralService.getMarketerFunnel(
+        request.params.marketerId
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_REFERRAL_FUNNEL_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+}
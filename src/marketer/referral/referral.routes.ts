@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { ReferralService } from "./referral.service";
+import { ReferralController } from "./referral.controller";
+import { ReferralVisitRepository } from "../../repositories/referral-visit.repository";
+import { MarketerRepository } from "../../repositories/marketer.repository";
+import { WinstonLogger } from "../../utils/logger/winston.logger";
+
+const router = Router();
+export const referralVisitRepository = new ReferralVisitRepository();
+export const referralService = new ReferralService(
+  referralVisitRepository,
+  new MarketerRepository(),
+  new WinstonLogger("ReferralService")
+);
+export const referralController = new ReferralController(referralService);
+
+// Short Referral Link, records the visit and redirects to merchant signup
+router.get("/:referrerCode", referralController.visit);
+
+export default router;
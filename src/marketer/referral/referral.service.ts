@@ -0,0 +1,157 @@
+import { Marketer, ReferralVisit } from "@prisma/client";
+import { AppEnum } from "../../constants/app.enum";
+import { ErrorMessages } from "../../constants/error-messages.enum";
+import { ReferralVisitor } from "../../interfaces/referral-visitor.interface";
+import { MarketerRepository } from "../../repositories/marketer.repository";
+import { ReferralVisitRepository } from "../../repositories/referral-visit.repository";
+import { configService } from "../../utils/config/config.service";
+import { cryptoService } from "../../utils/crytpo/crypto.service";
+import { BaseException } from "../../utils/exceptions/base.exception";
+import { InternalServerException } from "../../utils/exceptions/internal-server.exception";
+import { NotFoundException } from "../../utils/exceptions/not-found.exception";
+import { isBot } from "../../utils/helpers/bot-detector";
+import { ILogger } from "../../utils/logger/logger.interface";
+
+export interface ReferralRedirect {
+  url: string;
+  // Set when the visit was recorded, kept in the referral cookie
+  visitId?: string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Tracks visits to marketers' short referral links and attributes merchant signups
+ * to the last visit within the cookie window
+ */
+export class ReferralService {
+  constructor(
+    private readonly referralVisitRepository: ReferralVisitRepository,
+    private readonly marketerRepository: MarketerRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  // How long a visit can be credited with a signup
+  get cookieWindowMs(): number {
+    return (
+      Number(configService.get<string>("REFERRAL_COOKIE_DAYS", "30")) * DAY
+    );
+  }
+
+  private get signupUrl(): string {
+    return configService.get<string>(
+      "REFERRAL_SIGNUP_URL",
+      `${AppEnum.CLIENT_URL}/register`
+    )!;
+  }
+
+  /**
+   * Records a visit to the marketer's referral link and returns the signup page to send
+   * the visitor to. Unknown codes still redirect, without a referral.
+   */
+  async recordVisit(
+    referrerCode: string,
+    visitor: ReferralVisitor
+  ): Promise<ReferralRedirect> {
+    const url = new URL(this.signupUrl);
+    try {
+      const marketer =
+        await this.marketerRepository.getMarketerByReferrerCode(referrerCode);
+      if (!marketer) return { url: url.toString() };
+      url.searchParams.set("ref", marketer.referrerCode!);
+
+      // Bots and link previews are sent on but not counted
+      if (isBot(visitor.userAgent)) return { url: url.toString() };
+
+      const visit = await this.referralVisitRepository.create({
+        marketerId: marketer.id,
+        fingerprint: this.getFingerprint(visitor),
+        referer: visitor.referer?.slice(0, 500),
+      });
+      url.searchParams.set("visit", visit.id);
+      return { url: url.toString(), visitId: visit.id };
+    } catch (error) {
+      // A failed count must not stop the visitor reaching the signup page
+      this.logger.error(ErrorMessages.RECORD_REFERRAL_VISIT_FAILED, error);
+      return { url: url.toString() };
+    }
+  }
+
+  /**
+   * The visit a new merchant's signup is credited to: the visitor's last visit within the
+   * cookie window that has not led to a signup, limited to the given marketer when the
+   * merchant entered a referrer themselves
+   */
+  async findVisitToAttribute(
+    visitor: ReferralVisitor,
+    marketerId?: string
+  ): Promise<ReferralVisit | null> {
+    try {
+      return await this.referralVisitRepository.getLastUnconvertedVisit({
+        visitId: visitor.visitId,
+        fingerprint: this.getFingerprint(visitor),
+        since: new Date(Date.now() - this.cookieWindowMs),
+        marketerId,
+      });
+    } catch (error) {
+      // Attribution is best effort, the signup goes ahead without it
+      this.logger.error(ErrorMessages.ATTRIBUTE_REFERRAL_VISIT_FAILED, error);
+      return null;
+    }
+  }
+
+  async markConverted(visitId: string, merchantId: string): Promise<void> {
+    try {
+      const converted = await this.referralVisitRepository.markConverted(
+        visitId,
+        merchantId
+      );
+      if (converted) {
+        this.logger.info(
+          `Attributed merchant ${merchantId} signup to referral visit ${visitId}`
+        );
+      }
+    } catch (error) {
+      this.logger.error(ErrorMessages.ATTRIBUTE_REFERRAL_VISIT_FAILED, error);
+    }
+  }
+
+  /**
+   * Visits, signups, email verifications and first ad payments from the marketer's referral link
+   */
+  async getFunnel(marketer: Pick<Marketer, "id">) {
+    const counts = await this.referralVisitRepository.getFunnel(marketer.id);
+    return {
+      ...counts,
+      // Percentages of the step before
+      signupRate: this.rate(counts.signups, counts.uniqueVisitors),
+      verificationRate: this.rate(counts.verified, counts.signups),
+      paymentRate: this.rate(counts.paying, counts.signups),
+    };
+  }
+
+  async getMarketerFunnel(marketerId: string) {
+    try {
+      const marketer =
+        await this.marketerRepository.getMarketerById(marketerId);
+      if (!marketer) {
+        throw new NotFoundException("Marketer not found");
+      }
+      return await this.getFunnel(marketer);
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.GET_REFERRAL_FUNNEL_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.GET_REFERRAL_FUNNEL_FAILED
+      );
+    }
+  }
+
+  private getFingerprint(visitor: ReferralVisitor): string {
+    return cryptoService.hash(`${visitor.ip ?? ""}|${visitor.userAgent ?? ""}`);
+  }
+
+  private rate(count: number, total: number): number {
+    return total ? Math.round((count / total) * 10000) / 100 : 0;
+  }
+}
@@ -0,0 +1,22 @@
+import { MerchantVerificationScope } from "@prisma/client";
+import {
+  IsDefined,
+  IsEnum,
+  IsOptional,
+  IsString,
+  Matches,
+} from "class-validator";
+
+export class MerchantVerificationCreateDto {
+  @IsDefined()
+  @IsEnum(MerchantVerificationScope)
+  declare scope: MerchantVerificationScope;
+
+  // NIN or CAC registration number on the document, checked against the registry
+  @IsOptional()
+  @IsString()
+  @Matches(/^[A-Za-z0-9]{1,20}$/, {
+    message: "idNumber must be letters and digits only",
+  })
+  declare idNumber?: string;
+}
@@ -0,0 +1,16 @@
+import {
+  MerchantVerificationScope,
+  MerchantVerificationStatus,
+} from "@prisma/client";
+import { IsEnum, IsOptional } from "class-validator";
+
+export class MerchantVerificationFilterDto {
+  // Defaults to PENDING
+  @IsOptional()
+  @IsEnum(MerchantVerificationStatus)
+  declare status?: MerchantVerificationStatus;
+
+  @IsOptional()
+  @IsEnum(MerchantVerificationScope)
+  declare scope?: MerchantVerificationScope;
+}
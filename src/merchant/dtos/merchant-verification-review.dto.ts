@@ -0,0 +1,27 @@
+import { MerchantVerificationStatus } from "@prisma/client";
+import {
+  IsDefined,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from "class-validator";
+
+export class MerchantVerificationReviewDto {
+  @IsDefined()
+  @IsIn(
+    [MerchantVerificationStatus.APPROVED, MerchantVerificationStatus.REJECTED],
+    { message: "status must be APPROVED or REJECTED" }
+  )
+  declare status:
+    | typeof MerchantVerificationStatus.APPROVED
+    | typeof MerchantVerificationStatus.REJECTED;
+
+  // Required when rejecting
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  declare reason?: string;
+}
@@ -0,0 +1,8 @@
+import { OrderStatus } from "@prisma/client";
+import { IsDefined, IsEnum } from "class-validator";
+
+export class OrderStatusUpdateDto {
+  @IsDefined()
+  @IsEnum(OrderStatus)
+  declare status: OrderStatus;
+}
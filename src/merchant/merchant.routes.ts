@@ -12,6 +12,13 @@ import { IdDto } from "../dtos/id.dto";
 import { MerchantUpdateDto } from "./dtos/merchant-update.dto";
 import { MarketRepository } from "../repositories/market.repository";
 import { MarketerRepository } from "../repositories/marketer.repository";
+import MerchantOrderRouter from "./order/order.routes";
+import { MerchantAdAnalyticsRouter } from "../ad/analytics/analytics.routes";
+import MerchantVerificationRouter, {
+  merchantVerificationController,
+} from "./verification/merchant-verification.routes";
+import { MerchantVerificationCreateDto } from "./dtos/merchant-verification-create.dto";
+import { MulterMiddleware } from "../utils/middlewares/file-parser.middleware";
 
 const router = Router();
 const addressRepository = new AddressRepository();
@@ -31,18 +38,47 @@ const merchantService = new MerchantService(
 );
 const merchantController = new MerchantController(merchantService);
 const validator = new Validator();
+const fileParser = new MulterMiddleware(logger);
 const merchantAuthGaurd = new MerchantAuthGaurd(
   merchantRepository,
   logger,
   jwtService
 );
 
+// Merchant Order Fulfilment
+router.use("/orders", MerchantOrderRouter);
+
+// Merchant Ad Analytics
+router.use(MerchantAdAnalyticsRouter);
+
+// Merchant Verification Review Queue
+router.use("/verifications", MerchantVerificationRouter);
+
 router.get(
   "/:merchantId",
   validator.single(IdDto, "params"),
   merchantController.getMerchantById
 );
 
+router.get(
+  "/:merchantId/verifications",
+  validator.single(IdDto, "params"),
+  merchantAuthGaurd.authorise({ id: true }),
+  merchantVerificationController.getMerchantVerifications
+);
+
+// Upload an identity or business document for review
+router.post(
+  "/:merchantId/verifications",
+  fileParser.single("document"),
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: MerchantVerificationCreateDto, source: "body" },
+  ]),
+  merchantAuthGaurd.authorise({ strict: true, id: true }),
+  merchantVerificationController.uploadDocument
+);
+
 router.get(
   "/market/:marketId",
   validator.single(IdDto, "params"),
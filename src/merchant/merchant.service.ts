@@ -12,6 +12,7 @@ import { MarketRepository } from "../repositories/market.repository";
 import { UnauthorizedException } from "../utils/exceptions/unauthorized.exception";
 import { MarketerRepository } from "../repositories/marketer.repository";
 import { BadRequestException } from "../utils/exceptions/bad-request.exception";
+import { eventEmmiter } from "../utils/events";
 
 export class MerchantService {
   constructor(
@@ -180,6 +181,15 @@ export class MerchantService {
         undefined
       );
 
+      // Merchants verified before being connected still earn the marketer a signup bonus
+      if (merchant.emailVerifiedAt) {
+        eventEmmiter.emit("merchantVerified", {
+          merchantId: merchant.id,
+          referredById: marketer.id,
+          createdAt: merchant.createdAt,
+        });
+      }
+
       return updatedMerchant;
     } catch (e) {
       this.logger.error(`${ErrorMessages.UPDATE_MERCHANT_FAILED}: ${e}`);
@@ -0,0 +1,93 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { OrderStatus } from "@prisma/client";
+import { MerchantOrderService } from "./order.service";
+import { ResponseDto } from "../../dtos/response.dto";
+import { ResponseStatus } from "../../dtos/interfaces/response.interface";
+import { SuccessMessages } from "../../constants/success-messages.enum";
+import { HttpStatus } from "../../constants/http-status.enum";
+
+export class MerchantOrderController {
+  constructor(private readonly merchantOrderService: MerchantOrderService) {}
+
+  /**
+   * Get Incoming Orders for Merchant
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getOrders: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.merchantOrderService.getOrders(
+        request.body.merchant.id,
+        request.query.status as OrderStatus | undefined
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_ORDERS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get Order by Id
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getOrder: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.merchantOrderService.getOrder(
+        request.body.merchant.id,
+        request.params.orderId
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_ORDER_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Update Order Status
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  updateOrderStatus: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.merchantOrderService.updateOrderStatus(
+        request.body.merchant,
+        request.params.orderId,
+        request.body.status
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.UPDATE_ORDER_STATUS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+}
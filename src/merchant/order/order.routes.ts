@@ -0,0 +1,57 @@
+import { Router } from "express";
+import { MerchantOrderService } from "./order.service";
+import { MerchantOrderController } from "./order.controller";
+import { OrderRepository } from "../../repositories/order.repository";
+import { MerchantRepository } from "../../repositories/merchant.repository";
+import { WinstonLogger } from "../../utils/logger/winston.logger";
+import { JWTService } from "../../utils/jwt/jwt.service";
+import { Validator } from "../../utils/middlewares/validator.middleware";
+import { MerchantAuthGaurd } from "../../utils/middlewares/guards/merchant.auth.guard";
+import { IdDto } from "../../dtos/id.dto";
+import { OrderFilterDto } from "../dtos/order-filter.dto";
+import { OrderStatusUpdateDto } from "../dtos/order-status-update.dto";
+
+const router = Router();
+const logger = new WinstonLogger("MerchantOrderService");
+const jwtService = new JWTService();
+const orderRepository = new OrderRepository();
+const merchantRepository = new MerchantRepository();
+const merchantOrderService = new MerchantOrderService(orderRepository, logger);
+const merchantOrderController = new MerchantOrderController(
+  merchantOrderService
+);
+const validator = new Validator();
+const merchantAuthGaurd = new MerchantAuthGaurd(
+  merchantRepository,
+  logger,
+  jwtService
+);
+
+// Get Incoming Orders (optionally filtered by status)
+router.get(
+  "/",
+  validator.single(OrderFilterDto, "query"),
+  merchantAuthGaurd.authorise(),
+  merchantOrderController.getOrders
+);
+
+// Get Order by Id
+router.get(
+  "/:orderId",
+  validator.single(IdDto, "params"),
+  merchantAuthGaurd.authorise(),
+  merchantOrderController.getOrder
+);
+
+// Move Order to the next Status
+router.put(
+  "/:orderId/status",
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: OrderStatusUpdateDto, source: "body" },
+  ]),
+  merchantAuthGaurd.authorise(),
+  merchantOrderController.updateOrderStatus
+);
+
+export default router;
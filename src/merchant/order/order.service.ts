@@ -0,0 +1,133 @@
+import { Merchant, OrderStatus } from "@prisma/client";
+import { ErrorMessages } from "../../constants/error-messages.enum";
+import { EmailPaths, EmailSubjects } from "../../constants/email.enum";
+import { OrderStatusTransitions } from "../../constants/order-constants.enum";
+import {
+  MerchantOrder,
+  OrderRepository,
+} from "../../repositories/order.repository";
+import { EmailService } from "../../utils/email/email.service";
+import { BadRequestException } from "../../utils/exceptions/bad-request.exception";
+import { BaseException } from "../../utils/exceptions/base.exception";
+import { InternalServerException } from "../../utils/exceptions/internal-server.exception";
+import { NotFoundException } from "../../utils/exceptions/not-found.exception";
+import { UnauthorizedException } from "../../utils/exceptions/unauthorized.exception";
+import { ILogger } from "../../utils/logger/logger.interface";
+
+export class MerchantOrderService {
+  private emailService: EmailService;
+
+  constructor(
+    private readonly orderRepository: OrderRepository,
+    private readonly logger: ILogger
+  ) {
+    this.emailService = new EmailService();
+  }
+
+  async getOrders(merchantId: string, status?: OrderStatus) {
+    try {
+      const orders = await this.orderRepository.getMerchantOrders(
+        merchantId,
+        status
+      );
+      return orders;
+    } catch (error) {
+      this.logger.error(`${ErrorMessages.ORDER_GET_FAILED}: ${error}`);
+      throw new InternalServerException(ErrorMessages.ORDER_GET_FAILED);
+    }
+  }
+
+  async getOrder(merchantId: string, orderId: string) {
+    try {
+      return await this.getOwnedOrder(merchantId, orderId);
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(`${ErrorMessages.ORDER_GET_FAILED}: ${error}`);
+      throw new InternalServerException(ErrorMessages.ORDER_GET_FAILED);
+    }
+  }
+
+  async updateOrderStatus(
+    merchant: Merchant,
+    orderId: string,
+    status: OrderStatus
+  ) {
+    try {
+      const order = await this.getOwnedOrder(merchant.id, orderId);
+
+      // Only allow the next step in the fulfilment workflow
+      if (!OrderStatusTransitions[order.status].includes(status)) {
+        throw new BadRequestException(
+          `${ErrorMessages.INVALID_ORDER_STATUS_TRANSITION}: ${order.status} -> ${status}`
+        );
+      }
+
+      const updatedOrder = await this.orderRepository.updateStatus(
+        orderId,
+        order.status,
+        status,
+        status === OrderStatus.CANCELLED
+      );
+      this.logger.info(
+        `Order ${orderId} moved from ${order.status} to ${status} by merchant ${merchant.id}`
+      );
+
+      await this.sendStatusUpdateEmail(updatedOrder, merchant.brandName);
+      return updatedOrder;
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(`${ErrorMessages.ORDER_UPDATE_FAILED}: ${error}`);
+      throw new InternalServerException(ErrorMessages.ORDER_UPDATE_FAILED);
+    }
+  }
+
+  private async getOwnedOrder(
+    merchantId: string,
+    orderId: string
+  ): Promise<MerchantOrder> {
+    const order = await this.orderRepository.getOrderById(orderId);
+    if (!order) {
+      throw new NotFoundException(ErrorMessages.ORDER_NOT_FOUND);
+    }
+    if (order.merchantId !== merchantId) {
+      throw new UnauthorizedException(ErrorMessages.NOT_YOUR_ORDER);
+    }
+    return order;
+  }
+
+  private async sendStatusUpdateEmail(
+    order: MerchantOrder,
+    brandName: string
+  ): Promise<void> {
+    try {
+      await this.emailService.sendMail({
+        to: order.customer.email,
+        subject: EmailSubjects.ORDER_STATUS_UPDATE,
+        options: {
+          template: EmailPaths.ORDER_STATUS_UPDATE,
+          data: {
+            firstName: order.customer.firstName,
+            orderId: order.id,
+            brandName,
+            status: order.status,
+            totalAmount: order.totalAmount,
+            items: order.products.map((item) => ({
+              name: item.product.name,
+              quantity: item.quantity,
+              totalPrice: item.totalPrice,
+            })),
+          },
+        },
+      });
+      this.logger.info(
+        `Order status email sent to customer: ${order.customer.email}`
+      );
+    } catch (error) {
+      // Just log the error, don't fail the whole operation
+      this.logger.error(
+        `Failed to send order status email to ${order.customer.email}`,
+        error
+      );
+    }
+  }
+}
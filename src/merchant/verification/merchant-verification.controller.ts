@@ -0,0 +1,121 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { MerchantVerificationService } from "./merchant-verification.service";
+import { ResponseDto } from "../../dtos/response.dto";
+import { ResponseStatus } from "../../dtos/interfaces/response.interface";
+import { SuccessMessages } from "../../constants/success-messages.enum";
+import { HttpStatus } from "../../constants/http-status.enum";
+
+export class MerchantVerificationController {
+  constructor(
+    private readonly merchantVerificationService: MerchantVerificationService
+  ) {}
+
+  /**
+   * Upload a Verification Document for Review
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  uploadDocument: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.merchantVerificationService.uploadDocument(
+        request.body.merchant,
+        request.body,
+        request.file?.path
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.UPLOAD_MERCHANT_VERIFICATION_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.CREATED).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get a Merchant's Verification Documents
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getMerchantVerifications: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result =
+        await this.merchantVerificationService.getMerchantVerifications(
+          request.params.merchantId
+        );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_MERCHANT_VERIFICATIONS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Get Verification Documents Awaiting Review (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getQueue: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.merchantVerificationService.getQueue(
+        request.query
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_MERCHANT_VERIFICATIONS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Approve or Reject a Verification Document (Admin)
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  reviewVerification: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.merchantVerificationService.reviewVerification(
+        request.params.verificationId,
+        request.body,
+        request.body.customer
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.REVIEW_MERCHANT_VERIFICATION_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+}
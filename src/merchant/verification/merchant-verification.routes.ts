@@ -0,0 +1,51 @@
+import { Router } from "express";
+import { Role } from "@prisma/client";
+import { MerchantVerificationService } from "./merchant-verification.service";
+import { MerchantVerificationController } from "./merchant-verification.controller";
+import { MerchantVerificationRepository } from "../../repositories/merchant-verification.repository";
+import { CustomerRepository } from "../../repositories/customer.repository";
+import { WinstonLogger } from "../../utils/logger/winston.logger";
+import { JWTService } from "../../utils/jwt/jwt.service";
+import { Validator } from "../../utils/middlewares/validator.middleware";
+import { CustomerAuthGaurd } from "../../utils/middlewares/guards/customer.auth.guard";
+import { identityGateway } from "../../utils/identity";
+import { IdDto } from "../../dtos/id.dto";
+import { MerchantVerificationFilterDto } from "../dtos/merchant-verification-filter.dto";
+import { MerchantVerificationReviewDto } from "../dtos/merchant-verification-review.dto";
+
+const router = Router();
+const logger = new WinstonLogger("MerchantVerificationService");
+const merchantVerificationService = new MerchantVerificationService(
+  new MerchantVerificationRepository(),
+  identityGateway,
+  logger
+);
+export const merchantVerificationController =
+  new MerchantVerificationController(merchantVerificationService);
+const validator = new Validator();
+const customerAuthGaurd = new CustomerAuthGaurd(
+  new CustomerRepository(),
+  logger,
+  new JWTService()
+);
+
+// Get Verification Documents by Status, Pending by default (Admin)
+router.get(
+  "/",
+  validator.single(MerchantVerificationFilterDto, "query"),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  merchantVerificationController.getQueue
+);
+
+// Approve or Reject a Verification Document (Admin)
+router.put(
+  "/:verificationId",
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: MerchantVerificationReviewDto, source: "body" },
+  ]),
+  customerAuthGaurd.authorise({ strict: true, role: Role.ADMIN }),
+  merchantVerificationController.reviewVerification
+);
+
+export default router;
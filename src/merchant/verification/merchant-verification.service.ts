@@ -0,0 +1,223 @@
+import {
+  Customer,
+  Merchant,
+  MerchantVerification,
+  MerchantVerificationScope,
+  MerchantVerificationStatus,
+  MerchantVerificationType,
+} from "@prisma/client";
+import { ErrorMessages } from "../../constants/error-messages.enum";
+import { MerchantVerificationRepository } from "../../repositories/merchant-verification.repository";
+import { BadRequestException } from "../../utils/exceptions/bad-request.exception";
+import { BaseException } from "../../utils/exceptions/base.exception";
+import { InternalServerException } from "../../utils/exceptions/internal-server.exception";
+import { NotFoundException } from "../../utils/exceptions/not-found.exception";
+import { ILogger } from "../../utils/logger/logger.interface";
+import { configService } from "../../utils/config/config.service";
+import { IdentityGatewayService } from "../../utils/identity/identity-gateway.service";
+import { MerchantVerificationCreateDto } from "../dtos/merchant-verification-create.dto";
+import { MerchantVerificationFilterDto } from "../dtos/merchant-verification-filter.dto";
+import { MerchantVerificationReviewDto } from "../dtos/merchant-verification-review.dto";
+
+// What each kind of document proves
+const SCOPE_TYPES: Record<MerchantVerificationScope, MerchantVerificationType> =
+  {
+    NIN: MerchantVerificationType.IDENTITY_VERIFICATION,
+    PASSPORT: MerchantVerificationType.IDENTITY_VERIFICATION,
+    DRIVERS_LICENSE: MerchantVerificationType.IDENTITY_VERIFICATION,
+    CAC: MerchantVerificationType.BUSINESS_REGISTRATION,
+    UTILITY_BILL: MerchantVerificationType.BUSINESS_REGISTRATION,
+  };
+
+/**
+ * Merchants upload identity and business documents that admins approve or reject.
+ * A merchant with an approved document of each type is a verified merchant.
+ * NIN and CAC numbers are checked against the configured registry, and a close enough
+ * match approves the document without an admin.
+ */
+export class MerchantVerificationService {
+  constructor(
+    private readonly merchantVerificationRepository: MerchantVerificationRepository,
+    private readonly identityGateway: IdentityGatewayService,
+    private readonly logger: ILogger
+  ) {}
+
+  // Lowest registry match score, out of 100, that approves a document
+  private get autoApproveScore(): number {
+    return Number(
+      configService.get<string>("IDENTITY_AUTO_APPROVE_SCORE", "90")
+    );
+  }
+
+  async uploadDocument(
+    merchant: Merchant,
+    data: MerchantVerificationCreateDto,
+    document?: string
+  ) {
+    const { scope } = data;
+    try {
+      if (!document) {
+        throw new BadRequestException(
+          ErrorMessages.MERCHANT_VERIFICATION_DOCUMENT_REQUIRED
+        );
+      }
+      const active = await this.merchantVerificationRepository.getActive(
+        merchant.id,
+        scope
+      );
+      if (active) {
+        throw new BadRequestException(
+          ErrorMessages.MERCHANT_VERIFICATION_EXISTS
+        );
+      }
+
+      const verification = await this.merchantVerificationRepository.create({
+        merchantId: merchant.id,
+        type: SCOPE_TYPES[scope],
+        scope,
+        document,
+        idNumber: data.idNumber,
+      });
+      this.logger.info(
+        `Merchant ${merchant.id} uploaded a ${scope} document for review`
+      );
+
+      if (!data.idNumber) return verification;
+      return await this.checkIdentity(verification, merchant);
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(
+        ErrorMessages.UPLOAD_MERCHANT_VERIFICATION_FAILED,
+        error
+      );
+      throw new InternalServerException(
+        ErrorMessages.UPLOAD_MERCHANT_VERIFICATION_FAILED
+      );
+    }
+  }
+
+  async getMerchantVerifications(merchantId: string) {
+    try {
+      return await this.merchantVerificationRepository.getMerchantVerifications(
+        merchantId
+      );
+    } catch (error) {
+      this.logger.error(ErrorMessages.GET_MERCHANT_VERIFICATIONS_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.GET_MERCHANT_VERIFICATIONS_FAILED
+      );
+    }
+  }
+
+  /**
+   * Documents by status, pending by default, oldest first (Admin)
+   */
+  async getQueue(filters: MerchantVerificationFilterDto) {
+    try {
+      return await this.merchantVerificationRepository.getQueue({
+        status: filters.status ?? MerchantVerificationStatus.PENDING,
+        scope: filters.scope,
+      });
+    } catch (error) {
+      this.logger.error(ErrorMessages.GET_MERCHANT_VERIFICATIONS_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.GET_MERCHANT_VERIFICATIONS_FAILED
+      );
+    }
+  }
+
+  /**
+   * Checks the document's number with the registry against the merchant's registered
+   * name and stores the result. Documents the registry cannot check, or that do not
+   * match closely enough, wait for an admin.
+   */
+  private async checkIdentity(
+    verification: MerchantVerification,
+    merchant: Merchant
+  ) {
+    const verifier = this.identityGateway.getVerifier(verification.scope);
+    if (!verifier) return verification;
+    try {
+      const result = await verifier.verify({
+        scope: verification.scope,
+        idNumber: verification.idNumber!,
+        name: merchant.brandName,
+      });
+      const checked = await this.merchantVerificationRepository.recordCheck(
+        verification.id,
+        {
+          verifier: verifier.name,
+          verifierResponse: result.raw,
+          matchScore: result.matchScore,
+          checkedAt: new Date(),
+        }
+      );
+      if (!result.found || result.matchScore < this.autoApproveScore) {
+        return checked;
+      }
+
+      const approved = await this.merchantVerificationRepository.review(
+        verification.id,
+        {
+          status: MerchantVerificationStatus.APPROVED,
+          reason: `Matched by ${verifier.name} registry with score ${result.matchScore}`,
+        }
+      );
+      this.logger.info(
+        `Verification ${verification.id} approved by ${verifier.name} registry match`
+      );
+      return approved;
+    } catch (error) {
+      // The document is already saved, an admin reviews it instead
+      this.logger.error(ErrorMessages.IDENTITY_CHECK_FAILED, error);
+      return verification;
+    }
+  }
+
+  /**
+   * Approves or rejects a pending document (Admin)
+   */
+  async reviewVerification(
+    verificationId: string,
+    data: MerchantVerificationReviewDto,
+    admin: Customer
+  ) {
+    try {
+      const verification =
+        await this.merchantVerificationRepository.getById(verificationId);
+      if (!verification) {
+        throw new NotFoundException(
+          ErrorMessages.MERCHANT_VERIFICATION_NOT_FOUND
+        );
+      }
+      if (verification.status !== MerchantVerificationStatus.PENDING) {
+        throw new BadRequestException(
+          ErrorMessages.MERCHANT_VERIFICATION_ALREADY_REVIEWED
+        );
+      }
+      if (data.status === MerchantVerificationStatus.REJECTED && !data.reason) {
+        throw new BadRequestException(
+          ErrorMessages.MERCHANT_VERIFICATION_REASON_REQUIRED
+        );
+      }
+
+      const reviewed = await this.merchantVerificationRepository.review(
+        verificationId,
+        { status: data.status, reason: data.reason, reviewedById: admin.id }
+      );
+      this.logger.info(
+        `Admin ${admin.id} marked verification ${verificationId} as ${data.status}`
+      );
+      return reviewed;
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(
+        ErrorMessages.REVIEW_MERCHANT_VERIFICATION_FAILED,
+        error
+      );
+      throw new InternalServerException(
+        ErrorMessages.REVIEW_MERCHANT_VERIFICATION_FAILED
+      );
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import {
+  IsBoolean,
+  IsDefined,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Min,
+} from "class-validator";
+import { FakePaymentOutcomes } from "../../constants/payment.enum";
+
+export class FakePaymentScriptDto {
+  @IsDefined()
+  @IsEnum(FakePaymentOutcomes)
+  declare outcome: FakePaymentOutcomes;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  declare delayMs?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  declare amount?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  declare webhook?: boolean;
+}
@@ -0,0 +1,10 @@
+export interface PaystackWebhookEvent {
+  event: string;
+  data: {
+    reference: string;
+    status: string;
+    amount: number;
+    currency?: string;
+    [key: string]: any;
+  };
+}
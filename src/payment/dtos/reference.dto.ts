@@ -0,0 +1,7 @@
+import { IsDefined, IsString } from "class-validator";
+
+export class ReferenceDto {
+  @IsDefined()
+  @IsString()
+  declare reference: string;
+}
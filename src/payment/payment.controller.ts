@@ -0,0 +1,88 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { PaymentService } from "./payment.service";
+import { HttpStatus } from "../constants/http-status.enum";
+import { PAYSTACK_SIGNATURE_HEADER } from "../constants/payment.enum";
+import { RawBodyRequest } from "../interfaces/raw-body-request.interface";
+import { ResponseDto } from "../dtos/response.dto";
+import { ResponseStatus } from "../dtos/interfaces/response.interface";
+import { SuccessMessages } from "../constants/success-messages.enum";
+
+export class PaymentController {
+  constructor(private readonly paymentService: PaymentService) {}
+
+  /**
+   * Handle Paystack Webhook
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  paystackWebhook: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      this.paymentService.verifyPaystackSignature(
+        (request as RawBodyRequest).rawBody,
+        request.get(PAYSTACK_SIGNATURE_HEADER)
+      );
+      await this.paymentService.handlePaystackEvent(request.body);
+      return response.sendStatus(HttpStatus.OK);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Script Fake Payment Outcome
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  scriptFakePayment: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = this.paymentService.scriptFakePayment(
+        request.params.reference,
+        request.body
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.FAKE_PAYMENT_SCRIPTED,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Fire Fake Payment Webhook
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  fireFakeWebhook: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.paymentService.fireFakeWebhook(
+        request.params.reference
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.FAKE_WEBHOOK_FIRED,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+}
@@ -0,0 +1,56 @@
+import { Router } from "express";
+import { PaymentService } from "./payment.service";
+import { PaymentController } from "./payment.controller";
+import { TransactionRepository } from "../repositories/transaction.repository";
+import { WinstonLogger } from "../utils/logger/winston.logger";
+import { Validator } from "../utils/middlewares/validator.middleware";
+import { adService } from "../ad/ad.routes";
+import { payoutTransferService } from "../marketer/payout/payout.routes";
+import { paymentGateway } from "../utils/payment";
+import { ReferenceDto } from "./dtos/reference.dto";
+import { FakePaymentScriptDto } from "./dtos/fake-payment-script.dto";
+import { ReconciliationService } from "./reconciliation.service";
+import { ReconciliationReportRepository } from "../repositories/reconciliation-report.repository";
+
+const router = Router();
+const transactionRepository = new TransactionRepository();
+const logger = new WinstonLogger("PaymentService");
+const paymentService = new PaymentService(
+  adService,
+  payoutTransferService,
+  transactionRepository,
+  paymentGateway,
+  logger
+);
+const paymentController = new PaymentController(paymentService);
+const reconciliationReportRepository = new ReconciliationReportRepository();
+export const reconciliationService = new ReconciliationService(
+  adService,
+  transactionRepository,
+  reconciliationReportRepository,
+  paymentGateway,
+  new WinstonLogger("ReconciliationService")
+);
+const validator = new Validator();
+
+// Paystack Webhook
+router.post("/paystack/webhook", paymentController.paystackWebhook);
+
+// Fake provider controls, only mounted when the fake provider is enabled
+if (paymentGateway.fakeProvider) {
+  router.post(
+    "/fake/:reference",
+    validator.multiple([
+      { schema: ReferenceDto, source: "params" },
+      { schema: FakePaymentScriptDto, source: "body" },
+    ]),
+    paymentController.scriptFakePayment
+  );
+  router.post(
+    "/fake/:reference/webhook",
+    validator.single(ReferenceDto, "params"),
+    paymentController.fireFakeWebhook
+  );
+}
+
+export default router;
@@ -0,0 +1,193 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { PaymentProvider, PaymentStatus } from "@prisma/client";
+import { ErrorMessages } from "../constants/error-messages.enum";
+import { PaystackEvents } from "../constants/payment.enum";
+import { AdService } from "../ad/ad.service";
+import { PayoutTransferService } from "../marketer/payout/payout-transfer.service";
+import { TransactionRepository } from "../repositories/transaction.repository";
+import { configService } from "../utils/config/config.service";
+import { BadRequestException } from "../utils/exceptions/bad-request.exception";
+import { BaseException } from "../utils/exceptions/base.exception";
+import { InternalServerException } from "../utils/exceptions/internal-server.exception";
+import { UnauthorizedException } from "../utils/exceptions/unauthorized.exception";
+import { ILogger } from "../utils/logger/logger.interface";
+import { PaymentGatewayService } from "../utils/payment/payment-gateway.service";
+import { toReusableAuthorization } from "../utils/payment/providers/paystack.provider";
+import { PaystackWebhookEvent } from "./dtos/paystack-webhook.dto";
+import { FakePaymentScriptDto } from "./dtos/fake-payment-script.dto";
+
+export class PaymentService {
+  private readonly SECRET_KEY: string;
+
+  constructor(
+    private readonly adService: AdService,
+    private readonly payoutTransferService: PayoutTransferService,
+    private readonly transactionRepository: TransactionRepository,
+    private readonly paymentGateway: PaymentGatewayService,
+    private readonly logger: ILogger
+  ) {
+    this.SECRET_KEY = configService.get<string>("PAYSTACK_SECRET_KEY")!;
+    // Fake provider callbacks skip HTTP and signatures and go straight to the handler
+    this.paymentGateway.fakeProvider?.onWebhook((event) =>
+      this.handlePaystackEvent(event, PaymentProvider.FAKE)
+    );
+  }
+
+  /**
+   * Scripts the outcome of a fake payment (local development only)
+   */
+  scriptFakePayment(reference: string, script: FakePaymentScriptDto) {
+    const fakeProvider = this.getFakeProvider();
+    return fakeProvider.script(reference, script.outcome, {
+      delayMs: script.delayMs,
+      amount: script.amount,
+      webhook: script.webhook,
+    });
+  }
+
+  /**
+   * Delivers the webhook for a fake payment's current status (local development only)
+   */
+  async fireFakeWebhook(reference: string) {
+    const fakeProvider = this.getFakeProvider();
+    const delivered = await fakeProvider.fireWebhook(reference);
+    return { reference, delivered };
+  }
+
+  private getFakeProvider() {
+    const fakeProvider = this.paymentGateway.fakeProvider;
+    if (!fakeProvider)
+      throw new BadRequestException(
+        ErrorMessages.PAYMENT_PROVIDER_NOT_SUPPORTED
+      );
+    return fakeProvider;
+  }
+
+  /**
+   * Checks the `x-paystack-signature` header, an HMAC SHA512 of the raw request body
+   * signed with our Paystack secret key.
+   */
+  verifyPaystackSignature(rawBody: Buffer | undefined, signature?: string) {
+    if (!rawBody || !signature) {
+      this.logger.error(ErrorMessages.INVALID_WEBHOOK_SIGNATURE);
+      throw new UnauthorizedException(ErrorMessages.INVALID_WEBHOOK_SIGNATURE);
+    }
+    const expected = createHmac("sha512", this.SECRET_KEY)
+      .update(rawBody)
+      .digest("hex");
+    const expectedBuffer = Buffer.from(expected);
+    const signatureBuffer = Buffer.from(signature);
+    if (
+      expectedBuffer.length !== signatureBuffer.length ||
+      !timingSafeEqual(expectedBuffer, signatureBuffer)
+    ) {
+      this.logger.error(ErrorMessages.INVALID_WEBHOOK_SIGNATURE);
+      throw new UnauthorizedException(ErrorMessages.INVALID_WEBHOOK_SIGNATURE);
+    }
+  }
+
+  /**
+   * Handles a Paystack-shaped webhook event. The fake provider delivers its
+   * callbacks through here too, with `provider` set to FAKE.
+   */
+  async handlePaystackEvent(
+    payload: PaystackWebhookEvent,
+    provider: PaymentProvider = PaymentProvider.PAYSTACK
+  ): Promise<void> {
+    try {
+      const { event, data } = payload;
+      switch (event) {
+        case PaystackEvents.CHARGE_SUCCESS:
+          await this.handleChargeSuccess(data, provider);
+          break;
+        case PaystackEvents.CHARGE_FAILED:
+          await this.handleChargeFailed(data, provider);
+          break;
+        case PaystackEvents.TRANSFER_SUCCESS:
+        case PaystackEvents.TRANSFER_FAILED:
+        case PaystackEvents.TRANSFER_REVERSED:
+          await this.payoutTransferService.handleTransferEvent(
+            payload,
+            provider
+          );
+          break;
+        default:
+          this.logger.info(`Ignoring unhandled Paystack event: ${event}`);
+      }
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.WEBHOOK_PROCESSING_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.WEBHOOK_PROCESSING_FAILED
+      );
+    }
+  }
+
+  private async handleChargeSuccess(
+    data: PaystackWebhookEvent["data"],
+    provider: PaymentProvider
+  ) {
+    const transaction = await this.getTransactionForReference(
+      data.reference,
+      provider
+    );
+    if (!transaction) return;
+
+    // Paystack amounts are in kobo
+    if (data.amount < Math.round(transaction.amount * 100)) {
+      this.logger.error(
+        `${provider} charge for ${data.reference} paid ${data.amount} kobo, expected ${transaction.amount * 100}`
+      );
+      await this.adService.failAdPayment(transaction, PaymentStatus.INCOMPLETE);
+      return;
+    }
+
+    await this.adService.saveAuthorization(
+      transaction,
+      toReusableAuthorization(data.authorization)
+    );
+    await this.adService.completeAdPayment(transaction);
+    this.logger.info(
+      `${provider} webhook completed transaction ${transaction.id}`
+    );
+  }
+
+  private async handleChargeFailed(
+    data: PaystackWebhookEvent["data"],
+    provider: PaymentProvider
+  ) {
+    const transaction = await this.getTransactionForReference(
+      data.reference,
+      provider
+    );
+    if (!transaction) return;
+
+    await this.adService.failAdPayment(transaction);
+    this.logger.info(
+      `${provider} webhook failed transaction ${transaction.id}`
+    );
+  }
+
+  private async getTransactionForReference(
+    reference: string,
+    provider: PaymentProvider
+  ) {
+    const transactionId = reference.replace("txn-", "");
+    const transaction =
+      await this.transactionRepository.getTransaction(transactionId);
+    if (!transaction) {
+      // Acknowledge unknown references so Paystack stops retrying them
+      this.logger.warn(
+        `${ErrorMessages.TRANSACTION_NOT_FOUND} for ${provider} reference: ${reference}`
+      );
+      return null;
+    }
+    if (transaction.provider !== provider) {
+      this.logger.warn(
+        `Ignoring ${provider} event for ${transaction.provider} transaction ${transaction.id}`
+      );
+      return null;
+    }
+    return transaction;
+  }
+}
@@ -0,0 +1,287 @@
+import {
+  PaymentStatus,
+  ReconciliationReport,
+  Transaction,
+} from "@prisma/client";
+import { AdService } from "../ad/ad.service";
+import { ErrorMessages } from "../constants/error-messages.enum";
+import { ReconciliationReportRepository } from "../repositories/reconciliation-report.repository";
+import { TransactionRepository } from "../repositories/transaction.repository";
+import { configService } from "../utils/config/config.service";
+import { BadRequestException } from "../utils/exceptions/bad-request.exception";
+import { BaseException } from "../utils/exceptions/base.exception";
+import { InternalServerException } from "../utils/exceptions/internal-server.exception";
+import { NotFoundException } from "../utils/exceptions/not-found.exception";
+import { ILogger } from "../utils/logger/logger.interface";
+import { PaymentGatewayService } from "../utils/payment/payment-gateway.service";
+
+// A type rather than an interface so entries can be stored as report JSON
+export type ReconciliationEntry = {
+  transactionId: string;
+  reference: string;
+  provider: string;
+  previousStatus: PaymentStatus;
+  status: PaymentStatus;
+  // Set on retries of successful payments whose ad was not activated
+  fulfilment?: boolean;
+  error?: string;
+};
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Re-verifies transactions stuck in INITIALIZED or PENDING with their payment
+ * provider, e.g. when the merchant closed the tab and the webhook never arrived.
+ */
+export class ReconciliationService {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly adService: AdService,
+    private readonly transactionRepository: TransactionRepository,
+    private readonly reconciliationReportRepository: ReconciliationReportRepository,
+    private readonly paymentGateway: PaymentGatewayService,
+    private readonly logger: ILogger
+  ) {}
+
+  private get intervalMs(): number {
+    return (
+      Number(
+        configService.get<string>("RECONCILIATION_INTERVAL_MINUTES", "15")
+      ) * MINUTE
+    );
+  }
+
+  // Transactions younger than this are left alone, the merchant may still be paying
+  private get minAgeMs(): number {
+    return (
+      Number(
+        configService.get<string>("RECONCILIATION_MIN_AGE_MINUTES", "30")
+      ) * MINUTE
+    );
+  }
+
+  // Transactions the provider has not settled are given up on after this long
+  private get abandonAfterMs(): number {
+    return (
+      Number(
+        configService.get<string>("RECONCILIATION_ABANDON_AFTER_HOURS", "24")
+      ) *
+      60 *
+      MINUTE
+    );
+  }
+
+  private get batchSize(): number {
+    return Number(
+      configService.get<string>("RECONCILIATION_BATCH_SIZE", "100")
+    );
+  }
+
+  /**
+   * Starts the periodic job. Disabled with `RECONCILIATION_ENABLED=false`.
+   */
+  start() {
+    if (this.timer) return;
+    if (configService.get<string>("RECONCILIATION_ENABLED") === "false") {
+      this.logger.info("Transaction reconciliation disabled");
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.reconcile().catch((error) =>
+        this.logger.error(ErrorMessages.RECONCILIATION_FAILED, error)
+      );
+    }, this.intervalMs);
+    this.timer.unref();
+    this.logger.info(
+      `Transaction reconciliation scheduled every ${this.intervalMs / MINUTE} minutes`
+    );
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Runs one reconciliation pass and stores its report.
+   * Resolves to null when a pass is already running.
+   */
+  async reconcile(): Promise<ReconciliationReport | null> {
+    if (this.running) {
+      this.logger.warn("Reconciliation already running, skipping this run");
+      return null;
+    }
+    this.running = true;
+    try {
+      const startedAt = new Date();
+      const transactions =
+        await this.transactionRepository.getStaleTransactions(
+          new Date(startedAt.getTime() - this.minAgeMs),
+          this.batchSize
+        );
+
+      const entries: ReconciliationEntry[] = [];
+      for (const transaction of transactions) {
+        entries.push(await this.reconcileTransaction(transaction, startedAt));
+      }
+
+      const unfulfilled =
+        await this.transactionRepository.getUnfulfilledPayments(
+          new Date(startedAt.getTime() - this.minAgeMs),
+          this.batchSize
+        );
+      for (const transaction of unfulfilled) {
+        entries.push(await this.fulfilTransaction(transaction));
+      }
+
+      const count = (status: PaymentStatus) =>
+        entries.filter(
+          (entry) =>
+            !entry.error && !entry.fulfilment && entry.status === status
+        ).length;
+      const report = await this.reconciliationReportRepository.create({
+        startedAt,
+        finishedAt: new Date(),
+        checked: transactions.length,
+        succeeded: count(PaymentStatus.SUCCESS),
+        failed: count(PaymentStatus.FAILED),
+        incomplete: count(PaymentStatus.INCOMPLETE),
+        pending:
+          count(PaymentStatus.PENDING) + count(PaymentStatus.INITIALIZED),
+        errored: entries.filter((entry) => entry.error).length,
+        entries,
+      });
+      this.logger.info(
+        `Reconciled ${report.checked} transactions: ${report.succeeded} succeeded, ${report.failed} failed, ${report.incomplete} incomplete, ${report.pending} pending, ${report.errored} errored, ${unfulfilled.length} fulfilment retries`
+      );
+      return report;
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.RECONCILIATION_FAILED, error);
+      throw new InternalServerException(ErrorMessages.RECONCILIATION_FAILED);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async reconcileTransaction(
+    transaction: Transaction,
+    now: Date
+  ): Promise<ReconciliationEntry> {
+    const reference = `txn-${transaction.id}`;
+    const entry: ReconciliationEntry = {
+      transactionId: transaction.id,
+      reference,
+      provider: transaction.provider,
+      previousStatus: transaction.status,
+      status: transaction.status,
+    };
+    try {
+      const verification = await this.paymentGateway
+        .getProvider(transaction.provider)
+        .verifyPayment(reference, transaction.amount);
+
+      let updated = verification
+        ? await this.adService.settleAdPayment(transaction, verification)
+        : transaction;
+      if (this.isExpired(updated, now)) {
+        // The provider never saw or never settled a payment for this reference
+        updated = await this.adService.failAdPayment(
+          updated,
+          PaymentStatus.INCOMPLETE
+        );
+      }
+      entry.status = updated.status;
+    } catch (error) {
+      this.logger.error(
+        `${ErrorMessages.RECONCILIATION_FAILED} for transaction ${transaction.id}`,
+        error
+      );
+      entry.error = error instanceof Error ? error.message : String(error);
+      // A transaction that cannot be verified is not retried forever
+      if (this.isExpired(transaction, now)) {
+        entry.status = await this.adService
+          .failAdPayment(transaction, PaymentStatus.INCOMPLETE)
+          .then((updated) => updated.status)
+          .catch(() => entry.status);
+      }
+    }
+    return entry;
+  }
+
+  // Still waiting on the provider after the abandon cutoff. A late webhook or
+  // verification can still complete an abandoned payment.
+  private isExpired(transaction: Transaction, now: Date): boolean {
+    return (
+      (transaction.status === PaymentStatus.INITIALIZED ||
+        transaction.status === PaymentStatus.PENDING) &&
+      now.getTime() - transaction.date.getTime() >= this.abandonAfterMs
+    );
+  }
+
+  // Finishes activating the ad for a payment whose completion failed part way
+  private async fulfilTransaction(
+    transaction: Transaction
+  ): Promise<ReconciliationEntry> {
+    const entry: ReconciliationEntry = {
+      transactionId: transaction.id,
+      reference: `txn-${transaction.id}`,
+      provider: transaction.provider,
+      previousStatus: transaction.status,
+      status: transaction.status,
+      fulfilment: true,
+    };
+    try {
+      await this.adService.fulfilAdPayment(transaction);
+    } catch (error) {
+      this.logger.error(
+        `${ErrorMessages.RECONCILIATION_FAILED} for transaction ${transaction.id}`,
+        error
+      );
+      entry.error = error instanceof Error ? error.message : String(error);
+    }
+    return entry;
+  }
+
+  /**
+   * Runs a pass on demand for admins.
+   */
+  async runNow(): Promise<ReconciliationReport> {
+    const report = await this.reconcile();
+    if (!report)
+      throw new BadRequestException(
+        ErrorMessages.RECONCILIATION_ALREADY_RUNNING
+      );
+    return report;
+  }
+
+  async getReports(limit: number = 20): Promise<ReconciliationReport[]> {
+    try {
+      return await this.reconciliationReportRepository.getReports(limit);
+    } catch (error) {
+      this.logger.error(ErrorMessages.GET_RECONCILIATION_REPORTS_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.GET_RECONCILIATION_REPORTS_FAILED
+      );
+    }
+  }
+
+  async getReport(id: string): Promise<ReconciliationReport> {
+    try {
+      const report = await this.reconciliationReportRepository.getReport(id);
+      if (!report)
+        throw new NotFoundException(
+          ErrorMessages.RECONCILIATION_REPORT_NOT_FOUND
+        );
+      return report;
+    } catch (error) {
+      if (error instanceof BaseException) throw error;
+      this.logger.error(ErrorMessages.GET_RECONCILIATION_REPORTS_FAILED, error);
+      throw new InternalServerException(
+        ErrorMessages.GET_RECONCILIATION_REPORTS_FAILED
+      );
+    }
+  }
+}
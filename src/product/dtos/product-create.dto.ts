@@ -1,11 +1,21 @@
 import { $Enums, Prisma } from "@prisma/client";
-import { IsDefined, IsIn, IsOptional, IsString } from "class-validator";
+import { plainToInstance, Transform, Type } from "class-transformer";
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDefined,
+  IsIn,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from "class-validator";
 import { IsNumberOrNumberString } from "../../constants/decorators/numberOrNumberString.decorator";
+import { ProductVariantDto } from "./product-variant.dto";
 
 interface IProductCreateDto
   extends Omit<
     Prisma.ProductCreateInput,
-    "displayImages" | "displayImage" | "merchant"
+    "displayImages" | "displayImage" | "merchant" | "variants"
   > {}
 
 export class ProductCreateDto implements IProductCreateDto {
@@ -38,6 +48,22 @@ export class ProductCreateDto implements IProductCreateDto {
   @IsIn(Object.values($Enums.ProductCategory))
   declare category: $Enums.ProductCategory;
 
+  // Sent as a JSON string with the images, the product's stock becomes their total
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => ProductVariantDto)
+  @Transform(({ value }) => {
+    if (typeof value !== "string") return value;
+    try {
+      return plainToInstance(ProductVariantDto, JSON.parse(value) as unknown[]);
+    } catch {
+      return value;
+    }
+  })
+  declare variants?: ProductVariantDto[];
+
   @IsOptional()
   productImages?: Express.Multer.File[];
 }
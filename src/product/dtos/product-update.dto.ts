@@ -1,8 +1,10 @@
 import { $Enums, Prisma } from "@prisma/client";
-import { IsArray, IsIn, IsNumber, IsString } from "class-validator";
+import { Type } from "class-transformer";
+import { ArrayMaxSize, IsArray, IsIn, IsNumber, IsString, ValidateNested } from "class-validator";
+import { ProductVariantDto } from "./product-variant.dto";
 
 
-export class ProductUpdateDto implements Prisma.ProductUpdateInput {
+export class ProductUpdateDto implements Omit<Prisma.ProductUpdateInput, "variants"> {
     @IsString()
     name?: string;
 
@@ -25,4 +27,11 @@ export class ProductUpdateDto implements Prisma.ProductUpdateInput {
     @IsString({ each: true })
     @IsIn(Object.values($Enums.ProductCategory), { each: true })
     category?: Prisma.EnumProductCategoryFieldUpdateOperationsInput | $Enums.ProductCategory | undefined;
+
+    // New variants to add, existing ones are changed through their own routes
+    @IsArray()
+    @ArrayMaxSize(50)
+    @ValidateNested({ each: true })
+    @Type(() => ProductVariantDto)
+    variants?: ProductVariantDto[];
 }
\ No newline at end of file
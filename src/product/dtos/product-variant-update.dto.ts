@@ -0,0 +1,27 @@
+import { IsInt, IsNumber, IsOptional, IsString, Min } from "class-validator";
+import { IsStringRecord } from "../../constants/decorators/stringRecord.decorator";
+
+export class ProductVariantUpdateDto {
+  @IsOptional()
+  @IsStringRecord()
+  declare attributes?: Record<string, string>;
+
+  @IsOptional()
+  @IsString()
+  declare sku?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  declare price?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  declare prevPrice?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  declare stock?: number;
+}
@@ -0,0 +1,36 @@
+import {
+  IsDefined,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from "class-validator";
+import { IsStringRecord } from "../../constants/decorators/stringRecord.decorator";
+
+export class ProductVariantDto {
+  // Option values that tell the variant apart, e.g. { "size": "M", "colour": "Red" }
+  @IsDefined()
+  @IsStringRecord()
+  declare attributes: Record<string, string>;
+
+  @IsOptional()
+  @IsString()
+  declare sku?: string;
+
+  // Left out to sell the variant at the product's price
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  declare price?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  declare prevPrice?: number;
+
+  @IsDefined()
+  @IsInt()
+  @Min(0)
+  declare stock: number;
+}
@@ -318,4 +318,145 @@ export class ProductController {
       next(e);
     }
   };
+
+  /**
+   * Get Product Variants
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  getProductVariants: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.productService.getProductVariants(
+        request.params.productId
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.GET_PRODUCT_VARIANTS_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Update Product Variant
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  updateProductVariant: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { merchant, ...variantData } = request.body;
+      const result = await this.productService.updateProductVariant(
+        request.params.productId,
+        request.params.variantId,
+        variantData,
+        merchant.id
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.UPDATE_PRODUCT_VARIANT_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Delete Product Variant
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  deleteProductVariant: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      await this.productService.deleteProductVariant(
+        request.params.productId,
+        request.params.variantId,
+        request.body.merchant.id
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.DELETE_PRODUCT_VARIANT_SUCCESS
+      );
+      return response.status(HttpStatus.NO_CONTENT).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Add Product Variant Images
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  addProductVariantImages: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.productService.addProductVariantImages(
+        request.params.productId,
+        request.params.variantId,
+        request.files as Express.Multer.File[],
+        request.body.merchant.id
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.ADD_PRODUCT_VARIANT_IMAGES_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  /**
+   * Remove Product Variant Image
+   * @param request {Request}
+   * @param response {Response}
+   * @param next {NextFunction}
+   */
+  removeProductVariantImage: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.productService.removeProductVariantImage(
+        request.params.productId,
+        request.params.variantId,
+        request.params.imageId,
+        request.body.merchant.id
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.REMOVE_PRODUCT_VARIANT_IMAGE_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
 }
@@ -16,10 +16,16 @@ import { httpCacheDuration } from "../utils/middlewares/httpCache.middleware";
 import { CustomerAuthGaurd } from "../utils/middlewares/guards/customer.auth.guard";
 import { CustomerRepository } from "../repositories/customer.repository";
 import { LoggerPath } from "../constants/logger-paths.enum";
+import { ProductVariantRepository } from "../repositories/product-variant.repository";
+import { ProductVariantUpdateDto } from "./dtos/product-variant-update.dto";
 
 const logger = new WinstonLogger("ProductService");
 const productRepository = new ProductRepository();
-const productService = new ProductService(productRepository, logger);
+const productService = new ProductService(
+  productRepository,
+  new ProductVariantRepository(),
+  logger
+);
 const productController = new ProductController(productService);
 const jwtService = new JWTService();
 const merchantRepository = new MerchantRepository();
@@ -110,6 +116,49 @@ router.put(
   productController.makeDisplayImage
 );
 
+// Get Product Variants
+router.get(
+  "/:productId/variants",
+  validator.single(IdDto, "params"),
+  productController.getProductVariants
+);
+
+// Update Product Variant
+router.put(
+  "/:productId/variants/:variantId",
+  validator.multiple([
+    { schema: IdDto, source: "params" },
+    { schema: ProductVariantUpdateDto, source: "body" },
+  ]),
+  merchantAuthGaurd.authorise(),
+  productController.updateProductVariant
+);
+
+// Delete Product Variant
+router.delete(
+  "/:productId/variants/:variantId",
+  validator.single(IdDto, "params"),
+  merchantAuthGaurd.authorise(),
+  productController.deleteProductVariant
+);
+
+// Add Product Variant Images
+router.post(
+  "/:productId/variants/:variantId/images",
+  fileParser.multiple("variantImages", 10),
+  validator.single(IdDto, "params"),
+  merchantAuthGaurd.authorise(),
+  productController.addProductVariantImages
+);
+
+// Remove Product Variant Image
+router.delete(
+  "/:productId/variants/:variantId/images/:imageId",
+  validator.single(IdDto, "params"),
+  merchantAuthGaurd.authorise(),
+  productController.removeProductVariantImage
+);
+
 // Update Product
 router.put(
   "/:id",
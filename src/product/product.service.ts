@@ -11,10 +11,18 @@ import { UnauthorizedException } from "../utils/exceptions/unauthorized.exceptio
 import { BaseException } from "../utils/exceptions/base.exception";
 import { DataFormatterHelper } from "../helpers/format.helper";
 import { PaginationResult } from "../interfaces/pagination-result.interface";
+import {
+  ProductVariantRepository,
+  ProductVariantWithImages,
+} from "../repositories/product-variant.repository";
+import { ProductVariantDto } from "./dtos/product-variant.dto";
+import { ProductVariantUpdateDto } from "./dtos/product-variant-update.dto";
+import { BadRequestException } from "../utils/exceptions/bad-request.exception";
 
 export class ProductService {
   constructor(
     private readonly productRepository: ProductRepository,
+    private readonly productVariantRepository: ProductVariantRepository,
     private readonly logger: WinstonLogger
   ) {}
 
@@ -102,13 +110,16 @@ export class ProductService {
         );
       }
       DataFormatterHelper.formatProductData(productData);
+      const { variants = [], ...data } = productData;
+      this.checkVariantSkus(variants);
       const displayImage = files[0].path || DefaultValues.PRODUCT_DISPLAY_IMAGE;
       const productImages = files.slice(1).map((file) => file.path);
       const product = await this.productRepository.create(
         merchantId,
-        productData,
+        data,
         displayImage,
-        productImages
+        productImages,
+        variants
       );
       return product;
     } catch (e) {
@@ -137,10 +148,18 @@ export class ProductService {
         throw new UnauthorizedException(ErrorMessages.MERCHANT_UNAUTHORIZED);
       }
       DataFormatterHelper.formatProductData(productData);
-      const updatedProduct = await this.productRepository.update(
-        id,
-        productData
-      );
+      const { variants = [], ...data } = productData;
+      if (variants.length > 0) {
+        const existing =
+          await this.productVariantRepository.getProductVariants(id);
+        this.checkVariantSkus(variants, existing);
+        await this.productVariantRepository.create(id, variants);
+      }
+      // The stock of a product sold in variants follows its variants
+      if (variants.length > 0 || (await this.hasVariants(id))) {
+        delete data.stock;
+      }
+      const updatedProduct = await this.productRepository.update(id, data);
       return updatedProduct;
     } catch (e) {
       if (e instanceof BaseException) {
@@ -229,4 +248,162 @@ export class ProductService {
       );
     }
   }
+
+  async getProductVariants(
+    productId: string
+  ): Promise<ProductVariantWithImages[]> {
+    try {
+      const product = await this.productRepository.getById(productId);
+      if (!product) {
+        throw new NotFoundException(ErrorMessages.PRODUCT_NOT_FOUND);
+      }
+      return await this.productVariantRepository.getProductVariants(productId);
+    } catch (e) {
+      if (e instanceof BaseException) {
+        throw e;
+      }
+      this.logger.error(`${ErrorMessages.GET_PRODUCT_VARIANTS_FAILED}: ${e}`);
+      throw new InternalServerException(
+        ErrorMessages.GET_PRODUCT_VARIANTS_FAILED
+      );
+    }
+  }
+
+  async updateProductVariant(
+    productId: string,
+    variantId: string,
+    variantData: ProductVariantUpdateDto,
+    merchantId: string
+  ): Promise<ProductVariantWithImages> {
+    try {
+      await this.getMerchantVariant(productId, variantId, merchantId);
+      if (variantData.sku) {
+        const existing =
+          await this.productVariantRepository.getProductVariants(productId);
+        this.checkVariantSkus(
+          [{ sku: variantData.sku }],
+          existing.filter((variant) => variant.id !== variantId)
+        );
+      }
+      return await this.productVariantRepository.update(variantId, variantData);
+    } catch (e) {
+      if (e instanceof BaseException) {
+        throw e;
+      }
+      this.logger.error(`${ErrorMessages.UPDATE_PRODUCT_VARIANT_FAILED}: ${e}`);
+      throw new InternalServerException(
+        ErrorMessages.UPDATE_PRODUCT_VARIANT_FAILED
+      );
+    }
+  }
+
+  async deleteProductVariant(
+    productId: string,
+    variantId: string,
+    merchantId: string
+  ): Promise<boolean> {
+    try {
+      await this.getMerchantVariant(productId, variantId, merchantId);
+      return await this.productVariantRepository.delete(variantId);
+    } catch (e) {
+      if (e instanceof BaseException) {
+        throw e;
+      }
+      this.logger.error(`${ErrorMessages.DELETE_PRODUCT_VARIANT_FAILED}: ${e}`);
+      throw new InternalServerException(
+        ErrorMessages.DELETE_PRODUCT_VARIANT_FAILED
+      );
+    }
+  }
+
+  async addProductVariantImages(
+    productId: string,
+    variantId: string,
+    files: Express.Multer.File[],
+    merchantId: string
+  ): Promise<ProductVariantWithImages> {
+    try {
+      if (!files || files.length < 1) {
+        throw new BadRequestException(ErrorMessages.PRODUCT_IMAGES_NOT_FOUND);
+      }
+      await this.getMerchantVariant(productId, variantId, merchantId);
+      return await this.productVariantRepository.addImages(
+        variantId,
+        files.map((file) => file.path)
+      );
+    } catch (e) {
+      if (e instanceof BaseException) {
+        throw e;
+      }
+      this.logger.error(`${ErrorMessages.ADD_PRODUCT_IMAGES_FAILED}: ${e}`);
+      throw new InternalServerException(
+        ErrorMessages.ADD_PRODUCT_IMAGES_FAILED
+      );
+    }
+  }
+
+  async removeProductVariantImage(
+    productId: string,
+    variantId: string,
+    imageId: string,
+    merchantId: string
+  ): Promise<ProductVariantWithImages> {
+    try {
+      await this.getMerchantVariant(productId, variantId, merchantId);
+      return await this.productVariantRepository.removeImage(
+        variantId,
+        imageId
+      );
+    } catch (e) {
+      if (e instanceof BaseException) {
+        throw e;
+      }
+      this.logger.error(`${ErrorMessages.REMOVE_PRODUCT_IMAGE_FAILED}: ${e}`);
+      throw new InternalServerException(
+        ErrorMessages.REMOVE_PRODUCT_IMAGE_FAILED
+      );
+    }
+  }
+
+  private async hasVariants(productId: string): Promise<boolean> {
+    const variants =
+      await this.productVariantRepository.getProductVariants(productId);
+    return variants.length > 0;
+  }
+
+  /**
+   * The variant, once the merchant is confirmed to own its product
+   */
+  private async getMerchantVariant(
+    productId: string,
+    variantId: string,
+    merchantId: string
+  ): Promise<ProductVariantWithImages> {
+    const product = await this.productRepository.getById(productId);
+    if (!product) {
+      throw new NotFoundException(ErrorMessages.PRODUCT_NOT_FOUND);
+    }
+    if (product.merchantId !== merchantId) {
+      this.logger.error(ErrorMessages.MERCHANT_UNAUTHORIZED);
+      throw new UnauthorizedException(ErrorMessages.MERCHANT_UNAUTHORIZED);
+    }
+    const variant = await this.productVariantRepository.getById(variantId);
+    if (!variant || variant.productId !== productId) {
+      throw new NotFoundException(ErrorMessages.PRODUCT_VARIANT_NOT_FOUND);
+    }
+    return variant;
+  }
+
+  // SKUs must be unique within a product
+  private checkVariantSkus(
+    variants: Pick<ProductVariantDto, "sku">[],
+    existing: Pick<ProductVariantWithImages, "sku">[] = []
+  ): void {
+    const skus = [...existing, ...variants]
+      .map((variant) => variant.sku)
+      .filter((sku) => !!sku);
+    if (new Set(skus).size !== skus.length) {
+      throw new BadRequestException(ErrorMessages.PRODUCT_VARIANT_SKU_EXISTS);
+    }
+  }
 }
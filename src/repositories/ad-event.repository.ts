@@ -0,0 +1,131 @@
+import { Ad, AdEvent, AdEventType, Prisma } from "@prisma/client";
+import { DefaultArgs } from "@prisma/client/runtime/library";
+import { databaseService } from "../utils/database";
+
+export class AdEventRepository {
+  private readonly adEventDelegate: Prisma.AdEventDelegate<DefaultArgs>;
+
+  constructor() {
+    this.adEventDelegate = databaseService.adEvent;
+  }
+
+  /**
+   * Whether the viewer, matched by hash or by customer, already has an accepted
+   * event of this type for the ad since `since`
+   */
+  hasRecentEvent(
+    adId: string,
+    type: AdEventType,
+    viewerHash: string,
+    customerId: string | undefined,
+    since: Date
+  ): Promise<boolean> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const event = await this.adEventDelegate.findFirst({
+          where: {
+            adId,
+            type,
+            createdAt: { gte: since },
+            OR: [{ viewerHash }, ...(customerId ? [{ customerId }] : [])],
+          },
+          select: { id: true },
+        });
+        resolve(!!event);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Accepted events of this type for the ad from the IP address since `since`
+   */
+  countRecentIpEvents(
+    adId: string,
+    type: AdEventType,
+    ipHash: string,
+    since: Date
+  ): Promise<number> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const count = await this.adEventDelegate.count({
+          where: { adId, type, ipHash, createdAt: { gte: since } },
+        });
+        resolve(count);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Stores an accepted event and bumps the matching counter, and the spend of a
+   * budget ad, in one database transaction so the ad always matches the event log
+   */
+  record(
+    adId: string,
+    type: AdEventType,
+    viewerHash: string,
+    ipHash: string,
+    customerId: string | undefined,
+    cost: number,
+    placementId?: string
+  ): Promise<Ad> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const ad = await databaseService.$transaction(async (tx) => {
+          await tx.adEvent.create({
+            data: {
+              type,
+              viewerHash,
+              ipHash,
+              cost,
+              ad: { connect: { id: adId } },
+              ...(customerId && { customer: { connect: { id: customerId } } }),
+              ...(placementId && {
+                placement: { connect: { id: placementId } },
+              }),
+            },
+          });
+          return tx.ad.update({
+            where: { id: adId },
+            data: {
+              ...(type === AdEventType.CLICK
+                ? { adClicks: { increment: 1 } }
+                : { adViews: { increment: 1 } }),
+              ...(cost > 0 && { spent: { increment: cost } }),
+            },
+          });
+        });
+        resolve(ad);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Accepted events between `from` and `to`, for the given ads or for all ads
+   */
+  getEvents(
+    from: Date,
+    to: Date,
+    adIds?: string[]
+  ): Promise<Pick<AdEvent, "adId" | "type" | "cost" | "createdAt">[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const events = await this.adEventDelegate.findMany({
+          where: {
+            createdAt: { gte: from, lte: to },
+            ...(adIds && { adId: { in: adIds } }),
+          },
+          select: { adId: true, type: true, cost: true, createdAt: true },
+        });
+        resolve(events);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+}
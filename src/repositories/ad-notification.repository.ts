@@ -0,0 +1,53 @@
+import { AdNotificationType, Prisma } from "@prisma/client";
+import { DefaultArgs } from "@prisma/client/runtime/library";
+import { databaseService } from "../utils/database";
+
+export class AdNotificationRepository {
+  private readonly adNotificationDelegate: Prisma.AdNotificationDelegate<DefaultArgs>;
+
+  constructor() {
+    this.adNotificationDelegate = databaseService.adNotification;
+  }
+
+  /**
+   * Records the notification unless it was already sent for this expiry.
+   * Resolves to whether the caller should send it.
+   */
+  claim(
+    adId: string,
+    type: AdNotificationType,
+    expiresAt: Date
+  ): Promise<boolean> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const { count } = await this.adNotificationDelegate.createMany({
+          data: [{ adId, type, expiresAt }],
+          skipDuplicates: true,
+        });
+        resolve(count > 0);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Forgets a claimed notification that could not be sent, so it is tried again
+   */
+  release(
+    adId: string,
+    type: AdNotificationType,
+    expiresAt: Date
+  ): Promise<void> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        await this.adNotificationDelegate.deleteMany({
+          where: { adId, type, expiresAt },
+        });
+        resolve();
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import { AdPlacement, AdPlacementKey, Prisma } from "@prisma/client";
+import { DefaultArgs } from "@prisma/client/runtime/library";
+import { databaseService } from "../utils/database";
+
+export class AdPlacementRepository {
+  private readonly adPlacementDelegate: Prisma.AdPlacementDelegate<DefaultArgs>;
+
+  constructor() {
+    this.adPlacementDelegate = databaseService.adPlacement;
+  }
+
+  getAll(): Promise<AdPlacement[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const placements = await this.adPlacementDelegate.findMany({
+          orderBy: { key: "asc" },
+        });
+        resolve(placements);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getByKey(key: AdPlacementKey): Promise<AdPlacement | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const placement = await this.adPlacementDelegate.findUnique({
+          where: { key },
+        });
+        resolve(placement);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  update(
+    key: AdPlacementKey,
+    data: Prisma.AdPlacementUpdateInput
+  ): Promise<AdPlacement> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const placement = await this.adPlacementDelegate.update({
+          where: { key },
+          data,
+        });
+        resolve(placement);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+}
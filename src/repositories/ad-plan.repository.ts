@@ -0,0 +1,102 @@
+import { AdPlan, Prisma } from "@prisma/client";
+import { DefaultArgs } from "@prisma/client/runtime/library";
+import { databaseService } from "../utils/database";
+
+export class AdPlanRepository {
+  private readonly adPlanDelegate: Prisma.AdPlanDelegate<DefaultArgs>;
+
+  constructor() {
+    this.adPlanDelegate = databaseService.adPlan;
+  }
+
+  private currentWhere(at: Date): Prisma.AdPlanWhereInput {
+    return {
+      active: true,
+      deletedAt: null,
+      validFrom: { lte: at },
+      OR: [{ validTo: null }, { validTo: { gt: at } }],
+    };
+  }
+
+  create(data: Prisma.AdPlanCreateInput): Promise<AdPlan> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const plan = await this.adPlanDelegate.create({ data });
+        resolve(plan);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  update(id: string, data: Prisma.AdPlanUpdateInput): Promise<AdPlan> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const plan = await this.adPlanDelegate.update({ where: { id }, data });
+        resolve(plan);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getById(id: string, withDeleted: boolean = false): Promise<AdPlan | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const plan = await this.adPlanDelegate.findFirst({
+          where: { id, ...(!withDeleted && { deletedAt: null }) },
+        });
+        resolve(plan);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getAll(): Promise<AdPlan[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const plans = await this.adPlanDelegate.findMany({
+          where: { deletedAt: null },
+          orderBy: [{ level: "asc" }, { validFrom: "desc" }],
+        });
+        resolve(plans);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * The plan in effect for each level at `at`. When validity windows overlap the
+   * plan that started last wins, so a price change can be scheduled ahead of time.
+   */
+  getCurrentPlans(at: Date = new Date()): Promise<AdPlan[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const plans = await this.adPlanDelegate.findMany({
+          where: this.currentWhere(at),
+          orderBy: [{ level: "asc" }, { validFrom: "desc" }],
+          distinct: ["level"],
+        });
+        resolve(plans);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getCurrentPlan(level: number, at: Date = new Date()): Promise<AdPlan | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const plan = await this.adPlanDelegate.findFirst({
+          where: { ...this.currentWhere(at), level },
+          orderBy: { validFrom: "desc" },
+        });
+        resolve(plan);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+}
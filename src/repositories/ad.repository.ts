@@ -1,8 +1,40 @@
-import { Ad, Prisma } from "@prisma/client";
+import {
+  Ad,
+  AdPaymentAction,
+  AdType,
+  PaymentFor,
+  PaymentStatus,
+  Prisma,
+  ProductCategory,
+} from "@prisma/client";
 import { PrismaClient } from "@prisma/client";
-import { PaymentFor, PaymentStatus } from "@prisma/client";
 import moment from "moment-timezone";
 
+const lifecycleInclude = {
+  product: {
+    select: {
+      id: true,
+      name: true,
+      merchant: { select: { id: true, email: true, brandName: true } },
+    },
+  },
+  authorization: true,
+} satisfies Prisma.AdInclude;
+
+export type LifecycleAd = Prisma.AdGetPayload<{
+  include: typeof lifecycleInclude;
+}>;
+
+export interface LevelTotals {
+  type: AdType;
+  level: number;
+  ads: number;
+  views: number;
+  clicks: number;
+  spend: number;
+  cartAdditions: number;
+}
+
 export class AdRepository {
   private readonly prisma: PrismaClient;
 
@@ -10,6 +42,16 @@ export class AdRepository {
     this.prisma = new PrismaClient();
   }
 
+  /**
+   * Ads that have started and not yet expired. Scheduled ads are paid for but not live.
+   */
+  private liveWhere(now: Date = new Date()): Prisma.AdWhereInput {
+    return {
+      startsAt: { lte: now },
+      expiresAt: { gt: now },
+    };
+  }
+
   async create(data: Prisma.AdCreateInput): Promise<Ad> {
     return this.prisma.ad.create({
       data,
@@ -25,6 +67,25 @@ export class AdRepository {
     });
   }
 
+  /**
+   * Applies a paid transaction to the ad and records the ad on the transaction in one
+   * database transaction. Resolves to null when the transaction was already applied.
+   */
+  async applyPayment(
+    id: string,
+    data: Prisma.AdUpdateInput,
+    transactionId: string
+  ): Promise<Ad | null> {
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.transaction.updateMany({
+        where: { id: transactionId, appliedAdId: null },
+        data: { appliedAdId: id },
+      });
+      if (count === 0) return null;
+      return tx.ad.update({ where: { id }, data });
+    });
+  }
+
   async getAd(id: string): Promise<Ad | null> {
     return this.prisma.ad.findUnique({
       where: {
@@ -37,10 +98,28 @@ export class AdRepository {
     return this.prisma.ad.findFirst({
       where: {
         productId,
+        ...this.liveWhere(),
+      },
+      // Prefer the paid ad over a free one
+      orderBy: [{ paidFor: "desc" }, { level: "desc" }, { expiresAt: "desc" }],
+    });
+  }
+
+  /**
+   * The running or scheduled paid ad of a product. A product has at most one.
+   */
+  async getActivePaidAd(productId: string, excludeAdId?: string) {
+    return this.prisma.ad.findFirst({
+      where: {
+        productId,
+        paidFor: true,
+        level: { gt: 0 },
         expiresAt: {
           gt: new Date(),
         },
+        ...(excludeAdId && { id: { not: excludeAdId } }),
       },
+      orderBy: { expiresAt: "desc" },
     });
   }
 
@@ -58,11 +137,7 @@ export class AdRepository {
 
   async getAds(): Promise<Ad[]> {
     return this.prisma.ad.findMany({
-      where: {
-        expiresAt: {
-          gt: new Date(),
-        },
-      },
+      where: this.liveWhere(),
       include: {
         product: {
           include: {
@@ -162,7 +237,7 @@ export class AdRepository {
       try {
         const where: any = {
           paidFor: true,
-          expiresAt: { gt: moment.tz("Africa/Lagos").toDate() },
+          ...this.liveWhere(moment.tz("Africa/Lagos").toDate()),
         };
 
         if (filters.merchantId) {
@@ -199,25 +274,247 @@ export class AdRepository {
     });
   }
 
-  async incrementViews(id: string): Promise<void> {
-    await this.prisma.ad.update({
-      where: { id },
-      data: {
-        adViews: {
-          increment: 1,
+  /**
+   * Free and paid ads that were running at some point between `from` and `to`
+   */
+  async getAdsRunningBetween(from: Date, to: Date, merchantId?: string) {
+    return this.prisma.ad.findMany({
+      where: {
+        startsAt: { lte: to },
+        expiresAt: { gte: from },
+        OR: [{ paidFor: true }, { level: 0 }],
+        ...(merchantId && { product: { merchantId } }),
+      },
+      include: {
+        product: {
+          select: {
+            id: true,
+            name: true,
+            merchantId: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Totals per ad type and level for the ads running in the range, aggregated in the
+   * database so the platform comparison never loads individual events. Follows the
+   * same rules as the per-ad analytics: budget ads spend what their events cost, other
+   * ads what was paid for them, and a cart row is credited to one running ad only.
+   */
+  async getLevelTotals(from: Date, to: Date): Promise<LevelTotals[]> {
+    return this.prisma.$queryRaw<LevelTotals[]>`
+      WITH running AS (
+        SELECT "id", "type", "level", "productId", "startsAt", "expiresAt"
+        FROM "Ad"
+        WHERE "startsAt" <= ${to} AND "expiresAt" >= ${from}
+          AND ("paidFor" = true OR "level" = 0)
+      ),
+      levels AS (
+        SELECT "type", "level", COUNT(*)::int AS "ads"
+        FROM running GROUP BY "type", "level"
+      ),
+      events AS (
+        SELECT r."type", r."level",
+          COUNT(*) FILTER (WHERE e."type" = 'VIEW')::int AS "views",
+          COUNT(*) FILTER (WHERE e."type" = 'CLICK')::int AS "clicks",
+          SUM(e."cost") AS "spend"
+        FROM "AdEvent" e JOIN running r ON r."id" = e."adId"
+        WHERE e."createdAt" >= ${from} AND e."createdAt" <= ${to}
+        GROUP BY r."type", r."level"
+      ),
+      payments AS (
+        SELECT r."type", r."level", SUM(t."amount") AS "spend"
+        FROM "Transaction" t JOIN running r ON r."id" = t."reference"
+        WHERE r."type" <> 'BUDGET' AND t."for" = 'ADVERTISEMENT'
+          AND t."status" = 'SUCCESS'
+          AND t."date" >= ${from} AND t."date" <= ${to}
+        GROUP BY r."type", r."level"
+      ),
+      additions AS (
+        SELECT "type", "level", COUNT(*)::int AS "cartAdditions"
+        FROM (
+          SELECT DISTINCT ON (c."id") r."type", r."level"
+          FROM "CartProduct" c JOIN running r ON r."productId" = c."productId"
+            AND r."startsAt" <= c."createdAt" AND r."expiresAt" >= c."createdAt"
+          WHERE c."createdAt" >= ${from} AND c."createdAt" <= ${to}
+          ORDER BY c."id", r."startsAt"
+        ) credited
+        GROUP BY "type", "level"
+      )
+      SELECT l."type", l."level", l."ads",
+        COALESCE(e."views", 0) AS "views",
+        COALESCE(e."clicks", 0) AS "clicks",
+        COALESCE(e."spend", 0) + COALESCE(p."spend", 0) AS "spend",
+        COALESCE(a."cartAdditions", 0) AS "cartAdditions"
+      FROM levels l
+      LEFT JOIN events e ON e."type" = l."type" AND e."level" = l."level"
+      LEFT JOIN payments p ON p."type" = l."type" AND p."level" = l."level"
+      LEFT JOIN additions a ON a."type" = l."type" AND a."level" = l."level"
+    `;
+  }
+
+  /**
+   * Live paid ads that may be placed in the given context, at most `limit` of them.
+   * Ads targeting another category, market or state than the one requested, or one
+   * the context does not give, are left out, and when a search term is given only
+   * ads for matching products are returned. The ads are a random window of all the
+   * candidates, so every ad is rotated in without loading them all.
+   */
+  async getPlacementCandidates(
+    context: {
+      category?: ProductCategory;
+      marketId?: string;
+      state?: string;
+      search?: string;
+    },
+    limit: number
+  ) {
+    const targeting: Prisma.AdWhereInput[] = [];
+    if (context.category)
+      targeting.push({
+        OR: [{ targetCategory: null }, { targetCategory: context.category }],
+      });
+    else targeting.push({ targetCategory: null });
+    if (context.marketId)
+      targeting.push({
+        OR: [{ targetMarketId: null }, { targetMarketId: context.marketId }],
+      });
+    else targeting.push({ targetMarketId: null });
+    if (context.state)
+      targeting.push({
+        OR: [
+          { targetState: null },
+          { targetState: { equals: context.state, mode: "insensitive" } },
+        ],
+      });
+    else targeting.push({ targetState: null });
+
+    const where: Prisma.AdWhereInput = {
+      paidFor: true,
+      ...this.liveWhere(moment.tz("Africa/Lagos").toDate()),
+      product: {
+        deletedAt: null,
+        ...(context.search && {
+          OR: [
+            { name: { contains: context.search, mode: "insensitive" } },
+            {
+              description: { contains: context.search, mode: "insensitive" },
+            },
+          ],
+        }),
+      },
+      AND: targeting,
+    };
+
+    const count = await this.prisma.ad.count({ where });
+    const skip = Math.floor(Math.random() * Math.max(count - limit + 1, 1));
+
+    return this.prisma.ad.findMany({
+      where,
+      orderBy: { id: "asc" },
+      skip,
+      take: limit,
+      include: {
+        product: {
+          include: {
+            displayImage: true,
+            merchant: {
+              select: {
+                id: true,
+                brandName: true,
+                verified: true,
+                marketId: true,
+                market: { select: { id: true, name: true, state: true } },
+              },
+            },
+          },
         },
       },
     });
   }
 
-  async incrementClicks(id: string): Promise<void> {
-    await this.prisma.ad.update({
-      where: { id },
-      data: {
-        adClicks: {
-          increment: 1,
+  /**
+   * Paid ads whose expiry falls between `from` and `to`, with what the expiry and
+   * auto-renew emails need
+   */
+  async getPaidAdsExpiringBetween(from: Date, to: Date, type?: AdType) {
+    return this.prisma.ad.findMany({
+      where: {
+        paidFor: true,
+        level: { gt: 0 },
+        expiresAt: { gt: from, lte: to },
+        ...(type && { type }),
+      },
+      include: lifecycleInclude,
+    });
+  }
+
+  /**
+   * Duration ads with auto-renew on that expire before `expiringBefore` and can be
+   * charged again: fewer than `maxAttempts` attempts, the last one before `attemptedBefore`.
+   * Ads with a renewal still waiting on the provider are left out until reconciliation
+   * settles it, so the saved card is not charged twice for one period.
+   */
+  async getAdsDueForAutoRenewal(
+    expiringBefore: Date,
+    attemptedBefore: Date,
+    maxAttempts: number
+  ) {
+    const openRenewals = await this.prisma.transaction.findMany({
+      where: {
+        for: PaymentFor.ADVERTISEMENT,
+        adAction: AdPaymentAction.RENEWAL,
+        status: { in: [PaymentStatus.INITIALIZED, PaymentStatus.PENDING] },
+        deletedAt: null,
+      },
+      select: { reference: true },
+    });
+    return this.prisma.ad.findMany({
+      where: {
+        id: { notIn: openRenewals.map((transaction) => transaction.reference) },
+        autoRenew: true,
+        type: AdType.DURATION,
+        paidFor: true,
+        level: { gt: 0 },
+        expiresAt: { lte: expiringBefore },
+        authorizationId: { not: null },
+        autoRenewAttempts: { lt: maxAttempts },
+        OR: [
+          { autoRenewAttemptAt: null },
+          { autoRenewAttemptAt: { lte: attemptedBefore } },
+        ],
+      },
+      include: lifecycleInclude,
+      orderBy: { expiresAt: "asc" },
+    });
+  }
+
+  /**
+   * Stops a budget ad that has spent `budget`. Skipped when a top up changed the budget
+   * since, so a concurrent top up is not stopped along with the spent budget.
+   */
+  async stopSpentBudgetAd(id: string, budget: number): Promise<boolean> {
+    const { count } = await this.prisma.ad.updateMany({
+      where: { id, budget },
+      data: { spent: budget, expiresAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  async getBudgetAdsByMerchantId(merchantId: string): Promise<Ad[]> {
+    return this.prisma.ad.findMany({
+      where: {
+        type: AdType.BUDGET,
+        paidFor: true,
+        product: {
+          merchantId,
         },
       },
+      orderBy: {
+        createdAt: "desc",
+      },
     });
   }
 
@@ -243,17 +540,6 @@ export class AdRepository {
     return ad?.product;
   }
 
-  async getAdTransactionAmount(adId: string): Promise<number | null> {
-    const transaction = await this.prisma.transaction.findFirst({
-      where: {
-        reference: adId,
-        status: PaymentStatus.SUCCESS,
-        for: PaymentFor.ADVERTISEMENT,
-      },
-    });
-
-    return transaction?.amount || null;
-  }
   async count(): Promise<number> {
     return this.prisma.ad.count({
       where: {
@@ -11,10 +11,31 @@ export class CartProductRepository {
 
 
 
+    /**
+     * Cart rows created for the given products between `from` and `to`, including rows
+     * that were later removed or checked out
+     */
+    getAdditions(productIds: string[], from: Date, to: Date): Promise<Pick<CartProduct, "productId" | "createdAt">[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const additions = await this.cartProductDelegate.findMany({
+                    where: { productId: { in: productIds }, createdAt: { gte: from, lte: to } },
+                    select: { productId: true, createdAt: true }
+                });
+                resolve(additions);
+            } catch (e) {
+                reject(e)
+            }
+        })
+    }
+
     getCart(customerId: string): Promise<CartProduct[]> {
         return new Promise(async (resolve, reject) => {
             try {
-                const cart = await this.cartProductDelegate.findMany({ where: { customerId } });
+                const cart = await this.cartProductDelegate.findMany({
+                    where: { customerId, orderId: null },
+                    include: { variant: { select: { id: true, attributes: true, sku: true } } }
+                });
                 resolve(cart);
             } catch (e) {
                 reject(e)
@@ -23,27 +44,34 @@ export class CartProductRepository {
     }
 
 
-    create(customerId: string, productId: string, data: Omit<Prisma.CartProductCreateInput, "customer" | "product">): Promise<CartProduct> {
+    create(customerId: string, productId: string, data: Omit<Prisma.CartProductCreateInput, "customer" | "product" | "variant">, variantId?: string): Promise<CartProduct> {
         return new Promise(async (resolve, reject) => {
             try {
                 const cartProduct = await this.cartProductDelegate.create({
                     data: {
                         ...data,
                         customer: { connect: { id: customerId } },
-                        product: { connect: { id: productId } }
+                        product: { connect: { id: productId } },
+                        ...(variantId && { variant: { connect: { id: variantId } } })
                     }
                 });
                 resolve(cartProduct);
             } catch (e) {
+                // A concurrent request added the same item first, update its row instead
+                if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002") {
+                    this.update(customerId, productId, data, variantId).then(resolve, reject);
+                    return;
+                }
                 reject(e)
             }
         })
     }
 
-    update(customerId: string, productId: string, data: Prisma.CartProductUpdateInput): Promise<CartProduct> {
+    update(customerId: string, productId: string, data: Prisma.CartProductUpdateInput, variantId?: string): Promise<CartProduct> {
         return new Promise(async (resolve, reject) => {
             try {
-                const updatedCartProduct = await this.cartProductDelegate.update({ where: { productId_customerId: { customerId, productId } }, data });
+                const cartProduct = await this.cartProductDelegate.findFirstOrThrow({ where: { customerId, productId, variantId: variantId ?? null, orderId: null } });
+                const updatedCartProduct = await this.cartProductDelegate.update({ where: { id: cartProduct.id }, data });
                 resolve(updatedCartProduct);
             } catch (e) {
                 reject(e)
@@ -54,7 +82,8 @@ export class CartProductRepository {
     updateQuantity(customerId: string, productId: string, data: {quantity: number, totalPrice: number}): Promise<CartProduct> {
         return new Promise(async (resolve, reject) => {
             try {
-                const updatedCartProduct = await this.cartProductDelegate.update({ where: { productId_customerId: { customerId, productId } }, data });
+                const cartProduct = await this.cartProductDelegate.findFirstOrThrow({ where: { customerId, productId, orderId: null } });
+                const updatedCartProduct = await this.cartProductDelegate.update({ where: { id: cartProduct.id }, data });
                 resolve(updatedCartProduct);
             } catch (e) {
                 reject(e)
@@ -62,10 +91,13 @@ export class CartProductRepository {
         })
     }
 
-    removefromCart(productId: string, customerId: string): Promise<boolean> {
+    /**
+     * Removes the product from the cart, only the given variant of it when `variantId` is set
+     */
+    removefromCart(productId: string, customerId: string, variantId?: string): Promise<boolean> {
         return new Promise(async (resolve, reject) => {
             try {
-                await this.cartProductDelegate.delete({ where: { productId_customerId: { productId, customerId } } });
+                await this.cartProductDelegate.deleteMany({ where: { productId, customerId, orderId: null, ...(variantId && { variantId }) } });
                 resolve(true);
             } catch (e) {
                 reject(e);
@@ -76,7 +108,7 @@ export class CartProductRepository {
     removeAllFromCart(customerId: string): Promise<boolean> {
         return new Promise(async (resolve, reject) => {
             try {
-                await this.cartProductDelegate.deleteMany({ where: { customerId } });
+                await this.cartProductDelegate.deleteMany({ where: { customerId, orderId: null } });
                 resolve(true);
             } catch (e) {
                 reject(e);
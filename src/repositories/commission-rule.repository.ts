@@ -0,0 +1,91 @@
+import { CommissionRule, Prisma } from "@prisma/client";
+import { DefaultArgs } from "@prisma/client/runtime/library";
+import { databaseService } from "../utils/database";
+
+export interface CommissionTier {
+  // Active referred merchants the marketer needs for this tier
+  minActiveMerchants: number;
+  // Percentage of the ad payment earned, e.g. 10 for 10%
+  percentage: number;
+}
+
+export type CommissionRuleWithTiers = Omit<CommissionRule, "tiers"> & {
+  tiers: CommissionTier[];
+};
+
+export class CommissionRuleRepository {
+  private readonly commissionRuleDelegate: Prisma.CommissionRuleDelegate<DefaultArgs>;
+
+  constructor() {
+    this.commissionRuleDelegate = databaseService.commissionRule;
+  }
+
+  /**
+   * The rule in force, the one with the highest version
+   */
+  getCurrent(): Promise<CommissionRuleWithTiers | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const rule = await this.commissionRuleDelegate.findFirst({
+          orderBy: { version: "desc" },
+        });
+        resolve(rule && this.withTiers(rule));
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getAll(): Promise<CommissionRuleWithTiers[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const rules = await this.commissionRuleDelegate.findMany({
+          orderBy: { version: "desc" },
+        });
+        resolve(rules.map((rule) => this.withTiers(rule)));
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Stores the rule as the next version. Two concurrent edits cannot share a version,
+   * the unique index on `version` rejects the second.
+   */
+  create(data: {
+    tiers: CommissionTier[];
+    signupBonus: number;
+    eligibilityMonths: number;
+    activeWindowDays: number;
+    createdById: string;
+  }): Promise<CommissionRuleWithTiers> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const rule = await databaseService.$transaction(async (tx) => {
+          const current = await tx.commissionRule.findFirst({
+            orderBy: { version: "desc" },
+            select: { version: true },
+          });
+          return tx.commissionRule.create({
+            data: {
+              version: (current?.version ?? 0) + 1,
+              tiers: data.tiers as unknown as Prisma.InputJsonValue,
+              signupBonus: data.signupBonus,
+              eligibilityMonths: data.eligibilityMonths,
+              activeWindowDays: data.activeWindowDays,
+              createdBy: { connect: { id: data.createdById } },
+            },
+          });
+        });
+        resolve(this.withTiers(rule));
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  private withTiers(rule: CommissionRule): CommissionRuleWithTiers {
+    return { ...rule, tiers: rule.tiers as unknown as CommissionTier[] };
+  }
+}
@@ -0,0 +1,95 @@
+import { Coupon, PaymentStatus, Prisma } from "@prisma/client";
+import { DefaultArgs } from "@prisma/client/runtime/library";
+import { databaseService } from "../utils/database";
+
+const couponInclude = {
+  market: { select: { id: true, name: true } },
+  merchant: { select: { id: true, brandName: true } },
+  _count: {
+    select: {
+      transactions: { where: { status: PaymentStatus.SUCCESS } },
+    },
+  },
+} satisfies Prisma.CouponInclude;
+
+export type CouponWithUsage = Prisma.CouponGetPayload<{
+  include: typeof couponInclude;
+}>;
+
+export class CouponRepository {
+  private readonly couponDelegate: Prisma.CouponDelegate<DefaultArgs>;
+
+  constructor() {
+    this.couponDelegate = databaseService.coupon;
+  }
+
+  create(data: Prisma.CouponCreateInput): Promise<Coupon> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const coupon = await this.couponDelegate.create({ data });
+        resolve(coupon);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  update(id: string, data: Prisma.CouponUpdateInput): Promise<Coupon> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const coupon = await this.couponDelegate.update({
+          where: { id },
+          data,
+        });
+        resolve(coupon);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getById(id: string): Promise<CouponWithUsage | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const coupon = await this.couponDelegate.findFirst({
+          where: { id, deletedAt: null },
+          include: couponInclude,
+        });
+        resolve(coupon);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Codes are stored upper case. Deleted coupons are included so their codes are not reused.
+   */
+  getByCode(code: string): Promise<Coupon | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const coupon = await this.couponDelegate.findUnique({
+          where: { code: code.toUpperCase() },
+        });
+        resolve(coupon);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getAll(): Promise<CouponWithUsage[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const coupons = await this.couponDelegate.findMany({
+          where: { deletedAt: null },
+          include: couponInclude,
+          orderBy: { createdAt: "desc" },
+        });
+        resolve(coupons);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+}
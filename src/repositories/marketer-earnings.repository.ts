@@ -1,4 +1,4 @@
-import { MarketerEarnings, Prisma } from "@prisma/client";
+import { MarketerEarningType, MarketerEarnings, Prisma } from "@prisma/client";
 import { PrismaClient } from "@prisma/client";
 
 export class MarketerEarningsRepository {
@@ -104,9 +104,34 @@ export class MarketerEarningsRepository {
     return result._sum.amount || 0;
   }
 
-  async getEarningByAd(adId: string): Promise<MarketerEarnings | null> {
+  async getEarningByTransaction(
+    transactionId: string
+  ): Promise<MarketerEarnings | null> {
     return this.prisma.marketerEarnings.findUnique({
-      where: { AdId: adId },
+      where: { transactionId },
+    });
+  }
+
+  /**
+   * Records the signup bonus for a merchant unless it already has one. The merchant row
+   * is locked first so two concurrent verifications cannot both pay the bonus.
+   * Resolves to null when the bonus was already recorded.
+   */
+  async createSignupBonus(
+    data: Omit<Prisma.MarketerEarningsUncheckedCreateInput, "type">
+  ): Promise<MarketerEarnings | null> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT "id" FROM "Merchant" WHERE "id" = ${data.merchantId} FOR UPDATE`;
+      const existingBonus = await tx.marketerEarnings.findFirst({
+        where: {
+          merchantId: data.merchantId,
+          type: MarketerEarningType.SIGNUP_BONUS,
+        },
+      });
+      if (existingBonus) return null;
+      return tx.marketerEarnings.create({
+        data: { ...data, type: MarketerEarningType.SIGNUP_BONUS },
+      });
     });
   }
 
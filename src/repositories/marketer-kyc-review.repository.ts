@@ -0,0 +1,116 @@
+import { Marketer, MarketerKycStatus, Prisma } from "@prisma/client";
+import { DefaultArgs } from "@prisma/client/runtime/library";
+import { databaseService } from "../utils/database";
+import { BadRequestException } from "../utils/exceptions/bad-request.exception";
+import { ErrorMessages } from "../constants/error-messages.enum";
+
+const reviewInclude = {
+  reviewedBy: {
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+} satisfies Prisma.MarketerKycReviewInclude;
+
+export type MarketerKycReviewWithReviewer = Prisma.MarketerKycReviewGetPayload<{
+  include: typeof reviewInclude;
+}>;
+
+export class MarketerKycReviewRepository {
+  private readonly marketerKycReviewDelegate: Prisma.MarketerKycReviewDelegate<DefaultArgs>;
+
+  constructor() {
+    this.marketerKycReviewDelegate = databaseService.marketerKycReview;
+  }
+
+  /**
+   * Marketers in the given KYC state, longest waiting first
+   */
+  getQueue(status: MarketerKycStatus): Promise<Marketer[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const marketers = await databaseService.marketer.findMany({
+          where: { kycStatus: status },
+          orderBy: { kycSubmittedAt: "asc" },
+        });
+        resolve(marketers);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getReviews(marketerId: string): Promise<MarketerKycReviewWithReviewer[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const reviews = await this.marketerKycReviewDelegate.findMany({
+          where: { marketerId },
+          include: reviewInclude,
+          orderBy: { createdAt: "desc" },
+        });
+        resolve(reviews);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Records the decision on the marketer's pending document and moves the marketer to the
+   * decided state, in one database transaction. `verified` follows an approval.
+   * Rejects when another admin decided on the document first.
+   */
+  review(data: {
+    marketerId: string;
+    status: MarketerKycStatus;
+    reason: string;
+    reviewedById: string;
+    referrerCode?: string;
+  }): Promise<{ marketer: Marketer; review: MarketerKycReviewWithReviewer }> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const result = await databaseService.$transaction(async (tx) => {
+          const approved = data.status === MarketerKycStatus.APPROVED;
+          const { count } = await tx.marketer.updateMany({
+            where: {
+              id: data.marketerId,
+              kycStatus: MarketerKycStatus.PENDING,
+            },
+            data: {
+              kycStatus: data.status,
+              verified: approved,
+              ...(data.referrerCode && { referrerCode: data.referrerCode }),
+            },
+          });
+          if (count === 0) {
+            throw new BadRequestException(
+              ErrorMessages.MARKETER_KYC_NOT_PENDING
+            );
+          }
+
+          const marketer = await tx.marketer.findUniqueOrThrow({
+            where: { id: data.marketerId },
+          });
+          const review = await tx.marketerKycReview.create({
+            data: {
+              status: data.status,
+              reason: data.reason,
+              identityCredentialType: marketer.IdentityCredentialType,
+              identityCredentialImage: marketer.IdentityCredentialImage,
+              marketer: { connect: { id: data.marketerId } },
+              reviewedBy: { connect: { id: data.reviewedById } },
+            },
+            include: reviewInclude,
+          });
+          return { marketer, review };
+        });
+        resolve(result);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+}
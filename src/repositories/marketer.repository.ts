@@ -1,4 +1,4 @@
-import { Marketer, Prisma } from "@prisma/client";
+import { Marketer, PaymentFor, PaymentStatus, Prisma } from "@prisma/client";
 import { PrismaClient } from "@prisma/client";
 import { generateReferrerCode } from "../utils/helpers/referrer-code.generator";
 
@@ -9,17 +9,12 @@ export class MarketerRepository {
     this.prisma = new PrismaClient();
   }
 
+  // The referrer code is generated when the marketer's KYC is approved
   async createMarketer(
     marketerData: Omit<Prisma.MarketerCreateInput, "referrerCode">
   ): Promise<Marketer> {
-    // Generate a unique referrer code
-    const referrerCode = await this.generateUniqueReferrerCode();
-
     return this.prisma.marketer.create({
-      data: {
-        ...marketerData,
-        referrerCode,
-      },
+      data: marketerData,
     });
   }
 
@@ -49,6 +44,12 @@ export class MarketerRepository {
     });
   }
 
+  async getMarketerByCustomerId(customerId: string): Promise<Marketer | null> {
+    return this.prisma.marketer.findUnique({
+      where: { customerId },
+    });
+  }
+
   async getMarketerByReferrerCode(
     referrerCode: string
   ): Promise<Marketer | null> {
@@ -67,13 +68,6 @@ export class MarketerRepository {
     });
   }
 
-  async verifyMarketer(id: string): Promise<Marketer> {
-    return this.prisma.marketer.update({
-      where: { id },
-      data: { verified: true },
-    });
-  }
-
   async deleteMarketer(id: string): Promise<void> {
     await this.prisma.marketer.delete({
       where: { id },
@@ -107,7 +101,73 @@ export class MarketerRepository {
     });
   }
 
-  private async generateUniqueReferrerCode(): Promise<string> {
+  /**
+   * Referred merchants that paid for an ad since the given date
+   */
+  async countActiveReferredMerchants(
+    marketerId: string,
+    since: Date
+  ): Promise<number> {
+    return this.prisma.merchant.count({
+      where: {
+        referredById: marketerId,
+        transactions: {
+          some: {
+            for: PaymentFor.ADVERTISEMENT,
+            status: PaymentStatus.SUCCESS,
+            date: { gte: since },
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Merchants referred by the marketer with what each spent on ads and earned the marketer.
+   * Refunded ad payments are not counted as spend.
+   */
+  async getReferredMerchantsWithAdSpend(marketerId: string) {
+    const [merchants, adSpend, earnings] = await Promise.all([
+      this.prisma.merchant.findMany({
+        where: { referredById: marketerId },
+        select: {
+          id: true,
+          brandName: true,
+          emailVerifiedAt: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: "desc" },
+      }),
+      this.prisma.transaction.groupBy({
+        by: ["merchantId"],
+        where: {
+          merchant: { referredById: marketerId },
+          for: PaymentFor.ADVERTISEMENT,
+          status: PaymentStatus.SUCCESS,
+        },
+        _sum: { amount: true },
+        _count: { _all: true },
+      }),
+      this.prisma.marketerEarnings.groupBy({
+        by: ["merchantId"],
+        where: { marketerId },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    return merchants.map((merchant) => {
+      const spend = adSpend.find((row) => row.merchantId === merchant.id);
+      const earned = earnings.find((row) => row.merchantId === merchant.id);
+      return {
+        ...merchant,
+        adSpend: spend?._sum.amount || 0,
+        adPayments: spend?._count._all || 0,
+        earnings: earned?._sum.amount || 0,
+      };
+    });
+  }
+
+  async generateUniqueReferrerCode(): Promise<string> {
     let referrerCode = generateReferrerCode();
     let exists = await this.getMarketerByReferrerCode(referrerCode);
 
@@ -0,0 +1,244 @@
+import {
+  MerchantVerification,
+  MerchantVerificationScope,
+  MerchantVerificationStatus,
+  MerchantVerificationType,
+  Prisma,
+} from "@prisma/client";
+import { DefaultArgs } from "@prisma/client/runtime/library";
+import { databaseService } from "../utils/database";
+import { BadRequestException } from "../utils/exceptions/bad-request.exception";
+import { ErrorMessages } from "../constants/error-messages.enum";
+
+const verificationInclude = {
+  merchant: {
+    select: {
+      id: true,
+      email: true,
+      brandName: true,
+      verified: true,
+    },
+  },
+  reviewedBy: {
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+} satisfies Prisma.MerchantVerificationInclude;
+
+export type MerchantVerificationWithMerchant =
+  Prisma.MerchantVerificationGetPayload<{
+    include: typeof verificationInclude;
+  }>;
+
+export class MerchantVerificationRepository {
+  private readonly merchantVerificationDelegate: Prisma.MerchantVerificationDelegate<DefaultArgs>;
+
+  constructor() {
+    this.merchantVerificationDelegate = databaseService.merchantVerification;
+  }
+
+  create(data: {
+    merchantId: string;
+    type: MerchantVerificationType;
+    scope: MerchantVerificationScope;
+    document: string;
+    idNumber?: string;
+  }): Promise<MerchantVerification> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const verification = await this.merchantVerificationDelegate.create({
+          data: {
+            type: data.type,
+            scope: data.scope,
+            document: data.document,
+            idNumber: data.idNumber,
+            merchant: { connect: { id: data.merchantId } },
+          },
+        });
+        resolve(verification);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getById(id: string): Promise<MerchantVerificationWithMerchant | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const verification = await this.merchantVerificationDelegate.findFirst({
+          where: { id, deletedAt: null },
+          include: verificationInclude,
+        });
+        resolve(verification);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getMerchantVerifications(
+    merchantId: string
+  ): Promise<MerchantVerification[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const verifications = await this.merchantVerificationDelegate.findMany({
+          where: { merchantId, deletedAt: null },
+          orderBy: { createdAt: "desc" },
+        });
+        resolve(verifications);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * The merchant's pending or approved document for the scope, if any
+   */
+  getActive(
+    merchantId: string,
+    scope: MerchantVerificationScope
+  ): Promise<MerchantVerification | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const verification = await this.merchantVerificationDelegate.findFirst({
+          where: {
+            merchantId,
+            scope,
+            deletedAt: null,
+            status: {
+              in: [
+                MerchantVerificationStatus.PENDING,
+                MerchantVerificationStatus.APPROVED,
+              ],
+            },
+          },
+        });
+        resolve(verification);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Documents in the given state, oldest first
+   */
+  getQueue(filters: {
+    status: MerchantVerificationStatus;
+    scope?: MerchantVerificationScope;
+  }): Promise<MerchantVerificationWithMerchant[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const verifications = await this.merchantVerificationDelegate.findMany({
+          where: {
+            status: filters.status,
+            deletedAt: null,
+            ...(filters.scope && { scope: filters.scope }),
+          },
+          include: verificationInclude,
+          orderBy: { createdAt: "asc" },
+        });
+        resolve(verifications);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  recordCheck(
+    id: string,
+    data: {
+      verifier: string;
+      verifierResponse: Prisma.InputJsonValue;
+      matchScore: number;
+      checkedAt: Date;
+    }
+  ): Promise<MerchantVerification> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const verification = await this.merchantVerificationDelegate.update({
+          where: { id },
+          data,
+        });
+        resolve(verification);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Approves or rejects a pending document and updates the merchant's badge, in one
+   * database transaction. Rejects when the document was already reviewed.
+   */
+  review(
+    id: string,
+    data: {
+      status: MerchantVerificationStatus;
+      reason?: string;
+      // Left out when a registry match approves the document
+      reviewedById?: string;
+    }
+  ): Promise<MerchantVerificationWithMerchant> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const verification = await databaseService.$transaction(async (tx) => {
+          const { count } = await tx.merchantVerification.updateMany({
+            where: {
+              id,
+              status: MerchantVerificationStatus.PENDING,
+              deletedAt: null,
+            },
+            data: {
+              status: data.status,
+              reason: data.reason,
+              reviewedById: data.reviewedById,
+              reviewedAt: new Date(),
+            },
+          });
+          if (count === 0) {
+            throw new BadRequestException(
+              ErrorMessages.MERCHANT_VERIFICATION_ALREADY_REVIEWED
+            );
+          }
+
+          const { merchantId } =
+            await tx.merchantVerification.findUniqueOrThrow({
+              where: { id },
+              select: { merchantId: true },
+            });
+          const approvedTypes = await tx.merchantVerification.findMany({
+            where: {
+              merchantId,
+              status: MerchantVerificationStatus.APPROVED,
+              deletedAt: null,
+            },
+            select: { type: true },
+            distinct: ["type"],
+          });
+          await tx.merchant.update({
+            where: { id: merchantId },
+            data: {
+              verified: Object.values(MerchantVerificationType).every((type) =>
+                approvedTypes.some((approved) => approved.type === type)
+              ),
+            },
+          });
+
+          return tx.merchantVerification.findUniqueOrThrow({
+            where: { id },
+            include: verificationInclude,
+          });
+        });
+        resolve(verification);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+}
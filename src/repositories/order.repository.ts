@@ -0,0 +1,254 @@
+import { Order, OrderStatus, Prisma } from "@prisma/client";
+import { DefaultArgs } from "@prisma/client/runtime/library";
+import { databaseService } from "../utils/database";
+import { BadRequestException } from "../utils/exceptions/bad-request.exception";
+import { ErrorMessages } from "../constants/error-messages.enum";
+import { syncProductStock } from "./product-variant.repository";
+
+export interface CheckoutItem {
+  cartProductId: string;
+  productId: string;
+  variantId?: string;
+  merchantId: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+const orderInclude = {
+  products: {
+    include: {
+      product: {
+        include: {
+          displayImage: true,
+        },
+      },
+      variant: true,
+    },
+  },
+} satisfies Prisma.OrderInclude;
+
+const merchantOrderInclude = {
+  ...orderInclude,
+  customer: {
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+} satisfies Prisma.OrderInclude;
+
+export type MerchantOrder = Prisma.OrderGetPayload<{
+  include: typeof merchantOrderInclude;
+}>;
+
+export class OrderRepository {
+  private readonly orderDelegate: Prisma.OrderDelegate<DefaultArgs>;
+
+  constructor() {
+    this.orderDelegate = databaseService.order;
+  }
+
+  /**
+   * Creates one order per merchant from the given cart rows in a single database transaction.
+   * Stock, the variant's for variant items, is decremented conditionally so a concurrent
+   * checkout cannot oversell, and a checkout of rows another checkout already ordered
+   * rolls back. The stock of a product sold in variants is then set to
+   * the total of its variants, so it cannot drift from them.
+   */
+  createFromCart(customerId: string, items: CheckoutItem[]): Promise<Order[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const orders = await databaseService.$transaction(async (tx) => {
+          const variantProductIds = new Set<string>();
+          for (const item of items) {
+            // Variants hold the stock of products sold in variants, the product keeps their total
+            const { count } = item.variantId
+              ? await tx.productVariant.updateMany({
+                  where: {
+                    id: item.variantId,
+                    deletedAt: null,
+                    stock: { gte: item.quantity },
+                  },
+                  data: { stock: { decrement: item.quantity } },
+                })
+              : await tx.product.updateMany({
+                  where: { id: item.productId, stock: { gte: item.quantity } },
+                  data: { stock: { decrement: item.quantity } },
+                });
+            if (count === 0) {
+              throw new BadRequestException(
+                ErrorMessages.QUANTITY_NOT_AVAILABLE
+              );
+            }
+            if (item.variantId) variantProductIds.add(item.productId);
+          }
+          for (const productId of variantProductIds) {
+            await syncProductStock(tx, productId);
+          }
+
+          const itemsByMerchant = new Map<string, CheckoutItem[]>();
+          for (const item of items) {
+            const merchantItems = itemsByMerchant.get(item.merchantId) || [];
+            merchantItems.push(item);
+            itemsByMerchant.set(item.merchantId, merchantItems);
+          }
+
+          const orderIds: string[] = [];
+          let attached = 0;
+          for (const [merchantId, merchantItems] of itemsByMerchant) {
+            const totalAmount = merchantItems.reduce(
+              (sum, item) => sum + item.unitPrice * item.quantity,
+              0
+            );
+            const newOrder = await tx.order.create({
+              data: {
+                status: OrderStatus.PENDING,
+                totalAmount,
+                customer: { connect: { id: customerId } },
+                merchant: { connect: { id: merchantId } },
+              },
+            });
+
+            for (const item of merchantItems) {
+              // Only a row still in the cart is attached, one another checkout took is not
+              const { count } = await tx.cartProduct.updateMany({
+                where: { id: item.cartProductId, orderId: null },
+                data: {
+                  unitPrice: item.unitPrice,
+                  totalPrice: item.unitPrice * item.quantity,
+                  orderId: newOrder.id,
+                },
+              });
+              attached += count;
+            }
+            orderIds.push(newOrder.id);
+          }
+          if (attached !== items.length) {
+            throw new BadRequestException(ErrorMessages.CART_CHANGED);
+          }
+
+          return tx.order.findMany({
+            where: { id: { in: orderIds } },
+            include: orderInclude,
+          });
+        });
+        resolve(orders);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getCustomerOrders(customerId: string): Promise<Order[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const orders = await this.orderDelegate.findMany({
+          where: { customerId, deletedAt: null },
+          include: orderInclude,
+          orderBy: { createdAt: "desc" },
+        });
+        resolve(orders);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getMerchantOrders(
+    merchantId: string,
+    status?: OrderStatus
+  ): Promise<MerchantOrder[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const orders = await this.orderDelegate.findMany({
+          where: {
+            merchantId,
+            deletedAt: null,
+            ...(status && { status }),
+          },
+          include: merchantOrderInclude,
+          orderBy: { createdAt: "desc" },
+        });
+        resolve(orders);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getOrderById(id: string): Promise<MerchantOrder | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const order = await this.orderDelegate.findUnique({
+          where: { id },
+          include: merchantOrderInclude,
+        });
+        resolve(order);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Moves an order from `from` to a new status. When `restock` is set the quantities on the
+   * order's line items are returned to product and variant stock in the same transaction,
+   * and products sold in variants get the total of their variants again.
+   * Rejects without restocking when the order is no longer in `from`, so concurrent
+   * updates cannot both apply.
+   */
+  updateStatus(
+    id: string,
+    from: OrderStatus,
+    status: OrderStatus,
+    restock: boolean = false
+  ): Promise<MerchantOrder> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const order = await databaseService.$transaction(async (tx) => {
+          const { count } = await tx.order.updateMany({
+            where: { id, status: from },
+            data: { status },
+          });
+          if (count === 0) {
+            throw new BadRequestException(ErrorMessages.ORDER_STATUS_CHANGED);
+          }
+
+          if (restock) {
+            const lineItems = await tx.cartProduct.findMany({
+              where: { orderId: id },
+            });
+            const variantProductIds = new Set<string>();
+            for (const item of lineItems) {
+              if (item.variantId) {
+                // Stock of a variant taken off sale is not returned
+                await tx.productVariant.updateMany({
+                  where: { id: item.variantId, deletedAt: null },
+                  data: { stock: { increment: item.quantity } },
+                });
+                variantProductIds.add(item.productId);
+              } else {
+                await tx.product.update({
+                  where: { id: item.productId },
+                  data: { stock: { increment: item.quantity } },
+                });
+              }
+            }
+            for (const productId of variantProductIds) {
+              await syncProductStock(tx, productId);
+            }
+          }
+          return tx.order.findUniqueOrThrow({
+            where: { id },
+            include: merchantOrderInclude,
+          });
+        });
+        resolve(order);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+}
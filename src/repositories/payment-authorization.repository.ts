@@ -0,0 +1,69 @@
+import { PaymentAuthorization, PaymentProvider, Prisma } from "@prisma/client";
+import { DefaultArgs } from "@prisma/client/runtime/library";
+import { databaseService } from "../utils/database";
+
+export class PaymentAuthorizationRepository {
+  private readonly paymentAuthorizationDelegate: Prisma.PaymentAuthorizationDelegate<DefaultArgs>;
+
+  constructor() {
+    this.paymentAuthorizationDelegate = databaseService.paymentAuthorization;
+  }
+
+  /**
+   * Saves the card, or refreshes the authorization of a card the merchant already saved
+   */
+  save(
+    merchantId: string,
+    provider: PaymentProvider,
+    data: Omit<Prisma.PaymentAuthorizationCreateInput, "merchant" | "provider">
+  ): Promise<PaymentAuthorization> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const authorization = await this.paymentAuthorizationDelegate.upsert({
+          where: {
+            merchantId_signature: { merchantId, signature: data.signature },
+          },
+          create: {
+            ...data,
+            provider,
+            merchant: { connect: { id: merchantId } },
+          },
+          update: { ...data, provider },
+        });
+        resolve(authorization);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getById(id: string): Promise<PaymentAuthorization | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const authorization =
+          await this.paymentAuthorizationDelegate.findUnique({
+            where: { id },
+          });
+        resolve(authorization);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getByMerchantId(merchantId: string): Promise<PaymentAuthorization[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const authorizations = await this.paymentAuthorizationDelegate.findMany(
+          {
+            where: { merchantId },
+            orderBy: { updatedAt: "desc" },
+          }
+        );
+        resolve(authorizations);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+}
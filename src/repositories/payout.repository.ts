@@ -0,0 +1,321 @@
+import { Payout, PaymentProvider, PayoutStatus, Prisma } from "@prisma/client";
+import { DefaultArgs } from "@prisma/client/runtime/library";
+import { databaseService } from "../utils/database";
+import { BadRequestException } from "../utils/exceptions/bad-request.exception";
+import { ErrorMessages } from "../constants/error-messages.enum";
+
+const payoutInclude = {
+  marketer: {
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+      username: true,
+      customerId: true,
+    },
+  },
+  approvedBy: {
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+} satisfies Prisma.PayoutInclude;
+
+const payoutDetailInclude = {
+  ...payoutInclude,
+  earnings: {
+    include: {
+      merchant: {
+        select: {
+          id: true,
+          brandName: true,
+        },
+      },
+      Ad: {
+        select: {
+          id: true,
+          level: true,
+          type: true,
+        },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  },
+} satisfies Prisma.PayoutInclude;
+
+export type PayoutWithMarketer = Prisma.PayoutGetPayload<{
+  include: typeof payoutInclude;
+}>;
+
+export type PayoutWithEarnings = Prisma.PayoutGetPayload<{
+  include: typeof payoutDetailInclude;
+}>;
+
+export class PayoutRepository {
+  private readonly payoutDelegate: Prisma.PayoutDelegate<DefaultArgs>;
+
+  constructor() {
+    this.payoutDelegate = databaseService.payout;
+  }
+
+  /**
+   * Groups every unpaid earning of the marketer that is not already in a payout into a new
+   * payout, in one database transaction. The marketer's bank details are copied onto the
+   * payout so later profile changes do not alter where it was sent.
+   * A payout created as SENT marks its earnings paid straight away.
+   * Resolves with null when the marketer has nothing to pay out.
+   */
+  createForMarketer(data: {
+    marketerId: string;
+    approvedById: string;
+    accountName: string;
+    accountBank: string;
+    accountNumber: string;
+    status: PayoutStatus;
+    bankReference?: string;
+  }): Promise<PayoutWithEarnings | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const payout = await databaseService.$transaction(async (tx) => {
+          const earnings = await tx.marketerEarnings.findMany({
+            where: { marketerId: data.marketerId, paid: false, payoutId: null },
+            select: { id: true, amount: true },
+          });
+          if (earnings.length === 0) return null;
+
+          const sent = data.status === PayoutStatus.SENT;
+          const newPayout = await tx.payout.create({
+            data: {
+              amount: earnings.reduce(
+                (sum, earning) => sum + earning.amount,
+                0
+              ),
+              status: data.status,
+              bankReference: data.bankReference,
+              accountName: data.accountName,
+              accountBank: data.accountBank,
+              accountNumber: data.accountNumber,
+              sentAt: sent ? new Date() : undefined,
+              marketer: { connect: { id: data.marketerId } },
+              approvedBy: { connect: { id: data.approvedById } },
+            },
+          });
+
+          // Only claim rows still free, so a concurrent payout cannot settle them twice
+          const { count } = await tx.marketerEarnings.updateMany({
+            where: {
+              id: { in: earnings.map((earning) => earning.id) },
+              paid: false,
+              payoutId: null,
+            },
+            data: { payoutId: newPayout.id, ...(sent && { paid: true }) },
+          });
+          if (count !== earnings.length) {
+            throw new BadRequestException(ErrorMessages.PAYOUT_IN_PROGRESS);
+          }
+
+          return tx.payout.findUniqueOrThrow({
+            where: { id: newPayout.id },
+            include: payoutDetailInclude,
+          });
+        });
+        resolve(payout);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getPayouts(filters: {
+    status?: PayoutStatus;
+    marketerId?: string;
+  }): Promise<PayoutWithMarketer[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const payouts = await this.payoutDelegate.findMany({
+          where: {
+            ...(filters.status && { status: filters.status }),
+            ...(filters.marketerId && { marketerId: filters.marketerId }),
+          },
+          include: payoutInclude,
+          orderBy: { createdAt: "desc" },
+        });
+        resolve(payouts);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getPayout(id: string): Promise<PayoutWithEarnings | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const payout = await this.payoutDelegate.findUnique({
+          where: { id },
+          include: payoutDetailInclude,
+        });
+        resolve(payout);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Pending payouts not yet sent as a bank transfer, oldest first
+   */
+  getPayoutsToTransfer(limit: number): Promise<Payout[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const payouts = await this.payoutDelegate.findMany({
+          where: { status: PayoutStatus.PENDING, transferReference: null },
+          orderBy: { createdAt: "asc" },
+          take: limit,
+        });
+        resolve(payouts);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Pending payouts whose transfer was started before the given time and has not settled
+   */
+  getStaleTransfers(startedBefore: Date, limit: number): Promise<Payout[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const payouts = await this.payoutDelegate.findMany({
+          where: {
+            status: PayoutStatus.PENDING,
+            transferReference: { not: null },
+            transferInitiatedAt: { lte: startedBefore },
+          },
+          orderBy: { transferInitiatedAt: "asc" },
+          take: limit,
+        });
+        resolve(payouts);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getPayoutByTransferReference(reference: string): Promise<Payout | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const payout = await this.payoutDelegate.findUnique({
+          where: { transferReference: reference },
+        });
+        resolve(payout);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Claims a pending payout for a bank transfer. Resolves with false when the payout
+   * is no longer pending or another run already started its transfer.
+   */
+  startTransfer(
+    id: string,
+    data: {
+      provider: PaymentProvider;
+      transferReference: string;
+      recipientCode: string;
+    }
+  ): Promise<boolean> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const { count } = await this.payoutDelegate.updateMany({
+          where: { id, status: PayoutStatus.PENDING, transferReference: null },
+          data: { ...data, transferInitiatedAt: new Date() },
+        });
+        resolve(count > 0);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  updateTransfer(
+    id: string,
+    data: { transferCode?: string; transferInitiatedAt?: Date }
+  ): Promise<Payout> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const payout = await this.payoutDelegate.update({
+          where: { id },
+          data,
+        });
+        resolve(payout);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Moves a payout in one of the `from` statuses to SENT, marking its earnings paid, or to
+   * FAILED, releasing its earnings unpaid so they are picked up by the marketer's next payout.
+   * A SENT payout only moves to FAILED when its transfer is reversed.
+   */
+  settle(
+    id: string,
+    data:
+      | { status: typeof PayoutStatus.SENT; bankReference?: string }
+      | { status: typeof PayoutStatus.FAILED; failureReason?: string },
+    from: PayoutStatus[] = [PayoutStatus.PENDING]
+  ): Promise<PayoutWithEarnings> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const payout = await databaseService.$transaction(async (tx) => {
+          const now = new Date();
+          const { count } = await tx.payout.updateMany({
+            where: { id, status: { in: from } },
+            data:
+              data.status === PayoutStatus.SENT
+                ? {
+                    status: PayoutStatus.SENT,
+                    bankReference: data.bankReference,
+                    sentAt: now,
+                  }
+                : {
+                    status: PayoutStatus.FAILED,
+                    failureReason: data.failureReason,
+                    failedAt: now,
+                  },
+          });
+          if (count === 0) {
+            throw new BadRequestException(ErrorMessages.PAYOUT_ALREADY_SETTLED);
+          }
+
+          if (data.status === PayoutStatus.SENT) {
+            await tx.marketerEarnings.updateMany({
+              where: { payoutId: id },
+              data: { paid: true },
+            });
+          } else {
+            await tx.marketerEarnings.updateMany({
+              where: { payoutId: id },
+              data: { payoutId: null, paid: false },
+            });
+          }
+
+          return tx.payout.findUniqueOrThrow({
+            where: { id },
+            include: payoutDetailInclude,
+          });
+        });
+        resolve(payout);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+}
@@ -0,0 +1,179 @@
+import { Prisma } from "@prisma/client";
+import { DefaultArgs } from "@prisma/client/runtime/library";
+import { databaseService } from "../utils/database";
+
+const variantInclude = {
+  images: true,
+} satisfies Prisma.ProductVariantInclude;
+
+export type ProductVariantWithImages = Prisma.ProductVariantGetPayload<{
+  include: typeof variantInclude;
+}>;
+
+export class ProductVariantRepository {
+  private readonly productVariantDelegate: Prisma.ProductVariantDelegate<DefaultArgs>;
+
+  constructor() {
+    this.productVariantDelegate = databaseService.productVariant;
+  }
+
+  /**
+   * The product's variants that are still on sale, oldest first
+   */
+  getProductVariants(productId: string): Promise<ProductVariantWithImages[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const variants = await this.productVariantDelegate.findMany({
+          where: { productId, deletedAt: null },
+          include: variantInclude,
+          orderBy: { createdAt: "asc" },
+        });
+        resolve(variants);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getById(id: string): Promise<ProductVariantWithImages | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const variant = await this.productVariantDelegate.findFirst({
+          where: { id, deletedAt: null },
+          include: variantInclude,
+        });
+        resolve(variant);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Adds variants to the product and sets the product's stock to their total
+   */
+  create(
+    productId: string,
+    variants: Prisma.ProductVariantCreateManyProductInput[]
+  ): Promise<ProductVariantWithImages[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const created = await databaseService.$transaction(async (tx) => {
+          await tx.productVariant.createMany({
+            data: variants.map((variant) => ({ ...variant, productId })),
+          });
+          await syncProductStock(tx, productId);
+          return tx.productVariant.findMany({
+            where: { productId, deletedAt: null },
+            include: variantInclude,
+            orderBy: { createdAt: "asc" },
+          });
+        });
+        resolve(created);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  update(
+    id: string,
+    data: Prisma.ProductVariantUpdateInput
+  ): Promise<ProductVariantWithImages> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const variant = await databaseService.$transaction(async (tx) => {
+          const updated = await tx.productVariant.update({
+            where: { id },
+            data,
+            include: variantInclude,
+          });
+          await syncProductStock(tx, updated.productId);
+          return updated;
+        });
+        resolve(variant);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Takes the variant off sale and out of open carts. Ordered variants are kept so past
+   * orders still show what was bought, and the SKU is freed for a new variant.
+   */
+  delete(id: string): Promise<boolean> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        await databaseService.$transaction(async (tx) => {
+          const variant = await tx.productVariant.update({
+            where: { id },
+            data: { deletedAt: new Date(), sku: null },
+          });
+          await tx.cartProduct.deleteMany({
+            where: { variantId: id, orderId: null },
+          });
+          await syncProductStock(tx, variant.productId);
+        });
+        resolve(true);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  addImages(id: string, images: string[]): Promise<ProductVariantWithImages> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const variant = await this.productVariantDelegate.update({
+          where: { id },
+          data: {
+            images: {
+              createMany: {
+                data: images.map((image) => ({ url: image })),
+              },
+            },
+          },
+          include: variantInclude,
+        });
+        resolve(variant);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  removeImage(id: string, imageId: string): Promise<ProductVariantWithImages> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const variant = await this.productVariantDelegate.update({
+          where: { id },
+          data: {
+            images: {
+              delete: { id: imageId },
+            },
+          },
+          include: variantInclude,
+        });
+        resolve(variant);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+}
+
+// A product sold in variants has as much stock as its variants together
+export async function syncProductStock(
+  tx: Prisma.TransactionClient,
+  productId: string
+): Promise<void> {
+  const { _sum } = await tx.productVariant.aggregate({
+    where: { productId, deletedAt: null },
+    _sum: { stock: true },
+  });
+  await tx.product.update({
+    where: { id: productId },
+    data: { stock: _sum.stock ?? 0 },
+  });
+}
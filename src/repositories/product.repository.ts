@@ -2,6 +2,20 @@ import { Prisma, Product, ProductCategory } from "@prisma/client";
 import { DefaultArgs } from "@prisma/client/runtime/library";
 import { databaseService } from "../utils/database";
 
+// Enough of the merchant for listings to show the verified badge
+const merchantBadgeSelect = {
+  id: true,
+  brandName: true,
+  verified: true,
+} satisfies Prisma.MerchantSelect;
+
+// Variants still on sale, each with its own images
+const activeVariants = {
+  where: { deletedAt: null },
+  include: { images: true },
+  orderBy: { createdAt: "asc" },
+} satisfies Prisma.Product$variantsArgs;
+
 interface ProductSearchResult extends Product {
   priority: boolean;
 }
@@ -81,13 +95,7 @@ export class ProductRepository {
             displayImage: true,
             images: true,
             ratings: true,
-            // merchant: {
-            //   include: {
-            //     market: true,
-            //     addresses: true,
-            //     phoneNumbers: true,
-            //   },
-            // },
+            merchant: { select: merchantBadgeSelect },
           },
           orderBy: {
             createdAt: "desc", // Most recent products first
@@ -118,6 +126,7 @@ export class ProductRepository {
           include: {
             displayImage: true,
             images: true,
+            variants: activeVariants,
             ratings: true,
             merchant: {
               include: {
@@ -144,13 +153,7 @@ export class ProductRepository {
             displayImage: true,
             images: true,
             ratings: true,
-            // merchant: {
-            //   include: {
-            //     market: true,
-            //     addresses: true,
-            //     phoneNumbers: true,
-            //   },
-            // },
+            merchant: { select: merchantBadgeSelect },
           },
         });
         resolve(products);
@@ -173,13 +176,7 @@ export class ProductRepository {
             displayImage: true,
             images: true,
             ratings: true,
-            // merchant: {
-            //   include: {
-            //     market: true,
-            //     addresses: true,
-            //     phoneNumbers: true,
-            //   },
-            // },
+            merchant: { select: merchantBadgeSelect },
           },
         });
         resolve(products);
@@ -198,6 +195,7 @@ export class ProductRepository {
           include: {
             displayImage: true,
             images: true,
+            variants: activeVariants,
             ratings: true,
             merchant: {
               include: {
@@ -219,13 +217,19 @@ export class ProductRepository {
     merchantId: string,
     product: Prisma.ProductCreateWithoutMerchantInput,
     displayImage: string,
-    productImages: string[]
+    productImages: string[],
+    variants: Prisma.ProductVariantCreateManyProductInput[] = []
   ): Promise<Product> {
     return new Promise(async (resolve, reject) => {
       try {
         const newProduct = await this.productDelegate.create({
           data: {
             ...product,
+            // A product sold in variants has as much stock as its variants together
+            ...(variants.length > 0 && {
+              stock: variants.reduce((sum, variant) => sum + variant.stock, 0),
+              variants: { createMany: { data: variants } },
+            }),
             merchant: {
               connect: {
                 id: merchantId,
@@ -245,6 +249,7 @@ export class ProductRepository {
           include: {
             displayImage: true,
             images: true,
+            variants: activeVariants,
             ratings: true,
             merchant: {
               include: {
@@ -393,19 +398,23 @@ export class ProductRepository {
             },
             ads: {
               where: {
+                startsAt: { lte: new Date() },
                 expiresAt: { gte: new Date() },
                 paidFor: true,
               },
             },
           },
         });
-        // Prioritize products with ads
+        // Prioritize products with ads, then products from verified merchants
         const sortedProducts = matchingProducts.sort((a, b) => {
           const levelA =
             a.ads.length > 0 ? Math.max(...a.ads.map((ad) => ad.level)) : 0;
           const levelB =
             b.ads.length > 0 ? Math.max(...b.ads.map((ad) => ad.level)) : 0;
-          return levelB - levelA;
+          return (
+            levelB - levelA ||
+            Number(b.merchant.verified) - Number(a.merchant.verified)
+          );
         });
 
         // Add extra "priority" field to products with ads and remove ads from the response
@@ -428,6 +437,7 @@ export class ProductRepository {
       try {
         const ads = await this.adDelegate.findMany({
           where: {
+            startsAt: { lte: new Date() },
             expiresAt: { gte: new Date() },
             paidFor: true,
           },
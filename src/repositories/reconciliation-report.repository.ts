@@ -0,0 +1,49 @@
+import { Prisma, ReconciliationReport } from "@prisma/client";
+import { DefaultArgs } from "@prisma/client/runtime/library";
+import { databaseService } from "../utils/database";
+
+export class ReconciliationReportRepository {
+  private readonly reportDelegate: Prisma.ReconciliationReportDelegate<DefaultArgs>;
+
+  constructor() {
+    this.reportDelegate = databaseService.reconciliationReport;
+  }
+
+  create(
+    data: Prisma.ReconciliationReportCreateInput
+  ): Promise<ReconciliationReport> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const report = await this.reportDelegate.create({ data });
+        resolve(report);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getReports(limit: number): Promise<ReconciliationReport[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const reports = await this.reportDelegate.findMany({
+          orderBy: { startedAt: "desc" },
+          take: limit,
+        });
+        resolve(reports);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getReport(id: string): Promise<ReconciliationReport | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const report = await this.reportDelegate.findUnique({ where: { id } });
+        resolve(report);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+}
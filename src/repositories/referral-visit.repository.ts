@@ -0,0 +1,143 @@
+import {
+  PaymentFor,
+  PaymentStatus,
+  Prisma,
+  ReferralVisit,
+} from "@prisma/client";
+import { DefaultArgs } from "@prisma/client/runtime/library";
+import { databaseService } from "../utils/database";
+
+export interface ReferralFunnelCounts {
+  visits: number;
+  uniqueVisitors: number;
+  signups: number;
+  verified: number;
+  paying: number;
+}
+
+export class ReferralVisitRepository {
+  private readonly referralVisitDelegate: Prisma.ReferralVisitDelegate<DefaultArgs>;
+
+  constructor() {
+    this.referralVisitDelegate = databaseService.referralVisit;
+  }
+
+  create(data: {
+    marketerId: string;
+    fingerprint: string;
+    referer?: string;
+  }): Promise<ReferralVisit> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const visit = await this.referralVisitDelegate.create({
+          data: {
+            fingerprint: data.fingerprint,
+            referer: data.referer,
+            marketer: { connect: { id: data.marketerId } },
+          },
+        });
+        resolve(visit);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * The latest visit since `since` that has not led to a signup yet, matched by visit id
+   * or, when the visit id is missing or unknown, by fingerprint
+   */
+  getLastUnconvertedVisit(filters: {
+    visitId?: string;
+    fingerprint: string;
+    since: Date;
+    marketerId?: string;
+  }): Promise<ReferralVisit | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const where: Prisma.ReferralVisitWhereInput = {
+          merchantId: null,
+          createdAt: { gte: filters.since },
+          ...(filters.marketerId && { marketerId: filters.marketerId }),
+        };
+        const byId = filters.visitId
+          ? await this.referralVisitDelegate.findFirst({
+              where: { ...where, id: filters.visitId },
+            })
+          : null;
+        const visit =
+          byId ??
+          (await this.referralVisitDelegate.findFirst({
+            where: { ...where, fingerprint: filters.fingerprint },
+            orderBy: { createdAt: "desc" },
+          }));
+        resolve(visit);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Attributes the merchant's signup to the visit. Resolves with false when the visit was
+   * already attributed to another signup.
+   */
+  markConverted(id: string, merchantId: string): Promise<boolean> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const { count } = await this.referralVisitDelegate.updateMany({
+          where: { id, merchantId: null },
+          data: { merchantId, convertedAt: new Date() },
+        });
+        resolve(count > 0);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getFunnel(marketerId: string): Promise<ReferralFunnelCounts> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const attributed: Prisma.MerchantWhereInput = {
+          referralVisit: { marketerId },
+        };
+        const [visits, visitors, signups, verified, paying] = await Promise.all(
+          [
+            this.referralVisitDelegate.count({ where: { marketerId } }),
+            this.referralVisitDelegate.groupBy({
+              by: ["fingerprint"],
+              where: { marketerId },
+            }),
+            this.referralVisitDelegate.count({
+              where: { marketerId, merchantId: { not: null } },
+            }),
+            databaseService.merchant.count({
+              where: { ...attributed, emailVerifiedAt: { not: null } },
+            }),
+            databaseService.merchant.count({
+              where: {
+                ...attributed,
+                transactions: {
+                  some: {
+                    for: PaymentFor.ADVERTISEMENT,
+                    status: PaymentStatus.SUCCESS,
+                  },
+                },
+              },
+            }),
+          ]
+        );
+        resolve({
+          visits,
+          uniqueVisitors: visitors.length,
+          signups,
+          verified,
+          paying,
+        });
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+}
@@ -0,0 +1,345 @@
+import {
+  PaymentStatus,
+  Prisma,
+  RefundRequest,
+  RefundRequestStatus,
+} from "@prisma/client";
+import { DefaultArgs } from "@prisma/client/runtime/library";
+import { databaseService } from "../utils/database";
+import { BadRequestException } from "../utils/exceptions/bad-request.exception";
+import { ErrorMessages } from "../constants/error-messages.enum";
+
+const refundRequestInclude = {
+  transaction: true,
+  merchant: {
+    select: {
+      id: true,
+      email: true,
+      brandName: true,
+    },
+  },
+} satisfies Prisma.RefundRequestInclude;
+
+export type RefundRequestWithTransaction = Prisma.RefundRequestGetPayload<{
+  include: typeof refundRequestInclude;
+}>;
+
+/**
+ * Moves what the provider has paid out of `refundPendingAmount` into `refundedAmount` and
+ * marks each payment REFUNDED, or PARTIALLY_REFUNDED when only a share of it was refunded
+ */
+async function settleRefundedPayments(
+  tx: Prisma.TransactionClient,
+  transactionIds: string[]
+) {
+  const transactions = await tx.transaction.findMany({
+    where: { id: { in: transactionIds } },
+    select: {
+      id: true,
+      amount: true,
+      refundedAmount: true,
+      refundPendingAmount: true,
+    },
+  });
+  for (const transaction of transactions) {
+    const refunded =
+      transaction.refundedAmount + transaction.refundPendingAmount;
+    await tx.transaction.update({
+      where: { id: transaction.id },
+      data: {
+        refundedAmount: refunded,
+        refundPendingAmount: 0,
+        status:
+          Math.round(refunded * 100) >= Math.round(transaction.amount * 100)
+            ? PaymentStatus.REFUNDED
+            : PaymentStatus.PARTIALLY_REFUNDED,
+      },
+    });
+  }
+}
+
+export class RefundRequestRepository {
+  private readonly refundRequestDelegate: Prisma.RefundRequestDelegate<DefaultArgs>;
+
+  constructor() {
+    this.refundRequestDelegate = databaseService.refundRequest;
+  }
+
+  create(data: {
+    transactionId: string;
+    merchantId: string;
+    reason: string;
+    amount: number;
+  }): Promise<RefundRequest> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const refundRequest = await this.refundRequestDelegate.create({
+          data: {
+            reason: data.reason,
+            amount: data.amount,
+            transaction: { connect: { id: data.transactionId } },
+            merchant: { connect: { id: data.merchantId } },
+          },
+        });
+        resolve(refundRequest);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * An open refund request for any of the payments, pending or being processed
+   */
+  getPendingForTransactions(
+    transactionIds: string[]
+  ): Promise<RefundRequest | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const refundRequest = await this.refundRequestDelegate.findFirst({
+          where: {
+            transactionId: { in: transactionIds },
+            status: {
+              in: [RefundRequestStatus.PENDING, RefundRequestStatus.PROCESSING],
+            },
+          },
+        });
+        resolve(refundRequest);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getRefundRequest(id: string): Promise<RefundRequestWithTransaction | null> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const refundRequest = await this.refundRequestDelegate.findUnique({
+          where: { id },
+          include: refundRequestInclude,
+        });
+        resolve(refundRequest);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  getRefundRequests(filters: {
+    status?: RefundRequestStatus;
+    merchantId?: string;
+  }): Promise<RefundRequestWithTransaction[]> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const refundRequests = await this.refundRequestDelegate.findMany({
+          where: {
+            ...(filters.status && { status: filters.status }),
+            ...(filters.merchantId && { merchantId: filters.merchantId }),
+          },
+          include: refundRequestInclude,
+          orderBy: { createdAt: "desc" },
+        });
+        resolve(refundRequests);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Moves a pending refund to PROCESSING so only one approval can refund the payment.
+   * Rejects when another admin already claimed or reviewed the request.
+   */
+  claim(id: string, reviewedById: string): Promise<void> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const { count } = await this.refundRequestDelegate.updateMany({
+          where: { id, status: RefundRequestStatus.PENDING },
+          data: {
+            status: RefundRequestStatus.PROCESSING,
+            reviewedById,
+            reviewedAt: new Date(),
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException(
+            ErrorMessages.REFUND_REQUEST_ALREADY_REVIEWED
+          );
+        }
+        resolve();
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Puts a claimed refund back to PENDING after the provider did not refund it
+   */
+  release(id: string): Promise<void> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        await this.refundRequestDelegate.updateMany({
+          where: { id, status: RefundRequestStatus.PROCESSING },
+          data: {
+            status: RefundRequestStatus.PENDING,
+            reviewedById: null,
+            reviewedAt: null,
+          },
+        });
+        resolve();
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Approves a claimed refund in one database transaction: the refunded payments are
+   * marked REFUNDED or PARTIALLY_REFUNDED, the ad is ended now and unpaid marketer earnings
+   * for the payments are removed unless they are already part of a payout.
+   * With `awaitingRefund` the provider has not paid the refund out yet: the ad is still
+   * ended and the earnings reversed, but the request stays PROCESSING and the payments
+   * unchanged until the refund is confirmed.
+   * Resolves with the number of earnings rows reversed.
+   */
+  approve(
+    id: string,
+    data: {
+      reviewedById: string;
+      amount: number;
+      reviewNote?: string;
+      transactionIds: string[];
+      adId: string;
+      // Budget ads: remaining budget taken back off the ad
+      refundedBudget?: number;
+      awaitingRefund?: boolean;
+    }
+  ): Promise<{ refundRequest: RefundRequest; reversedEarnings: number }> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const result = await databaseService.$transaction(async (tx) => {
+          const { count } = await tx.refundRequest.updateMany({
+            where: { id, status: RefundRequestStatus.PROCESSING },
+            data: {
+              ...(data.awaitingRefund
+                ? { awaitingRefund: true }
+                : { status: RefundRequestStatus.APPROVED }),
+              amount: data.amount,
+              reviewNote: data.reviewNote,
+              reviewedById: data.reviewedById,
+              reviewedAt: new Date(),
+            },
+          });
+          if (count === 0) {
+            throw new BadRequestException(
+              ErrorMessages.REFUND_REQUEST_ALREADY_REVIEWED
+            );
+          }
+          if (!data.awaitingRefund) {
+            await settleRefundedPayments(tx, data.transactionIds);
+          }
+          await tx.ad.update({
+            where: { id: data.adId },
+            data: {
+              expiresAt: new Date(),
+              // A refunded ad must not be charged again by auto-renewal
+              autoRenew: false,
+              authorization: { disconnect: true },
+              ...(data.refundedBudget && {
+                budget: { decrement: data.refundedBudget },
+              }),
+            },
+          });
+          const reversed = await tx.marketerEarnings.deleteMany({
+            where: {
+              transactionId: { in: data.transactionIds },
+              paid: false,
+              payoutId: null,
+            },
+          });
+          const refundRequest = await tx.refundRequest.findUniqueOrThrow({
+            where: { id },
+          });
+          return { refundRequest, reversedEarnings: reversed.count };
+        });
+        resolve(result);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Approves a refund that was waiting on the provider once the money has moved, and
+   * settles its payments. Rejects when the request is not waiting on a refund.
+   */
+  confirm(
+    id: string,
+    data: {
+      reviewedById: string;
+      reviewNote?: string;
+      transactionIds: string[];
+    }
+  ): Promise<RefundRequest> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const refundRequest = await databaseService.$transaction(async (tx) => {
+          const { count } = await tx.refundRequest.updateMany({
+            where: {
+              id,
+              status: RefundRequestStatus.PROCESSING,
+              awaitingRefund: true,
+            },
+            data: {
+              status: RefundRequestStatus.APPROVED,
+              awaitingRefund: false,
+              reviewedById: data.reviewedById,
+              reviewedAt: new Date(),
+              ...(data.reviewNote && { reviewNote: data.reviewNote }),
+            },
+          });
+          if (count === 0) {
+            throw new BadRequestException(
+              ErrorMessages.REFUND_NOT_AWAITING_PROVIDER
+            );
+          }
+          await settleRefundedPayments(tx, data.transactionIds);
+          return tx.refundRequest.findUniqueOrThrow({ where: { id } });
+        });
+        resolve(refundRequest);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  reject(
+    id: string,
+    data: { reviewedById: string; reviewNote?: string }
+  ): Promise<RefundRequest> {
+    return new Promise(async (resolve, reject) => {
+      try {
+        const { count } = await this.refundRequestDelegate.updateMany({
+          where: { id, status: RefundRequestStatus.PENDING },
+          data: {
+            status: RefundRequestStatus.REJECTED,
+            reviewNote: data.reviewNote,
+            reviewedById: data.reviewedById,
+            reviewedAt: new Date(),
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException(
+            ErrorMessages.REFUND_REQUEST_ALREADY_REVIEWED
+          );
+        }
+        const refundRequest =
+          await this.refundRequestDelegate.findUniqueOrThrow({ where: { id } });
+        resolve(refundRequest);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+}
@@ -1,6 +1,11 @@
-import { PaymentFor, Prisma, Transaction } from "@prisma/client";
+import { Coupon, PaymentFor, PaymentStatus, Prisma, Transaction } from "@prisma/client";
 import { DefaultArgs } from "@prisma/client/runtime/library";
 import { databaseService } from "../utils/database";
+import { BadRequestException } from "../utils/exceptions/bad-request.exception";
+import { ErrorMessages } from "../constants/error-messages.enum";
+
+// Payments that hold a use of their coupon: paid, or still in progress
+export const COUPON_USE_STATUSES: PaymentStatus[] = [PaymentStatus.INITIALIZED, PaymentStatus.PENDING, PaymentStatus.SUCCESS];
 
 
 export class TransactionRepository {
@@ -23,6 +28,40 @@ export class TransactionRepository {
         });
     }
 
+    /**
+     * Creates a transaction that uses a coupon. The coupon row is locked while its uses are
+     * counted, so concurrent checkouts cannot both take its last use.
+     */
+    createWithCoupon(
+        data: Omit<Prisma.TransactionCreateInput, "merchant" | "coupon">,
+        merchantId: string,
+        coupon: Pick<Coupon, "id" | "maxUses" | "maxUsesPerMerchant">
+    ): Promise<Transaction> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const transaction = await databaseService.$transaction(async (tx) => {
+                    await tx.$queryRaw`SELECT "id" FROM "Coupon" WHERE "id" = ${coupon.id} FOR UPDATE`;
+                    const countUses = (where: Prisma.TransactionWhereInput) =>
+                        tx.transaction.count({ where: { ...where, couponId: coupon.id, status: { in: COUPON_USE_STATUSES } } });
+                    if (
+                        (coupon.maxUses && (await countUses({})) >= coupon.maxUses) ||
+                        (coupon.maxUsesPerMerchant && (await countUses({ merchantId })) >= coupon.maxUsesPerMerchant)
+                    ) {
+                        throw new BadRequestException(ErrorMessages.COUPON_USAGE_LIMIT_REACHED);
+                    }
+                    return tx.transaction.create({ data: {
+                        ...data,
+                        coupon: { connect: { id: coupon.id } },
+                        merchant: { connect: { id: merchantId } }
+                    } });
+                });
+                resolve(transaction);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
     getTransaction(transactionId: string): Promise<Transaction | null> {
         return new Promise(async (resolve, reject) => {
             try {
@@ -56,6 +95,135 @@ export class TransactionRepository {
         });
     }
 
+    /**
+     * Successful payments applied to the ad, newest first. A payment is applied to the ad it
+     * references unless it extended the product's running ad instead.
+     */
+    getAdFundingPayments(adId: string): Promise<Transaction[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const transactions = await this.transactionDelegate.findMany({
+                    where: { appliedAdId: adId, for: PaymentFor.ADVERTISEMENT, status: PaymentStatus.SUCCESS },
+                    orderBy: { date: "desc" }
+                });
+                resolve(transactions);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * Successful ad payments made between `from` and `to`, for the given ads or for all ads
+     */
+    getAdPayments(from: Date, to: Date, adIds?: string[]): Promise<Pick<Transaction, "reference" | "amount" | "date">[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const transactions = await this.transactionDelegate.findMany({
+                    where: {
+                        for: PaymentFor.ADVERTISEMENT,
+                        status: PaymentStatus.SUCCESS,
+                        date: { gte: from, lte: to },
+                        ...(adIds && { reference: { in: adIds } })
+                    },
+                    select: { reference: true, amount: true, date: true }
+                });
+                resolve(transactions);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * Number of paid ad payments, optionally limited to a merchant and/or a coupon.
+     * Refunded payments are only counted when REFUNDED is passed in `statuses`.
+     */
+    countPaidAdPayments(
+        filter: { merchantId?: string; couponId?: string },
+        statuses: PaymentStatus[] = [PaymentStatus.SUCCESS]
+    ): Promise<number> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const count = await this.transactionDelegate.count({
+                    where: {
+                        for: PaymentFor.ADVERTISEMENT,
+                        status: { in: statuses },
+                        ...(filter.merchantId && { merchantId: filter.merchantId }),
+                        ...(filter.couponId && { couponId: filter.couponId })
+                    }
+                });
+                resolve(count);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * Transactions still waiting on the provider (INITIALIZED or PENDING) created before `olderThan`.
+     */
+    getStaleTransactions(olderThan: Date, limit: number): Promise<Transaction[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const transactions = await this.transactionDelegate.findMany({
+                    where: {
+                        status: { in: [PaymentStatus.INITIALIZED, PaymentStatus.PENDING] },
+                        date: { lt: olderThan },
+                        deletedAt: null
+                    },
+                    orderBy: { date: "asc" },
+                    take: limit
+                });
+                resolve(transactions);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * Successful ad payments whose ad activation or earnings did not finish, oldest first
+     */
+    getUnfulfilledPayments(olderThan: Date, limit: number): Promise<Transaction[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const transactions = await this.transactionDelegate.findMany({
+                    where: {
+                        status: PaymentStatus.SUCCESS,
+                        for: PaymentFor.ADVERTISEMENT,
+                        fulfilledAt: null,
+                        updatedAt: { lt: olderThan },
+                        deletedAt: null
+                    },
+                    orderBy: { updatedAt: "asc" },
+                    take: limit
+                });
+                resolve(transactions);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * Atomically moves a transaction to `status` unless it is already in one of `finalStatuses`.
+     * Resolves to false when another request got there first.
+     */
+    transitionStatus(transactionId: string, status: PaymentStatus, finalStatuses: PaymentStatus[]): Promise<boolean> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const { count } = await this.transactionDelegate.updateMany({
+                    where: { id: transactionId, status: { notIn: finalStatuses } },
+                    data: { status }
+                });
+                resolve(count > 0);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
     update(transactionId: string, data: Prisma.TransactionUpdateInput): Promise<Transaction> {
         return new Promise(async (resolve, reject) => {
             try {
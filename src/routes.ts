@@ -9,6 +9,8 @@ import ProductRouter from "./product/product.routes";
 import AdRouter from "./ad/ad.routes";
 import StatsRouter from "./stats/stats.routes";
 import marketerRoutes from "./marketer/marketer.routes";
+import PaymentRouter from "./payment/payment.routes";
+import ReferralRouter from "./marketer/referral/referral.routes";
 
 const router = Router();
 
@@ -38,4 +40,10 @@ router.use("/stats", StatsRouter);
 
 router.use("/marketer", marketerRoutes);
 
+// Marketer Referral Links
+router.use("/r", ReferralRouter);
+
+// Payment Module
+router.use("/payments", PaymentRouter);
+
 export default router;
@@ -1,8 +1,17 @@
 import app from './app';
+import { reconciliationService } from './payment/payment.routes';
+import { adLifecycleService } from './ad/ad.routes';
+import { payoutTransferService } from './marketer/payout/payout.routes';
 
 // Start the server
 const server = app.listen(app.get('port'), async() => {
     console.log(`Server is running on http://localhost:${app.get('port')}`);
+    // Re-verify payments that never got a callback
+    reconciliationService.start();
+    // Expiry emails and auto-renewals
+    adLifecycleService.start();
+    // Marketer payouts sent as bank transfers
+    payoutTransferService.start();
 });
 
-export default server;
\ No newline at end of file
+export default server;
@@ -4,9 +4,13 @@ import { ResponseDto } from "../dtos/response.dto";
 import { ResponseStatus } from "../dtos/interfaces/response.interface";
 import { HttpStatus } from "../constants/http-status.enum";
 import { SuccessMessages } from "../constants/success-messages.enum";
+import { ReconciliationService } from "../payment/reconciliation.service";
 
 export class StatsController {
-  constructor(private readonly statsService: StatsService) {}
+  constructor(
+    private readonly statsService: StatsService,
+    private readonly reconciliationService: ReconciliationService
+  ) {}
 
   getPlatformStats: RequestHandler = async (
     _request: Request,
@@ -97,4 +101,60 @@ export class StatsController {
       next(e);
     }
   };
+
+  getReconciliationReports: RequestHandler = async (
+    _request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.reconciliationService.getReports();
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.RECONCILIATION_REPORTS_FETCH_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  getReconciliationReport: RequestHandler = async (
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.reconciliationService.getReport(
+        request.params.id
+      );
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.RECONCILIATION_REPORTS_FETCH_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
+
+  runReconciliation: RequestHandler = async (
+    _request: Request,
+    response: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await this.reconciliationService.runNow();
+      const resObj = new ResponseDto(
+        ResponseStatus.SUCCESS,
+        SuccessMessages.RECONCILIATION_RUN_SUCCESS,
+        result
+      );
+      return response.status(HttpStatus.OK).send(resObj);
+    } catch (e) {
+      next(e);
+    }
+  };
 }
@@ -11,6 +11,9 @@ import { JWTService } from "../utils/jwt/jwt.service";
 import { ProductRepository } from "../repositories/product.repository";
 import { AdRepository } from "../repositories/ad.repository";
 import { MarketerRepository } from "../repositories/marketer.repository";
+import { reconciliationService } from "../payment/payment.routes";
+import { Validator } from "../utils/middlewares/validator.middleware";
+import { IdDto } from "../dtos/id.dto";
 
 const router = Router();
 
@@ -32,7 +35,11 @@ const statsService = new StatsService(
   marketerRepository,
   logger
 );
-const statsController = new StatsController(statsService);
+const statsController = new StatsController(
+  statsService,
+  reconciliationService
+);
+const validator = new Validator();
 
 const customerAuthGuard = new CustomerAuthGaurd(
   customerRepository,
@@ -75,4 +82,26 @@ router.get(
   statsController.getTotalAds
 );
 
+// Get transaction reconciliation reports
+router.get(
+  "/reconciliation",
+  customerAuthGuard.authorise({ strict: true, role: Role.ADMIN }),
+  statsController.getReconciliationReports
+);
+
+// Run transaction reconciliation now
+router.post(
+  "/reconciliation/run",
+  customerAuthGuard.authorise({ strict: true, role: Role.ADMIN }),
+  statsController.runReconciliation
+);
+
+// Get a transaction reconciliation report
+router.get(
+  "/reconciliation/:id",
+  validator.single(IdDto, "params"),
+  customerAuthGuard.authorise({ strict: true, role: Role.ADMIN }),
+  statsController.getReconciliationReport
+);
+
 export default router;
@@ -2,4 +2,5 @@ export interface CryptoInterface {
     encrypt(data: string): string;
     decrypt(data: string): string;
     random(): string;
+    hash(data: string): string;
   }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { createCipheriv, createDecipheriv, createHash, randomBytes, randomInt } from 'crypto';
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, randomInt } from 'crypto';
 import { configService } from '../config/config.service';
 import { CryptoInterface } from './crypto.interface';
 
@@ -23,6 +23,13 @@ class CryptoService implements CryptoInterface {
         return decrypted;
     }
 
+    /**
+     * One-way keyed hash, for values that must be compared but not stored in the clear
+     */
+    hash(text: string) {
+        return createHmac('sha256', CryptoService.key).update(text).digest('hex');
+    }
+
     random(): string {
       return randomBytes(16).toString();
     }
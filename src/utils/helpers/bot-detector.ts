@@ -0,0 +1,13 @@
+// Crawlers, link previewers, monitoring and scripted HTTP clients
+const BOT_PATTERN =
+  /bot|crawl|spider|slurp|scrape|facebookexternalhit|whatsapp|telegram|preview|headless|phantomjs|selenium|puppeteer|playwright|lighthouse|pingdom|uptime|monitor|curl|wget|python|java\/|go-http-client|okhttp|axios|node-fetch|postman|insomnia|httpclient|libwww/i;
+
+/**
+ * Checks whether a request comes from a known bot or a non-browser client
+ * @param userAgent {string} The User-Agent header
+ * @returns {boolean} true when the user agent is missing or matches a known bot
+ */
+export function isBot(userAgent?: string): boolean {
+  if (!userAgent || !userAgent.trim()) return true;
+  return BOT_PATTERN.test(userAgent);
+}
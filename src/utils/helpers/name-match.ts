@@ -0,0 +1,34 @@
+// Company suffixes registries add or drop at will
+const IGNORED_WORDS = new Set([
+  "LTD",
+  "LIMITED",
+  "NIG",
+  "NIGERIA",
+  "ENTERPRISES",
+  "VENTURES",
+]);
+
+const words = (name: string) =>
+  new Set(
+    name
+      .toUpperCase()
+      .split(/[^A-Z0-9]+/)
+      .filter((word) => word && !IGNORED_WORDS.has(word))
+  );
+
+/**
+ * Scores how closely two names match, in any word order
+ * @param expected {string} The name given by the user
+ * @param actual {string} The name on record
+ * @returns {number} 0 to 100, the share of the longer name's words found in both
+ */
+export function nameMatchScore(expected: string, actual: string): number {
+  const expectedWords = words(expected);
+  const actualWords = words(actual);
+  const longest = Math.max(expectedWords.size, actualWords.size);
+  if (!longest) return 0;
+  const shared = [...expectedWords].filter((word) =>
+    actualWords.has(word)
+  ).length;
+  return Math.round((shared / longest) * 100);
+}
@@ -0,0 +1,111 @@
+interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const DEFAULT_FONT_SIZE = 10;
+
+/**
+ * Builds a plain text PDF using the standard Helvetica fonts, enough for statements and
+ * reports without pulling in a PDF library. Text is laid out top to bottom, and rows of
+ * cells are placed at column offsets measured from the left margin. A new A4 page is
+ * started when the current one is full.
+ * Only Latin-1 characters are supported; anything else is written as "?".
+ */
+export class PdfDocument {
+  private readonly pages: string[][] = [[]];
+  private cursorY = PAGE_HEIGHT - MARGIN;
+
+  get contentWidth(): number {
+    return PAGE_WIDTH - MARGIN * 2;
+  }
+
+  writeLine(text: string, options: PdfTextOptions = {}): this {
+    return this.writeRow([text], [0], options);
+  }
+
+  writeRow(
+    cells: string[],
+    columns: number[],
+    options: PdfTextOptions = {}
+  ): this {
+    const size = options.size || DEFAULT_FONT_SIZE;
+    const lineHeight = Math.ceil(size * 1.4);
+    if (this.cursorY - lineHeight < MARGIN) {
+      this.pages.push([]);
+      this.cursorY = PAGE_HEIGHT - MARGIN;
+    }
+    this.cursorY -= lineHeight;
+
+    const font = options.bold ? "F2" : "F1";
+    const page = this.pages[this.pages.length - 1];
+    cells.forEach((cell, index) => {
+      const x = MARGIN + (columns[index] || 0);
+      page.push(
+        `BT /${font} ${size} Tf ${x} ${this.cursorY} Td (${this.escape(cell)}) Tj ET`
+      );
+    });
+    return this;
+  }
+
+  moveDown(lines: number = 1): this {
+    this.cursorY -= Math.ceil(DEFAULT_FONT_SIZE * 1.4) * lines;
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+    // 1: catalog, 2: page tree, 3-4: fonts, then a page and its content stream per page
+    const pageObjectIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+    objects.push(
+      `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageCount} >>`
+    );
+    objects.push(
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+    );
+    objects.push(
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+    );
+    this.pages.forEach((operations, index) => {
+      const contentId = pageObjectIds[index] + 1;
+      const stream = operations.join("\n");
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+      );
+      objects.push(
+        `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`
+      );
+    });
+
+    let body = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+      offsets.push(Buffer.byteLength(body, "latin1"));
+      body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(body, "latin1");
+    body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    offsets.forEach((offset) => {
+      body += `${String(offset).padStart(10, "0")} 00000 n \n`;
+    });
+    body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(body, "latin1");
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+      .replace(/\\/g, "\\\\")
+      .replace(/\(/g, "\\(")
+      .replace(/\)/g, "\\)");
+  }
+}
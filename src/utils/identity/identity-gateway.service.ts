@@ -0,0 +1,64 @@
+import { MerchantVerificationScope } from "@prisma/client";
+import { IdentityVerifiers } from "../../constants/identity.enum";
+import { configService } from "../config/config.service";
+import { ILogger } from "../logger/logger.interface";
+import { IdentityVerifier } from "./identity-verifier.interface";
+import { LocalIdentityVerifier } from "./verifiers";
+
+export class IdentityGatewayService {
+  private readonly verifiers = new Map<string, IdentityVerifier>();
+
+  constructor(private readonly logger: ILogger) {
+    if (this.localVerifierEnabled) {
+      this.logger.warn(
+        "Local identity verifier enabled, registry checks are simulated"
+      );
+      this.register(new LocalIdentityVerifier(logger));
+    }
+  }
+
+  /**
+   * The stub finds any well-formed number, so it is only available outside production,
+   * when it is the configured verifier or `LOCAL_IDENTITY_VERIFIER_ENABLED` is "true".
+   */
+  private get localVerifierEnabled(): boolean {
+    if (configService.get<string>("NODE_ENV") === "production") return false;
+    return (
+      this.defaultVerifier === IdentityVerifiers.LOCAL ||
+      configService.get<string>("LOCAL_IDENTITY_VERIFIER_ENABLED") === "true"
+    );
+  }
+
+  get localVerifier(): LocalIdentityVerifier | undefined {
+    return this.verifiers.get(IdentityVerifiers.LOCAL) as
+      | LocalIdentityVerifier
+      | undefined;
+  }
+
+  register(verifier: IdentityVerifier) {
+    this.verifiers.set(verifier.name, verifier);
+  }
+
+  /**
+   * Registry set by `IDENTITY_VERIFIER`, "NONE" (the default) turns registry checks off
+   */
+  get defaultVerifier(): string {
+    return configService.get<string>("IDENTITY_VERIFIER", "NONE")!;
+  }
+
+  /**
+   * The configured verifier when it can check the scope, otherwise null and the
+   * document is left to an admin
+   */
+  getVerifier(scope: MerchantVerificationScope): IdentityVerifier | null {
+    if (this.defaultVerifier === "NONE") return null;
+    const verifier = this.verifiers.get(this.defaultVerifier);
+    if (!verifier) {
+      this.logger.warn(
+        `Identity verifier ${this.defaultVerifier} is not available`
+      );
+      return null;
+    }
+    return verifier.scopes.includes(scope) ? verifier : null;
+  }
+}
@@ -0,0 +1,28 @@
+import { MerchantVerificationScope } from "@prisma/client";
+
+export interface IdentityCheck {
+  scope: MerchantVerificationScope;
+  // NIN or CAC registration number
+  idNumber: string;
+  // The name the registry record should carry: the person's name for a NIN,
+  // the business name for a CAC number
+  name: string;
+}
+
+export interface IdentityCheckResult {
+  // False when the registry has no record of the number
+  found: boolean;
+  // 0 to 100, how closely the registry's name matches the expected name
+  matchScore: number;
+  raw: any;
+}
+
+/**
+ * Checks identity numbers against an external registry, such as a Nigerian KYC provider
+ */
+export interface IdentityVerifier {
+  readonly name: string;
+  // Scopes the registry can check
+  readonly scopes: MerchantVerificationScope[];
+  verify(check: IdentityCheck): Promise<IdentityCheckResult>;
+}
@@ -0,0 +1,6 @@
+import { WinstonLogger } from "../logger/winston.logger";
+import { IdentityGatewayService } from "./identity-gateway.service";
+
+export const identityGateway = new IdentityGatewayService(
+  new WinstonLogger("IdentityGatewayService")
+);
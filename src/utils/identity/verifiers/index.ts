@@ -0,0 +1,3 @@
+import LocalIdentityVerifier from "./local.verifier";
+
+export { LocalIdentityVerifier };
@@ -0,0 +1,74 @@
+import { MerchantVerificationScope } from "@prisma/client";
+import { IdentityVerifiers } from "../../../constants/identity.enum";
+import { nameMatchScore } from "../../helpers/name-match";
+import { ILogger } from "../../logger/logger.interface";
+import {
+  IdentityCheck,
+  IdentityCheckResult,
+  IdentityVerifier,
+} from "../identity-verifier.interface";
+
+// NINs are 11 digits, CAC numbers an optional RC, BN or IT prefix and up to 8 digits
+const ID_NUMBER_FORMATS: Partial<Record<MerchantVerificationScope, RegExp>> = {
+  NIN: /^\d{11}$/,
+  CAC: /^(RC|BN|IT)?\d{1,8}$/i,
+};
+
+/**
+ * In-process registry for local development and tests. Nothing leaves the process:
+ * records are added with `register`, and any other well-formed number is found under
+ * the expected name.
+ */
+export default class LocalIdentityVerifier implements IdentityVerifier {
+  readonly name = IdentityVerifiers.LOCAL;
+  readonly scopes = [
+    MerchantVerificationScope.NIN,
+    MerchantVerificationScope.CAC,
+  ];
+  private readonly records = new Map<string, string>();
+
+  constructor(private readonly logger: ILogger) {}
+
+  /**
+   * Adds a registry record, pass null to make the number unknown
+   */
+  register(
+    scope: MerchantVerificationScope,
+    idNumber: string,
+    name: string | null
+  ) {
+    this.records.set(this.key(scope, idNumber), name ?? "");
+    this.logger.info(`Registered local ${scope} record ${idNumber}`);
+  }
+
+  reset() {
+    this.records.clear();
+  }
+
+  async verify(check: IdentityCheck): Promise<IdentityCheckResult> {
+    const format = ID_NUMBER_FORMATS[check.scope];
+    const key = this.key(check.scope, check.idNumber);
+    const name = this.records.has(key)
+      ? this.records.get(key)
+      : format?.test(check.idNumber)
+        ? check.name
+        : "";
+
+    if (!name) {
+      return {
+        found: false,
+        matchScore: 0,
+        raw: { local: true, idNumber: check.idNumber, found: false },
+      };
+    }
+    return {
+      found: true,
+      matchScore: nameMatchScore(check.name, name),
+      raw: { local: true, idNumber: check.idNumber, found: true, name },
+    };
+  }
+
+  private key(scope: MerchantVerificationScope, idNumber: string) {
+    return `${scope}:${idNumber.toUpperCase()}`;
+  }
+}
@@ -30,6 +30,8 @@ export class CustomerAuthGaurd {
       this.strict = options?.strict || false;
       this.id = options?.id || false;
       this.allowUnauthenticated = options?.allowUnauthenticated || false;
+      // Only a customer this guard authenticated is trusted, never one sent in the body
+      if (request.body) delete request.body.customer;
 
       try {
         let customer;
@@ -0,0 +1,62 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { Customer, Role } from "@prisma/client";
+import { WinstonLogger } from "../../logger/winston.logger";
+import { ErrorMessages } from "../../../constants/error-messages.enum";
+import { UnauthorizedException } from "../../exceptions/unauthorized.exception";
+import { MarketerRepository } from "../../../repositories/marketer.repository";
+import { CustomerAuthGaurd } from "./customer.auth.guard";
+
+/**
+ * Marketers sign in with the customer account linked to their marketer profile.
+ * Runs the strict customer guard, then sets `request.body.marketer` to the linked marketer.
+ */
+export class MarketerAuthGaurd {
+  constructor(
+    private readonly marketerRepository: MarketerRepository,
+    private readonly customerAuthGaurd: CustomerAuthGaurd,
+    private readonly logger: WinstonLogger
+  ) {}
+
+  /**
+   * @param options.id Only lets the marketer in `:marketerId` through, admins pass for any marketer
+   */
+  authorise =
+    (options?: { id?: boolean }): RequestHandler =>
+    (request: Request, response: Response, next: NextFunction) => {
+      this.customerAuthGaurd.authorise({ strict: true })(
+        request,
+        response,
+        async (error?: unknown) => {
+          if (error) return next(error);
+          try {
+            const customer: Customer = request.body.customer;
+            const marketer =
+              await this.marketerRepository.getMarketerByCustomerId(
+                customer.id
+              );
+
+            if (options?.id && customer.role === Role.ADMIN) {
+              if (marketer) request.body.marketer = marketer;
+              return next();
+            }
+            if (!marketer) {
+              this.logger.error(ErrorMessages.MARKETER_ACCOUNT_NOT_LINKED);
+              throw new UnauthorizedException(
+                ErrorMessages.MARKETER_ACCOUNT_NOT_LINKED
+              );
+            }
+            // Check for ID Compatibility on ID Level
+            if (options?.id && marketer.id !== request.params.marketerId) {
+              this.logger.error(ErrorMessages.USER_UNAUTHORIZED);
+              throw new UnauthorizedException(ErrorMessages.USER_UNAUTHORIZED);
+            }
+
+            request.body.marketer = marketer;
+            next();
+          } catch (error) {
+            next(error);
+          }
+        }
+      );
+    };
+}
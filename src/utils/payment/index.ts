@@ -0,0 +1,6 @@
+import { WinstonLogger } from "../logger/winston.logger";
+import { PaymentGatewayService } from "./payment-gateway.service";
+
+export const paymentGateway = new PaymentGatewayService(
+  new WinstonLogger("PaymentGatewayService")
+);
@@ -0,0 +1,81 @@
+import { PaymentProvider } from "@prisma/client";
+import { ErrorMessages } from "../../constants/error-messages.enum";
+import { configService } from "../config/config.service";
+import { BadRequestException } from "../exceptions/bad-request.exception";
+import { ILogger } from "../logger/logger.interface";
+import { IPaymentProvider } from "./payment-provider.interface";
+import {
+  FakePaymentProvider,
+  PaystackProvider,
+  QuickTellerProvider,
+} from "./providers";
+
+export class PaymentGatewayService {
+  private readonly providers = new Map<PaymentProvider, IPaymentProvider>();
+
+  constructor(private readonly logger: ILogger) {
+    this.register(new PaystackProvider(logger));
+    this.register(new QuickTellerProvider(logger));
+    if (this.fakePaymentsEnabled) {
+      this.logger.warn("Fake payment provider enabled, payments are simulated");
+      this.register(new FakePaymentProvider(logger));
+    }
+  }
+
+  /**
+   * The fake provider is only available outside production, when it is the
+   * configured provider or `FAKE_PAYMENTS_ENABLED` is "true".
+   */
+  private get fakePaymentsEnabled(): boolean {
+    if (configService.get<string>("NODE_ENV") === "production") return false;
+    return (
+      this.defaultProvider === PaymentProvider.FAKE ||
+      configService.get<string>("FAKE_PAYMENTS_ENABLED") === "true"
+    );
+  }
+
+  get fakeProvider(): FakePaymentProvider | undefined {
+    return this.providers.get(PaymentProvider.FAKE) as
+      | FakePaymentProvider
+      | undefined;
+  }
+
+  register(provider: IPaymentProvider) {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Provider used when a payment does not ask for one.
+   * Set `PAYMENT_PROVIDER` to switch providers during an outage.
+   */
+  get defaultProvider(): PaymentProvider {
+    return configService.get<PaymentProvider>(
+      "PAYMENT_PROVIDER",
+      PaymentProvider.PAYSTACK
+    )!;
+  }
+
+  getProvider(name: PaymentProvider = this.defaultProvider): IPaymentProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      this.logger.warn(
+        `${ErrorMessages.PAYMENT_PROVIDER_NOT_SUPPORTED}: ${name}`
+      );
+      throw new BadRequestException(
+        ErrorMessages.PAYMENT_PROVIDER_NOT_SUPPORTED
+      );
+    }
+    return provider;
+  }
+
+  /**
+   * Provider that sends marketer payouts as bank transfers. Only Paystack supports
+   * transfers; the fake provider stands in for it when it is the configured provider.
+   */
+  getTransferProvider(): IPaymentProvider {
+    if (this.defaultProvider === PaymentProvider.FAKE && this.fakeProvider) {
+      return this.fakeProvider;
+    }
+    return this.getProvider(PaymentProvider.PAYSTACK);
+  }
+}
@@ -0,0 +1,103 @@
+import { PaymentProvider, PaymentStatus } from "@prisma/client";
+
+export interface PaymentInitialization {
+  provider: PaymentProvider;
+  reference: string;
+  // Parameters the frontend passes to the provider's inline checkout
+  checkout: { [key: string]: any };
+}
+
+// Card details a provider returns with a successful payment, for charging the card again
+export interface ReusableAuthorization {
+  authorizationCode: string;
+  signature: string;
+  last4: string;
+  cardType?: string;
+  bank?: string;
+  expMonth: string;
+  expYear: string;
+}
+
+export interface PaymentVerification {
+  status: PaymentStatus;
+  // Amount in naira
+  amount: number;
+  reference: string;
+  // Set when the payment left a card that can be charged again
+  authorization?: ReusableAuthorization;
+  // The provider's reason for a declined charge
+  message?: string;
+  raw: any;
+}
+
+export interface PaymentRefund {
+  status: "processed" | "pending" | "failed";
+  // Amount in naira
+  amount: number;
+  reference: string;
+  raw: any;
+}
+
+export interface BankAccount {
+  accountName: string;
+  accountNumber: string;
+  // Bank name or the provider's bank code
+  bank: string;
+}
+
+// An account as the provider's bank lookup resolved it
+export interface ResolvedBankAccount {
+  accountName: string;
+  accountNumber: string;
+  bankCode: string;
+}
+
+export interface TransferResult {
+  status: "success" | "pending" | "failed";
+  reference: string;
+  transferCode?: string;
+  // The bank's session id, once the transfer has gone through
+  bankReference?: string;
+  // The provider's reason for a failed transfer
+  message?: string;
+  raw: any;
+}
+
+export interface IPaymentProvider {
+  readonly name: PaymentProvider;
+  initializePayment(
+    transactionId: string,
+    amount: number,
+    email: string
+  ): Promise<PaymentInitialization>;
+  verifyPayment(
+    reference: string,
+    amount: number
+  ): Promise<PaymentVerification | null>;
+  refundPayment(
+    reference: string,
+    amount: number
+  ): Promise<PaymentRefund | null>;
+  // Charges a saved card without the customer, only for providers that support it
+  chargeAuthorization?(
+    transactionId: string,
+    amount: number,
+    email: string,
+    authorizationCode: string
+  ): Promise<PaymentVerification | null>;
+  // Bank transfers out of the provider balance, only for providers that support them.
+  // Resolves null when the bank or account does not exist
+  resolveBankAccount?(
+    account: BankAccount
+  ): Promise<ResolvedBankAccount | null>;
+  createTransferRecipient?(
+    account: ResolvedBankAccount
+  ): Promise<string | null>;
+  initiateTransfer?(
+    reference: string,
+    amount: number,
+    recipientCode: string,
+    reason: string
+  ): Promise<TransferResult | null>;
+  verifyTransfer?(reference: string): Promise<TransferResult | null>;
+}
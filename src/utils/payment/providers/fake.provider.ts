@@ -0,0 +1,345 @@
+import { PaymentProvider, PaymentStatus } from "@prisma/client";
+import { configService } from "../../config/config.service";
+import { ILogger } from "../../logger/logger.interface";
+import {
+  BankAccount,
+  IPaymentProvider,
+  PaymentInitialization,
+  PaymentRefund,
+  PaymentVerification,
+  ResolvedBankAccount,
+  ReusableAuthorization,
+  TransferResult,
+} from "../payment-provider.interface";
+import {
+  FakePaymentOutcomes,
+  PaystackEvents,
+} from "../../../constants/payment.enum";
+import { PaystackWebhookEvent } from "../../../payment/dtos/paystack-webhook.dto";
+
+export interface FakePaymentScript {
+  outcome: FakePaymentOutcomes;
+  // How long a DELAYED payment stays pending
+  delayMs: number;
+  // Amount in naira the "customer" pays, defaults to the transaction amount
+  amount?: number;
+  scriptedAt: number;
+}
+
+export type FakeWebhookHandler = (event: PaystackWebhookEvent) => Promise<void>;
+
+/**
+ * In-process payment provider for local development and tests.
+ * Nothing leaves the process: outcomes are scripted per reference and webhook
+ * callbacks are delivered straight to the registered handler in Paystack's event shape.
+ */
+export default class FakePaymentProvider implements IPaymentProvider {
+  readonly name = PaymentProvider.FAKE;
+  private readonly scripts = new Map<string, FakePaymentScript>();
+  private readonly payments = new Map<string, number>();
+  // Amounts of transfers sent, by reference
+  private readonly transfers = new Map<string, number>();
+  private webhookHandler?: FakeWebhookHandler;
+
+  constructor(private readonly logger: ILogger) {}
+
+  private get defaultOutcome(): FakePaymentOutcomes {
+    return configService.get<FakePaymentOutcomes>(
+      "FAKE_PAYMENT_OUTCOME",
+      FakePaymentOutcomes.SUCCESS
+    )!;
+  }
+
+  private get defaultDelayMs(): number {
+    return Number(configService.get<string>("FAKE_PAYMENT_DELAY_MS", "30000"));
+  }
+
+  /**
+   * Sets the outcome of the payment with the given reference.
+   * When `webhook` is set the matching webhook is delivered once the payment settles.
+   */
+  script(
+    reference: string,
+    outcome: FakePaymentOutcomes,
+    options: { delayMs?: number; amount?: number; webhook?: boolean } = {}
+  ): FakePaymentScript {
+    const script: FakePaymentScript = {
+      outcome,
+      delayMs: options.delayMs ?? this.defaultDelayMs,
+      amount: options.amount,
+      scriptedAt: Date.now(),
+    };
+    this.scripts.set(reference, script);
+    this.logger.info(`Scripted fake payment ${reference}: ${outcome}`);
+
+    if (options.webhook) {
+      const wait = outcome === FakePaymentOutcomes.DELAYED ? script.delayMs : 0;
+      setTimeout(() => {
+        this.fireWebhook(reference).catch((error) =>
+          this.logger.error(`Fake webhook for ${reference} failed`, error)
+        );
+      }, wait).unref();
+    }
+    return script;
+  }
+
+  onWebhook(handler: FakeWebhookHandler) {
+    this.webhookHandler = handler;
+  }
+
+  reset() {
+    this.scripts.clear();
+    this.payments.clear();
+    this.transfers.clear();
+  }
+
+  async initializePayment(
+    transactionId: string,
+    amount: number,
+    email: string
+  ): Promise<PaymentInitialization> {
+    const reference = `txn-${transactionId}`;
+    this.payments.set(reference, amount);
+    return {
+      provider: this.name,
+      reference,
+      checkout: {
+        reference,
+        amount: amount * 100, // Convert to kobo, same as Paystack
+        currency: "NGN",
+        email,
+      },
+    };
+  }
+
+  async verifyPayment(
+    reference: string,
+    amount: number
+  ): Promise<PaymentVerification | null> {
+    const script = this.getScript(reference);
+    const status = this.resolveStatus(script);
+    return {
+      status,
+      amount: script.amount ?? this.payments.get(reference) ?? amount,
+      reference,
+      ...(status === PaymentStatus.SUCCESS && {
+        authorization: this.fakeAuthorization(reference),
+      }),
+      ...(status === PaymentStatus.FAILED && { message: "Declined" }),
+      raw: { fake: true, outcome: script.outcome, status },
+    };
+  }
+
+  /**
+   * Charges follow the script of their reference like checkout payments do
+   */
+  async chargeAuthorization(
+    transactionId: string,
+    amount: number
+  ): Promise<PaymentVerification | null> {
+    const reference = `txn-${transactionId}`;
+    this.payments.set(reference, amount);
+    return this.verifyPayment(reference, amount);
+  }
+
+  async refundPayment(
+    reference: string,
+    amount: number
+  ): Promise<PaymentRefund | null> {
+    return {
+      status: "processed",
+      amount,
+      reference,
+      raw: { fake: true },
+    };
+  }
+
+  // Every account resolves to the name it is held under
+  async resolveBankAccount(
+    account: BankAccount
+  ): Promise<ResolvedBankAccount | null> {
+    return {
+      accountName: account.accountName,
+      accountNumber: account.accountNumber,
+      bankCode: "000",
+    };
+  }
+
+  async createTransferRecipient(
+    account: ResolvedBankAccount
+  ): Promise<string | null> {
+    return `RCP_fake_${account.accountNumber}`;
+  }
+
+  /**
+   * Transfers follow the script of their reference. They are accepted as pending and
+   * the transfer webhook is delivered once the script settles, like Paystack does.
+   */
+  async initiateTransfer(
+    reference: string,
+    amount: number
+  ): Promise<TransferResult | null> {
+    this.transfers.set(reference, amount);
+    const script = this.getScript(reference);
+    const wait =
+      script.outcome === FakePaymentOutcomes.DELAYED ? script.delayMs : 0;
+    setTimeout(() => {
+      this.fireWebhook(reference).catch((error) =>
+        this.logger.error(
+          `Fake transfer webhook for ${reference} failed`,
+          error
+        )
+      );
+    }, wait).unref();
+    return {
+      status: "pending",
+      reference,
+      transferCode: `TRF_${reference}`,
+      raw: { fake: true, outcome: script.outcome },
+    };
+  }
+
+  async verifyTransfer(reference: string): Promise<TransferResult | null> {
+    if (!this.transfers.has(reference)) return null;
+    const script = this.getScript(reference);
+    const status = this.resolveStatus(script);
+    return {
+      status:
+        status === PaymentStatus.SUCCESS
+          ? "success"
+          : status === PaymentStatus.FAILED
+            ? "failed"
+            : "pending",
+      reference,
+      transferCode: `TRF_${reference}`,
+      ...(status === PaymentStatus.SUCCESS && {
+        bankReference: `FAKE-${reference}`,
+      }),
+      ...(status === PaymentStatus.FAILED && { message: "Transfer failed" }),
+      raw: { fake: true, outcome: script.outcome, status },
+    };
+  }
+
+  /**
+   * Delivers the webhook for the payment's or transfer's current status.
+   * Returns false when there is nothing to send yet (abandoned or still pending),
+   * mirroring Paystack which only sends events for settled charges and transfers.
+   */
+  async fireWebhook(reference: string): Promise<boolean> {
+    if (!this.webhookHandler) {
+      this.logger.warn(`No fake webhook handler registered for ${reference}`);
+      return false;
+    }
+    if (this.transfers.has(reference)) {
+      return this.fireTransferWebhook(reference);
+    }
+    const script = this.getScript(reference);
+    const status = this.resolveStatus(script);
+    if (status !== PaymentStatus.SUCCESS && status !== PaymentStatus.FAILED)
+      return false;
+
+    const amount = script.amount ?? this.payments.get(reference) ?? 0;
+    await this.webhookHandler({
+      event:
+        status === PaymentStatus.SUCCESS
+          ? PaystackEvents.CHARGE_SUCCESS
+          : PaystackEvents.CHARGE_FAILED,
+      data: {
+        reference,
+        status: status === PaymentStatus.SUCCESS ? "success" : "failed",
+        amount: Math.round(amount * 100), // Convert to kobo
+        currency: "NGN",
+        ...(status === PaymentStatus.SUCCESS && {
+          authorization: this.toPaystackAuthorization(
+            this.fakeAuthorization(reference)
+          ),
+        }),
+      },
+    });
+    return true;
+  }
+
+  private async fireTransferWebhook(reference: string): Promise<boolean> {
+    const script = this.getScript(reference);
+    const status = this.resolveStatus(script);
+    if (status !== PaymentStatus.SUCCESS && status !== PaymentStatus.FAILED)
+      return false;
+
+    const event =
+      script.outcome === FakePaymentOutcomes.REVERSED
+        ? PaystackEvents.TRANSFER_REVERSED
+        : status === PaymentStatus.SUCCESS
+          ? PaystackEvents.TRANSFER_SUCCESS
+          : PaystackEvents.TRANSFER_FAILED;
+    await this.webhookHandler!({
+      event,
+      data: {
+        reference,
+        status: event.replace("transfer.", ""),
+        amount: Math.round((this.transfers.get(reference) ?? 0) * 100), // Convert to kobo
+        currency: "NGN",
+        transfer_code: `TRF_${reference}`,
+        session: { provider: "NIP", id: `FAKE-${reference}` },
+        ...(status === PaymentStatus.FAILED && { reason: "Transfer failed" }),
+      },
+    });
+    return true;
+  }
+
+  // Every fake payment is made with the same test card
+  private fakeAuthorization(reference: string): ReusableAuthorization {
+    return {
+      authorizationCode: `AUTH_${reference}`,
+      signature: "SIG_fake_card",
+      last4: "4081",
+      cardType: "visa",
+      bank: "Fake Bank",
+      expMonth: "12",
+      expYear: "2030",
+    };
+  }
+
+  private toPaystackAuthorization(card: ReusableAuthorization) {
+    return {
+      authorization_code: card.authorizationCode,
+      signature: card.signature,
+      last4: card.last4,
+      card_type: card.cardType,
+      bank: card.bank,
+      exp_month: card.expMonth,
+      exp_year: card.expYear,
+      reusable: true,
+    };
+  }
+
+  private getScript(reference: string): FakePaymentScript {
+    let script = this.scripts.get(reference);
+    if (!script) {
+      script = {
+        outcome: this.defaultOutcome,
+        delayMs: this.defaultDelayMs,
+        scriptedAt: Date.now(),
+      };
+      this.scripts.set(reference, script);
+    }
+    return script;
+  }
+
+  private resolveStatus(script: FakePaymentScript): PaymentStatus {
+    switch (script.outcome) {
+      case FakePaymentOutcomes.SUCCESS:
+        return PaymentStatus.SUCCESS;
+      case FakePaymentOutcomes.FAILED:
+      case FakePaymentOutcomes.REVERSED:
+        return PaymentStatus.FAILED;
+      case FakePaymentOutcomes.ABANDONED:
+        return PaymentStatus.INCOMPLETE;
+      case FakePaymentOutcomes.DELAYED:
+        return Date.now() - script.scriptedAt >= script.delayMs
+          ? PaymentStatus.SUCCESS
+          : PaymentStatus.PENDING;
+      default:
+        return PaymentStatus.FAILED;
+    }
+  }
+}
@@ -0,0 +1,5 @@
+import PaystackProvider from "./paystack.provider";
+import QuickTellerProvider from "./quickteller.provider";
+import FakePaymentProvider from "./fake.provider";
+
+export { PaystackProvider, QuickTellerProvider, FakePaymentProvider };
@@ -0,0 +1,295 @@
+import axios from "axios";
+import { PaymentProvider, PaymentStatus } from "@prisma/client";
+import { configService } from "../../config/config.service";
+import { ILogger } from "../../logger/logger.interface";
+import {
+  BankAccount,
+  IPaymentProvider,
+  PaymentInitialization,
+  PaymentRefund,
+  PaymentVerification,
+  ResolvedBankAccount,
+  ReusableAuthorization,
+  TransferResult,
+} from "../payment-provider.interface";
+import { PaystackRequest } from "../../../ad/dtos/paystack-request.dto";
+
+const PaystackStatuses: { [status: string]: PaymentStatus } = {
+  success: PaymentStatus.SUCCESS,
+  failed: PaymentStatus.FAILED,
+  reversed: PaymentStatus.FAILED,
+  abandoned: PaymentStatus.INCOMPLETE,
+  ongoing: PaymentStatus.PENDING,
+  pending: PaymentStatus.PENDING,
+  processing: PaymentStatus.PENDING,
+  queued: PaymentStatus.PENDING,
+};
+
+const PaystackTransferStatuses: { [status: string]: TransferResult["status"] } =
+  {
+    success: "success",
+    failed: "failed",
+    reversed: "failed",
+    abandoned: "failed",
+    rejected: "failed",
+    blocked: "failed",
+    // Transfers needing an OTP cannot be finalized unattended, OTP must be disabled on the dashboard
+    otp: "failed",
+  };
+
+/**
+ * The card from a Paystack transaction's `authorization` object, when it can be charged again
+ */
+export const toReusableAuthorization = (
+  authorization: any
+): ReusableAuthorization | undefined => {
+  if (!authorization?.reusable || !authorization.authorization_code) return;
+  return {
+    authorizationCode: authorization.authorization_code,
+    signature: authorization.signature,
+    last4: authorization.last4,
+    cardType: authorization.card_type,
+    bank: authorization.bank,
+    expMonth: authorization.exp_month,
+    expYear: authorization.exp_year,
+  };
+};
+
+export default class PaystackProvider implements IPaymentProvider {
+  readonly name = PaymentProvider.PAYSTACK;
+  private readonly BASE_URL = "https://api.paystack.co";
+  private readonly SECRET_KEY: string;
+  private banks?: { name: string; code: string }[];
+
+  constructor(private readonly logger: ILogger) {
+    this.SECRET_KEY = configService.get<string>("PAYSTACK_SECRET_KEY")!;
+  }
+
+  private get headers() {
+    return {
+      Authorization: `Bearer ${this.SECRET_KEY}`,
+      "Content-Type": "application/json",
+    };
+  }
+
+  async initializePayment(
+    transactionId: string,
+    amount: number,
+    email: string
+  ): Promise<PaymentInitialization> {
+    // Payment is initialized from the frontend with Paystack's inline checkout
+    const checkout = new PaystackRequest(transactionId, amount, email);
+    return {
+      provider: this.name,
+      reference: checkout.reference,
+      checkout,
+    };
+  }
+
+  async verifyPayment(reference: string): Promise<PaymentVerification | null> {
+    try {
+      const response = await axios.get(
+        `${this.BASE_URL}/transaction/verify/${reference}`,
+        { headers: this.headers }
+      );
+      const data = response.data?.data;
+      if (!data) return null;
+      return {
+        status: PaystackStatuses[data.status] || PaymentStatus.PENDING,
+        amount: data.amount / 100, // Convert from kobo
+        reference,
+        authorization: toReusableAuthorization(data.authorization),
+        raw: response.data,
+      };
+    } catch (error) {
+      this.logger.error("Error verifying Paystack payment", error);
+      return null;
+    }
+  }
+
+  async chargeAuthorization(
+    transactionId: string,
+    amount: number,
+    email: string,
+    authorizationCode: string
+  ): Promise<PaymentVerification | null> {
+    const reference = `txn-${transactionId}`;
+    try {
+      const response = await axios.post(
+        `${this.BASE_URL}/transaction/charge_authorization`,
+        {
+          authorization_code: authorizationCode,
+          email,
+          amount: Math.round(amount * 100), // Convert to kobo
+          reference,
+        },
+        { headers: this.headers }
+      );
+      const data = response.data?.data;
+      if (!data) return null;
+      return {
+        status: PaystackStatuses[data.status] || PaymentStatus.PENDING,
+        amount: data.amount / 100, // Convert from kobo
+        reference,
+        message: data.gateway_response,
+        raw: response.data,
+      };
+    } catch (error) {
+      this.logger.error("Error charging Paystack authorization", error);
+      return null;
+    }
+  }
+
+  async refundPayment(
+    reference: string,
+    amount: number
+  ): Promise<PaymentRefund | null> {
+    try {
+      const response = await axios.post(
+        `${this.BASE_URL}/refund`,
+        {
+          transaction: reference,
+          amount: Math.round(amount * 100), // Convert to kobo
+        },
+        { headers: this.headers }
+      );
+      const data = response.data?.data;
+      return {
+        status: data?.status === "processed" ? "processed" : "pending",
+        amount,
+        reference,
+        raw: response.data,
+      };
+    } catch (error) {
+      this.logger.error("Error refunding Paystack payment", error);
+      return null;
+    }
+  }
+
+  async resolveBankAccount(
+    account: BankAccount
+  ): Promise<ResolvedBankAccount | null> {
+    const bankCode = await this.getBankCode(account.bank);
+    if (!bankCode) return null;
+    try {
+      const response = await axios.get(`${this.BASE_URL}/bank/resolve`, {
+        headers: this.headers,
+        params: { account_number: account.accountNumber, bank_code: bankCode },
+      });
+      const data = response.data?.data;
+      if (!data) return null;
+      return {
+        accountName: data.account_name,
+        accountNumber: data.account_number,
+        bankCode,
+      };
+    } catch (error) {
+      // Paystack answers 422 when the account does not exist at the bank
+      const status = axios.isAxiosError(error) && error.response?.status;
+      if (status === 400 || status === 404 || status === 422) return null;
+      this.logger.error("Error resolving bank account with Paystack", error);
+      throw error;
+    }
+  }
+
+  async createTransferRecipient(
+    account: ResolvedBankAccount
+  ): Promise<string | null> {
+    try {
+      const response = await axios.post(
+        `${this.BASE_URL}/transferrecipient`,
+        {
+          type: "nuban",
+          name: account.accountName,
+          account_number: account.accountNumber,
+          bank_code: account.bankCode,
+          currency: "NGN",
+        },
+        { headers: this.headers }
+      );
+      return response.data?.data?.recipient_code || null;
+    } catch (error) {
+      this.logger.error("Error creating Paystack transfer recipient", error);
+      return null;
+    }
+  }
+
+  async initiateTransfer(
+    reference: string,
+    amount: number,
+    recipientCode: string,
+    reason: string
+  ): Promise<TransferResult | null> {
+    try {
+      const response = await axios.post(
+        `${this.BASE_URL}/transfer`,
+        {
+          source: "balance",
+          amount: Math.round(amount * 100), // Convert to kobo
+          recipient: recipientCode,
+          reference,
+          reason,
+        },
+        { headers: this.headers }
+      );
+      const data = response.data?.data;
+      if (!data) return null;
+      return this.toTransferResult(reference, data, response.data);
+    } catch (error) {
+      this.logger.error("Error initiating Paystack transfer", error);
+      return null;
+    }
+  }
+
+  async verifyTransfer(reference: string): Promise<TransferResult | null> {
+    try {
+      const response = await axios.get(
+        `${this.BASE_URL}/transfer/verify/${reference}`,
+        { headers: this.headers }
+      );
+      const data = response.data?.data;
+      if (!data) return null;
+      return this.toTransferResult(reference, data, response.data);
+    } catch (error) {
+      this.logger.error("Error verifying Paystack transfer", error);
+      return null;
+    }
+  }
+
+  private toTransferResult(
+    reference: string,
+    data: any,
+    raw: any
+  ): TransferResult {
+    return {
+      status: PaystackTransferStatuses[data.status] || "pending",
+      reference,
+      transferCode: data.transfer_code,
+      bankReference: data.session?.id || undefined,
+      message: data.status === "otp" ? "Transfer requires an OTP" : data.reason,
+      raw,
+    };
+  }
+
+  /**
+   * Paystack's code for a bank given by code or by name, ignoring case and punctuation
+   */
+  private async getBankCode(bank: string): Promise<string | undefined> {
+    if (!this.banks) {
+      const response = await axios.get(`${this.BASE_URL}/bank`, {
+        headers: this.headers,
+        params: { currency: "NGN" },
+      });
+      this.banks = (response.data?.data || []).map((item: any) => ({
+        name: item.name,
+        code: item.code,
+      }));
+    }
+    const normalise = (name: string) =>
+      name.toLowerCase().replace(/[^a-z0-9]/g, "");
+    const wanted = normalise(bank);
+    return this.banks!.find(
+      (item) => item.code === bank.trim() || normalise(item.name) === wanted
+    )?.code;
+  }
+}
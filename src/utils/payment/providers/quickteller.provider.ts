@@ -0,0 +1,95 @@
+import axios from "axios";
+import { PaymentProvider, PaymentStatus } from "@prisma/client";
+import { configService } from "../../config/config.service";
+import { ILogger } from "../../logger/logger.interface";
+import {
+  IPaymentProvider,
+  PaymentInitialization,
+  PaymentRefund,
+  PaymentVerification,
+} from "../payment-provider.interface";
+import { QuickTellerRequest } from "../../../ad/dtos/quickTeller-request.dto";
+
+// Interswitch response codes, see the WebPAY transaction requery docs
+const QuickTellerStatuses: { [code: string]: PaymentStatus } = {
+  "00": PaymentStatus.SUCCESS,
+  "09": PaymentStatus.PENDING,
+  Z0: PaymentStatus.PENDING,
+  Z6: PaymentStatus.INCOMPLETE,
+};
+
+export default class QuickTellerProvider implements IPaymentProvider {
+  readonly name = PaymentProvider.QUICKTELLER;
+  private readonly BASE_URL: string;
+  private readonly MERCHANT_CODE: string;
+
+  constructor(private readonly logger: ILogger) {
+    this.BASE_URL = configService.get<string>(
+      "QUICKTELLER_BASE_URL",
+      "https://qa.interswitchng.com"
+    )!;
+    this.MERCHANT_CODE = configService.get<string>(
+      "QUICKTELLER_MERCHANT_CODE"
+    )!;
+  }
+
+  async initializePayment(
+    transactionId: string,
+    amount: number
+  ): Promise<PaymentInitialization> {
+    // Payment is initialized from the frontend with Interswitch's inline checkout
+    const checkout = new QuickTellerRequest(transactionId, amount);
+    return {
+      provider: this.name,
+      reference: checkout.txn_ref,
+      checkout,
+    };
+  }
+
+  async verifyPayment(
+    reference: string,
+    amount: number
+  ): Promise<PaymentVerification | null> {
+    try {
+      const response = await axios.get(
+        `${this.BASE_URL}/collections/api/v1/gettransaction.json`,
+        {
+          params: {
+            merchantcode: this.MERCHANT_CODE,
+            transactionreference: reference,
+            amount: Math.round(amount * 100), // Convert to kobo
+          },
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+      const data = response.data;
+      if (!data || !data.ResponseCode) return null;
+      return {
+        status: QuickTellerStatuses[data.ResponseCode] || PaymentStatus.FAILED,
+        amount: Number(data.Amount) / 100, // Convert from kobo
+        reference,
+        raw: data,
+      };
+    } catch (error) {
+      this.logger.error("Error verifying QuickTeller payment", error);
+      return null;
+    }
+  }
+
+  async refundPayment(
+    reference: string,
+    amount: number
+  ): Promise<PaymentRefund | null> {
+    // Interswitch WebPAY has no self-service refund API for our account type,
+    // refunds are raised from the Quickteller Business dashboard
+    this.logger.warn(
+      `QuickTeller refund of ${amount} for ${reference} must be completed from the Quickteller dashboard`
+    );
+    return {
+      status: "pending",
+      amount,
+      reference,
+      raw: null,
+    };
+  }
+}
@@ -0,0 +1,105 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import { AdType } from "@prisma/client";
+import { AdAnalyticsService } from "../../src/ad/analytics/analytics.service";
+import { createMockLogger } from "./mocks/mock-logger";
+
+describe("AdAnalyticsService platform levels", () => {
+  const adRepository = {
+    getAdsRunningBetween: jest.fn(),
+    getLevelTotals: jest.fn(),
+  };
+  const adEventRepository = { getEvents: jest.fn() };
+  const transactionRepository = { getAdPayments: jest.fn() };
+  const cartProductRepository = { getAdditions: jest.fn() };
+  const service = new AdAnalyticsService(
+    adRepository as any,
+    adEventRepository as any,
+    transactionRepository as any,
+    cartProductRepository as any,
+    createMockLogger()
+  );
+  const range = { from: "2026-10-01", to: "2026-10-10" };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    adRepository.getAdsRunningBetween.mockResolvedValue([]);
+    adRepository.getLevelTotals.mockResolvedValue([
+      {
+        type: AdType.DURATION,
+        level: 2,
+        ads: 2,
+        views: 400,
+        clicks: 10,
+        spend: 9000,
+        cartAdditions: 0,
+      },
+      {
+        type: AdType.BUDGET,
+        level: 1,
+        ads: 1,
+        views: 0,
+        clicks: 0,
+        spend: 0,
+        cartAdditions: 0,
+      },
+      {
+        type: AdType.DURATION,
+        level: 1,
+        ads: 4,
+        views: 1000,
+        clicks: 30,
+        spend: 6000,
+        cartAdditions: 6,
+      },
+    ]);
+  });
+
+  it("builds the comparison from totals aggregated in the database", async () => {
+    const analytics = await service.getMerchantAdsAnalytics("m1", range);
+
+    expect(adRepository.getLevelTotals).toHaveBeenCalledTimes(1);
+    expect(adRepository.getAdsRunningBetween).toHaveBeenCalledTimes(1);
+    expect(adRepository.getAdsRunningBetween).toHaveBeenCalledWith(
+      expect.any(Date),
+      expect.any(Date),
+      "m1"
+    );
+    expect(adEventRepository.getEvents).not.toHaveBeenCalled();
+    expect(
+      analytics.platformLevels.map(({ type, level }) => [type, level])
+    ).toEqual([
+      [AdType.BUDGET, 1],
+      [AdType.DURATION, 1],
+      [AdType.DURATION, 2],
+    ]);
+    expect(analytics.platformLevels[1]).toEqual({
+      type: AdType.DURATION,
+      level: 1,
+      ads: 4,
+      views: 1000,
+      clicks: 30,
+      spend: 6000,
+      cartAdditions: 6,
+      ctr: 3,
+      viewsPerAd: 250,
+      clicksPerAd: 7.5,
+      cartAdditionsPerAd: 1.5,
+      costPerClick: 200,
+      costPerCartAddition: 1000,
+    });
+  });
+
+  it("leaves the costs empty for a level without clicks or cart additions", async () => {
+    const analytics = await service.getMerchantAdsAnalytics("m1", range);
+
+    expect(analytics.platformLevels[0]).toMatchObject({
+      ctr: 0,
+      costPerClick: null,
+      costPerCartAddition: null,
+    });
+    expect(analytics.platformLevels[2].costPerCartAddition).toBeNull();
+  });
+});
@@ -0,0 +1,227 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import { randomUUID } from "crypto";
+import { PaymentProvider, PaymentStatus } from "@prisma/client";
+import { AdService } from "../../src/ad/ad.service";
+import { FakePaymentOutcomes } from "../../src/constants/payment.enum";
+import { PaymentService } from "../../src/payment/payment.service";
+import { PaymentGatewayService } from "../../src/utils/payment/payment-gateway.service";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const merchant = { id: "m1", email: "merchant@example.com" } as any;
+const product = { id: "p1", merchantId: "m1", merchant };
+const plan = {
+  id: "plan1",
+  name: "Gold",
+  level: 1,
+  price: 5000,
+  durationDays: 7,
+};
+
+/**
+ * Checkout runs end to end through the fake provider. Ads and transactions live in
+ * memory so the conditional status and ad updates behave like the database ones.
+ */
+describe("Ad checkout through the fake provider", () => {
+  const ads = new Map<string, any>();
+  const transactions = new Map<string, any>();
+
+  const transactionRepository = {
+    create: jest.fn(async (data: any, merchantId: string) => {
+      const { coupon, ...fields } = data;
+      const transaction = {
+        ...fields,
+        id: randomUUID(),
+        merchantId,
+        appliedAdId: null,
+        fulfilledAt: null,
+        date: new Date(),
+      };
+      transactions.set(transaction.id, transaction);
+      return { ...transaction };
+    }),
+    getTransaction: jest.fn(async (id: string) =>
+      transactions.has(id) ? { ...transactions.get(id) } : null
+    ),
+    transitionStatus: jest.fn(
+      async (id: string, status: PaymentStatus, finalStatuses: any[]) => {
+        const transaction = transactions.get(id);
+        if (finalStatuses.includes(transaction.status)) return false;
+        transaction.status = status;
+        return true;
+      }
+    ),
+    update: jest.fn(async (id: string, data: any) => {
+      Object.assign(transactions.get(id), data);
+      return { ...transactions.get(id) };
+    }),
+  };
+  const adRepository = {
+    create: jest.fn(async (data: any) => {
+      const ad = {
+        id: randomUUID(),
+        productId: product.id,
+        type: "DURATION",
+        level: data.level,
+        planId: null,
+        paidFor: false,
+        startsAt: data.startsAt,
+        expiresAt: null,
+      };
+      ads.set(ad.id, ad);
+      return { ...ad };
+    }),
+    getAd: jest.fn(async (id: string) =>
+      ads.has(id) ? { ...ads.get(id) } : null
+    ),
+    getActivePaidAd: jest.fn(async () => null),
+    getProductForAd: jest.fn(async () => product),
+    applyPayment: jest.fn(
+      async (id: string, data: any, transactionId: string) => {
+        const transaction = transactions.get(transactionId);
+        if (transaction.appliedAdId) return null;
+        transaction.appliedAdId = id;
+        const { plan, ...fields } = data;
+        Object.assign(ads.get(id), fields, plan && { planId: plan.connect.id });
+        return { ...ads.get(id) };
+      }
+    ),
+  };
+  const adPlanRepository = { getCurrentPlan: jest.fn(async () => plan) };
+  const productRepository = { getById: jest.fn(async () => product) };
+  const paymentAuthorizationRepository = { save: jest.fn() };
+  const marketerService = { calculateAndRecordEarnings: jest.fn() };
+
+  let paymentGateway: PaymentGatewayService;
+  let adService: AdService;
+
+  beforeAll(() => {
+    process.env.PAYMENT_PROVIDER = PaymentProvider.FAKE;
+    paymentGateway = new PaymentGatewayService(createMockLogger());
+    adService = new AdService(
+      adRepository as any,
+      {} as any,
+      adPlanRepository as any,
+      {} as any,
+      paymentGateway,
+      productRepository as any,
+      transactionRepository as any,
+      paymentAuthorizationRepository as any,
+      marketerService as any,
+      createMockLogger()
+    );
+    // Registers the webhook handler on the fake provider
+    new PaymentService(
+      adService,
+      {} as any,
+      transactionRepository as any,
+      paymentGateway,
+      createMockLogger()
+    );
+  });
+
+  afterAll(() => {
+    delete process.env.PAYMENT_PROVIDER;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    ads.clear();
+    transactions.clear();
+    paymentGateway.fakeProvider!.reset();
+  });
+
+  const checkout = () =>
+    adService.initializeAdPayment(plan.level, product.id, merchant);
+
+  it("activates the ad once the payment is verified", async () => {
+    const payment = await checkout();
+    expect(payment.provider).toBe(PaymentProvider.FAKE);
+    expect(payment.checkout).toMatchObject({ amount: plan.price * 100 });
+    expect(ads.get(payment.adId).paidFor).toBe(false);
+
+    paymentGateway.fakeProvider!.script(
+      payment.reference,
+      FakePaymentOutcomes.SUCCESS
+    );
+    const transaction = await adService.verifyAdPayment(payment.reference);
+
+    expect(transaction.status).toBe(PaymentStatus.SUCCESS);
+    expect(transaction.fulfilledAt).toBeInstanceOf(Date);
+    expect(ads.get(payment.adId)).toMatchObject({
+      paidFor: true,
+      planId: plan.id,
+    });
+    expect(marketerService.calculateAndRecordEarnings).toHaveBeenCalledTimes(1);
+  });
+
+  it("applies the payment once when the webhook and verification both arrive", async () => {
+    const payment = await checkout();
+    paymentGateway.fakeProvider!.script(
+      payment.reference,
+      FakePaymentOutcomes.SUCCESS
+    );
+
+    await Promise.all([
+      paymentGateway.fakeProvider!.fireWebhook(payment.reference),
+      adService.verifyAdPayment(payment.reference),
+    ]);
+    await adService.verifyAdPayment(payment.reference);
+
+    expect(transactions.get(payment.transactionId).status).toBe(
+      PaymentStatus.SUCCESS
+    );
+    expect(adRepository.applyPayment).toHaveBeenCalledTimes(1);
+    expect(marketerService.calculateAndRecordEarnings).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails the transaction and leaves the ad unpaid when the card is declined", async () => {
+    const payment = await checkout();
+    paymentGateway.fakeProvider!.script(
+      payment.reference,
+      FakePaymentOutcomes.FAILED
+    );
+
+    const transaction = await adService.verifyAdPayment(payment.reference);
+
+    expect(transaction.status).toBe(PaymentStatus.FAILED);
+    expect(ads.get(payment.adId).paidFor).toBe(false);
+    expect(adRepository.applyPayment).not.toHaveBeenCalled();
+  });
+
+  it("marks an underpaid transaction incomplete", async () => {
+    const payment = await checkout();
+    paymentGateway.fakeProvider!.script(
+      payment.reference,
+      FakePaymentOutcomes.SUCCESS,
+      { amount: plan.price - 1 }
+    );
+
+    const transaction = await adService.verifyAdPayment(payment.reference);
+
+    expect(transaction.status).toBe(PaymentStatus.INCOMPLETE);
+    expect(ads.get(payment.adId).paidFor).toBe(false);
+  });
+
+  it("does not move a paid transaction back when a late failure webhook arrives", async () => {
+    const payment = await checkout();
+    paymentGateway.fakeProvider!.script(
+      payment.reference,
+      FakePaymentOutcomes.SUCCESS
+    );
+    await adService.verifyAdPayment(payment.reference);
+
+    paymentGateway.fakeProvider!.script(
+      payment.reference,
+      FakePaymentOutcomes.FAILED
+    );
+    await paymentGateway.fakeProvider!.fireWebhook(payment.reference);
+
+    expect(transactions.get(payment.transactionId).status).toBe(
+      PaymentStatus.SUCCESS
+    );
+    expect(ads.get(payment.adId).paidFor).toBe(true);
+  });
+});
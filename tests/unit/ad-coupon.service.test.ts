@@ -0,0 +1,149 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import {
+  CouponType,
+  PaymentFor,
+  PaymentProvider,
+  PaymentStatus,
+} from "@prisma/client";
+import { AdCouponService } from "../../src/ad/coupon/coupon.service";
+import {
+  COUPON_USE_STATUSES,
+  TransactionRepository,
+} from "../../src/repositories/transaction.repository";
+import { databaseService } from "../../src/utils/database";
+import { BadRequestException } from "../../src/utils/exceptions/bad-request.exception";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const database = databaseService as any;
+
+const coupon = (overrides: Record<string, any> = {}) => ({
+  id: "c1",
+  code: "LAUNCH",
+  type: CouponType.PERCENTAGE,
+  value: 20,
+  maxUses: 10,
+  maxUsesPerMerchant: 1,
+  firstAdOnly: false,
+  active: true,
+  startsAt: new Date(Date.now() - 1000),
+  expiresAt: null,
+  marketId: null,
+  merchantId: null,
+  category: null,
+  deletedAt: null,
+  ...overrides,
+});
+
+const merchant = { id: "m1", marketId: "market1" } as any;
+const product = { id: "p1", category: "FASHION" } as any;
+
+describe("AdCouponService.applyCoupon", () => {
+  const couponRepository = { getByCode: jest.fn() };
+  const transactionRepository = { countPaidAdPayments: jest.fn() };
+  const service = new AdCouponService(
+    couponRepository as any,
+    transactionRepository as any,
+    {} as any,
+    {} as any,
+    createMockLogger()
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it("works out the discounted price", async () => {
+    couponRepository.getByCode.mockResolvedValue(coupon());
+    transactionRepository.countPaidAdPayments.mockResolvedValue(0);
+
+    const discount = await service.applyCoupon(
+      "LAUNCH",
+      5000,
+      merchant,
+      product
+    );
+
+    expect(discount).toMatchObject({
+      originalAmount: 5000,
+      discount: 1000,
+      amount: 4000,
+    });
+  });
+
+  it("counts payments in progress against the usage limits", async () => {
+    couponRepository.getByCode.mockResolvedValue(coupon());
+    transactionRepository.countPaidAdPayments
+      .mockResolvedValueOnce(3)
+      .mockResolvedValueOnce(1);
+
+    await expect(
+      service.applyCoupon("LAUNCH", 5000, merchant, product)
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(transactionRepository.countPaidAdPayments).toHaveBeenCalledWith(
+      { couponId: "c1", merchantId: "m1" },
+      COUPON_USE_STATUSES
+    );
+  });
+});
+
+describe("TransactionRepository.createWithCoupon", () => {
+  const repository = new TransactionRepository();
+  const data = {
+    amount: 4000,
+    originalAmount: 5000,
+    for: PaymentFor.ADVERTISEMENT,
+    status: PaymentStatus.INITIALIZED,
+    reference: "ad1",
+    provider: PaymentProvider.FAKE,
+  };
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it("locks the coupon, counts its uses and creates the transaction", async () => {
+    database.transaction.count.mockResolvedValue(0);
+    database.transaction.create.mockResolvedValue({ id: "t1" });
+
+    const transaction = await repository.createWithCoupon(data, "m1", coupon());
+
+    expect(transaction).toEqual({ id: "t1" });
+    expect(database.$queryRaw).toHaveBeenCalledTimes(1);
+    expect(database.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      database.transaction.count.mock.invocationCallOrder[0]
+    );
+    expect(database.transaction.count).toHaveBeenCalledWith({
+      where: {
+        merchantId: "m1",
+        couponId: "c1",
+        status: { in: COUPON_USE_STATUSES },
+      },
+    });
+    expect(database.transaction.create).toHaveBeenCalledWith({
+      data: {
+        ...data,
+        coupon: { connect: { id: "c1" } },
+        merchant: { connect: { id: "m1" } },
+      },
+    });
+  });
+
+  it("does not create the transaction once the last use is taken", async () => {
+    database.transaction.count.mockResolvedValue(10);
+
+    await expect(
+      repository.createWithCoupon(data, "m1", coupon())
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(database.transaction.create).not.toHaveBeenCalled();
+  });
+
+  it("does not create the transaction once the merchant used up the coupon", async () => {
+    database.transaction.count
+      .mockResolvedValueOnce(4)
+      .mockResolvedValueOnce(1);
+
+    await expect(
+      repository.createWithCoupon(data, "m1", coupon())
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(database.transaction.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,242 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import { AdBilling, AdEventType, AdType } from "@prisma/client";
+import { AdService } from "../../src/ad/ad.service";
+import { AdEventRepository } from "../../src/repositories/ad-event.repository";
+import { AdRepository } from "../../src/repositories/ad.repository";
+import { databaseService } from "../../src/utils/database";
+import { CustomerAuthGaurd } from "../../src/utils/middlewares/guards/customer.auth.guard";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const database = databaseService as any;
+const DAY = 24 * 60 * 60 * 1000;
+const browser =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/120.0 Safari/537.36";
+
+// A live CPC budget ad
+const ad = {
+  id: "ad1",
+  type: AdType.BUDGET,
+  billing: AdBilling.CPC,
+  rate: 50,
+  level: 1,
+  paidFor: true,
+  budget: 1000,
+  spent: 0,
+  startsAt: new Date(Date.now() - DAY),
+  expiresAt: new Date(Date.now() + DAY),
+};
+
+describe("AdService.trackAdEvent", () => {
+  const adRepository = { getAd: jest.fn(), stopSpentBudgetAd: jest.fn() };
+  const adEventRepository = {
+    countRecentIpEvents: jest.fn(),
+    hasRecentEvent: jest.fn(),
+    record: jest.fn(),
+  };
+  const service = new AdService(
+    adRepository as any,
+    adEventRepository as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    createMockLogger()
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    adRepository.getAd.mockResolvedValue(ad);
+    adEventRepository.countRecentIpEvents.mockResolvedValue(0);
+    adEventRepository.hasRecentEvent.mockResolvedValue(false);
+    adEventRepository.record.mockResolvedValue({ ...ad, spent: 50 });
+    adRepository.stopSpentBudgetAd.mockResolvedValue(true);
+  });
+
+  it("records and bills a click from a new viewer", async () => {
+    const accepted = await service.trackAdEvent("ad1", AdEventType.CLICK, {
+      ip: "10.0.0.1",
+      userAgent: browser,
+    });
+
+    expect(accepted).toBe(true);
+    const [, , viewerHash, ipHash, customerId, cost] =
+      adEventRepository.record.mock.calls[0];
+    expect(viewerHash).not.toBe(ipHash);
+    expect(customerId).toBeUndefined();
+    expect(cost).toBe(50);
+  });
+
+  it("keys the per-IP cap on the address whatever the user agent", async () => {
+    await service.trackAdEvent("ad1", AdEventType.CLICK, {
+      ip: "10.0.0.1",
+      userAgent: browser,
+    });
+    await service.trackAdEvent("ad1", AdEventType.CLICK, {
+      ip: "10.0.0.1",
+      userAgent: `${browser} Edg/120.0`,
+    });
+
+    const [first, second] = adEventRepository.countRecentIpEvents.mock.calls;
+    expect(first[2]).toBe(second[2]);
+    const [firstRecord, secondRecord] = adEventRepository.record.mock.calls;
+    expect(firstRecord[2]).not.toBe(secondRecord[2]);
+  });
+
+  it("ignores events once the IP address reached its cap", async () => {
+    adEventRepository.countRecentIpEvents.mockResolvedValue(5);
+
+    const accepted = await service.trackAdEvent("ad1", AdEventType.CLICK, {
+      ip: "10.0.0.1",
+      userAgent: `${browser} rotated/1`,
+    });
+
+    expect(accepted).toBe(false);
+    expect(adEventRepository.record).not.toHaveBeenCalled();
+  });
+
+  it("ignores a repeat from the same viewer", async () => {
+    adEventRepository.hasRecentEvent.mockResolvedValue(true);
+
+    const accepted = await service.trackAdEvent("ad1", AdEventType.CLICK, {
+      ip: "10.0.0.1",
+      userAgent: browser,
+    });
+
+    expect(accepted).toBe(false);
+    expect(adEventRepository.record).not.toHaveBeenCalled();
+  });
+
+  it("stops a budget ad once the click uses up its budget", async () => {
+    adEventRepository.record.mockResolvedValue({ ...ad, spent: 1000 });
+
+    await service.trackAdEvent("ad1", AdEventType.CLICK, {
+      ip: "10.0.0.1",
+      userAgent: browser,
+    });
+
+    const [, , , , , cost] = adEventRepository.record.mock.calls[0];
+    expect(cost).toBe(50);
+    expect(adRepository.stopSpentBudgetAd).toHaveBeenCalledWith("ad1", 1000);
+  });
+
+  it("keeps billing a budget ad that has budget left", async () => {
+    await service.trackAdEvent("ad1", AdEventType.CLICK, {
+      ip: "10.0.0.1",
+      userAgent: browser,
+    });
+
+    expect(adRepository.stopSpentBudgetAd).not.toHaveBeenCalled();
+  });
+
+  it("does not bill an event on a budget ad that has stopped", async () => {
+    adRepository.getAd.mockResolvedValue({
+      ...ad,
+      spent: 1000,
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    await service.trackAdEvent("ad1", AdEventType.CLICK, {
+      ip: "10.0.0.1",
+      userAgent: browser,
+    });
+
+    const [, , , , , cost] = adEventRepository.record.mock.calls[0];
+    expect(cost).toBe(0);
+    expect(adRepository.stopSpentBudgetAd).not.toHaveBeenCalled();
+  });
+});
+
+describe("Budget ad billing in the database", () => {
+  const adEventRepository = new AdEventRepository();
+  // Built without its constructor, which would start a real Prisma client
+  const adRepository = Object.assign(Object.create(AdRepository.prototype), {
+    prisma: database,
+  }) as AdRepository;
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it("records the event and adds its cost to the spend together", async () => {
+    database.ad.update.mockResolvedValue({ ...ad, spent: 50 });
+
+    await adEventRepository.record(
+      "ad1",
+      AdEventType.CLICK,
+      "viewer",
+      "ip",
+      undefined,
+      50
+    );
+
+    expect(database.$transaction).toHaveBeenCalledTimes(1);
+    expect(database.adEvent.create.mock.calls[0][0].data).toMatchObject({
+      type: AdEventType.CLICK,
+      cost: 50,
+    });
+    expect(database.ad.update).toHaveBeenCalledWith({
+      where: { id: "ad1" },
+      data: { adClicks: { increment: 1 }, spent: { increment: 50 } },
+    });
+  });
+
+  it("leaves the spend alone for an event that is not billed", async () => {
+    database.ad.update.mockResolvedValue(ad);
+
+    await adEventRepository.record(
+      "ad1",
+      AdEventType.VIEW,
+      "viewer",
+      "ip",
+      undefined,
+      0
+    );
+
+    expect(database.ad.update).toHaveBeenCalledWith({
+      where: { id: "ad1" },
+      data: { adViews: { increment: 1 } },
+    });
+  });
+
+  it("does not stop a budget ad topped up since the budget ran out", async () => {
+    database.ad.updateMany.mockResolvedValue({ count: 0 });
+
+    const stopped = await adRepository.stopSpentBudgetAd("ad1", 1000);
+
+    expect(stopped).toBe(false);
+    expect(database.ad.updateMany).toHaveBeenCalledWith({
+      where: { id: "ad1", budget: 1000 },
+      data: { spent: 1000, expiresAt: expect.any(Date) },
+    });
+  });
+});
+
+describe("CustomerAuthGaurd with allowUnauthenticated", () => {
+  const guard = new CustomerAuthGaurd(
+    {} as any,
+    createMockLogger() as any,
+    {} as any
+  );
+
+  it("drops a customer sent in the body of an unauthenticated request", async () => {
+    const request: any = {
+      headers: {},
+      params: {},
+      body: { customer: { id: "someone-else" } },
+    };
+    const next = jest.fn();
+
+    await guard.authorise({ strict: false, allowUnauthenticated: true })(
+      request,
+      {} as any,
+      next
+    );
+
+    expect(next).toHaveBeenCalledWith();
+    expect(request.body.customer).toBeUndefined();
+  });
+});
@@ -0,0 +1,142 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import { AdPaymentAction, PaymentStatus } from "@prisma/client";
+import { AdLifecycleService } from "../../src/ad/lifecycle/lifecycle.service";
+import { AdRepository } from "../../src/repositories/ad.repository";
+import { databaseService } from "../../src/utils/database";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const database = databaseService as any;
+
+const HOUR = 60 * 60 * 1000;
+
+const dueAd = (overrides: Record<string, any> = {}) =>
+  ({
+    id: "ad1",
+    level: 1,
+    autoRenew: true,
+    authorizationId: "auth1",
+    autoRenewAttempts: 0,
+    expiresAt: new Date(Date.now() + 12 * HOUR),
+    adViews: 0,
+    adClicks: 0,
+    product: {
+      id: "p1",
+      name: "Sneakers",
+      merchant: { id: "m1", email: "merchant@example.com", brandName: "Kicks" },
+    },
+    ...overrides,
+  }) as any;
+
+describe("AdLifecycleService auto-renew", () => {
+  const adRepository = {
+    getAdsDueForAutoRenewal: jest.fn(),
+    getPaidAdsExpiringBetween: jest.fn(),
+    update: jest.fn(),
+  };
+  const adNotificationRepository = {
+    claim: jest.fn(),
+    release: jest.fn(),
+  };
+  const adService = { chargeAutoRenewal: jest.fn() };
+  const emailService = { sendMail: jest.fn() };
+  const service = new AdLifecycleService(
+    adRepository as any,
+    adNotificationRepository as any,
+    adService as any,
+    emailService as any,
+    createMockLogger()
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    adRepository.getPaidAdsExpiringBetween.mockResolvedValue([]);
+    adNotificationRepository.claim.mockResolvedValue(true);
+    emailService.sendMail.mockResolvedValue(true);
+  });
+
+  it("records the attempt before charging the saved card", async () => {
+    adRepository.getAdsDueForAutoRenewal.mockResolvedValue([dueAd()]);
+    adService.chargeAutoRenewal.mockResolvedValue({
+      transaction: { id: "t1", status: PaymentStatus.SUCCESS },
+    });
+
+    const summary = await service.run();
+
+    expect(summary).toMatchObject({ renewed: 1, renewalsFailed: 0 });
+    expect(adRepository.update).toHaveBeenCalledWith("ad1", {
+      autoRenewAttempts: 1,
+      autoRenewAttemptAt: expect.any(Date),
+    });
+    expect(adRepository.update.mock.invocationCallOrder[0]).toBeLessThan(
+      adService.chargeAutoRenewal.mock.invocationCallOrder[0]
+    );
+    expect(emailService.sendMail).not.toHaveBeenCalled();
+  });
+
+  it("turns auto-renew off and emails the merchant after the last declined attempt", async () => {
+    adRepository.getAdsDueForAutoRenewal.mockResolvedValue([
+      dueAd({ autoRenewAttempts: 2 }),
+    ]);
+    adService.chargeAutoRenewal.mockResolvedValue({
+      transaction: { id: "t1", status: PaymentStatus.FAILED },
+      message: "Insufficient funds",
+    });
+
+    const summary = await service.run();
+
+    expect(summary).toMatchObject({ renewed: 0, renewalsFailed: 1 });
+    expect(adRepository.update).toHaveBeenCalledWith("ad1", {
+      autoRenew: false,
+    });
+    expect(emailService.sendMail).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not start a second pass while one is running", async () => {
+    let charge!: (value: any) => void;
+    adRepository.getAdsDueForAutoRenewal.mockResolvedValue([dueAd()]);
+    adService.chargeAutoRenewal.mockReturnValue(
+      new Promise((resolve) => (charge = resolve))
+    );
+
+    const first = service.run();
+    const second = await service.run();
+    await new Promise(setImmediate);
+    charge({ transaction: { id: "t1", status: PaymentStatus.SUCCESS } });
+
+    expect(second).toBeNull();
+    expect(await first).toMatchObject({ renewed: 1 });
+    expect(adService.chargeAutoRenewal).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("AdRepository.getAdsDueForAutoRenewal", () => {
+  // Built without its constructor, which would start a real Prisma client
+  const repository = Object.assign(Object.create(AdRepository.prototype), {
+    prisma: database,
+  }) as AdRepository;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    database.ad.findMany.mockResolvedValue([]);
+  });
+
+  it("leaves out ads whose last renewal is still waiting on the provider", async () => {
+    database.transaction.findMany.mockResolvedValue([{ reference: "ad1" }]);
+
+    await repository.getAdsDueForAutoRenewal(new Date(), new Date(), 3);
+
+    expect(database.transaction.findMany).toHaveBeenCalledWith({
+      where: expect.objectContaining({
+        adAction: AdPaymentAction.RENEWAL,
+        status: { in: [PaymentStatus.INITIALIZED, PaymentStatus.PENDING] },
+      }),
+      select: { reference: true },
+    });
+    expect(database.ad.findMany.mock.calls[0][0].where.id).toEqual({
+      notIn: ["ad1"],
+    });
+  });
+});
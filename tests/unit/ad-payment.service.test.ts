@@ -0,0 +1,283 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import {
+  AdPaymentAction,
+  AdType,
+  PaymentFor,
+  PaymentProvider,
+  PaymentStatus,
+} from "@prisma/client";
+import { AdService } from "../../src/ad/ad.service";
+import { AdRepository } from "../../src/repositories/ad.repository";
+import { createMockDatabase } from "./mocks/mock-database";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const transaction = (overrides: Record<string, any> = {}) =>
+  ({
+    id: "t1",
+    merchantId: "m1",
+    amount: 5000,
+    status: PaymentStatus.SUCCESS,
+    for: PaymentFor.ADVERTISEMENT,
+    reference: "ad1",
+    provider: PaymentProvider.FAKE,
+    adAction: AdPaymentAction.PURCHASE,
+    adLevel: 1,
+    adPlanId: null,
+    adDuration: 7,
+    appliedAdId: null,
+    fulfilledAt: null,
+    ...overrides,
+  }) as any;
+
+const ad = {
+  id: "ad1",
+  productId: "p1",
+  type: AdType.DURATION,
+  level: 1,
+  planId: null,
+  paidFor: false,
+  startsAt: null,
+  expiresAt: null,
+};
+
+describe("AdService.completeAdPayment", () => {
+  const adRepository = {
+    getAd: jest.fn(),
+    getActivePaidAd: jest.fn(),
+    applyPayment: jest.fn(),
+  };
+  const transactionRepository = {
+    transitionStatus: jest.fn(),
+    getTransaction: jest.fn(),
+    update: jest.fn(),
+  };
+  const marketerService = { calculateAndRecordEarnings: jest.fn() };
+  const service = new AdService(
+    adRepository as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    transactionRepository as any,
+    {} as any,
+    marketerService as any,
+    createMockLogger()
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    adRepository.getAd.mockResolvedValue(ad);
+    adRepository.getActivePaidAd.mockResolvedValue(null);
+    transactionRepository.update.mockImplementation(async (id, data) =>
+      transaction({ id, ...data })
+    );
+  });
+
+  it("activates the ad, records earnings and marks the payment fulfilled", async () => {
+    transactionRepository.transitionStatus.mockResolvedValue(true);
+    transactionRepository.getTransaction.mockResolvedValue(transaction());
+    adRepository.applyPayment.mockResolvedValue({ ...ad, paidFor: true });
+
+    const result = await service.completeAdPayment(
+      transaction({ status: PaymentStatus.PENDING })
+    );
+
+    expect(adRepository.applyPayment).toHaveBeenCalledWith(
+      "ad1",
+      expect.objectContaining({ paidFor: true }),
+      "t1"
+    );
+    expect(marketerService.calculateAndRecordEarnings).toHaveBeenCalledWith(
+      "ad1",
+      expect.objectContaining({ id: "t1" })
+    );
+    expect(transactionRepository.update).toHaveBeenCalledWith("t1", {
+      fulfilledAt: expect.any(Date),
+    });
+    expect(result.fulfilledAt).toBeInstanceOf(Date);
+  });
+
+  it("does nothing when another request already completed the payment", async () => {
+    transactionRepository.transitionStatus.mockResolvedValue(false);
+    transactionRepository.getTransaction.mockResolvedValue(transaction());
+
+    await service.completeAdPayment(transaction());
+
+    expect(adRepository.applyPayment).not.toHaveBeenCalled();
+    expect(marketerService.calculateAndRecordEarnings).not.toHaveBeenCalled();
+  });
+
+  it("leaves the payment unfulfilled when recording earnings fails", async () => {
+    transactionRepository.transitionStatus.mockResolvedValue(true);
+    transactionRepository.getTransaction.mockResolvedValue(transaction());
+    adRepository.applyPayment.mockResolvedValue({ ...ad, paidFor: true });
+    marketerService.calculateAndRecordEarnings.mockRejectedValueOnce(
+      new Error("database down")
+    );
+
+    await expect(service.completeAdPayment(transaction())).rejects.toThrow();
+
+    expect(transactionRepository.update).not.toHaveBeenCalled();
+  });
+
+  it("does not apply a retried payment to its ad a second time", async () => {
+    const applied = transaction({ appliedAdId: "ad1" });
+    adRepository.getAd.mockResolvedValue({ ...ad, paidFor: true });
+
+    await service.fulfilAdPayment(applied);
+
+    expect(adRepository.applyPayment).not.toHaveBeenCalled();
+    expect(marketerService.calculateAndRecordEarnings).toHaveBeenCalledWith(
+      "ad1",
+      applied
+    );
+    expect(transactionRepository.update).toHaveBeenCalledWith("t1", {
+      fulfilledAt: expect.any(Date),
+    });
+  });
+
+  it("returns the applied ad when a concurrent retry applied the payment first", async () => {
+    adRepository.applyPayment.mockResolvedValue(null);
+    transactionRepository.getTransaction.mockResolvedValue(
+      transaction({ appliedAdId: "ad1" })
+    );
+
+    await service.fulfilAdPayment(transaction());
+
+    expect(adRepository.applyPayment).toHaveBeenCalledTimes(1);
+    expect(marketerService.calculateAndRecordEarnings).toHaveBeenCalledWith(
+      "ad1",
+      expect.objectContaining({ id: "t1" })
+    );
+  });
+});
+
+describe("AdService budget funding", () => {
+  const budgetAd = {
+    ...ad,
+    type: AdType.BUDGET,
+    paidFor: true,
+    budget: 1000,
+    spent: 1000,
+    startsAt: new Date(Date.now() - 60 * 1000),
+    expiresAt: new Date(),
+  };
+  const adRepository = {
+    getAd: jest.fn(),
+    getActivePaidAd: jest.fn(),
+    applyPayment: jest.fn(),
+  };
+  const transactionRepository = { update: jest.fn() };
+  const service = new AdService(
+    adRepository as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    transactionRepository as any,
+    {} as any,
+    { calculateAndRecordEarnings: jest.fn() } as any,
+    createMockLogger()
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    adRepository.getAd.mockResolvedValue(budgetAd);
+    adRepository.getActivePaidAd.mockResolvedValue(null);
+    adRepository.applyPayment.mockImplementation(async (id) => ({
+      ...budgetAd,
+      id,
+    }));
+    transactionRepository.update.mockImplementation(async (id, data) =>
+      transaction({ id, ...data })
+    );
+  });
+
+  it("credits the full top up to the budget and brings the ad back", async () => {
+    await service.fulfilAdPayment(
+      transaction({
+        amount: 2000,
+        originalAmount: 2500,
+        adAction: AdPaymentAction.TOP_UP,
+      })
+    );
+
+    const [adId, data, transactionId] = adRepository.applyPayment.mock.calls[0];
+    expect([adId, transactionId]).toEqual(["ad1", "t1"]);
+    expect(data).toEqual({
+      budget: { increment: 2500 },
+      paidFor: true,
+      expiresAt: expect.any(Date),
+    });
+    expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("adds a second purchase to the budget ad already running for the product", async () => {
+    adRepository.getAd.mockResolvedValue({
+      ...budgetAd,
+      id: "ad2",
+      paidFor: false,
+    });
+    adRepository.getActivePaidAd.mockResolvedValue({ ...budgetAd, spent: 0 });
+
+    await service.fulfilAdPayment(
+      transaction({ reference: "ad2", amount: 3000, originalAmount: 3000 })
+    );
+
+    expect(adRepository.applyPayment).toHaveBeenCalledWith(
+      "ad1",
+      expect.objectContaining({ budget: { increment: 3000 } }),
+      "t1"
+    );
+  });
+});
+
+describe("AdRepository.applyPayment", () => {
+  // Built without its constructor, which would start a real Prisma client
+  const database = createMockDatabase();
+  const repository: AdRepository = Object.assign(
+    Object.create(AdRepository.prototype),
+    { prisma: database }
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it("claims the transaction and updates the ad together", async () => {
+    database.transaction.updateMany.mockResolvedValue({ count: 1 });
+    database.ad.update.mockResolvedValue({ ...ad, paidFor: true });
+
+    const result = await repository.applyPayment(
+      "ad1",
+      { paidFor: true },
+      "t1"
+    );
+
+    expect(database.transaction.updateMany).toHaveBeenCalledWith({
+      where: { id: "t1", appliedAdId: null },
+      data: { appliedAdId: "ad1" },
+    });
+    expect(database.ad.update).toHaveBeenCalledWith({
+      where: { id: "ad1" },
+      data: { paidFor: true },
+    });
+    expect(result).toEqual({ ...ad, paidFor: true });
+  });
+
+  it("skips the ad update when the transaction was already applied", async () => {
+    database.transaction.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await repository.applyPayment(
+      "ad1",
+      { paidFor: true },
+      "t1"
+    );
+
+    expect(result).toBeNull();
+    expect(database.ad.update).not.toHaveBeenCalled();
+  });
+});
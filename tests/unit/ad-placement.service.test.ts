@@ -0,0 +1,170 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import { AdPlacementKey, ProductCategory } from "@prisma/client";
+import { AdPlacementService } from "../../src/ad/placement/placement.service";
+import { AdRepository } from "../../src/repositories/ad.repository";
+import { databaseService } from "../../src/utils/database";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const database = databaseService as any;
+
+const candidate = (id: string, overrides: Record<string, any> = {}) =>
+  ({
+    id,
+    level: 1,
+    type: "DURATION",
+    targetCategory: null,
+    targetMarketId: null,
+    targetState: null,
+    product: {
+      id: `p-${id}`,
+      category: ProductCategory.ELECTRONICS_AND_GADGETS,
+      merchant: { id: "m1", marketId: "market1", market: { state: "Oyo" } },
+    },
+    ...overrides,
+  }) as any;
+
+describe("AdRepository.getPlacementCandidates", () => {
+  // Built without its constructor, which would start a real Prisma client
+  const repository = Object.assign(Object.create(AdRepository.prototype), {
+    prisma: database,
+  }) as AdRepository;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    database.ad.findMany.mockResolvedValue([]);
+  });
+
+  it("loads a bounded random window of the candidates", async () => {
+    database.ad.count.mockResolvedValue(100);
+    jest.spyOn(Math, "random").mockReturnValueOnce(0.5);
+
+    await repository.getPlacementCandidates({}, 30);
+
+    const query = database.ad.findMany.mock.calls[0][0];
+    expect(query.take).toBe(30);
+    expect(query.skip).toBe(35);
+    expect(query.where).toEqual(database.ad.count.mock.calls[0][0].where);
+  });
+
+  it("starts at the first candidate when there are fewer than the limit", async () => {
+    database.ad.count.mockResolvedValue(4);
+
+    await repository.getPlacementCandidates({}, 30);
+
+    expect(database.ad.findMany.mock.calls[0][0].skip).toBe(0);
+  });
+
+  it("leaves out targeted ads when the context gives nothing to match", async () => {
+    database.ad.count.mockResolvedValue(0);
+
+    await repository.getPlacementCandidates({}, 30);
+
+    expect(database.ad.findMany.mock.calls[0][0].where.AND).toEqual([
+      { targetCategory: null },
+      { targetMarketId: null },
+      { targetState: null },
+    ]);
+  });
+
+  it("keeps ads targeting what the context gives", async () => {
+    database.ad.count.mockResolvedValue(0);
+
+    await repository.getPlacementCandidates(
+      { category: ProductCategory.FASHION_AND_ACCESSORIES },
+      30
+    );
+
+    expect(database.ad.findMany.mock.calls[0][0].where.AND).toEqual([
+      {
+        OR: [
+          { targetCategory: null },
+          { targetCategory: ProductCategory.FASHION_AND_ACCESSORIES },
+        ],
+      },
+      { targetMarketId: null },
+      { targetState: null },
+    ]);
+  });
+});
+
+describe("AdPlacementService.getPlacementAds", () => {
+  const placement = {
+    id: "placement1",
+    key: AdPlacementKey.HOME_HERO,
+    capacity: 2,
+    active: true,
+  };
+  const adPlacementRepository = { getByKey: jest.fn() };
+  const adRepository = { getPlacementCandidates: jest.fn() };
+  const adService = { trackAdEvent: jest.fn() };
+  const service = new AdPlacementService(
+    adPlacementRepository as any,
+    adRepository as any,
+    {} as any,
+    adService as any,
+    createMockLogger()
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    adPlacementRepository.getByKey.mockResolvedValue(placement);
+    adService.trackAdEvent.mockResolvedValue(undefined);
+  });
+
+  it("asks for a multiple of the capacity and serves at most the capacity", async () => {
+    adRepository.getPlacementCandidates.mockResolvedValue([
+      candidate("ad1"),
+      candidate("ad2"),
+      candidate("ad3"),
+    ]);
+
+    const result = await service.getPlacementAds(
+      AdPlacementKey.HOME_HERO,
+      {},
+      {} as any
+    );
+
+    expect(adRepository.getPlacementCandidates).toHaveBeenCalledWith({}, 20);
+    expect(result.ads).toHaveLength(2);
+    expect(adService.trackAdEvent).toHaveBeenCalledTimes(2);
+  });
+
+  it("ranks the ads matching more of the context first", async () => {
+    adRepository.getPlacementCandidates.mockResolvedValue([
+      candidate("ad1", { level: 5 }),
+      candidate("ad2", {
+        targetCategory: ProductCategory.FASHION_AND_ACCESSORIES,
+      }),
+    ]);
+
+    const result = await service.getPlacementAds(
+      AdPlacementKey.HOME_HERO,
+      { category: ProductCategory.FASHION_AND_ACCESSORIES },
+      {} as any
+    );
+
+    expect(result.ads.map((ad) => [ad.adId, ad.relevance])).toEqual([
+      ["ad2", 1],
+      ["ad1", 0],
+    ]);
+  });
+
+  it("serves nothing from an inactive placement", async () => {
+    adPlacementRepository.getByKey.mockResolvedValue({
+      ...placement,
+      active: false,
+    });
+
+    const result = await service.getPlacementAds(
+      AdPlacementKey.HOME_HERO,
+      {},
+      {} as any
+    );
+
+    expect(result.ads).toEqual([]);
+    expect(adRepository.getPlacementCandidates).not.toHaveBeenCalled();
+  });
+});
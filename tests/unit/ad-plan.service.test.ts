@@ -0,0 +1,244 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import { AdPaymentAction, PaymentProvider } from "@prisma/client";
+import { AdService } from "../../src/ad/ad.service";
+import { AdPlanService } from "../../src/ad/plan/plan.service";
+import { ErrorMessages } from "../../src/constants/error-messages.enum";
+import { AdPlanRepository } from "../../src/repositories/ad-plan.repository";
+import { databaseService } from "../../src/utils/database";
+import { BadRequestException } from "../../src/utils/exceptions/bad-request.exception";
+import { InternalServerException } from "../../src/utils/exceptions/internal-server.exception";
+import { NotFoundException } from "../../src/utils/exceptions/not-found.exception";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const database = databaseService as any;
+
+const plan = (overrides: Record<string, any> = {}) =>
+  ({
+    id: "plan1",
+    name: "Gold",
+    level: 1,
+    price: 5000,
+    durationDays: 7,
+    active: true,
+    validFrom: new Date("2026-01-01T00:00:00Z"),
+    validTo: null,
+    deletedAt: null,
+    ...overrides,
+  }) as any;
+
+describe("AdPlanService", () => {
+  const adPlanRepository = {
+    create: jest.fn(),
+    update: jest.fn(),
+    getById: jest.fn(),
+    getAll: jest.fn(),
+  };
+  const service = new AdPlanService(
+    adPlanRepository as any,
+    createMockLogger()
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    adPlanRepository.getById.mockResolvedValue(plan());
+    adPlanRepository.create.mockImplementation(async (data) => plan(data));
+    adPlanRepository.update.mockImplementation(async (id, data) =>
+      plan({ id, ...data })
+    );
+  });
+
+  it("creates an active plan valid from now with no end by default", async () => {
+    await service.createPlan({
+      name: "Gold",
+      level: 1,
+      price: 5000,
+      durationDays: 7,
+    });
+
+    expect(adPlanRepository.create).toHaveBeenCalledWith({
+      name: "Gold",
+      level: 1,
+      price: 5000,
+      durationDays: 7,
+      active: true,
+      validFrom: expect.any(Date),
+      validTo: null,
+    });
+  });
+
+  it("rejects a plan that ends before it starts", async () => {
+    await expect(
+      service.createPlan({
+        name: "Gold",
+        level: 1,
+        price: 5000,
+        durationDays: 7,
+        validFrom: "2026-12-01T00:00:00Z",
+        validTo: "2026-11-01T00:00:00Z",
+      })
+    ).rejects.toThrow(ErrorMessages.INVALID_AD_PLAN_VALIDITY);
+    expect(adPlanRepository.create).not.toHaveBeenCalled();
+  });
+
+  it("updates only the given fields and keeps the validity window", async () => {
+    await service.updatePlan("plan1", { price: 6000 });
+
+    expect(adPlanRepository.update).toHaveBeenCalledWith("plan1", {
+      price: 6000,
+      validFrom: plan().validFrom,
+      validTo: null,
+    });
+  });
+
+  it("clears the end of the validity window when it is set to null", async () => {
+    adPlanRepository.getById.mockResolvedValue(
+      plan({ validTo: new Date("2026-12-01T00:00:00Z") })
+    );
+
+    await service.updatePlan("plan1", { validTo: null });
+
+    expect(adPlanRepository.update.mock.calls[0][1].validTo).toBeNull();
+  });
+
+  it("checks the validity window against the plan's current start", async () => {
+    await expect(
+      service.updatePlan("plan1", { validTo: "2025-06-01T00:00:00Z" })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(adPlanRepository.update).not.toHaveBeenCalled();
+  });
+
+  it("does not update or delete a plan that does not exist", async () => {
+    adPlanRepository.getById.mockResolvedValue(null);
+
+    await expect(
+      service.updatePlan("missing", { price: 6000 })
+    ).rejects.toBeInstanceOf(NotFoundException);
+    await expect(service.deletePlan("missing")).rejects.toBeInstanceOf(
+      NotFoundException
+    );
+    expect(adPlanRepository.update).not.toHaveBeenCalled();
+  });
+
+  it("soft deletes a plan so ads bought with it keep their reference", async () => {
+    await service.deletePlan("plan1");
+
+    expect(adPlanRepository.update).toHaveBeenCalledWith("plan1", {
+      active: false,
+      deletedAt: expect.any(Date),
+    });
+  });
+
+  it("hides repository errors behind a generic error", async () => {
+    adPlanRepository.getAll.mockRejectedValueOnce(new Error("database down"));
+
+    await expect(service.getPlans()).rejects.toBeInstanceOf(
+      InternalServerException
+    );
+  });
+});
+
+describe("AdPlanRepository.getCurrentPlan", () => {
+  const repository = new AdPlanRepository();
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it("picks the latest started plan in effect for the level", async () => {
+    const at = new Date("2026-06-01T00:00:00Z");
+    database.adPlan.findFirst.mockResolvedValue(plan());
+
+    await repository.getCurrentPlan(1, at);
+
+    expect(database.adPlan.findFirst).toHaveBeenCalledWith({
+      where: {
+        active: true,
+        deletedAt: null,
+        validFrom: { lte: at },
+        OR: [{ validTo: null }, { validTo: { gt: at } }],
+        level: 1,
+      },
+      orderBy: { validFrom: "desc" },
+    });
+  });
+});
+
+describe("AdService ad checkout pricing", () => {
+  const merchant = { id: "m1", email: "merchant@example.com" } as any;
+  const provider = {
+    name: PaymentProvider.PAYSTACK,
+    initializePayment: jest.fn(),
+  };
+  const adRepository = {
+    create: jest.fn(),
+    getActivePaidAd: jest.fn(),
+  };
+  const adPlanRepository = { getCurrentPlan: jest.fn() };
+  const productRepository = { getById: jest.fn() };
+  const transactionRepository = { create: jest.fn() };
+  const service = new AdService(
+    adRepository as any,
+    {} as any,
+    adPlanRepository as any,
+    {} as any,
+    { getProvider: () => provider } as any,
+    productRepository as any,
+    transactionRepository as any,
+    {} as any,
+    {} as any,
+    createMockLogger()
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    productRepository.getById.mockResolvedValue({ id: "p1", merchantId: "m1" });
+    adRepository.getActivePaidAd.mockResolvedValue(null);
+    adRepository.create.mockResolvedValue({ id: "ad1", productId: "p1" });
+    transactionRepository.create.mockImplementation(async (data) => ({
+      ...data,
+      id: "t1",
+    }));
+    provider.initializePayment.mockResolvedValue({
+      provider: PaymentProvider.PAYSTACK,
+      reference: "t1",
+      checkout: {},
+    });
+  });
+
+  it("charges the price and duration of the plan in effect for the level", async () => {
+    adPlanRepository.getCurrentPlan.mockResolvedValue(
+      plan({ id: "plan2", level: 2, price: 7500, durationDays: 14 })
+    );
+
+    const result = await service.initializeAdPayment(2, "p1", merchant);
+
+    expect(adPlanRepository.getCurrentPlan).toHaveBeenCalledWith(2);
+    expect(transactionRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        amount: 7500,
+        adAction: AdPaymentAction.PURCHASE,
+        adLevel: 2,
+        adPlanId: "plan2",
+        adDuration: 14,
+      }),
+      "m1"
+    );
+    expect(provider.initializePayment).toHaveBeenCalledWith(
+      "t1",
+      7500,
+      merchant.email
+    );
+    expect(result).toMatchObject({ amount: 7500, durationDays: 14 });
+  });
+
+  it("rejects a level with no plan in effect before creating the ad", async () => {
+    adPlanRepository.getCurrentPlan.mockResolvedValue(null);
+
+    await expect(
+      service.initializeAdPayment(3, "p1", merchant)
+    ).rejects.toThrow(ErrorMessages.AD_PLAN_NOT_AVAILABLE);
+    expect(adRepository.create).not.toHaveBeenCalled();
+    expect(transactionRepository.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,476 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import {
+  AdPaymentAction,
+  AdType,
+  PaymentProvider,
+  PaymentStatus,
+  RefundRequestStatus,
+} from "@prisma/client";
+import { AdRefundService } from "../../src/ad/refund/refund.service";
+import { RefundRequestRepository } from "../../src/repositories/refund-request.repository";
+import { databaseService } from "../../src/utils/database";
+import { BadRequestException } from "../../src/utils/exceptions/bad-request.exception";
+import { InternalServerException } from "../../src/utils/exceptions/internal-server.exception";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const database = databaseService as any;
+const DAY = 24 * 60 * 60 * 1000;
+
+const payment = (overrides: Record<string, any> = {}) =>
+  ({
+    id: "t1",
+    amount: 7000,
+    originalAmount: 7000,
+    status: PaymentStatus.SUCCESS,
+    reference: "ad1",
+    appliedAdId: "ad1",
+    provider: PaymentProvider.FAKE,
+    adAction: AdPaymentAction.PURCHASE,
+    adDuration: 7,
+    refundedAmount: 0,
+    refundPendingAmount: 0,
+    ...overrides,
+  }) as any;
+
+const transaction = payment();
+
+// Six and a half days left of a seven day plan
+const ad = {
+  id: "ad1",
+  type: AdType.DURATION,
+  level: 1,
+  paidFor: true,
+  budget: 0,
+  spent: 0,
+  expiresAt: new Date(Date.now() + 6.5 * DAY),
+} as any;
+
+describe("AdRefundService.calculateRefund", () => {
+  const service = new AdRefundService(
+    {} as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    createMockLogger()
+  );
+  const amounts = (portions: any[]) =>
+    portions.map((portion) => [portion.transaction.id, portion.amount]);
+
+  it("takes the days left from the latest renewal first", () => {
+    // Ten days left: all seven of the renewal and three of the purchase
+    const portions = service.calculateRefund(
+      { ...ad, expiresAt: new Date(Date.now() + 10.5 * DAY) },
+      [
+        payment({ id: "t2", adAction: AdPaymentAction.RENEWAL }),
+        payment({ id: "t1" }),
+      ]
+    );
+
+    expect(amounts(portions)).toEqual([
+      ["t2", 7000],
+      ["t1", 3000],
+    ]);
+  });
+
+  it("leaves out payments whose days have been used", () => {
+    const portions = service.calculateRefund(ad, [
+      payment({ id: "t2", adAction: AdPaymentAction.RENEWAL }),
+      payment({ id: "t1" }),
+    ]);
+
+    expect(amounts(portions)).toEqual([["t2", 6000]]);
+  });
+
+  it("pro-rates an upgrade alongside the period it upgraded", () => {
+    const portions = service.calculateRefund(ad, [
+      payment({ id: "t2", amount: 1400, adAction: AdPaymentAction.UPGRADE }),
+      payment({ id: "t1" }),
+    ]);
+
+    expect(amounts(portions)).toEqual([
+      ["t2", 1200],
+      ["t1", 6000],
+    ]);
+  });
+
+  it("refunds unspent budget from the latest top up first", () => {
+    const portions = service.calculateRefund(
+      { ...ad, type: AdType.BUDGET, budget: 8000, spent: 1000 },
+      [
+        // A top up paid 2500 with a coupon for 5000 of budget
+        payment({ id: "t2", amount: 2500, originalAmount: 5000 }),
+        payment({ id: "t1", amount: 3000, originalAmount: 3000 }),
+      ]
+    );
+
+    expect(
+      portions.map((portion) => [
+        portion.transaction.id,
+        portion.amount,
+        portion.budget,
+      ])
+    ).toEqual([
+      ["t2", 2500, 5000],
+      ["t1", 2000, 2000],
+    ]);
+  });
+});
+
+describe("AdRefundService.approveRefund", () => {
+  const refundRequestRepository = {
+    getRefundRequest: jest.fn(),
+    claim: jest.fn(),
+    release: jest.fn(),
+    approve: jest.fn(),
+    confirm: jest.fn(),
+  };
+  const adRepository = { getAd: jest.fn() };
+  const transactionRepository = {
+    getAdFundingPayments: jest.fn(),
+    update: jest.fn(),
+  };
+  const provider = { refundPayment: jest.fn() };
+  const paymentGateway = { getProvider: jest.fn(() => provider) };
+  const service = new AdRefundService(
+    refundRequestRepository as any,
+    adRepository as any,
+    transactionRepository as any,
+    paymentGateway as any,
+    createMockLogger()
+  );
+  const admin = { id: "admin1" } as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    refundRequestRepository.getRefundRequest.mockResolvedValue({
+      id: "r1",
+      status: RefundRequestStatus.PENDING,
+      transaction,
+    });
+    adRepository.getAd.mockResolvedValue(ad);
+    transactionRepository.getAdFundingPayments.mockResolvedValue([transaction]);
+    refundRequestRepository.claim.mockResolvedValue(undefined);
+    refundRequestRepository.approve.mockResolvedValue({
+      refundRequest: { id: "r1", status: RefundRequestStatus.APPROVED },
+      reversedEarnings: 1,
+    });
+  });
+
+  it("claims the request, refunds the remaining days and approves it", async () => {
+    provider.refundPayment.mockResolvedValue({ status: "processed" });
+
+    const approved = await service.approveRefund("r1", admin, "ok");
+
+    expect(approved.status).toBe(RefundRequestStatus.APPROVED);
+    expect(provider.refundPayment).toHaveBeenCalledWith("txn-t1", 6000);
+    expect(
+      refundRequestRepository.claim.mock.invocationCallOrder[0]
+    ).toBeLessThan(provider.refundPayment.mock.invocationCallOrder[0]);
+    expect(transactionRepository.update).toHaveBeenCalledWith("t1", {
+      refundedAmount: { increment: 6000 },
+    });
+    expect(refundRequestRepository.approve).toHaveBeenCalledWith(
+      "r1",
+      expect.objectContaining({ amount: 6000, transactionIds: ["t1"] })
+    );
+    expect(refundRequestRepository.release).not.toHaveBeenCalled();
+  });
+
+  it("refunds each payment that funds the period through its provider", async () => {
+    transactionRepository.getAdFundingPayments.mockResolvedValue([
+      payment({ id: "t2", amount: 1400, adAction: AdPaymentAction.UPGRADE }),
+      transaction,
+    ]);
+    provider.refundPayment.mockResolvedValue({ status: "processed" });
+
+    await service.approveRefund("r1", admin);
+
+    expect(provider.refundPayment).toHaveBeenCalledWith("txn-t2", 1200);
+    expect(provider.refundPayment).toHaveBeenCalledWith("txn-t1", 6000);
+    expect(refundRequestRepository.approve).toHaveBeenCalledWith(
+      "r1",
+      expect.objectContaining({ amount: 7200, transactionIds: ["t2", "t1"] })
+    );
+  });
+
+  it("does not refund a payment again when a failed approval is retried", async () => {
+    transactionRepository.getAdFundingPayments.mockResolvedValue([
+      payment({ id: "t2", amount: 1400, adAction: AdPaymentAction.UPGRADE }),
+      payment({ refundedAmount: 6000 }),
+    ]);
+    provider.refundPayment.mockResolvedValue({ status: "processed" });
+
+    await service.approveRefund("r1", admin);
+
+    expect(provider.refundPayment).toHaveBeenCalledTimes(1);
+    expect(provider.refundPayment).toHaveBeenCalledWith("txn-t2", 1200);
+  });
+
+  it("keeps the request waiting while the provider has only accepted the refund", async () => {
+    provider.refundPayment.mockResolvedValue({ status: "pending" });
+
+    await service.approveRefund("r1", admin);
+
+    expect(transactionRepository.update).toHaveBeenCalledWith("t1", {
+      refundPendingAmount: { increment: 6000 },
+    });
+    expect(refundRequestRepository.approve).toHaveBeenCalledWith(
+      "r1",
+      expect.objectContaining({ awaitingRefund: true })
+    );
+  });
+
+  it("does not send a refund the provider is still paying out again", async () => {
+    transactionRepository.getAdFundingPayments.mockResolvedValue([
+      payment({ refundPendingAmount: 6000 }),
+    ]);
+
+    await service.approveRefund("r1", admin);
+
+    expect(provider.refundPayment).not.toHaveBeenCalled();
+    expect(refundRequestRepository.approve).toHaveBeenCalledWith(
+      "r1",
+      expect.objectContaining({ awaitingRefund: true })
+    );
+  });
+
+  it("does not refund again when another approval claimed the request", async () => {
+    refundRequestRepository.claim.mockRejectedValueOnce(
+      new BadRequestException("Refund Request Has Already Been Reviewed")
+    );
+
+    await expect(service.approveRefund("r1", admin)).rejects.toBeInstanceOf(
+      BadRequestException
+    );
+    expect(provider.refundPayment).not.toHaveBeenCalled();
+    expect(refundRequestRepository.approve).not.toHaveBeenCalled();
+  });
+
+  it("releases the claim when the provider does not refund", async () => {
+    provider.refundPayment.mockResolvedValue({ status: "failed" });
+
+    await expect(service.approveRefund("r1", admin)).rejects.toBeInstanceOf(
+      InternalServerException
+    );
+    expect(refundRequestRepository.release).toHaveBeenCalledWith("r1");
+    expect(refundRequestRepository.approve).not.toHaveBeenCalled();
+  });
+
+  it("releases the claim when the provider call throws", async () => {
+    provider.refundPayment.mockRejectedValue(new Error("timeout"));
+
+    await expect(service.approveRefund("r1", admin)).rejects.toBeInstanceOf(
+      InternalServerException
+    );
+    expect(refundRequestRepository.release).toHaveBeenCalledWith("r1");
+  });
+});
+
+describe("AdRefundService.confirmRefund", () => {
+  const refundRequestRepository = {
+    getRefundRequest: jest.fn(),
+    confirm: jest.fn(),
+  };
+  const transactionRepository = { getAdFundingPayments: jest.fn() };
+  const service = new AdRefundService(
+    refundRequestRepository as any,
+    {} as any,
+    transactionRepository as any,
+    {} as any,
+    createMockLogger()
+  );
+  const admin = { id: "admin1" } as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    refundRequestRepository.getRefundRequest.mockResolvedValue({
+      id: "r1",
+      status: RefundRequestStatus.PROCESSING,
+      awaitingRefund: true,
+      transaction,
+    });
+    transactionRepository.getAdFundingPayments.mockResolvedValue([
+      payment({ refundPendingAmount: 6000 }),
+      payment({ id: "t0" }),
+    ]);
+  });
+
+  it("settles the payments the provider was paying out", async () => {
+    await service.confirmRefund("r1", admin, "Paid from the dashboard");
+
+    expect(refundRequestRepository.confirm).toHaveBeenCalledWith("r1", {
+      reviewedById: "admin1",
+      reviewNote: "Paid from the dashboard",
+      transactionIds: ["t1"],
+    });
+  });
+
+  it("does not confirm a request that is not waiting on the provider", async () => {
+    refundRequestRepository.getRefundRequest.mockResolvedValue({
+      id: "r1",
+      status: RefundRequestStatus.PENDING,
+      awaitingRefund: false,
+      transaction,
+    });
+
+    await expect(service.confirmRefund("r1", admin)).rejects.toBeInstanceOf(
+      BadRequestException
+    );
+    expect(refundRequestRepository.confirm).not.toHaveBeenCalled();
+  });
+});
+
+describe("RefundRequestRepository", () => {
+  const repository = new RefundRequestRepository();
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it("claims only a pending request", async () => {
+    database.refundRequest.updateMany.mockResolvedValue({ count: 1 });
+
+    await repository.claim("r1", "admin1");
+
+    expect(database.refundRequest.updateMany).toHaveBeenCalledWith({
+      where: { id: "r1", status: RefundRequestStatus.PENDING },
+      data: expect.objectContaining({
+        status: RefundRequestStatus.PROCESSING,
+        reviewedById: "admin1",
+      }),
+    });
+  });
+
+  it("rejects a claim when the request is no longer pending", async () => {
+    database.refundRequest.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(repository.claim("r1", "admin1")).rejects.toBeInstanceOf(
+      BadRequestException
+    );
+  });
+
+  it("approves only a claimed request", async () => {
+    database.refundRequest.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      repository.approve("r1", {
+        reviewedById: "admin1",
+        amount: 6000,
+        transactionIds: ["t1"],
+        adId: "ad1",
+      })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(database.refundRequest.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: "r1", status: RefundRequestStatus.PROCESSING },
+      })
+    );
+    expect(database.transaction.update).not.toHaveBeenCalled();
+  });
+
+  it("turns off auto-renewal of the refunded ad", async () => {
+    database.refundRequest.updateMany.mockResolvedValue({ count: 1 });
+    database.transaction.findMany.mockResolvedValue([]);
+    database.marketerEarnings.deleteMany.mockResolvedValue({ count: 0 });
+    database.refundRequest.findUniqueOrThrow.mockResolvedValue({ id: "r1" });
+
+    await repository.approve("r1", {
+      reviewedById: "admin1",
+      amount: 6000,
+      transactionIds: ["t1"],
+      adId: "ad1",
+    });
+
+    expect(database.ad.update).toHaveBeenCalledWith({
+      where: { id: "ad1" },
+      data: {
+        expiresAt: expect.any(Date),
+        autoRenew: false,
+        authorization: { disconnect: true },
+      },
+    });
+  });
+
+  it("marks a payment refunded in part as partially refunded", async () => {
+    database.refundRequest.updateMany.mockResolvedValue({ count: 1 });
+    database.marketerEarnings.deleteMany.mockResolvedValue({ count: 0 });
+    database.transaction.findMany.mockResolvedValue([
+      { id: "t1", amount: 7000, refundedAmount: 6000, refundPendingAmount: 0 },
+      { id: "t2", amount: 1400, refundedAmount: 1400, refundPendingAmount: 0 },
+    ]);
+
+    await repository.approve("r1", {
+      reviewedById: "admin1",
+      amount: 7400,
+      transactionIds: ["t1", "t2"],
+      adId: "ad1",
+    });
+
+    expect(database.transaction.update).toHaveBeenCalledWith({
+      where: { id: "t1" },
+      data: {
+        refundedAmount: 6000,
+        refundPendingAmount: 0,
+        status: PaymentStatus.PARTIALLY_REFUNDED,
+      },
+    });
+    expect(database.transaction.update).toHaveBeenCalledWith({
+      where: { id: "t2" },
+      data: {
+        refundedAmount: 1400,
+        refundPendingAmount: 0,
+        status: PaymentStatus.REFUNDED,
+      },
+    });
+  });
+
+  it("leaves the payments and the request open while the refund waits on the provider", async () => {
+    database.refundRequest.updateMany.mockResolvedValue({ count: 1 });
+    database.marketerEarnings.deleteMany.mockResolvedValue({ count: 0 });
+
+    await repository.approve("r1", {
+      reviewedById: "admin1",
+      amount: 6000,
+      transactionIds: ["t1"],
+      adId: "ad1",
+      awaitingRefund: true,
+    });
+
+    const { data } = database.refundRequest.updateMany.mock.calls[0][0];
+    expect(data.awaitingRefund).toBe(true);
+    expect(data.status).toBeUndefined();
+    expect(database.transaction.update).not.toHaveBeenCalled();
+    expect(database.ad.update).toHaveBeenCalled();
+  });
+
+  it("confirms only a request waiting on the provider and settles its payments", async () => {
+    database.refundRequest.updateMany.mockResolvedValue({ count: 1 });
+    database.transaction.findMany.mockResolvedValue([
+      { id: "t1", amount: 7000, refundedAmount: 0, refundPendingAmount: 7000 },
+    ]);
+
+    await repository.confirm("r1", {
+      reviewedById: "admin1",
+      transactionIds: ["t1"],
+    });
+
+    expect(database.refundRequest.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          id: "r1",
+          status: RefundRequestStatus.PROCESSING,
+          awaitingRefund: true,
+        },
+      })
+    );
+    expect(database.transaction.update).toHaveBeenCalledWith({
+      where: { id: "t1" },
+      data: {
+        refundedAmount: 7000,
+        refundPendingAmount: 0,
+        status: PaymentStatus.REFUNDED,
+      },
+    });
+  });
+});
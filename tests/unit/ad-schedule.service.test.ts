@@ -0,0 +1,236 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import {
+  AdBilling,
+  AdPaymentAction,
+  AdType,
+  PaymentFor,
+  PaymentProvider,
+  PaymentStatus,
+} from "@prisma/client";
+import { AdService } from "../../src/ad/ad.service";
+import { ErrorMessages } from "../../src/constants/error-messages.enum";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const merchant = { id: "m1", email: "merchant@example.com" } as any;
+
+const transaction = (overrides: Record<string, any> = {}) =>
+  ({
+    id: "t1",
+    merchantId: "m1",
+    amount: 5000,
+    status: PaymentStatus.SUCCESS,
+    for: PaymentFor.ADVERTISEMENT,
+    reference: "ad1",
+    provider: PaymentProvider.FAKE,
+    adAction: AdPaymentAction.PURCHASE,
+    adLevel: 1,
+    adPlanId: "plan1",
+    adDuration: 7,
+    appliedAdId: null,
+    fulfilledAt: null,
+    ...overrides,
+  }) as any;
+
+const scheduledAd = (startsAt: Date) => ({
+  id: "ad1",
+  productId: "p1",
+  type: AdType.DURATION,
+  level: 1,
+  planId: null,
+  paidFor: false,
+  startsAt,
+  expiresAt: null,
+});
+
+describe("AdService scheduled ads", () => {
+  const provider = {
+    name: PaymentProvider.FAKE,
+    initializePayment: jest.fn(),
+  };
+  const adRepository = {
+    create: jest.fn(),
+    getAd: jest.fn(),
+    getActivePaidAd: jest.fn(),
+    getProductForAd: jest.fn(),
+    applyPayment: jest.fn(),
+  };
+  const adPlanRepository = {
+    getCurrentPlan: jest.fn(),
+  };
+  const productRepository = { getById: jest.fn() };
+  const transactionRepository = {
+    create: jest.fn(),
+    update: jest.fn(),
+  };
+  const marketerService = { calculateAndRecordEarnings: jest.fn() };
+  const service = new AdService(
+    adRepository as any,
+    {} as any,
+    adPlanRepository as any,
+    {} as any,
+    { getProvider: () => provider } as any,
+    productRepository as any,
+    transactionRepository as any,
+    {} as any,
+    marketerService as any,
+    createMockLogger()
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    productRepository.getById.mockResolvedValue({ id: "p1", merchantId: "m1" });
+    adRepository.getActivePaidAd.mockResolvedValue(null);
+    adRepository.getProductForAd.mockResolvedValue({ merchantId: "m1" });
+    adRepository.create.mockImplementation(async (data) => ({
+      ...scheduledAd(data.startsAt),
+      level: data.level,
+    }));
+    adRepository.applyPayment.mockImplementation(async (id, data) => ({
+      ...scheduledAd(data.startsAt),
+      ...data,
+    }));
+    adPlanRepository.getCurrentPlan.mockResolvedValue({
+      id: "plan1",
+      name: "Gold",
+      level: 1,
+      price: 5000,
+      durationDays: 7,
+    });
+    transactionRepository.create.mockImplementation(async (data) => ({
+      ...data,
+      id: "t1",
+    }));
+    transactionRepository.update.mockImplementation(async (id, data) =>
+      transaction({ id, ...data })
+    );
+    provider.initializePayment.mockResolvedValue({
+      provider: PaymentProvider.FAKE,
+      reference: "t1",
+      checkout: {},
+    });
+  });
+
+  it("creates the ad with the requested future start date", async () => {
+    const startsAt = new Date(Date.now() + 10 * DAY);
+
+    await service.initializeAdPayment(
+      1,
+      "p1",
+      merchant,
+      undefined,
+      undefined,
+      startsAt.toISOString()
+    );
+
+    expect(adRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ level: 1, startsAt })
+    );
+  });
+
+  it("rejects a start date in the past before creating the ad", async () => {
+    const startsAt = new Date(Date.now() - DAY).toISOString();
+
+    await expect(
+      service.initializeAdPayment(
+        1,
+        "p1",
+        merchant,
+        undefined,
+        undefined,
+        startsAt
+      )
+    ).rejects.toThrow(ErrorMessages.INVALID_AD_START_DATE);
+    await expect(
+      service.initializeBudgetAd(
+        "p1",
+        AdBilling.CPC,
+        5000,
+        merchant,
+        undefined,
+        undefined,
+        startsAt
+      )
+    ).rejects.toThrow(ErrorMessages.INVALID_AD_START_DATE);
+    expect(adRepository.create).not.toHaveBeenCalled();
+  });
+
+  it("rejects a start date further ahead than the schedule window", async () => {
+    const startsAt = new Date(Date.now() + 91 * DAY).toISOString();
+
+    await expect(
+      service.initializeAdPayment(
+        1,
+        "p1",
+        merchant,
+        undefined,
+        undefined,
+        startsAt
+      )
+    ).rejects.toThrow(ErrorMessages.INVALID_AD_START_DATE);
+    expect(adRepository.create).not.toHaveBeenCalled();
+  });
+
+  it("counts the plan period from the start date when a scheduled ad is paid for", async () => {
+    const startsAt = new Date(Date.now() + 10 * DAY);
+    adRepository.getAd.mockResolvedValue(scheduledAd(startsAt));
+
+    await service.fulfilAdPayment(transaction());
+
+    expect(adRepository.applyPayment).toHaveBeenCalledWith(
+      "ad1",
+      expect.objectContaining({
+        paidFor: true,
+        startsAt,
+        expiresAt: new Date(startsAt.getTime() + 7 * DAY),
+      }),
+      "t1"
+    );
+  });
+
+  it("starts the ad when it is paid for once the start date has passed", async () => {
+    adRepository.getAd.mockResolvedValue(
+      scheduledAd(new Date(Date.now() - DAY))
+    );
+    const before = Date.now();
+
+    await service.fulfilAdPayment(transaction());
+
+    const data = adRepository.applyPayment.mock.calls[0][1];
+    expect(data.startsAt.getTime()).toBeGreaterThanOrEqual(before);
+    expect(data.expiresAt.getTime() - data.startsAt.getTime()).toBe(7 * DAY);
+  });
+
+  it("reports a paid budget ad as inactive until its start date", async () => {
+    const budgetAd = {
+      ...scheduledAd(new Date(Date.now() + 2 * DAY)),
+      type: AdType.BUDGET,
+      billing: AdBilling.CPC,
+      rate: 50,
+      budget: 5000,
+      spent: 0,
+      adClicks: 0,
+      adViews: 0,
+      paidFor: true,
+      expiresAt: new Date(Date.now() + 30 * DAY),
+    };
+    adRepository.getAd.mockResolvedValue(budgetAd);
+
+    await expect(service.getAdSpend("ad1", merchant)).resolves.toMatchObject({
+      active: false,
+    });
+
+    adRepository.getAd.mockResolvedValue({
+      ...budgetAd,
+      startsAt: new Date(Date.now() - DAY),
+    });
+
+    await expect(service.getAdSpend("ad1", merchant)).resolves.toMatchObject({
+      active: true,
+    });
+  });
+});
@@ -0,0 +1,193 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import {
+  AdPaymentAction,
+  AdType,
+  PaymentFor,
+  PaymentProvider,
+  PaymentStatus,
+} from "@prisma/client";
+import { AdService } from "../../src/ad/ad.service";
+import { BadRequestException } from "../../src/utils/exceptions/bad-request.exception";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const plans: Record<number, any> = {
+  1: { id: "plan1", name: "Silver", level: 1, price: 5000, durationDays: 7 },
+  2: { id: "plan2", name: "Gold", level: 2, price: 9000, durationDays: 7 },
+};
+
+const merchant = { id: "m1", email: "merchant@example.com" } as any;
+
+// Three days into a seven day level 1 period
+const ad = {
+  id: "ad1",
+  productId: "p1",
+  type: AdType.DURATION,
+  level: 1,
+  planId: "plan1",
+  paidFor: true,
+  startsAt: new Date(Date.now() - 3 * DAY),
+  expiresAt: new Date(Date.now() + 4 * DAY),
+};
+
+const transaction = (overrides: Record<string, any> = {}) =>
+  ({
+    id: "t1",
+    merchantId: "m1",
+    amount: 4000,
+    status: PaymentStatus.SUCCESS,
+    for: PaymentFor.ADVERTISEMENT,
+    reference: "ad1",
+    provider: PaymentProvider.FAKE,
+    adAction: AdPaymentAction.UPGRADE,
+    adLevel: 2,
+    adPlanId: "plan2",
+    adDuration: 7,
+    appliedAdId: null,
+    fulfilledAt: null,
+    ...overrides,
+  }) as any;
+
+describe("AdService upgrades and renewals", () => {
+  const adRepository = {
+    getAd: jest.fn(),
+    getProductForAd: jest.fn(),
+    getActivePaidAd: jest.fn(),
+    applyPayment: jest.fn(),
+  };
+  const adPlanRepository = {
+    getCurrentPlan: jest.fn(async (level: number) => plans[level] ?? null),
+    getById: jest.fn(async (id: string) =>
+      Object.values(plans).find((plan) => plan.id === id)
+    ),
+  };
+  const transactionRepository = {
+    create: jest.fn(async (data: any) => ({ ...data, id: "t1" })),
+    update: jest.fn(async (id: string, data: any) =>
+      transaction({ id, ...data })
+    ),
+  };
+  const provider = {
+    name: PaymentProvider.FAKE,
+    initializePayment: jest.fn(async (reference: string) => ({
+      reference,
+      provider: PaymentProvider.FAKE,
+      checkout: {},
+    })),
+  };
+  const paymentGateway = { getProvider: jest.fn(() => provider) };
+  const service = new AdService(
+    adRepository as any,
+    {} as any,
+    adPlanRepository as any,
+    {} as any,
+    paymentGateway as any,
+    {} as any,
+    transactionRepository as any,
+    {} as any,
+    { calculateAndRecordEarnings: jest.fn() } as any,
+    createMockLogger()
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    adRepository.getAd.mockResolvedValue(ad);
+    adRepository.getProductForAd.mockResolvedValue({ merchantId: "m1" });
+    adRepository.getActivePaidAd.mockResolvedValue(null);
+    adRepository.applyPayment.mockImplementation(async (id, data) => ({
+      ...ad,
+      id,
+      ...data,
+    }));
+  });
+
+  it("charges the price difference between the two levels for an upgrade", async () => {
+    const payment = await service.initializeAdUpgrade("ad1", 2, merchant);
+
+    expect(payment.amount).toBe(4000);
+    expect(transactionRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        amount: 4000,
+        adAction: AdPaymentAction.UPGRADE,
+        adLevel: 2,
+        reference: "ad1",
+      }),
+      "m1"
+    );
+  });
+
+  it("does not upgrade an ad to its own or a lower level", async () => {
+    await expect(
+      service.initializeAdUpgrade("ad1", 1, merchant)
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(transactionRepository.create).not.toHaveBeenCalled();
+  });
+
+  it("gives an upgraded ad the new level's period from when its period started", async () => {
+    await service.fulfilAdPayment(transaction());
+
+    const [, data] = adRepository.applyPayment.mock.calls[0];
+    expect(data.level).toBe(2);
+    expect(data.expiresAt.getTime()).toBeCloseTo(ad.expiresAt.getTime(), -4);
+  });
+
+  it("extends a renewed ad from its current expiry", async () => {
+    await service.fulfilAdPayment(
+      transaction({
+        amount: 5000,
+        adAction: AdPaymentAction.RENEWAL,
+        adLevel: 1,
+        adPlanId: "plan1",
+      })
+    );
+
+    const [, data] = adRepository.applyPayment.mock.calls[0];
+    expect(data.expiresAt.getTime()).toBeGreaterThanOrEqual(
+      ad.expiresAt.getTime() + 7 * DAY - 1000
+    );
+    expect(data).toMatchObject({ autoRenewAttempts: 0 });
+  });
+
+  it("does not renew an expired ad whose product has another paid ad", async () => {
+    adRepository.getAd.mockResolvedValue({
+      ...ad,
+      expiresAt: new Date(Date.now() - DAY),
+    });
+    adRepository.getActivePaidAd.mockResolvedValue({ ...ad, id: "ad2" });
+
+    await expect(
+      service.initializeAdRenewal("ad1", merchant)
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(transactionRepository.create).not.toHaveBeenCalled();
+  });
+
+  it("extends the running ad when a second purchase for the product races it", async () => {
+    adRepository.getAd.mockResolvedValue({
+      ...ad,
+      id: "ad2",
+      paidFor: false,
+      expiresAt: null,
+    });
+    adRepository.getActivePaidAd.mockResolvedValue(ad);
+
+    await service.fulfilAdPayment(
+      transaction({
+        reference: "ad2",
+        amount: 5000,
+        adAction: AdPaymentAction.PURCHASE,
+        adLevel: 1,
+        adPlanId: "plan1",
+      })
+    );
+
+    const [adId, data] = adRepository.applyPayment.mock.calls[0];
+    expect(adId).toBe("ad1");
+    expect(data.expiresAt.getTime()).toBeGreaterThanOrEqual(
+      ad.expiresAt.getTime() + 7 * DAY - 1000
+    );
+  });
+});
@@ -0,0 +1,66 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import { Prisma } from "@prisma/client";
+import { databaseService } from "../../src/utils/database";
+import { CartProductRepository } from "../../src/repositories/cart-product.repository";
+
+const database = databaseService as any;
+
+describe("CartProductRepository.create", () => {
+  const repository = new CartProductRepository();
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it("adds the item to the open cart", async () => {
+    database.cartProduct.create.mockResolvedValue({ id: "c1", quantity: 1 });
+
+    const cartProduct = await repository.create("customer", "p1", {
+      quantity: 1,
+      totalPrice: 500,
+    });
+
+    expect(cartProduct).toEqual({ id: "c1", quantity: 1 });
+    expect(database.cartProduct.create).toHaveBeenCalledWith({
+      data: {
+        quantity: 1,
+        totalPrice: 500,
+        customer: { connect: { id: "customer" } },
+        product: { connect: { id: "p1" } },
+      },
+    });
+  });
+
+  it("updates the existing row when a concurrent add created it first", async () => {
+    database.cartProduct.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+        code: "P2002",
+        clientVersion: Prisma.prismaVersion.client,
+      })
+    );
+    database.cartProduct.findFirstOrThrow.mockResolvedValue({ id: "c1" });
+    database.cartProduct.update.mockResolvedValue({ id: "c1", quantity: 3 });
+
+    const cartProduct = await repository.create(
+      "customer",
+      "p1",
+      { quantity: 3, totalPrice: 1500 },
+      "v1"
+    );
+
+    expect(cartProduct).toEqual({ id: "c1", quantity: 3 });
+    expect(database.cartProduct.findFirstOrThrow).toHaveBeenCalledWith({
+      where: {
+        customerId: "customer",
+        productId: "p1",
+        variantId: "v1",
+        orderId: null,
+      },
+    });
+    expect(database.cartProduct.update).toHaveBeenCalledWith({
+      where: { id: "c1" },
+      data: { quantity: 3, totalPrice: 1500 },
+    });
+  });
+});
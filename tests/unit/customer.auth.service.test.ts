@@ -0,0 +1,221 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+jest.mock("../../src/utils/email/email.service");
+jest.mock("../../src/repositories/marketer.repository");
+// Tokens pass through unencrypted so a test can read what was signed
+jest.mock("../../src/utils/crytpo/crypto.service", () => ({
+  cryptoService: {
+    encrypt: (text: string) => text,
+    decrypt: (text: string) => text,
+    random: () => "refresh-1",
+    randomInt: () => "123456",
+  },
+}));
+
+import { Role } from "@prisma/client";
+import { CustomerAuthService } from "../../src/auth/customer/customer.auth.service";
+import { MarketerRepository } from "../../src/repositories/marketer.repository";
+import { BadRequestException } from "../../src/utils/exceptions/bad-request.exception";
+import { UnauthorizedException } from "../../src/utils/exceptions/unauthorized.exception";
+import { createMockCustomerRepository } from "./mocks/mock-customer.repository";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const marketerRepository = jest.mocked(MarketerRepository.prototype);
+
+const customer = {
+  id: "c1",
+  email: "ada@example.com",
+  password: "hashed",
+  emailVerificationCode: "123456",
+  passwordResetCode: "654321",
+  refreshToken: "refresh-1",
+};
+
+describe("CustomerAuthService", () => {
+  const customerRepository = createMockCustomerRepository();
+  const bcryptService = {
+    comparePassword: jest.fn(),
+    hashPassword: jest.fn(async (password: string) => `hashed:${password}`),
+  };
+  const jwtService = {
+    signPayload: jest.fn((payload: object) => JSON.stringify(payload)),
+    verifyToken: jest.fn((token: string) => JSON.parse(token)),
+  };
+  const service = new CustomerAuthService(
+    createMockLogger(),
+    bcryptService as any,
+    jwtService as any,
+    customerRepository
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    customerRepository.getCustomerByEmail.mockResolvedValue(customer);
+    customerRepository.create.mockResolvedValue({ ...customer, id: "c2" });
+    customerRepository.update.mockResolvedValue(customer);
+    bcryptService.comparePassword.mockResolvedValue(true);
+    marketerRepository.getMarketerByEmail.mockResolvedValue(null);
+  });
+
+  describe("login", () => {
+    it("issues tokens and keeps the refresh token for the customer", async () => {
+      const response = await service.login({
+        email: customer.email,
+        password: "secret",
+      });
+
+      expect(response.id).toBe("c1");
+      expect(JSON.parse(response.accessToken)).toEqual({
+        email: customer.email,
+        id: "c1",
+      });
+      expect(customerRepository.update).toHaveBeenCalledWith("c1", {
+        refreshToken: "refresh-1",
+      });
+    });
+
+    it("rejects a wrong password", async () => {
+      bcryptService.comparePassword.mockResolvedValue(false);
+
+      await expect(
+        service.login({ email: customer.email, password: "wrong" })
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(customerRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("register", () => {
+    const registerData = {
+      email: "obi@example.com",
+      firstName: "Obi",
+      lastName: "Eze",
+      password: "secret",
+      phoneNumbers: ["08030000000"],
+      addresses: [],
+    } as any;
+
+    it("creates the customer with a hashed password and sends a verification code", async () => {
+      customerRepository.getCustomerByEmail.mockResolvedValue(null);
+
+      await expect(
+        service.register({ ...registerData }, "https://9ja.market/verify")
+      ).resolves.toBe(true);
+
+      const [data, , phoneNumbers] = customerRepository.create.mock.calls[0];
+      expect(data).toMatchObject({
+        email: "obi@example.com",
+        password: "hashed:secret",
+      });
+      expect(data.role).toBeUndefined();
+      expect(phoneNumbers).toEqual([
+        expect.objectContaining({ number: "08030000000", isPrimary: true }),
+      ]);
+      expect(customerRepository.update).toHaveBeenCalledWith("c2", {
+        emailVerificationCode: "123456",
+      });
+    });
+
+    it("gives a customer who is already a marketer the marketer role", async () => {
+      customerRepository.getCustomerByEmail.mockResolvedValue(null);
+      marketerRepository.getMarketerByEmail.mockResolvedValue({
+        id: "mk1",
+      } as any);
+
+      await service.register({ ...registerData }, "https://9ja.market/verify");
+
+      expect(customerRepository.create.mock.calls[0][0].role).toBe(
+        Role.MARKETER
+      );
+    });
+
+    it("does not register an email twice", async () => {
+      await expect(
+        service.register({ ...registerData }, "https://9ja.market/verify")
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(customerRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("verifyEmail", () => {
+    it("verifies the email and links a marketer with the same email", async () => {
+      marketerRepository.getMarketerByEmail.mockResolvedValue({
+        id: "mk1",
+        customerId: null,
+      } as any);
+
+      await service.verifyEmail({ email: customer.email, code: "123456" });
+
+      expect(customerRepository.update).toHaveBeenCalledWith("c1", {
+        emailVerifiedAt: expect.any(Date),
+        emailVerificationCode: null,
+        marketer: { connect: { id: "mk1" } },
+      });
+    });
+
+    it("rejects a wrong verification code", async () => {
+      await expect(
+        service.verifyEmail({ email: customer.email, code: "000000" })
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(customerRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("resetPassword", () => {
+    it("stores the new password and clears the reset code", async () => {
+      await service.resetPassword({
+        email: customer.email,
+        resetCode: "654321",
+        newPassword: "new-secret",
+      } as any);
+
+      expect(customerRepository.update).toHaveBeenCalledWith("c1", {
+        password: "hashed:new-secret",
+        passwordResetCode: null,
+      });
+    });
+
+    it("rejects a wrong reset code", async () => {
+      await expect(
+        service.resetPassword({
+          email: customer.email,
+          resetCode: "000000",
+          newPassword: "new-secret",
+        } as any)
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(bcryptService.hashPassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("refreshToken", () => {
+    const token = (refreshToken: string) =>
+      JSON.stringify({ email: customer.email, refreshToken });
+
+    it("issues a new access token for the stored refresh token", async () => {
+      const response = await service.refreshToken(token("refresh-1"));
+
+      expect(response.id).toBe("c1");
+      expect(JSON.parse(response.accessToken)).toEqual({
+        email: customer.email,
+        id: "c1",
+      });
+    });
+
+    it("rejects a refresh token replaced by a later login", async () => {
+      await expect(
+        service.refreshToken(token("refresh-0"))
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+
+    it("rejects any refresh token after logout", async () => {
+      customerRepository.getCustomerByEmail.mockResolvedValue({
+        ...customer,
+        refreshToken: null,
+      });
+
+      await expect(
+        service.refreshToken(token("refresh-1"))
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+  });
+});
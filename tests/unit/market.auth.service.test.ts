@@ -0,0 +1,222 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+jest.mock("../../src/utils/email/email.service");
+jest.mock("../../src/repositories/marketer.repository");
+// Tokens pass through unencrypted so a test can read what was signed
+jest.mock("../../src/utils/crytpo/crypto.service", () => ({
+  cryptoService: {
+    encrypt: (text: string) => text,
+    decrypt: (text: string) => text,
+    random: () => "refresh-1",
+    randomInt: () => "123456",
+  },
+}));
+
+import { MerchantAuthService } from "../../src/auth/merchant/merchant.auth.service";
+import { MarketerRepository } from "../../src/repositories/marketer.repository";
+import { BadRequestException } from "../../src/utils/exceptions/bad-request.exception";
+import { NotFoundException } from "../../src/utils/exceptions/not-found.exception";
+import { UnauthorizedException } from "../../src/utils/exceptions/unauthorized.exception";
+import { createMockLogger } from "./mocks/mock-logger";
+import { createMockMarketRepository } from "./mocks/mock-market.repository";
+
+const marketerRepository = jest.mocked(MarketerRepository.prototype);
+
+const merchant = {
+  id: "m1",
+  email: "shop@example.com",
+  password: "hashed",
+  refreshToken: "refresh-1",
+};
+
+const registerData = (overrides: Record<string, any> = {}) =>
+  ({
+    email: "new@example.com",
+    brandName: "Ada Fabrics",
+    password: "secret",
+    marketName: "Balogun",
+    phoneNumbers: ["08030000000"],
+    addresses: [{ name: "Shop" }],
+    ...overrides,
+  }) as any;
+
+describe("MerchantAuthService", () => {
+  const merchantRepository = {
+    getMerchantByEmail: jest.fn(),
+    getMerchantByBrandName: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  };
+  const marketRepository = createMockMarketRepository();
+  const referralService = {
+    findVisitToAttribute: jest.fn(),
+    markConverted: jest.fn(),
+  };
+  const bcryptService = {
+    comparePassword: jest.fn(),
+    hashPassword: jest.fn(async (password: string) => `hashed:${password}`),
+  };
+  const jwtService = {
+    signPayload: jest.fn((payload: object) => JSON.stringify(payload)),
+    verifyToken: jest.fn((token: string) => JSON.parse(token)),
+  };
+  const service = new MerchantAuthService(
+    createMockLogger(),
+    bcryptService as any,
+    jwtService as any,
+    merchantRepository as any,
+    marketRepository,
+    referralService as any
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    merchantRepository.getMerchantByEmail.mockResolvedValue(null);
+    merchantRepository.getMerchantByBrandName.mockResolvedValue(null);
+    merchantRepository.create.mockResolvedValue({ ...merchant, id: "m2" });
+    merchantRepository.update.mockResolvedValue(merchant);
+    marketRepository.findByName.mockResolvedValue({ id: "mkt1" });
+    referralService.findVisitToAttribute.mockResolvedValue(null);
+    bcryptService.comparePassword.mockResolvedValue(true);
+    marketerRepository.getMarketerByEmail.mockResolvedValue(null);
+    marketerRepository.getMarketerByReferrerCode.mockResolvedValue(null);
+    marketerRepository.getMarketerById.mockResolvedValue(null);
+  });
+
+  describe("login", () => {
+    it("issues tokens and keeps the refresh token for the merchant", async () => {
+      merchantRepository.getMerchantByEmail.mockResolvedValue(merchant);
+
+      const response = await service.login({
+        email: merchant.email,
+        password: "secret",
+      });
+
+      expect(response.id).toBe("m1");
+      expect(JSON.parse(response.accessToken)).toEqual({
+        email: merchant.email,
+        id: "m1",
+      });
+      expect(merchantRepository.update).toHaveBeenCalledWith("m1", {
+        refreshToken: "refresh-1",
+      });
+    });
+
+    it("rejects an email nobody registered", async () => {
+      await expect(
+        service.login({ email: "nobody@example.com", password: "secret" })
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(bcryptService.comparePassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("register", () => {
+    it("creates the merchant in its market with a hashed password", async () => {
+      await expect(
+        service.register(registerData(), "https://9ja.market/verify")
+      ).resolves.toBe(true);
+
+      const [data, addresses, , marketName] =
+        merchantRepository.create.mock.calls[0];
+      expect(data).toMatchObject({
+        email: "new@example.com",
+        password: "hashed:secret",
+      });
+      expect(data.referredById).toBeUndefined();
+      expect(addresses).toEqual([{ name: "Shop" }]);
+      expect(marketName).toBe("Balogun");
+      expect(merchantRepository.update).toHaveBeenCalledWith("m2", {
+        emailVerificationCode: "123456",
+      });
+    });
+
+    it("does not register a merchant in a market that does not exist", async () => {
+      marketRepository.findByName.mockResolvedValue(null);
+
+      await expect(
+        service.register(registerData(), "https://9ja.market/verify")
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(merchantRepository.create).not.toHaveBeenCalled();
+    });
+
+    it("does not register a brand name twice", async () => {
+      merchantRepository.getMerchantByBrandName.mockResolvedValue(merchant);
+
+      await expect(
+        service.register(registerData(), "https://9ja.market/verify")
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(merchantRepository.create).not.toHaveBeenCalled();
+    });
+
+    it("does not register a marketer's email as a merchant", async () => {
+      marketerRepository.getMarketerByEmail.mockResolvedValue({
+        id: "mk1",
+      } as any);
+
+      await expect(
+        service.register(registerData(), "https://9ja.market/verify")
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(merchantRepository.create).not.toHaveBeenCalled();
+    });
+
+    it("rejects two addresses with the same name", async () => {
+      await expect(
+        service.register(
+          registerData({ addresses: [{ name: "Shop" }, { name: "Shop" }] }),
+          "https://9ja.market/verify"
+        )
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(merchantRepository.create).not.toHaveBeenCalled();
+    });
+
+    it("credits a verified marketer's referrer code", async () => {
+      marketerRepository.getMarketerByReferrerCode.mockResolvedValue({
+        id: "mk1",
+        verified: true,
+      } as any);
+
+      await service.register(
+        registerData({ referrerCode: "ADA123" }),
+        "https://9ja.market/verify"
+      );
+
+      const [data] = merchantRepository.create.mock.calls[0];
+      expect(data.referredById).toBe("mk1");
+      expect(data.referrerCode).toBeUndefined();
+    });
+
+    it("ignores the referrer code of an unverified marketer", async () => {
+      marketerRepository.getMarketerByReferrerCode.mockResolvedValue({
+        id: "mk1",
+        verified: false,
+      } as any);
+
+      await service.register(
+        registerData({ referrerCode: "ADA123" }),
+        "https://9ja.market/verify"
+      );
+
+      const [data] = merchantRepository.create.mock.calls[0];
+      expect(data.referredById).toBeUndefined();
+    });
+
+    it("credits the referral link the merchant last visited", async () => {
+      referralService.findVisitToAttribute.mockResolvedValue({
+        id: "v1",
+        marketerId: "mk1",
+      });
+      marketerRepository.getMarketerById.mockResolvedValue({
+        id: "mk1",
+        verified: true,
+      } as any);
+
+      await service.register(registerData(), "https://9ja.market/verify");
+
+      expect(merchantRepository.create.mock.calls[0][0].referredById).toBe(
+        "mk1"
+      );
+      expect(referralService.markConverted).toHaveBeenCalledWith("v1", "m2");
+    });
+  });
+});
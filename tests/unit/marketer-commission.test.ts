@@ -0,0 +1,263 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+jest.mock("../../src/utils/email/email.service");
+
+import { MarketerEarningType, Prisma } from "@prisma/client";
+import { CommissionRuleService } from "../../src/marketer/commission/commission-rule.service";
+import { MarketerService } from "../../src/marketer/marketer.service";
+import { MarketerEarningsRepository } from "../../src/repositories/marketer-earnings.repository";
+import { databaseService } from "../../src/utils/database";
+import { BadRequestException } from "../../src/utils/exceptions/bad-request.exception";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const database = databaseService as any;
+
+const rule = {
+  id: "rule2",
+  version: 2,
+  signupBonus: 0,
+  eligibilityMonths: 6,
+  activeWindowDays: 30,
+  tiers: [
+    { minActiveMerchants: 0, percentage: 5 },
+    { minActiveMerchants: 10, percentage: 10 },
+    { minActiveMerchants: 5, percentage: 7.5 },
+  ],
+};
+
+const product = {
+  id: "p1",
+  merchant: { id: "m1", referredById: "mk1", createdAt: new Date() },
+};
+
+const transaction = { id: "t1", amount: 5000 } as any;
+
+describe("MarketerService.calculateAndRecordEarnings", () => {
+  const marketerRepository = { countActiveReferredMerchants: jest.fn() };
+  const marketerEarningsRepository = {
+    getEarningByTransaction: jest.fn(),
+    createEarning: jest.fn(),
+  };
+  const adRepository = { getAd: jest.fn(), getProductForAd: jest.fn() };
+  const commissionRuleRepository = { getCurrent: jest.fn() };
+  const service = new MarketerService(
+    marketerRepository as any,
+    {} as any,
+    marketerEarningsRepository as any,
+    adRepository as any,
+    commissionRuleRepository as any,
+    {} as any,
+    createMockLogger()
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    adRepository.getAd.mockResolvedValue({ id: "ad1", paidFor: true });
+    adRepository.getProductForAd.mockResolvedValue(product);
+    marketerEarningsRepository.getEarningByTransaction.mockResolvedValue(null);
+    marketerEarningsRepository.createEarning.mockResolvedValue({});
+    commissionRuleRepository.getCurrent.mockResolvedValue(rule);
+    marketerRepository.countActiveReferredMerchants.mockResolvedValue(6);
+  });
+
+  it("pays the percentage of the highest tier the marketer reached", async () => {
+    await service.calculateAndRecordEarnings("ad1", transaction);
+
+    expect(marketerEarningsRepository.createEarning).toHaveBeenCalledWith({
+      marketerId: "mk1",
+      merchantId: "m1",
+      AdId: "ad1",
+      transactionId: "t1",
+      amount: 375,
+      type: MarketerEarningType.AD_COMMISSION,
+      commissionRuleId: "rule2",
+      percentage: 7.5,
+    });
+  });
+
+  it("pays the base tier to a marketer without active referrals", async () => {
+    marketerRepository.countActiveReferredMerchants.mockResolvedValue(0);
+
+    await service.calculateAndRecordEarnings("ad1", transaction);
+
+    expect(marketerEarningsRepository.createEarning).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 250, percentage: 5 })
+    );
+  });
+
+  it("pays nothing for a merchant registered before the eligibility window", async () => {
+    adRepository.getProductForAd.mockResolvedValue({
+      ...product,
+      merchant: {
+        ...product.merchant,
+        createdAt: new Date(Date.now() - 400 * 24 * 60 * 60 * 1000),
+      },
+    });
+
+    await service.calculateAndRecordEarnings("ad1", transaction);
+
+    expect(marketerEarningsRepository.createEarning).not.toHaveBeenCalled();
+  });
+
+  it("does not record the earnings of a payment twice", async () => {
+    marketerEarningsRepository.getEarningByTransaction.mockResolvedValue({
+      id: "e1",
+    });
+
+    await service.calculateAndRecordEarnings("ad1", transaction);
+
+    expect(marketerEarningsRepository.createEarning).not.toHaveBeenCalled();
+  });
+
+  it("treats earnings recorded by a concurrent fulfilment as recorded", async () => {
+    marketerEarningsRepository.createEarning.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+        code: "P2002",
+        clientVersion: Prisma.prismaVersion.client,
+      })
+    );
+
+    await expect(
+      service.calculateAndRecordEarnings("ad1", transaction)
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe("MarketerService.recordSignupBonus", () => {
+  const marketerEarningsRepository = { createSignupBonus: jest.fn() };
+  const commissionRuleRepository = { getCurrent: jest.fn() };
+  const service = new MarketerService(
+    {} as any,
+    {} as any,
+    marketerEarningsRepository as any,
+    {} as any,
+    commissionRuleRepository as any,
+    {} as any,
+    createMockLogger()
+  );
+  const merchant = {
+    merchantId: "m1",
+    referredById: "mk1",
+    createdAt: new Date(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    commissionRuleRepository.getCurrent.mockResolvedValue({
+      ...rule,
+      signupBonus: 1000,
+    });
+    marketerEarningsRepository.createSignupBonus.mockResolvedValue({
+      id: "e1",
+    });
+  });
+
+  it("pays the current rule's bonus to the referring marketer", async () => {
+    await service.recordSignupBonus(merchant);
+
+    expect(marketerEarningsRepository.createSignupBonus).toHaveBeenCalledWith({
+      marketerId: "mk1",
+      merchantId: "m1",
+      amount: 1000,
+      commissionRuleId: "rule2",
+    });
+  });
+
+  it("pays nothing for a merchant nobody referred", async () => {
+    await service.recordSignupBonus({ ...merchant, referredById: null });
+
+    expect(marketerEarningsRepository.createSignupBonus).not.toHaveBeenCalled();
+  });
+});
+
+describe("MarketerEarningsRepository.createSignupBonus", () => {
+  // Built without its constructor, which would start a real Prisma client
+  const repository = Object.assign(
+    Object.create(MarketerEarningsRepository.prototype),
+    { prisma: database }
+  ) as MarketerEarningsRepository;
+  const data = {
+    marketerId: "mk1",
+    merchantId: "m1",
+    amount: 1000,
+    commissionRuleId: "rule2",
+  };
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it("locks the merchant before checking for a bonus and records it", async () => {
+    database.marketerEarnings.findFirst.mockResolvedValue(null);
+    database.marketerEarnings.create.mockResolvedValue({ id: "e1" });
+
+    const bonus = await repository.createSignupBonus(data);
+
+    expect(bonus).toEqual({ id: "e1" });
+    expect(database.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      database.marketerEarnings.findFirst.mock.invocationCallOrder[0]
+    );
+    expect(database.marketerEarnings.create).toHaveBeenCalledWith({
+      data: { ...data, type: MarketerEarningType.SIGNUP_BONUS },
+    });
+  });
+
+  it("does not pay the bonus twice", async () => {
+    database.marketerEarnings.findFirst.mockResolvedValue({ id: "e1" });
+
+    const bonus = await repository.createSignupBonus(data);
+
+    expect(bonus).toBeNull();
+    expect(database.marketerEarnings.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("CommissionRuleService.createRule", () => {
+  const commissionRuleRepository = {
+    getCurrent: jest.fn(),
+    create: jest.fn(async (data: any) => ({ ...data, version: 3 })),
+  };
+  const service = new CommissionRuleService(
+    commissionRuleRepository as any,
+    createMockLogger()
+  );
+  const admin = { id: "admin1" } as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    commissionRuleRepository.getCurrent.mockResolvedValue(rule);
+  });
+
+  it("sorts the tiers and carries over the settings left out", async () => {
+    await service.createRule(
+      {
+        tiers: [
+          { minActiveMerchants: 3, percentage: 6 },
+          { minActiveMerchants: 0, percentage: 4 },
+        ],
+        signupBonus: 1000,
+      } as any,
+      admin
+    );
+
+    expect(commissionRuleRepository.create).toHaveBeenCalledWith({
+      tiers: [
+        { minActiveMerchants: 0, percentage: 4 },
+        { minActiveMerchants: 3, percentage: 6 },
+      ],
+      signupBonus: 1000,
+      eligibilityMonths: 6,
+      activeWindowDays: 30,
+      createdById: "admin1",
+    });
+  });
+
+  it("requires a tier that starts at zero active merchants", async () => {
+    await expect(
+      service.createRule(
+        { tiers: [{ minActiveMerchants: 1, percentage: 5 }] } as any,
+        admin
+      )
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(commissionRuleRepository.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+jest.mock("../../src/utils/email/email.service");
+
+import { MarketerKycStatus } from "@prisma/client";
+import { MarketerService } from "../../src/marketer/marketer.service";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const marketer = {
+  id: "mk1",
+  email: "ada@example.com",
+  username: "ada",
+  accountName: "Ada Obi",
+  accountBank: "058",
+  accountNumber: "0123456789",
+  IdentityCredentialType: "NIN",
+  IdentityCredentialImage: "uploads/nin.png",
+  kycStatus: MarketerKycStatus.APPROVED,
+  verified: true,
+  referrerCode: "ADA123",
+};
+
+describe("MarketerService.updateMarketer", () => {
+  const marketerRepository = {
+    getMarketerById: jest.fn(),
+    getMarketerByEmail: jest.fn(),
+    getMarketerByUsername: jest.fn(),
+    updateMarketer: jest.fn(async (id: string, data: any) => ({
+      ...marketer,
+      ...data,
+    })),
+  };
+  const service = new MarketerService(
+    marketerRepository as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    createMockLogger()
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    marketerRepository.getMarketerById.mockResolvedValue(marketer);
+    marketerRepository.getMarketerByEmail.mockResolvedValue(null);
+    marketerRepository.getMarketerByUsername.mockResolvedValue(null);
+  });
+
+  it("updates profile fields without touching the KYC state", async () => {
+    await service.updateMarketer("mk1", { firstName: "Adaeze" });
+
+    expect(marketerRepository.updateMarketer).toHaveBeenCalledWith("mk1", {
+      firstName: "Adaeze",
+    });
+  });
+
+  it("ignores KYC fields sent in the body", async () => {
+    await service.updateMarketer("mk1", {
+      firstName: "Adaeze",
+      kycStatus: MarketerKycStatus.APPROVED,
+      verified: true,
+      referrerCode: "FREE",
+    } as any);
+
+    expect(marketerRepository.updateMarketer).toHaveBeenCalledWith("mk1", {
+      firstName: "Adaeze",
+    });
+  });
+
+  it("sends an approved marketer back to review when the bank account changes", async () => {
+    await service.updateMarketer("mk1", { accountNumber: "9876543210" });
+
+    expect(marketerRepository.updateMarketer).toHaveBeenCalledWith("mk1", {
+      accountNumber: "9876543210",
+      kycStatus: MarketerKycStatus.PENDING,
+      kycSubmittedAt: expect.any(Date),
+      verified: false,
+    });
+  });
+
+  it("sends the marketer back to review for a new document", async () => {
+    await service.updateMarketer("mk1", {}, "uploads/passport.png");
+
+    expect(marketerRepository.updateMarketer).toHaveBeenCalledWith(
+      "mk1",
+      expect.objectContaining({
+        IdentityCredentialImage: "uploads/passport.png",
+        kycStatus: MarketerKycStatus.PENDING,
+      })
+    );
+  });
+
+  it("keeps the approval when the bank details sent are unchanged", async () => {
+    await service.updateMarketer("mk1", { accountBank: "058" });
+
+    expect(marketerRepository.updateMarketer).toHaveBeenCalledWith("mk1", {
+      accountBank: "058",
+    });
+  });
+
+  it("keeps a rejected marketer rejected", async () => {
+    marketerRepository.getMarketerById.mockResolvedValue({
+      ...marketer,
+      kycStatus: MarketerKycStatus.REJECTED,
+      verified: false,
+    });
+
+    await service.updateMarketer("mk1", {}, "uploads/passport.png");
+
+    expect(marketerRepository.updateMarketer).toHaveBeenCalledWith("mk1", {
+      IdentityCredentialImage: "uploads/passport.png",
+    });
+  });
+});
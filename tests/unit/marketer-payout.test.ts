@@ -0,0 +1,175 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import { PayoutStatus } from "@prisma/client";
+import { MarketerPayoutService } from "../../src/marketer/payout/payout.service";
+import { PayoutRepository } from "../../src/repositories/payout.repository";
+import { databaseService } from "../../src/utils/database";
+import { BadRequestException } from "../../src/utils/exceptions/bad-request.exception";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const database = databaseService as any;
+
+const account = {
+  accountName: "Ada Obi",
+  accountBank: "058",
+  accountNumber: "0123456789",
+};
+
+describe("PayoutRepository", () => {
+  const repository = new PayoutRepository();
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it("groups the unpaid earnings into a payout of their total", async () => {
+    database.marketerEarnings.findMany.mockResolvedValue([
+      { id: "e1", amount: 250 },
+      { id: "e2", amount: 375.5 },
+    ]);
+    database.payout.create.mockResolvedValue({ id: "po1" });
+    database.marketerEarnings.updateMany.mockResolvedValue({ count: 2 });
+    database.payout.findUniqueOrThrow.mockResolvedValue({ id: "po1" });
+
+    await repository.createForMarketer({
+      marketerId: "mk1",
+      approvedById: "admin1",
+      ...account,
+      status: PayoutStatus.PENDING,
+    });
+
+    expect(database.payout.create.mock.calls[0][0].data).toMatchObject({
+      amount: 625.5,
+      status: PayoutStatus.PENDING,
+    });
+    expect(database.marketerEarnings.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["e1", "e2"] }, paid: false, payoutId: null },
+      data: { payoutId: "po1" },
+    });
+  });
+
+  it("rolls back when a concurrent payout claimed some of the earnings", async () => {
+    database.marketerEarnings.findMany.mockResolvedValue([
+      { id: "e1", amount: 250 },
+      { id: "e2", amount: 375.5 },
+    ]);
+    database.payout.create.mockResolvedValue({ id: "po1" });
+    database.marketerEarnings.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(
+      repository.createForMarketer({
+        marketerId: "mk1",
+        approvedById: "admin1",
+        ...account,
+        status: PayoutStatus.PENDING,
+      })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(database.payout.findUniqueOrThrow).not.toHaveBeenCalled();
+  });
+
+  it("marks the earnings paid when the payout is sent", async () => {
+    database.payout.updateMany.mockResolvedValue({ count: 1 });
+    database.payout.findUniqueOrThrow.mockResolvedValue({ id: "po1" });
+
+    await repository.settle("po1", {
+      status: PayoutStatus.SENT,
+      bankReference: "REF1",
+    });
+
+    expect(database.payout.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: "po1", status: { in: [PayoutStatus.PENDING] } },
+      })
+    );
+    expect(database.marketerEarnings.updateMany).toHaveBeenCalledWith({
+      where: { payoutId: "po1" },
+      data: { paid: true },
+    });
+  });
+
+  it("frees the earnings for a later payout when the payout failed", async () => {
+    database.payout.updateMany.mockResolvedValue({ count: 1 });
+    database.payout.findUniqueOrThrow.mockResolvedValue({ id: "po1" });
+
+    await repository.settle("po1", {
+      status: PayoutStatus.FAILED,
+      failureReason: "Account closed",
+    });
+
+    expect(database.marketerEarnings.updateMany).toHaveBeenCalledWith({
+      where: { payoutId: "po1" },
+      data: { payoutId: null, paid: false },
+    });
+  });
+
+  it("does not settle a payout twice", async () => {
+    database.payout.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      repository.settle("po1", { status: PayoutStatus.SENT })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(database.marketerEarnings.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("MarketerPayoutService", () => {
+  const payoutRepository = {
+    createForMarketer: jest.fn(),
+    getPayout: jest.fn(),
+    settle: jest.fn(),
+  };
+  const marketerRepository = { getMarketerById: jest.fn() };
+  const service = new MarketerPayoutService(
+    payoutRepository as any,
+    marketerRepository as any,
+    createMockLogger()
+  );
+  const admin = { id: "admin1" } as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    marketerRepository.getMarketerById.mockResolvedValue({
+      id: "mk1",
+      ...account,
+    });
+  });
+
+  it("pays the earnings at once when the admin gives a bank reference", async () => {
+    payoutRepository.createForMarketer.mockResolvedValue({
+      id: "po1",
+      status: PayoutStatus.SENT,
+      amount: 625.5,
+    });
+
+    await service.createPayout("mk1", admin, "REF1");
+
+    expect(payoutRepository.createForMarketer).toHaveBeenCalledWith({
+      marketerId: "mk1",
+      approvedById: "admin1",
+      ...account,
+      status: PayoutStatus.SENT,
+      bankReference: "REF1",
+    });
+  });
+
+  it("rejects a payout when there are no unpaid earnings", async () => {
+    payoutRepository.createForMarketer.mockResolvedValue(null);
+
+    await expect(service.createPayout("mk1", admin)).rejects.toBeInstanceOf(
+      BadRequestException
+    );
+  });
+
+  it("leaves a payout with a transfer in progress to the provider", async () => {
+    payoutRepository.getPayout.mockResolvedValue({
+      id: "po1",
+      status: PayoutStatus.PENDING,
+      transferReference: "payout-po1",
+    });
+
+    await expect(
+      service.updatePayout("po1", { status: PayoutStatus.SENT } as any)
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(payoutRepository.settle).not.toHaveBeenCalled();
+  });
+});
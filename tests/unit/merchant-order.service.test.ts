@@ -0,0 +1,131 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+jest.mock("../../src/utils/email/email.service");
+
+import { OrderStatus } from "@prisma/client";
+import { databaseService } from "../../src/utils/database";
+import { MerchantOrderService } from "../../src/merchant/order/order.service";
+import { OrderRepository } from "../../src/repositories/order.repository";
+import { BadRequestException } from "../../src/utils/exceptions/bad-request.exception";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const database = databaseService as any;
+
+const order = (status: OrderStatus) => ({
+  id: "o1",
+  merchantId: "m1",
+  status,
+  totalAmount: 1000,
+  customer: { email: "customer@example.com", firstName: "Ada" },
+  products: [],
+});
+
+describe("MerchantOrderService.updateOrderStatus", () => {
+  const orderRepository = { getOrderById: jest.fn(), updateStatus: jest.fn() };
+  const service = new MerchantOrderService(
+    orderRepository as any,
+    createMockLogger()
+  );
+  const merchant = { id: "m1", brandName: "Shop" } as any;
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it("moves the order from its current status and restocks on cancel", async () => {
+    orderRepository.getOrderById.mockResolvedValue(order(OrderStatus.PENDING));
+    orderRepository.updateStatus.mockResolvedValue(
+      order(OrderStatus.CANCELLED)
+    );
+
+    await service.updateOrderStatus(merchant, "o1", OrderStatus.CANCELLED);
+
+    expect(orderRepository.updateStatus).toHaveBeenCalledWith(
+      "o1",
+      OrderStatus.PENDING,
+      OrderStatus.CANCELLED,
+      true
+    );
+  });
+
+  it("rejects a transition the workflow does not allow", async () => {
+    orderRepository.getOrderById.mockResolvedValue(order(OrderStatus.SHIPPED));
+
+    await expect(
+      service.updateOrderStatus(merchant, "o1", OrderStatus.CANCELLED)
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(orderRepository.updateStatus).not.toHaveBeenCalled();
+  });
+});
+
+describe("OrderRepository.updateStatus", () => {
+  const repository = new OrderRepository();
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it("returns line items to stock when the cancel applies", async () => {
+    database.order.updateMany.mockResolvedValue({ count: 1 });
+    database.cartProduct.findMany.mockResolvedValue([
+      { productId: "p1", variantId: null, quantity: 2 },
+    ]);
+    database.order.findUniqueOrThrow.mockResolvedValue(
+      order(OrderStatus.CANCELLED)
+    );
+
+    await repository.updateStatus(
+      "o1",
+      OrderStatus.PENDING,
+      OrderStatus.CANCELLED,
+      true
+    );
+
+    expect(database.order.updateMany).toHaveBeenCalledWith({
+      where: { id: "o1", status: OrderStatus.PENDING },
+      data: { status: OrderStatus.CANCELLED },
+    });
+    expect(database.product.update).toHaveBeenCalledWith({
+      where: { id: "p1" },
+      data: { stock: { increment: 2 } },
+    });
+  });
+
+  it("does not restock when another request changed the status first", async () => {
+    database.order.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      repository.updateStatus(
+        "o1",
+        OrderStatus.PENDING,
+        OrderStatus.CANCELLED,
+        true
+      )
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(database.cartProduct.findMany).not.toHaveBeenCalled();
+    expect(database.product.update).not.toHaveBeenCalled();
+  });
+
+  it("keeps a variant product's stock at the total of its variants when one was deleted", async () => {
+    database.order.updateMany.mockResolvedValue({ count: 1 });
+    database.cartProduct.findMany.mockResolvedValue([
+      { productId: "p1", variantId: "v1", quantity: 2 },
+    ]);
+    // v1 was deleted since the order was placed
+    database.productVariant.updateMany.mockResolvedValue({ count: 0 });
+    database.productVariant.aggregate.mockResolvedValue({ _sum: { stock: 5 } });
+    database.order.findUniqueOrThrow.mockResolvedValue(
+      order(OrderStatus.CANCELLED)
+    );
+
+    await repository.updateStatus(
+      "o1",
+      OrderStatus.PENDING,
+      OrderStatus.CANCELLED,
+      true
+    );
+
+    expect(database.product.update).toHaveBeenCalledTimes(1);
+    expect(database.product.update).toHaveBeenCalledWith({
+      where: { id: "p1" },
+      data: { stock: 5 },
+    });
+  });
+});
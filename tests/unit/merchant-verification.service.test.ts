@@ -0,0 +1,326 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import {
+  MerchantVerificationScope,
+  MerchantVerificationStatus,
+  MerchantVerificationType,
+} from "@prisma/client";
+import { ErrorMessages } from "../../src/constants/error-messages.enum";
+import { MerchantVerificationService } from "../../src/merchant/verification/merchant-verification.service";
+import { MerchantVerificationRepository } from "../../src/repositories/merchant-verification.repository";
+import { databaseService } from "../../src/utils/database";
+import { BadRequestException } from "../../src/utils/exceptions/bad-request.exception";
+import { NotFoundException } from "../../src/utils/exceptions/not-found.exception";
+import { IdentityGatewayService } from "../../src/utils/identity/identity-gateway.service";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const database = databaseService as any;
+
+const merchant = { id: "m1", brandName: "Ada Fabrics" } as any;
+const admin = { id: "admin1" } as any;
+
+const verification = {
+  id: "v1",
+  merchantId: "m1",
+  status: MerchantVerificationStatus.PENDING,
+  type: MerchantVerificationType.BUSINESS_REGISTRATION,
+  scope: MerchantVerificationScope.CAC,
+  idNumber: "RC123456",
+};
+
+describe("IdentityGatewayService", () => {
+  // configService reads process.env itself, so keys are restored rather than the object
+  const keys = [
+    "IDENTITY_VERIFIER",
+    "LOCAL_IDENTITY_VERIFIER_ENABLED",
+    "NODE_ENV",
+  ];
+  const env = Object.fromEntries(keys.map((key) => [key, process.env[key]]));
+
+  afterEach(() => {
+    for (const key of keys) {
+      if (env[key] === undefined) delete process.env[key];
+      else process.env[key] = env[key];
+    }
+  });
+
+  it("checks no registry unless one is configured", () => {
+    delete process.env.IDENTITY_VERIFIER;
+    delete process.env.LOCAL_IDENTITY_VERIFIER_ENABLED;
+    const gateway = new IdentityGatewayService(createMockLogger());
+
+    expect(gateway.localVerifier).toBeUndefined();
+    expect(gateway.getVerifier(MerchantVerificationScope.NIN)).toBeNull();
+  });
+
+  it("uses the local stub only when it is configured", () => {
+    process.env.IDENTITY_VERIFIER = "LOCAL";
+    const gateway = new IdentityGatewayService(createMockLogger());
+
+    expect(gateway.getVerifier(MerchantVerificationScope.NIN)).toBe(
+      gateway.localVerifier
+    );
+  });
+
+  it("never offers the local stub in production", () => {
+    process.env.NODE_ENV = "production";
+    process.env.IDENTITY_VERIFIER = "LOCAL";
+    process.env.LOCAL_IDENTITY_VERIFIER_ENABLED = "true";
+    const gateway = new IdentityGatewayService(createMockLogger());
+
+    expect(gateway.localVerifier).toBeUndefined();
+    expect(gateway.getVerifier(MerchantVerificationScope.NIN)).toBeNull();
+  });
+});
+
+describe("MerchantVerificationService.uploadDocument", () => {
+  const merchantVerificationRepository = {
+    getActive: jest.fn(),
+    create: jest.fn(),
+    recordCheck: jest.fn(),
+    review: jest.fn(),
+  };
+  const verifier = {
+    name: "TEST",
+    scopes: [MerchantVerificationScope.NIN, MerchantVerificationScope.CAC],
+    verify: jest.fn(),
+  };
+  const identityGateway = { getVerifier: jest.fn() };
+  const service = new MerchantVerificationService(
+    merchantVerificationRepository as any,
+    identityGateway as any,
+    createMockLogger()
+  );
+  const upload = () =>
+    service.uploadDocument(
+      merchant,
+      {
+        scope: MerchantVerificationScope.CAC,
+        idNumber: "RC123456",
+        name: "Someone Else Ltd",
+      } as any,
+      "uploads/cac.png"
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    merchantVerificationRepository.getActive.mockResolvedValue(null);
+    merchantVerificationRepository.create.mockResolvedValue(verification);
+    merchantVerificationRepository.recordCheck.mockImplementation(
+      async (id, data) => ({ ...verification, ...data })
+    );
+    merchantVerificationRepository.review.mockImplementation(
+      async (id, data) => ({ ...verification, ...data })
+    );
+    identityGateway.getVerifier.mockReturnValue(verifier);
+  });
+
+  it("approves a document the registry matches to the merchant's name", async () => {
+    verifier.verify.mockResolvedValue({ found: true, matchScore: 95, raw: {} });
+
+    const result = await upload();
+
+    expect(verifier.verify).toHaveBeenCalledWith({
+      scope: MerchantVerificationScope.CAC,
+      idNumber: "RC123456",
+      name: "Ada Fabrics",
+    });
+    expect(merchantVerificationRepository.review).toHaveBeenCalledWith(
+      "v1",
+      expect.objectContaining({ status: MerchantVerificationStatus.APPROVED })
+    );
+    expect(result.status).toBe(MerchantVerificationStatus.APPROVED);
+  });
+
+  it("leaves a match below the threshold for an admin", async () => {
+    verifier.verify.mockResolvedValue({ found: true, matchScore: 89, raw: {} });
+
+    const result = await upload();
+
+    expect(merchantVerificationRepository.recordCheck).toHaveBeenCalledWith(
+      "v1",
+      expect.objectContaining({ verifier: "TEST", matchScore: 89 })
+    );
+    expect(merchantVerificationRepository.review).not.toHaveBeenCalled();
+    expect(result.status).toBe(MerchantVerificationStatus.PENDING);
+  });
+
+  it("leaves a number the registry does not know for an admin", async () => {
+    verifier.verify.mockResolvedValue({ found: false, matchScore: 0, raw: {} });
+
+    await upload();
+
+    expect(merchantVerificationRepository.review).not.toHaveBeenCalled();
+  });
+
+  it("leaves the document for an admin when no registry is configured", async () => {
+    identityGateway.getVerifier.mockReturnValue(null);
+
+    const result = await upload();
+
+    expect(result).toBe(verification);
+    expect(merchantVerificationRepository.recordCheck).not.toHaveBeenCalled();
+    expect(merchantVerificationRepository.review).not.toHaveBeenCalled();
+  });
+});
+
+describe("MerchantVerificationService.reviewVerification", () => {
+  const merchantVerificationRepository = {
+    getById: jest.fn(),
+    review: jest.fn(),
+  };
+  const service = new MerchantVerificationService(
+    merchantVerificationRepository as any,
+    {} as any,
+    createMockLogger()
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    merchantVerificationRepository.getById.mockResolvedValue(verification);
+    merchantVerificationRepository.review.mockImplementation(
+      async (id, data) => ({ ...verification, ...data })
+    );
+  });
+
+  it("approves a pending document as the reviewing admin", async () => {
+    const result = await service.reviewVerification(
+      "v1",
+      { status: MerchantVerificationStatus.APPROVED },
+      admin
+    );
+
+    expect(merchantVerificationRepository.review).toHaveBeenCalledWith("v1", {
+      status: MerchantVerificationStatus.APPROVED,
+      reason: undefined,
+      reviewedById: "admin1",
+    });
+    expect(result.status).toBe(MerchantVerificationStatus.APPROVED);
+  });
+
+  it("rejects a pending document with the reason given", async () => {
+    await service.reviewVerification(
+      "v1",
+      { status: MerchantVerificationStatus.REJECTED, reason: "Blurry scan" },
+      admin
+    );
+
+    expect(merchantVerificationRepository.review).toHaveBeenCalledWith("v1", {
+      status: MerchantVerificationStatus.REJECTED,
+      reason: "Blurry scan",
+      reviewedById: "admin1",
+    });
+  });
+
+  it("requires a reason to reject a document", async () => {
+    await expect(
+      service.reviewVerification(
+        "v1",
+        { status: MerchantVerificationStatus.REJECTED },
+        admin
+      )
+    ).rejects.toThrow(ErrorMessages.MERCHANT_VERIFICATION_REASON_REQUIRED);
+    expect(merchantVerificationRepository.review).not.toHaveBeenCalled();
+  });
+
+  it("does not review a document twice", async () => {
+    merchantVerificationRepository.getById.mockResolvedValue({
+      ...verification,
+      status: MerchantVerificationStatus.APPROVED,
+    });
+
+    await expect(
+      service.reviewVerification(
+        "v1",
+        { status: MerchantVerificationStatus.REJECTED, reason: "Expired" },
+        admin
+      )
+    ).rejects.toThrow(ErrorMessages.MERCHANT_VERIFICATION_ALREADY_REVIEWED);
+    expect(merchantVerificationRepository.review).not.toHaveBeenCalled();
+  });
+
+  it("reports a document that does not exist", async () => {
+    merchantVerificationRepository.getById.mockResolvedValue(null);
+
+    await expect(
+      service.reviewVerification(
+        "missing",
+        { status: MerchantVerificationStatus.APPROVED },
+        admin
+      )
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
+
+describe("MerchantVerificationRepository.review", () => {
+  const repository = new MerchantVerificationRepository();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    database.merchantVerification.updateMany.mockResolvedValue({ count: 1 });
+    database.merchantVerification.findUniqueOrThrow.mockResolvedValue({
+      ...verification,
+      merchantId: "m1",
+    });
+  });
+
+  it("verifies the merchant once an identity and a business document are approved", async () => {
+    database.merchantVerification.findMany.mockResolvedValue([
+      { type: MerchantVerificationType.IDENTITY_VERIFICATION },
+      { type: MerchantVerificationType.BUSINESS_REGISTRATION },
+    ]);
+
+    await repository.review("v1", {
+      status: MerchantVerificationStatus.APPROVED,
+      reviewedById: "admin1",
+    });
+
+    expect(database.merchantVerification.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: "v1",
+        status: MerchantVerificationStatus.PENDING,
+        deletedAt: null,
+      },
+      data: expect.objectContaining({
+        status: MerchantVerificationStatus.APPROVED,
+        reviewedById: "admin1",
+        reviewedAt: expect.any(Date),
+      }),
+    });
+    expect(database.merchant.update).toHaveBeenCalledWith({
+      where: { id: "m1" },
+      data: { verified: true },
+    });
+  });
+
+  it("keeps the badge off while a document type has no approval", async () => {
+    database.merchantVerification.findMany.mockResolvedValue([
+      { type: MerchantVerificationType.IDENTITY_VERIFICATION },
+    ]);
+
+    await repository.review("v1", {
+      status: MerchantVerificationStatus.REJECTED,
+      reason: "Blurry scan",
+      reviewedById: "admin1",
+    });
+
+    expect(database.merchant.update).toHaveBeenCalledWith({
+      where: { id: "m1" },
+      data: { verified: false },
+    });
+  });
+
+  it("leaves a document another review already decided", async () => {
+    database.merchantVerification.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      repository.review("v1", {
+        status: MerchantVerificationStatus.APPROVED,
+        reviewedById: "admin1",
+      })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(database.merchant.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,8 @@
+export function createMockCustomerRepository(): any {
+  return {
+    getCustomerByEmail: jest.fn(),
+    getByGoogleId: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  };
+}
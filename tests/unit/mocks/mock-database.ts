@@ -0,0 +1,39 @@
+/**
+ * A stand-in for `databaseService`. Every model method, e.g. `product.updateMany`, and
+ * raw query, e.g. `$queryRaw`, is a jest.fn created on first use, and `$transaction` runs
+ * its callback against the same client, so a test scripts each query's result and checks
+ * the writes that were made.
+ */
+export function createMockDatabase(): any {
+  const delegates = new Map<string, Record<string, jest.Mock>>();
+  const rawQueries = new Map<string, jest.Mock>();
+  const database: any = new Proxy(
+    {},
+    {
+      get(_, model: string) {
+        if (model === "$transaction") return transaction;
+        if (typeof model === "string" && model.startsWith("$")) {
+          if (!rawQueries.has(model)) rawQueries.set(model, jest.fn());
+          return rawQueries.get(model);
+        }
+        if (!delegates.has(model)) {
+          const methods: Record<string, jest.Mock> = {};
+          delegates.set(
+            model,
+            new Proxy(methods, {
+              get(target, method: string) {
+                target[method] ??= jest.fn();
+                return target[method];
+              },
+            })
+          );
+        }
+        return delegates.get(model);
+      },
+    }
+  );
+  const transaction = jest.fn(async (queries: any) =>
+    typeof queries === "function" ? queries(database) : Promise.all(queries)
+  );
+  return database;
+}
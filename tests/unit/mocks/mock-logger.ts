@@ -0,0 +1,10 @@
+import { ILogger } from "../../../src/utils/logger/logger.interface";
+
+export function createMockLogger(): jest.Mocked<ILogger> & any {
+  return {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+}
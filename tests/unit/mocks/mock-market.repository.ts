@@ -0,0 +1,8 @@
+export function createMockMarketRepository(): any {
+  return {
+    findByName: jest.fn(),
+    findAllMarkets: jest.fn(),
+    findAllMalls: jest.fn(),
+    createMarket: jest.fn(),
+  };
+}
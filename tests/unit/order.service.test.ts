@@ -0,0 +1,198 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import { databaseService } from "../../src/utils/database";
+import { OrderService } from "../../src/customer/order/order.service";
+import { OrderRepository } from "../../src/repositories/order.repository";
+import { BadRequestException } from "../../src/utils/exceptions/bad-request.exception";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const database = databaseService as any;
+
+const product = (
+  id: string,
+  merchantId: string,
+  price: number,
+  stock = 10
+) => ({
+  id,
+  name: `Product ${id}`,
+  merchantId,
+  price,
+  stock,
+});
+
+describe("OrderService.checkout", () => {
+  const cartProductRepository = { getCart: jest.fn() };
+  const productRepository = { getById: jest.fn() };
+  const productVariantRepository = { getById: jest.fn() };
+  const orderRepository = { createFromCart: jest.fn() };
+  const service = new OrderService(
+    orderRepository as any,
+    cartProductRepository as any,
+    productRepository as any,
+    productVariantRepository as any,
+    createMockLogger()
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it("locks in current prices and orders every cart item", async () => {
+    cartProductRepository.getCart.mockResolvedValue([
+      { id: "c1", productId: "p1", quantity: 2, variantId: null },
+      { id: "c2", productId: "p2", quantity: 1, variantId: null },
+    ]);
+    productRepository.getById.mockImplementation(async (id: string) =>
+      id === "p1" ? product("p1", "m1", 500) : product("p2", "m2", 1200)
+    );
+    orderRepository.createFromCart.mockResolvedValue([
+      { id: "o1" },
+      { id: "o2" },
+    ]);
+
+    const orders = await service.checkout("customer");
+
+    expect(orders).toHaveLength(2);
+    expect(orderRepository.createFromCart).toHaveBeenCalledWith("customer", [
+      expect.objectContaining({
+        cartProductId: "c1",
+        merchantId: "m1",
+        quantity: 2,
+        unitPrice: 500,
+      }),
+      expect.objectContaining({
+        cartProductId: "c2",
+        merchantId: "m2",
+        quantity: 1,
+        unitPrice: 1200,
+      }),
+    ]);
+  });
+
+  it("rejects an empty cart", async () => {
+    cartProductRepository.getCart.mockResolvedValue([]);
+    await expect(service.checkout("customer")).rejects.toBeInstanceOf(
+      BadRequestException
+    );
+    expect(orderRepository.createFromCart).not.toHaveBeenCalled();
+  });
+
+  it("rejects items with more quantity than stock", async () => {
+    cartProductRepository.getCart.mockResolvedValue([
+      { id: "c1", productId: "p1", quantity: 5, variantId: null },
+    ]);
+    productRepository.getById.mockResolvedValue(product("p1", "m1", 500, 4));
+    await expect(service.checkout("customer")).rejects.toBeInstanceOf(
+      BadRequestException
+    );
+    expect(orderRepository.createFromCart).not.toHaveBeenCalled();
+  });
+});
+
+describe("OrderRepository.createFromCart", () => {
+  const repository = new OrderRepository();
+  const items = [
+    {
+      cartProductId: "c1",
+      productId: "p1",
+      merchantId: "m1",
+      quantity: 2,
+      unitPrice: 500,
+    },
+    {
+      cartProductId: "c2",
+      productId: "p2",
+      merchantId: "m1",
+      quantity: 1,
+      unitPrice: 300,
+    },
+    {
+      cartProductId: "c3",
+      productId: "p3",
+      merchantId: "m2",
+      quantity: 1,
+      unitPrice: 100,
+    },
+  ];
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it("decrements stock only where enough is left and creates one order per merchant", async () => {
+    database.product.updateMany.mockResolvedValue({ count: 1 });
+    database.order.create.mockImplementation(async ({ data }: any) => ({
+      id: `order-${data.merchant.connect.id}`,
+    }));
+    database.cartProduct.updateMany.mockResolvedValue({ count: 1 });
+    database.order.findMany.mockResolvedValue([
+      { id: "order-m1" },
+      { id: "order-m2" },
+    ]);
+
+    await repository.createFromCart("customer", items);
+
+    expect(database.product.updateMany).toHaveBeenCalledWith({
+      where: { id: "p1", stock: { gte: 2 } },
+      data: { stock: { decrement: 2 } },
+    });
+    expect(database.order.create).toHaveBeenCalledTimes(2);
+    expect(database.order.create.mock.calls[0][0].data.totalAmount).toBe(1300);
+    expect(database.order.create.mock.calls[1][0].data.totalAmount).toBe(100);
+    expect(database.cartProduct.updateMany).toHaveBeenCalledWith({
+      where: { id: "c1", orderId: null },
+      data: { unitPrice: 500, totalPrice: 1000, orderId: "order-m1" },
+    });
+    expect(database.cartProduct.updateMany).toHaveBeenCalledTimes(3);
+  });
+
+  it("fails without creating orders when a concurrent checkout took the stock", async () => {
+    database.product.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    await expect(
+      repository.createFromCart("customer", items)
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(database.order.create).not.toHaveBeenCalled();
+  });
+
+  it("rolls back a repeated checkout of rows another checkout already ordered", async () => {
+    database.product.updateMany.mockResolvedValue({ count: 1 });
+    database.order.create.mockResolvedValue({ id: "order-m1" });
+    database.cartProduct.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 1 });
+
+    await expect(
+      repository.createFromCart("customer", items)
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(database.order.findMany).not.toHaveBeenCalled();
+  });
+
+  it("sets a variant product's stock to the total of its variants", async () => {
+    database.productVariant.updateMany.mockResolvedValue({ count: 1 });
+    database.productVariant.aggregate.mockResolvedValue({ _sum: { stock: 7 } });
+    database.order.create.mockResolvedValue({ id: "order-m1" });
+    database.cartProduct.updateMany.mockResolvedValue({ count: 1 });
+    database.order.findMany.mockResolvedValue([{ id: "order-m1" }]);
+
+    await repository.createFromCart("customer", [
+      { ...items[0], variantId: "v1" },
+    ]);
+
+    expect(database.productVariant.updateMany).toHaveBeenCalledWith({
+      where: { id: "v1", deletedAt: null, stock: { gte: 2 } },
+      data: { stock: { decrement: 2 } },
+    });
+    expect(database.productVariant.aggregate).toHaveBeenCalledWith({
+      where: { productId: "p1", deletedAt: null },
+      _sum: { stock: true },
+    });
+    expect(database.product.update).toHaveBeenCalledWith({
+      where: { id: "p1" },
+      data: { stock: 7 },
+    });
+    expect(database.product.updateMany).not.toHaveBeenCalled();
+  });
+});
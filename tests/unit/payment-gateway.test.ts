@@ -0,0 +1,113 @@
+jest.mock("axios");
+
+import axios from "axios";
+import { PaymentProvider, PaymentStatus } from "@prisma/client";
+import { PaymentGatewayService } from "../../src/utils/payment/payment-gateway.service";
+import { QuickTellerProvider } from "../../src/utils/payment/providers";
+import { BadRequestException } from "../../src/utils/exceptions/bad-request.exception";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe("PaymentGatewayService", () => {
+  // configService reads process.env itself, so keys are restored rather than the object
+  const keys = ["PAYMENT_PROVIDER", "NODE_ENV", "FAKE_PAYMENTS_ENABLED"];
+  const env = Object.fromEntries(keys.map((key) => [key, process.env[key]]));
+
+  afterEach(() => {
+    for (const key of keys) {
+      if (env[key] === undefined) delete process.env[key];
+      else process.env[key] = env[key];
+    }
+  });
+
+  it("uses Paystack unless another provider is configured", () => {
+    delete process.env.PAYMENT_PROVIDER;
+    const gateway = new PaymentGatewayService(createMockLogger());
+
+    expect(gateway.getProvider().name).toBe(PaymentProvider.PAYSTACK);
+    expect(gateway.getProvider(PaymentProvider.QUICKTELLER).name).toBe(
+      PaymentProvider.QUICKTELLER
+    );
+  });
+
+  it("switches the default provider from configuration", () => {
+    process.env.PAYMENT_PROVIDER = PaymentProvider.QUICKTELLER;
+    const gateway = new PaymentGatewayService(createMockLogger());
+
+    expect(gateway.getProvider().name).toBe(PaymentProvider.QUICKTELLER);
+  });
+
+  it("never offers the fake provider in production", () => {
+    process.env.NODE_ENV = "production";
+    process.env.FAKE_PAYMENTS_ENABLED = "true";
+    const gateway = new PaymentGatewayService(createMockLogger());
+
+    expect(gateway.fakeProvider).toBeUndefined();
+    expect(() => gateway.getProvider(PaymentProvider.FAKE)).toThrow(
+      BadRequestException
+    );
+  });
+});
+
+describe("QuickTellerProvider.initializePayment", () => {
+  const provider = new QuickTellerProvider(createMockLogger());
+
+  it("sends fractional naira amounts as whole kobo", async () => {
+    const initialization = await provider.initializePayment("t1", 1234.56);
+
+    expect(initialization.reference).toBe("txn-t1");
+    expect(initialization.checkout.amount).toBe(123456);
+  });
+});
+
+describe("QuickTellerProvider.verifyPayment", () => {
+  const provider = new QuickTellerProvider(createMockLogger());
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it("maps an approved requery to a successful payment in naira", async () => {
+    mockedAxios.get.mockResolvedValue({
+      data: { ResponseCode: "00", Amount: 500000 },
+    });
+
+    const verification = await provider.verifyPayment("txn-t1", 5000);
+
+    expect(verification).toMatchObject({
+      status: PaymentStatus.SUCCESS,
+      amount: 5000,
+      reference: "txn-t1",
+    });
+    expect(mockedAxios.get.mock.calls[0][1]?.params).toMatchObject({
+      transactionreference: "txn-t1",
+      amount: 500000,
+    });
+  });
+
+  it("requeries fractional naira amounts as whole kobo", async () => {
+    mockedAxios.get.mockResolvedValue({
+      data: { ResponseCode: "00", Amount: 123456 },
+    });
+
+    const verification = await provider.verifyPayment("txn-t1", 1234.56);
+
+    expect(mockedAxios.get.mock.calls[0][1]?.params.amount).toBe(123456);
+    expect(verification?.amount).toBe(1234.56);
+  });
+
+  it("treats an unknown response code as a failed payment", async () => {
+    mockedAxios.get.mockResolvedValue({
+      data: { ResponseCode: "Z25", Amount: 0 },
+    });
+
+    const verification = await provider.verifyPayment("txn-t1", 5000);
+
+    expect(verification?.status).toBe(PaymentStatus.FAILED);
+  });
+
+  it("leaves the payment unverified when Interswitch cannot be reached", async () => {
+    mockedAxios.get.mockRejectedValue(new Error("ECONNRESET"));
+
+    await expect(provider.verifyPayment("txn-t1", 5000)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import { createHmac } from "crypto";
+import { PaymentProvider, PaymentStatus } from "@prisma/client";
+import { PaystackEvents } from "../../src/constants/payment.enum";
+import { PaymentService } from "../../src/payment/payment.service";
+import { UnauthorizedException } from "../../src/utils/exceptions/unauthorized.exception";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const SECRET_KEY = "sk_test_webhook";
+
+const transaction = {
+  id: "t1",
+  amount: 5000,
+  status: PaymentStatus.PENDING,
+  provider: PaymentProvider.PAYSTACK,
+} as any;
+
+const chargeEvent = (event: string, amount = 500000) => ({
+  event,
+  data: {
+    reference: "txn-t1",
+    status: "success",
+    amount,
+    authorization: { reusable: false },
+  },
+});
+
+describe("Paystack webhooks", () => {
+  const adService = {
+    completeAdPayment: jest.fn(),
+    failAdPayment: jest.fn(),
+    saveAuthorization: jest.fn(),
+  };
+  const payoutTransferService = { handleTransferEvent: jest.fn() };
+  const transactionRepository = { getTransaction: jest.fn() };
+  let service: PaymentService;
+
+  beforeAll(() => {
+    process.env.PAYSTACK_SECRET_KEY = SECRET_KEY;
+    service = new PaymentService(
+      adService as any,
+      payoutTransferService as any,
+      transactionRepository as any,
+      {} as any,
+      createMockLogger()
+    );
+  });
+
+  afterAll(() => {
+    delete process.env.PAYSTACK_SECRET_KEY;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    transactionRepository.getTransaction.mockResolvedValue(transaction);
+  });
+
+  describe("verifyPaystackSignature", () => {
+    const body = Buffer.from(
+      JSON.stringify(chargeEvent(PaystackEvents.CHARGE_SUCCESS))
+    );
+    const sign = (rawBody: Buffer) =>
+      createHmac("sha512", SECRET_KEY).update(rawBody).digest("hex");
+
+    it("accepts a body signed with the secret key", () => {
+      expect(() =>
+        service.verifyPaystackSignature(body, sign(body))
+      ).not.toThrow();
+    });
+
+    it("rejects a body changed after it was signed", () => {
+      const tampered = Buffer.from(
+        JSON.stringify(chargeEvent(PaystackEvents.CHARGE_SUCCESS, 1))
+      );
+
+      expect(() =>
+        service.verifyPaystackSignature(tampered, sign(body))
+      ).toThrow(UnauthorizedException);
+    });
+
+    it("rejects a request without a signature", () => {
+      expect(() => service.verifyPaystackSignature(body)).toThrow(
+        UnauthorizedException
+      );
+    });
+  });
+
+  describe("handlePaystackEvent", () => {
+    it("completes the transaction for a successful charge", async () => {
+      await service.handlePaystackEvent(
+        chargeEvent(PaystackEvents.CHARGE_SUCCESS)
+      );
+
+      expect(transactionRepository.getTransaction).toHaveBeenCalledWith("t1");
+      expect(adService.completeAdPayment).toHaveBeenCalledWith(transaction);
+    });
+
+    it("marks an underpaid charge incomplete instead of completing it", async () => {
+      await service.handlePaystackEvent(
+        chargeEvent(PaystackEvents.CHARGE_SUCCESS, 499999)
+      );
+
+      expect(adService.failAdPayment).toHaveBeenCalledWith(
+        transaction,
+        PaymentStatus.INCOMPLETE
+      );
+      expect(adService.completeAdPayment).not.toHaveBeenCalled();
+    });
+
+    it("ignores an event for a transaction taken by another provider", async () => {
+      transactionRepository.getTransaction.mockResolvedValue({
+        ...transaction,
+        provider: PaymentProvider.QUICKTELLER,
+      });
+
+      await service.handlePaystackEvent(
+        chargeEvent(PaystackEvents.CHARGE_SUCCESS)
+      );
+
+      expect(adService.completeAdPayment).not.toHaveBeenCalled();
+      expect(adService.failAdPayment).not.toHaveBeenCalled();
+    });
+
+    it("acknowledges an unknown reference without failing", async () => {
+      transactionRepository.getTransaction.mockResolvedValue(null);
+
+      await expect(
+        service.handlePaystackEvent(chargeEvent(PaystackEvents.CHARGE_FAILED))
+      ).resolves.toBeUndefined();
+      expect(adService.failAdPayment).not.toHaveBeenCalled();
+    });
+
+    it("passes transfer events on to payouts", async () => {
+      const payload = {
+        event: PaystackEvents.TRANSFER_SUCCESS,
+        data: { reference: "payout-po1", status: "success", amount: 62550 },
+      };
+
+      await service.handlePaystackEvent(payload);
+
+      expect(payoutTransferService.handleTransferEvent).toHaveBeenCalledWith(
+        payload,
+        PaymentProvider.PAYSTACK
+      );
+    });
+  });
+});
@@ -0,0 +1,160 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import { PaymentProvider, PayoutStatus } from "@prisma/client";
+import { PaystackEvents } from "../../src/constants/payment.enum";
+import { PayoutTransferService } from "../../src/marketer/payout/payout-transfer.service";
+import { BadRequestException } from "../../src/utils/exceptions/bad-request.exception";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const payout = {
+  id: "po1",
+  amount: 625.5,
+  status: PayoutStatus.PENDING,
+  accountName: "Ada Obi",
+  accountBank: "058",
+  accountNumber: "0123456789",
+  provider: null,
+  transferReference: null,
+  recipientCode: null,
+} as any;
+
+describe("PayoutTransferService", () => {
+  const payoutRepository = {
+    getPayout: jest.fn(),
+    getPayoutByTransferReference: jest.fn(),
+    startTransfer: jest.fn(),
+    updateTransfer: jest.fn(),
+    settle: jest.fn(),
+  };
+  const provider = {
+    name: PaymentProvider.PAYSTACK,
+    resolveBankAccount: jest.fn(),
+    createTransferRecipient: jest.fn(),
+    initiateTransfer: jest.fn(),
+  };
+  const paymentGateway = { getTransferProvider: jest.fn(() => provider) };
+  const service = new PayoutTransferService(
+    payoutRepository as any,
+    paymentGateway as any,
+    createMockLogger()
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    payoutRepository.getPayout.mockResolvedValue(payout);
+    payoutRepository.startTransfer.mockResolvedValue(true);
+    payoutRepository.settle.mockImplementation(async (id, data) => ({
+      id,
+      ...data,
+    }));
+    provider.resolveBankAccount.mockResolvedValue({
+      accountName: "OBI ADA CHIOMA",
+      accountNumber: "0123456789",
+      bankCode: "058",
+    });
+    provider.createTransferRecipient.mockResolvedValue("RCP_1");
+  });
+
+  it("claims the payout before sending the transfer and settles it when it succeeds", async () => {
+    provider.initiateTransfer.mockResolvedValue({
+      status: "success",
+      reference: "payout-po1",
+      transferCode: "TRF_1",
+    });
+
+    await service.transferPayout("po1");
+
+    expect(payoutRepository.startTransfer).toHaveBeenCalledWith("po1", {
+      provider: PaymentProvider.PAYSTACK,
+      transferReference: "payout-po1",
+      recipientCode: "RCP_1",
+    });
+    expect(
+      payoutRepository.startTransfer.mock.invocationCallOrder[0]
+    ).toBeLessThan(provider.initiateTransfer.mock.invocationCallOrder[0]);
+    expect(provider.initiateTransfer).toHaveBeenCalledWith(
+      "payout-po1",
+      625.5,
+      "RCP_1",
+      expect.any(String)
+    );
+    expect(payoutRepository.settle).toHaveBeenCalledWith(
+      "po1",
+      { status: PayoutStatus.SENT, bankReference: "TRF_1" },
+      undefined
+    );
+  });
+
+  it("does not send a transfer another run already started", async () => {
+    payoutRepository.startTransfer.mockResolvedValue(false);
+
+    await expect(service.transferPayout("po1")).rejects.toBeInstanceOf(
+      BadRequestException
+    );
+    expect(provider.initiateTransfer).not.toHaveBeenCalled();
+  });
+
+  it("fails the payout without sending money when the account name does not match", async () => {
+    provider.resolveBankAccount.mockResolvedValue({
+      accountName: "EMEKA NWOSU",
+      accountNumber: "0123456789",
+      bankCode: "058",
+    });
+
+    await service.transferPayout("po1");
+
+    expect(payoutRepository.settle).toHaveBeenCalledWith(
+      "po1",
+      expect.objectContaining({ status: PayoutStatus.FAILED }),
+      undefined
+    );
+    expect(payoutRepository.startTransfer).not.toHaveBeenCalled();
+    expect(provider.initiateTransfer).not.toHaveBeenCalled();
+  });
+
+  it("acknowledges a repeated success webhook for a settled payout", async () => {
+    payoutRepository.getPayoutByTransferReference.mockResolvedValue({
+      ...payout,
+      provider: PaymentProvider.PAYSTACK,
+      transferReference: "payout-po1",
+    });
+    payoutRepository.settle.mockRejectedValueOnce(
+      new BadRequestException("Payout Has Already Been Settled")
+    );
+
+    await expect(
+      service.handleTransferEvent(
+        {
+          event: PaystackEvents.TRANSFER_SUCCESS,
+          data: { reference: "payout-po1", transfer_code: "TRF_1" },
+        } as any,
+        PaymentProvider.PAYSTACK
+      )
+    ).resolves.toBeUndefined();
+  });
+
+  it("fails a sent payout when its transfer is reversed", async () => {
+    payoutRepository.getPayoutByTransferReference.mockResolvedValue({
+      ...payout,
+      status: PayoutStatus.SENT,
+      provider: PaymentProvider.PAYSTACK,
+      transferReference: "payout-po1",
+    });
+
+    await service.handleTransferEvent(
+      {
+        event: PaystackEvents.TRANSFER_REVERSED,
+        data: { reference: "payout-po1" },
+      } as any,
+      PaymentProvider.PAYSTACK
+    );
+
+    expect(payoutRepository.settle).toHaveBeenCalledWith(
+      "po1",
+      { status: PayoutStatus.FAILED, failureReason: "Transfer reversed" },
+      [PayoutStatus.PENDING, PayoutStatus.SENT]
+    );
+  });
+});
@@ -0,0 +1,141 @@
+jest.mock("../../src/utils/database", () => ({
+  databaseService: require("./mocks/mock-database").createMockDatabase(),
+}));
+
+import { PaymentProvider, PaymentStatus } from "@prisma/client";
+import { ReconciliationService } from "../../src/payment/reconciliation.service";
+import { createMockLogger } from "./mocks/mock-logger";
+
+const HOUR = 60 * 60 * 1000;
+
+const transaction = (status: PaymentStatus, ageHours: number) =>
+  ({
+    id: "t1",
+    amount: 5000,
+    status,
+    provider: PaymentProvider.FAKE,
+    date: new Date(Date.now() - ageHours * HOUR),
+  }) as any;
+
+describe("ReconciliationService.reconcile", () => {
+  const adService = {
+    settleAdPayment: jest.fn(),
+    failAdPayment: jest.fn(),
+    fulfilAdPayment: jest.fn(),
+  };
+  const transactionRepository = {
+    getStaleTransactions: jest.fn(),
+    getUnfulfilledPayments: jest.fn(),
+  };
+  const reconciliationReportRepository = { create: jest.fn() };
+  const provider = { verifyPayment: jest.fn() };
+  const paymentGateway = { getProvider: jest.fn(() => provider) };
+  const service = new ReconciliationService(
+    adService as any,
+    transactionRepository as any,
+    reconciliationReportRepository as any,
+    paymentGateway as any,
+    createMockLogger()
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    transactionRepository.getUnfulfilledPayments.mockResolvedValue([]);
+    reconciliationReportRepository.create.mockImplementation(
+      async (data) => data
+    );
+    adService.failAdPayment.mockImplementation(async (t, status) => ({
+      ...t,
+      status,
+    }));
+  });
+
+  it("settles a transaction the provider verified", async () => {
+    const stale = transaction(PaymentStatus.PENDING, 1);
+    transactionRepository.getStaleTransactions.mockResolvedValue([stale]);
+    provider.verifyPayment.mockResolvedValue({
+      status: PaymentStatus.SUCCESS,
+      amount: 5000,
+    });
+    adService.settleAdPayment.mockResolvedValue({
+      ...stale,
+      status: PaymentStatus.SUCCESS,
+    });
+
+    const report: any = await service.reconcile();
+
+    expect(report.succeeded).toBe(1);
+    expect(report.entries).toEqual([
+      expect.objectContaining({
+        transactionId: "t1",
+        previousStatus: PaymentStatus.PENDING,
+        status: PaymentStatus.SUCCESS,
+      }),
+    ]);
+    expect(adService.failAdPayment).not.toHaveBeenCalled();
+  });
+
+  it("leaves a recent pending transaction for the next pass", async () => {
+    const stale = transaction(PaymentStatus.PENDING, 1);
+    transactionRepository.getStaleTransactions.mockResolvedValue([stale]);
+    provider.verifyPayment.mockResolvedValue({
+      status: PaymentStatus.PENDING,
+    });
+    adService.settleAdPayment.mockResolvedValue(stale);
+
+    const report: any = await service.reconcile();
+
+    expect(report.pending).toBe(1);
+    expect(adService.failAdPayment).not.toHaveBeenCalled();
+  });
+
+  it("abandons a transaction the provider never settled after the cutoff", async () => {
+    const stale = transaction(PaymentStatus.PENDING, 25);
+    transactionRepository.getStaleTransactions.mockResolvedValue([stale]);
+    provider.verifyPayment.mockResolvedValue({
+      status: PaymentStatus.PENDING,
+    });
+    adService.settleAdPayment.mockResolvedValue(stale);
+
+    const report: any = await service.reconcile();
+
+    expect(adService.failAdPayment).toHaveBeenCalledWith(
+      stale,
+      PaymentStatus.INCOMPLETE
+    );
+    expect(report.incomplete).toBe(1);
+  });
+
+  it("abandons a transaction that keeps failing verification after the cutoff", async () => {
+    const stale = transaction(PaymentStatus.INITIALIZED, 25);
+    transactionRepository.getStaleTransactions.mockResolvedValue([stale]);
+    provider.verifyPayment.mockRejectedValue(new Error("provider down"));
+
+    const report: any = await service.reconcile();
+
+    expect(adService.failAdPayment).toHaveBeenCalledWith(
+      stale,
+      PaymentStatus.INCOMPLETE
+    );
+    expect(report.errored).toBe(1);
+    expect(report.entries[0]).toMatchObject({
+      status: PaymentStatus.INCOMPLETE,
+      error: "provider down",
+    });
+  });
+
+  it("retries successful payments that were not fulfilled", async () => {
+    const paid = transaction(PaymentStatus.SUCCESS, 2);
+    transactionRepository.getStaleTransactions.mockResolvedValue([]);
+    transactionRepository.getUnfulfilledPayments.mockResolvedValue([paid]);
+
+    const report: any = await service.reconcile();
+
+    expect(adService.fulfilAdPayment).toHaveBeenCalledWith(paid);
+    expect(report.checked).toBe(0);
+    expect(report.succeeded).toBe(0);
+    expect(report.entries).toEqual([
+      expect.objectContaining({ transactionId: "t1", fulfilment: true }),
+    ]);
+  });
+});